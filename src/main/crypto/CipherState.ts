@@ -1,5 +1,12 @@
 import { createHash, createHmac } from 'crypto';
 import * as crypto from 'crypto';
+import { ReplayWindow } from './ReplayWindow';
+
+/**
+ * Noise reserves nonce 2^64-1 for rekeying, so it may never be used to
+ * encrypt a message
+ */
+export const MAX_NONCE = 0xffffffffffffffffn;
 
 /**
  * CipherState implements the Noise Protocol cipher operations
@@ -8,6 +15,7 @@ import * as crypto from 'crypto';
 export class CipherState {
   private key: Buffer | null = null;
   private nonce: bigint = 0n;
+  private replayWindow: ReplayWindow = new ReplayWindow();
 
   /**
    * Initializes the cipher with a key
@@ -18,6 +26,7 @@ export class CipherState {
     }
     this.key = Buffer.from(key);
     this.nonce = 0n;
+    this.replayWindow.reset();
   }
 
   /**
@@ -42,6 +51,7 @@ export class CipherState {
     if (!this.key) {
       throw new Error('CipherState not initialized');
     }
+    this.checkNonce();
 
     // Encode nonce as 96-bit (12 bytes) little-endian
     const nonceBuffer = Buffer.alloc(12);
@@ -78,6 +88,40 @@ export class CipherState {
     if (!this.key) {
       throw new Error('CipherState not initialized');
     }
+    this.checkNonce();
+
+    const decrypted = this.decryptAt(this.nonce, ad, ciphertext);
+    this.nonce++;
+    return decrypted;
+  }
+
+  /**
+   * Decrypts a message sent with an explicit nonce. Messages may arrive out
+   * of order or not at all, so any nonce inside the replay window is
+   * accepted, but only once. Afterwards getNonce() is one past the highest
+   * nonce received.
+   */
+  decryptWithNonce(nonce: bigint, ad: Buffer, ciphertext: Buffer): Buffer {
+    if (!this.key) {
+      throw new Error('CipherState not initialized');
+    }
+    if (nonce >= MAX_NONCE) {
+      throw new Error('Nonce exhausted; the session must be re-established');
+    }
+    if (!this.replayWindow.check(nonce)) {
+      throw new Error('Replayed or out-of-window nonce');
+    }
+
+    const decrypted = this.decryptAt(nonce, ad, ciphertext);
+    this.replayWindow.accept(nonce);
+    if (nonce >= this.nonce) {
+      this.nonce = nonce + 1n;
+    }
+    return decrypted;
+  }
+
+  private decryptAt(nonce: bigint, ad: Buffer, ciphertext: Buffer): Buffer {
+    const key = this.key!;
 
     // Auth tag is last 16 bytes
     if (ciphertext.length < 16) {
@@ -90,12 +134,12 @@ export class CipherState {
 
     // Encode nonce as 96-bit (12 bytes) little-endian
     const nonceBuffer = Buffer.alloc(12);
-    nonceBuffer.writeBigUInt64LE(this.nonce & 0xffffffffffffffffn, 0);
-    nonceBuffer.writeUInt32LE(Number((this.nonce >> 64n) & 0xffffffffn), 8);
+    nonceBuffer.writeBigUInt64LE(nonce & 0xffffffffffffffffn, 0);
+    nonceBuffer.writeUInt32LE(Number((nonce >> 64n) & 0xffffffffn), 8);
 
     try {
       // Create decipher
-      const decipher = crypto.createDecipheriv('chacha20-poly1305', this.key, nonceBuffer);
+      const decipher = crypto.createDecipheriv('chacha20-poly1305', key, nonceBuffer);
       
       // Set AAD
       decipher.setAAD(ad, { plaintextLength: actualCiphertext.length });
@@ -108,9 +152,6 @@ export class CipherState {
         decipher.update(actualCiphertext),
         decipher.final()
       ]);
-      
-      // Increment nonce
-      this.nonce++;
 
       return decrypted;
     } catch (error) {
@@ -149,6 +190,16 @@ export class CipherState {
     this.initializeKey(encrypted.slice(0, 32));
   }
 
+  /**
+   * Refuses to go on once the nonce is exhausted; reusing a nonce would
+   * break the cipher
+   */
+  private checkNonce(): void {
+    if (this.nonce >= MAX_NONCE) {
+      throw new Error('Nonce exhausted; the session must be re-established');
+    }
+  }
+
   /**
    * Gets the current nonce value
    */
@@ -156,6 +207,19 @@ export class CipherState {
     return this.nonce;
   }
 
+  /**
+   * Copies the key, nonce and replay window into an independent CipherState
+   */
+  clone(): CipherState {
+    const copy = new CipherState();
+    if (this.key) {
+      copy.initializeKey(this.key);
+    }
+    copy.nonce = this.nonce;
+    copy.replayWindow = this.replayWindow.clone();
+    return copy;
+  }
+
   /**
    * Clears sensitive data
    */
@@ -165,6 +229,7 @@ export class CipherState {
       this.key = null;
     }
     this.nonce = 0n;
+    this.replayWindow.reset();
   }
 }
 
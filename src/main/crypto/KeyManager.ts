@@ -1,6 +1,10 @@
 import * as nacl from 'tweetnacl';
 import { createHash } from 'crypto';
-import { KeyPair, Identity } from '../../shared/types';
+import { getPublicKey, nip19 } from 'nostr-tools';
+import { KeyPair, Identity, NostrKeyPair } from '../../shared/types';
+
+// Order of the secp256k1 group; valid private keys are in [1, n - 1]
+const SECP256K1_ORDER = BigInt('0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141');
 
 /**
  * KeyManager handles cryptographic key generation and management
@@ -9,7 +13,7 @@ import { KeyPair, Identity } from '../../shared/types';
  * Key Types:
  * - Curve25519: Used for Noise Protocol Diffie-Hellman operations
  * - Ed25519: Used for message signatures
- * - Secp256k1: For Nostr protocol (derived from Curve25519)
+ * - Secp256k1: For Nostr protocol (BIP-340, derived from Curve25519)
  */
 export class KeyManager {
   /**
@@ -81,26 +85,98 @@ export class KeyManager {
   }
 
   /**
-   * Derives Nostr keys from Noise static key
-   * This is a placeholder - actual implementation would need proper secp256k1
+   * Derives a secp256k1 Nostr key pair from the Noise static key.
+   * The same identity always yields the same Nostr key. Candidates are
+   * re-hashed with a counter until one is a valid secp256k1 scalar.
    */
-  static deriveNostrKeys(noiseKeyPair: KeyPair): { publicKey: string; privateKey: string } {
-    // For now, we'll use a deterministic derivation from the Noise key
-    // In production, this would use proper secp256k1 key derivation
-    const seed = createHash('sha256')
-      .update(noiseKeyPair.privateKey)
-      .update('nostr-key-derivation')
-      .digest();
-    
-    // Generate a new keypair from the seed
-    const keyPair = nacl.sign.keyPair.fromSeed(new Uint8Array(seed));
-    
+  static deriveNostrKeys(noiseKeyPair: KeyPair): NostrKeyPair {
+    for (let counter = 0; ; counter++) {
+      const candidate = createHash('sha256')
+        .update(noiseKeyPair.privateKey)
+        .update('nostr-key-derivation')
+        .update(Buffer.from([counter]))
+        .digest();
+
+      if (this.isValidNostrPrivateKey(candidate)) {
+        return this.nostrKeysFromPrivateKey(candidate);
+      }
+    }
+  }
+
+  /**
+   * Builds a Nostr key pair from a 32-byte secp256k1 private key.
+   * The public key is the BIP-340 x-only key, both as hex.
+   */
+  static nostrKeysFromPrivateKey(privateKey: Buffer): NostrKeyPair {
+    if (!this.isValidNostrPrivateKey(privateKey)) {
+      throw new Error('Invalid secp256k1 private key');
+    }
+
     return {
-      publicKey: Buffer.from(keyPair.publicKey).toString('hex'),
-      privateKey: Buffer.from(keyPair.secretKey).toString('hex')
+      publicKey: getPublicKey(new Uint8Array(privateKey)),
+      privateKey: privateKey.toString('hex')
     };
   }
 
+  /**
+   * Imports an existing Nostr identity from its nsec
+   */
+  static importNsec(nsec: string): NostrKeyPair {
+    return this.nostrKeysFromPrivateKey(Buffer.from(this.decodeNsec(nsec), 'hex'));
+  }
+
+  /**
+   * Encodes a hex Nostr public key as npub
+   */
+  static encodeNpub(publicKey: string): string {
+    return nip19.npubEncode(publicKey);
+  }
+
+  /**
+   * Decodes an npub to a hex Nostr public key
+   */
+  static decodeNpub(npub: string): string {
+    const decoded = this.decodeBech32(npub.trim());
+    if (decoded.type !== 'npub') {
+      throw new Error(`Expected npub, got ${decoded.type}`);
+    }
+    return decoded.data;
+  }
+
+  /**
+   * Encodes a hex Nostr private key as nsec
+   */
+  static encodeNsec(privateKey: string): string {
+    return nip19.nsecEncode(new Uint8Array(Buffer.from(privateKey, 'hex')));
+  }
+
+  /**
+   * Decodes an nsec to a hex Nostr private key
+   */
+  static decodeNsec(nsec: string): string {
+    const decoded = this.decodeBech32(nsec.trim());
+    if (decoded.type !== 'nsec') {
+      throw new Error(`Expected nsec, got ${decoded.type}`);
+    }
+    return Buffer.from(decoded.data).toString('hex');
+  }
+
+  private static decodeBech32(value: string): ReturnType<typeof nip19.decode> {
+    try {
+      return nip19.decode(value);
+    } catch (error) {
+      throw new Error(`Invalid bech32 key: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private static isValidNostrPrivateKey(privateKey: Buffer): boolean {
+    if (privateKey.length !== 32) {
+      return false;
+    }
+    const scalar = BigInt('0x' + privateKey.toString('hex'));
+    return scalar > 0n && scalar < SECP256K1_ORDER;
+  }
+
   /**
    * Creates a complete identity with all required keys
    */
@@ -35,6 +35,10 @@ export interface HandshakeState {
   isComplete: boolean;
 }
 
+// Transport messages start with the nonce they were encrypted under, so
+// they can be decrypted after a loss or out of order
+export const TRANSPORT_NONCE_SIZE = 8;
+
 export interface NoiseSession {
   sendCipher: CipherState;
   receiveCipher: CipherState;
@@ -413,17 +417,33 @@ export class NoiseProtocol {
   }
 
   /**
-   * Encrypts a message using an established session
+   * Encrypts a message using an established session. The result is the
+   * 8-byte big-endian nonce followed by the ciphertext.
    */
   static encryptMessage(session: NoiseSession, plaintext: Buffer): Buffer {
-    return session.sendCipher.encryptWithAd(Buffer.alloc(0), plaintext);
+    const nonce = Buffer.alloc(TRANSPORT_NONCE_SIZE);
+    nonce.writeBigUInt64BE(session.sendCipher.getNonce());
+    return Buffer.concat([nonce, session.sendCipher.encryptWithAd(Buffer.alloc(0), plaintext)]);
   }
 
   /**
-   * Decrypts a message using an established session
+   * Decrypts a message using an established session, accepting messages
+   * out of order but never twice
    */
-  static decryptMessage(session: NoiseSession, ciphertext: Buffer): Buffer {
-    return session.receiveCipher.decryptWithAd(Buffer.alloc(0), ciphertext);
+  static decryptMessage(session: NoiseSession, message: Buffer): Buffer {
+    return NoiseProtocol.decryptWith(session.receiveCipher, message);
+  }
+
+  /**
+   * Decrypts a transport message with a given receive cipher
+   */
+  static decryptWith(cipher: CipherState, message: Buffer): Buffer {
+    if (message.length < TRANSPORT_NONCE_SIZE) {
+      throw new Error('Message too short');
+    }
+
+    const nonce = message.readBigUInt64BE(0);
+    return cipher.decryptWithNonce(nonce, Buffer.alloc(0), message.subarray(TRANSPORT_NONCE_SIZE));
   }
 
   /**
@@ -1,6 +1,7 @@
 import { EventEmitter } from 'events';
 import { NoiseProtocol, NoiseSession, HandshakeRole, HandshakeState } from './NoiseProtocol';
 import { KeyManager } from './KeyManager';
+import { CipherState, MAX_NONCE } from './CipherState';
 import { KeyPair, NoiseSession as NoiseSessionType } from '../../shared/types';
 import { MessageType } from '../../shared/constants';
 
@@ -11,6 +12,9 @@ export interface SessionInfo {
   lastActivity: Date;
   handshakeState: 'none' | 'initiated' | 'completed';
   fingerprint: string;
+  messagesSinceRekey: number; // messages encrypted under the current send key
+  lastRekey: Date;
+  previousReceiveCipher?: CipherState; // for messages overtaken by the peer's last rekey
 }
 
 export interface HandshakeInfo {
@@ -20,17 +24,56 @@ export interface HandshakeInfo {
   timeoutTimer?: NodeJS.Timeout;
 }
 
+export interface NoiseSessionManagerOptions {
+  rekeyAfterMessages?: number; // messages sent before the send key is rotated
+  rekeyAfterMs?: number; // ms a send key may be used before it is rotated
+  nonceLimit?: bigint; // nonce at which the session is torn down and re-established
+  isBlocked?: (remoteStaticPublicKey: Buffer) => boolean; // static keys we refuse handshakes with
+}
+
+// Control byte carried, encrypted, in a NOISE_REKEY message
+const REKEY_REQUEST = 0x01; // I rotated my send key; please rotate yours
+const REKEY_ACK = 0x02; // I rotated my send key in answer to your request
+
+/**
+ * NoiseSessionManager runs Noise XX handshakes and holds the resulting
+ * sessions.
+ *
+ * Each side rotates its send key with CipherState.rekey() once it has sent
+ * rekeyAfterMessages messages or used the key for rekeyAfterMs. Rotation is
+ * announced with a NOISE_REKEY message encrypted under the old key, so the
+ * peer rotates its receive key at exactly the same point in the stream. A
+ * REKEY_REQUEST asks the peer to rotate its own send key in turn, which
+ * keeps forward secrecy in both directions within long sessions. A peer
+ * that never rekeys would eventually exhaust our receive nonce; before a
+ * nonce can reach nonceLimit the session is closed and a fresh handshake
+ * started instead.
+ *
+ * Transport messages carry their nonce, so over a lossy mesh they may
+ * arrive out of order or not at all. Messages that were overtaken by a
+ * NOISE_REKEY are still read with the previous receive key, and if a
+ * NOISE_REKEY itself is lost, the first message under the peer's next key
+ * moves us on to it.
+ */
 export class NoiseSessionManager extends EventEmitter {
   private sessions: Map<string, SessionInfo> = new Map();
   private pendingHandshakes: Map<string, HandshakeInfo> = new Map();
   private localStatic: KeyPair;
   private handshakeTimeout: number = 30000; // 30 seconds
   private sessionTimeout: number = 3600000; // 1 hour
+  private rekeyAfterMessages: number;
+  private rekeyAfterMs: number;
+  private nonceLimit: bigint;
+  private isBlocked?: (remoteStaticPublicKey: Buffer) => boolean;
   private cleanupTimer?: NodeJS.Timeout;
 
-  constructor(localStatic: KeyPair) {
+  constructor(localStatic: KeyPair, options: NoiseSessionManagerOptions = {}) {
     super();
     this.localStatic = localStatic;
+    this.rekeyAfterMessages = options.rekeyAfterMessages ?? 1000;
+    this.rekeyAfterMs = options.rekeyAfterMs ?? 10 * 60 * 1000; // 10 minutes
+    this.nonceLimit = options.nonceLimit ?? MAX_NONCE;
+    this.isBlocked = options.isBlocked;
     
     // Start cleanup timer
     this.startCleanupTimer();
@@ -105,8 +148,22 @@ export class NoiseSessionManager extends EventEmitter {
     messageType: number,
     message: Buffer
   ): Promise<void> {
+    if (messageType === MessageType.NOISE_REKEY) {
+      this.processRekeyMessage(peerID, message);
+      return;
+    }
+
     let handshakeInfo = this.pendingHandshakes.get(peerID);
 
+    if (handshakeInfo && messageType === MessageType.NOISE_HANDSHAKE_INIT) {
+      if (!this.shouldYield(handshakeInfo, message)) {
+        return; // Our handshake wins; the peer will answer it instead
+      }
+      // Answer the peer's handshake, dropping ours or one it abandoned
+      this.discardHandshake(peerID);
+      handshakeInfo = undefined;
+    }
+
     if (!handshakeInfo && messageType === MessageType.NOISE_HANDSHAKE_INIT) {
       // New handshake from peer, we're the responder
       const state = NoiseProtocol.createHandshakeState(
@@ -134,6 +191,17 @@ export class NoiseSessionManager extends EventEmitter {
     try {
       const result = NoiseProtocol.readMessage(handshakeInfo.state, message);
 
+      // Refuse a blocked peer as soon as its static key is known: as
+      // initiator before we reveal ours, as responder before a session
+      const remoteStatic = result.session?.remoteStaticPublicKey ?? handshakeInfo.state.remoteStatic;
+      if (remoteStatic && this.isBlocked?.(remoteStatic)) {
+        if (result.session) {
+          NoiseProtocol.clearSession(result.session);
+        }
+        this.cancelHandshake(peerID, 'Peer is blocked');
+        return;
+      }
+
       if (result.session) {
         // Handshake complete
         this.completeHandshake(peerID, result.session);
@@ -190,6 +258,13 @@ export class NoiseSessionManager extends EventEmitter {
     NoiseProtocol.clearHandshakeState(handshakeInfo.state);
     this.pendingHandshakes.delete(peerID);
 
+    // A new handshake replaces any session we still had with the peer
+    const previous = this.sessions.get(peerID);
+    if (previous) {
+      NoiseProtocol.clearSession(previous.session);
+      previous.previousReceiveCipher?.clear();
+    }
+
     // Create session
     const fingerprint = NoiseProtocol.getRemoteFingerprint(session);
     const sessionInfo: SessionInfo = {
@@ -198,7 +273,9 @@ export class NoiseSessionManager extends EventEmitter {
       createdAt: new Date(),
       lastActivity: new Date(),
       handshakeState: 'completed',
-      fingerprint
+      fingerprint,
+      messagesSinceRekey: 0,
+      lastRekey: new Date()
     };
 
     this.sessions.set(peerID, sessionInfo);
@@ -214,13 +291,40 @@ export class NoiseSessionManager extends EventEmitter {
     this.emit('identityAnnounce', { peerID });
   }
 
+  /**
+   * Decides who goes on when a NOISE_HANDSHAKE_INIT arrives while we have a
+   * handshake pending with the peer. When both sides initiated at once, the
+   * one whose ephemeral key sorts lower stays initiator; both peers see the
+   * same two keys, so exactly one of them yields and becomes responder. A
+   * pending responder handshake always yields, as the peer has started over.
+   */
+  private shouldYield(handshakeInfo: HandshakeInfo, message: Buffer): boolean {
+    const { role, localEphemeral } = handshakeInfo.state;
+    if (role !== HandshakeRole.INITIATOR || !localEphemeral) {
+      return true;
+    }
+
+    const remoteEphemeral = message.subarray(0, localEphemeral.publicKey.length);
+    return Buffer.compare(localEphemeral.publicKey, remoteEphemeral) > 0;
+  }
+
   /**
    * Cancels a handshake
    */
   private cancelHandshake(peerID: string, reason: string): void {
+    if (this.discardHandshake(peerID)) {
+      this.emit('handshakeFailed', { peerID, reason });
+    }
+  }
+
+  /**
+   * Drops a pending handshake and its key material. Returns false if there
+   * was none.
+   */
+  private discardHandshake(peerID: string): boolean {
     const handshakeInfo = this.pendingHandshakes.get(peerID);
     if (!handshakeInfo) {
-      return;
+      return false;
     }
 
     // Clear timeout
@@ -231,13 +335,11 @@ export class NoiseSessionManager extends EventEmitter {
     // Clear handshake state
     NoiseProtocol.clearHandshakeState(handshakeInfo.state);
     this.pendingHandshakes.delete(peerID);
-
-    // Emit event
-    this.emit('handshakeFailed', { peerID, reason });
+    return true;
   }
 
   /**
-   * Encrypts a message for a peer
+   * Encrypts a message for a peer, rotating the send key first if it is due
    */
   encryptMessage(peerID: string, plaintext: Buffer): Buffer {
     const sessionInfo = this.sessions.get(peerID);
@@ -245,21 +347,139 @@ export class NoiseSessionManager extends EventEmitter {
       throw new Error('No established session with peer');
     }
 
+    if (this.isRekeyDue(sessionInfo)) {
+      this.rotateSendKey(sessionInfo, REKEY_REQUEST);
+    }
+
     sessionInfo.lastActivity = new Date();
-    return NoiseProtocol.encryptMessage(sessionInfo.session, plaintext);
+    sessionInfo.messagesSinceRekey++;
+    return this.encryptWithSession(sessionInfo, plaintext);
   }
 
   /**
    * Decrypts a message from a peer
    */
   decryptMessage(peerID: string, ciphertext: Buffer): Buffer {
+    return this.openMessage(peerID, ciphertext).plaintext;
+  }
+
+  /**
+   * Decrypts a message with the current receive key, falling back to the
+   * previous key for late messages and to the next key when the peer's
+   * NOISE_REKEY was lost. `stale` is set for messages under the previous key.
+   */
+  private openMessage(peerID: string, message: Buffer): { sessionInfo: SessionInfo; plaintext: Buffer; stale: boolean } {
     const sessionInfo = this.sessions.get(peerID);
     if (!sessionInfo || sessionInfo.handshakeState !== 'completed') {
       throw new Error('No established session with peer');
     }
 
+    const { session } = sessionInfo;
+    if (session.receiveCipher.getNonce() >= this.nonceLimit) {
+      this.reestablishSession(peerID);
+      throw new Error('Session nonce exhausted; re-establishing session');
+    }
+
     sessionInfo.lastActivity = new Date();
-    return NoiseProtocol.decryptMessage(sessionInfo.session, ciphertext);
+    try {
+      return { sessionInfo, plaintext: NoiseProtocol.decryptMessage(session, message), stale: false };
+    } catch (error) {
+      if (sessionInfo.previousReceiveCipher) {
+        try {
+          const plaintext = NoiseProtocol.decryptWith(sessionInfo.previousReceiveCipher, message);
+          return { sessionInfo, plaintext, stale: true };
+        } catch {
+          // Not from the previous key either
+        }
+      }
+
+      const next = session.receiveCipher.clone();
+      next.rekey();
+      try {
+        const plaintext = NoiseProtocol.decryptWith(next, message);
+        this.rotateReceiveKey(sessionInfo, next);
+        return { sessionInfo, plaintext, stale: false };
+      } catch {
+        next.clear();
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Handles a NOISE_REKEY message: the peer has rotated its send key, so we
+   * rotate our receive key, and answer a request by rotating our send key
+   */
+  private processRekeyMessage(peerID: string, message: Buffer): void {
+    const { sessionInfo, plaintext: control, stale } = this.openMessage(peerID, message);
+    if (!stale) {
+      this.rotateReceiveKey(sessionInfo);
+    }
+
+    if (control.length === 1 && control[0] === REKEY_REQUEST) {
+      this.rotateSendKey(sessionInfo, REKEY_ACK);
+    } else if (control.length !== 1 || control[0] !== REKEY_ACK) {
+      throw new Error('Invalid rekey message');
+    }
+  }
+
+  /**
+   * Sends a NOISE_REKEY message under the current send key, then rotates it
+   */
+  private rotateSendKey(sessionInfo: SessionInfo, control: number): void {
+    const message = this.encryptWithSession(sessionInfo, Buffer.from([control]));
+    sessionInfo.session.sendCipher.rekey();
+    sessionInfo.messagesSinceRekey = 0;
+    sessionInfo.lastRekey = new Date();
+
+    this.emit('handshakeMessage', {
+      peerID: sessionInfo.peerID,
+      type: MessageType.NOISE_REKEY,
+      message
+    });
+    this.emit('sessionRekeyed', { peerID: sessionInfo.peerID, direction: 'send' });
+  }
+
+  /**
+   * Moves on to the peer's next send key, keeping the current one for
+   * messages still in flight
+   */
+  private rotateReceiveKey(sessionInfo: SessionInfo, next?: CipherState): void {
+    const { session } = sessionInfo;
+    if (!next) {
+      next = session.receiveCipher.clone();
+      next.rekey();
+    }
+
+    sessionInfo.previousReceiveCipher?.clear();
+    sessionInfo.previousReceiveCipher = session.receiveCipher;
+    session.receiveCipher = next;
+    this.emit('sessionRekeyed', { peerID: sessionInfo.peerID, direction: 'receive' });
+  }
+
+  private isRekeyDue(sessionInfo: SessionInfo): boolean {
+    return sessionInfo.messagesSinceRekey >= this.rekeyAfterMessages ||
+      Date.now() - sessionInfo.lastRekey.getTime() >= this.rekeyAfterMs;
+  }
+
+  /**
+   * Encrypts under the session's send key, unless its nonce is exhausted
+   */
+  private encryptWithSession(sessionInfo: SessionInfo, plaintext: Buffer): Buffer {
+    if (sessionInfo.session.sendCipher.getNonce() >= this.nonceLimit) {
+      this.reestablishSession(sessionInfo.peerID);
+      throw new Error('Session nonce exhausted; re-establishing session');
+    }
+    return NoiseProtocol.encryptMessage(sessionInfo.session, plaintext);
+  }
+
+  /**
+   * Tears down a session and starts a fresh handshake with the peer
+   */
+  private reestablishSession(peerID: string): void {
+    this.closeSession(peerID);
+    // A failure is reported through the handshakeFailed event
+    this.initiateHandshake(peerID).catch(() => undefined);
   }
 
   /**
@@ -292,6 +512,13 @@ export class NoiseSessionManager extends EventEmitter {
     return session ? session.fingerprint : null;
   }
 
+  /**
+   * Gets our Noise static public key
+   */
+  getLocalStaticPublicKey(): Buffer {
+    return Buffer.from(this.localStatic.publicKey);
+  }
+
   /**
    * Gets our own fingerprint
    */
@@ -306,6 +533,7 @@ export class NoiseSessionManager extends EventEmitter {
     const sessionInfo = this.sessions.get(peerID);
     if (sessionInfo) {
       NoiseProtocol.clearSession(sessionInfo.session);
+      sessionInfo.previousReceiveCipher?.clear();
       this.sessions.delete(peerID);
       this.emit('sessionClosed', { peerID });
     }
@@ -325,6 +553,14 @@ export class NoiseSessionManager extends EventEmitter {
       const lastActivity = sessionInfo.lastActivity.getTime();
       if (now - lastActivity > this.sessionTimeout) {
         this.closeSession(peerID);
+      } else if (sessionInfo.handshakeState === 'completed' &&
+          now - sessionInfo.lastRekey.getTime() >= this.rekeyAfterMs) {
+        // Rotate idle sessions' keys too, so old traffic stays protected
+        try {
+          this.rotateSendKey(sessionInfo, REKEY_REQUEST);
+        } catch {
+          // The session is being re-established
+        }
       }
     }
 
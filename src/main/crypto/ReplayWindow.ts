@@ -0,0 +1,57 @@
+/**
+ * ReplayWindow tracks which nonces have been received, so that messages
+ * arriving out of order can still be accepted while replays are refused.
+ *
+ * It remembers the highest nonce seen and a bitmap of the `size` nonces
+ * below it. Anything older than the window is rejected outright, since we
+ * can no longer tell whether it was seen.
+ */
+export class ReplayWindow {
+  private readonly size: bigint;
+  private readonly mask: bigint;
+  private highest: bigint = -1n;
+  private seen: bigint = 0n; // bit i is set once nonce highest - i arrives
+
+  constructor(size: number = 1024) {
+    this.size = BigInt(size);
+    this.mask = (1n << this.size) - 1n;
+  }
+
+  /**
+   * Checks whether a nonce is new and recent enough to accept
+   */
+  check(nonce: bigint): boolean {
+    if (nonce > this.highest) {
+      return true;
+    }
+
+    const offset = this.highest - nonce;
+    return offset < this.size && (this.seen & (1n << offset)) === 0n;
+  }
+
+  /**
+   * Records a nonce as received; call only once the message authenticated
+   */
+  accept(nonce: bigint): void {
+    if (nonce > this.highest) {
+      const shift = nonce - this.highest;
+      this.seen = shift >= this.size ? 0n : (this.seen << shift) & this.mask;
+      this.seen |= 1n;
+      this.highest = nonce;
+    } else {
+      this.seen |= 1n << (this.highest - nonce);
+    }
+  }
+
+  clone(): ReplayWindow {
+    const copy = new ReplayWindow(Number(this.size));
+    copy.highest = this.highest;
+    copy.seen = this.seen;
+    return copy;
+  }
+
+  reset(): void {
+    this.highest = -1n;
+    this.seen = 0n;
+  }
+}
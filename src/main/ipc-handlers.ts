@@ -1,4 +1,6 @@
 import { ipcMain, IpcMainInvokeEvent, app, BrowserWindow } from 'electron';
+import { randomUUID } from 'crypto';
+import * as path from 'path';
 import { 
   IPC_CHANNELS,
   SendMessageRequest,
@@ -9,58 +11,163 @@ import {
   AppSettings,
   TransportPreferences,
   NostrRelayRequest,
+  NostrIdentityInfo,
+  MessageHistoryRequest,
+  MessageHistoryPage,
+  MessageDeliveryUpdate,
+  MessageReadUpdate,
+  UnreadCounts,
+  ClearMessagesRequest,
+  OutboxItem,
+  PeerVerificationInfo,
+  PeerVerifyRequest,
+  PeerKeyChangedEvent,
+  PeerFavoriteChangedEvent,
+  DeepPartial,
   AppError
 } from '../shared/ipc-types';
 import { NoiseSessionManager } from './crypto/NoiseSessionManager';
 import { KeyManager } from './crypto/KeyManager';
 import { TransportManager } from './transport/TransportManager';
-import { MessageType, ErrorCodes } from '../shared/constants';
+import { IdentityStore } from './storage/IdentityStore';
+import { MessageStore, PUBLIC_CONVERSATION } from './storage/MessageStore';
+import { SecretStore } from './storage/SecretStore';
+import { OutboxEntry, OutboxStore } from './storage/OutboxStore';
+import { VerificationStore } from './storage/VerificationStore';
+import { FavoritesStore } from './storage/FavoritesStore';
+import { ConfigStore, DEFAULT_SETTINGS, DEFAULT_TRANSPORT_PREFERENCES } from './storage/ConfigStore';
+import { DeliveryTracker, DeliveryStatusChange } from './messaging/DeliveryTracker';
+import { Outbox } from './messaging/Outbox';
+import { Conversations } from './messaging/Conversations';
+import { ProtocolError } from './protocols/ProtocolError';
+import { createVerificationCode, generateSafetyNumber, parseVerificationCode } from './verification/PeerVerification';
+import { encodeQRCode } from './verification/QRCode';
+import {
+  ProtocolMessageEvent,
+  PeerAnnouncedEvent,
+  IdentityAnnouncedEvent,
+  PeerLeftEvent,
+  DeliveryAckEvent,
+  ReadReceiptEvent,
+  DeliveryStatusRequestEvent
+} from './protocols/BitchatProtocol';
+import { FragmentProgress } from './protocols/FragmentManager';
+import { BitchatMessage, DeliveryStatus, Identity, NostrKeyPair } from '../shared/types';
+import { ErrorCodes } from '../shared/constants';
 
 // Core services
-let localKeyPair = KeyManager.generateNoiseKeyPair();
+let identityStore: IdentityStore | null = null;
+let messageStore: MessageStore | null = null;
+let conversations: Conversations | null = null;
+let localIdentity: Identity;
+let localNostrKeyPair: NostrKeyPair;
 let sessionManager: NoiseSessionManager | null = null;
 let transportManager: TransportManager | null = null;
-let settings: AppSettings = {
-  nickname: 'Anonymous',
-  autoConnect: true,
-  enableNotifications: true,
-  enableSounds: false,
-  theme: 'dark',
-  fontSize: 'medium',
-  blockedPeers: []
-};
-
-let transportPreferences: TransportPreferences = {
-  preferredTransport: 'auto',
-  autoConnect: true,
-  bleSettings: {
-    deviceName: 'BitChat Device',
-    autoAdvertise: true,
-    discoverabilityTimeout: 15
-  },
-  nostrSettings: {
-    autoConnectRelays: true,
-    maxRelayConnections: 5,
-    defaultRelays: [
-      'wss://relay.damus.io',
-      'wss://relay.primal.net',
-      'wss://offchain.pub'
-    ],
-    reconnectAttempts: 3
-  },
-  hybridSettings: {
-    priority: 'balanced',
-    fallbackBehavior: 'maintain-both',
-    connectionTimeout: 30
-  }
-};
+let configStore: ConfigStore | null = null;
+let deliveryTracker: DeliveryTracker | null = null;
+let outbox: Outbox | null = null;
+let verificationStore: VerificationStore | null = null;
+let favoritesStore: FavoritesStore | null = null;
+let settings: AppSettings = structuredClone(DEFAULT_SETTINGS);
+let transportPreferences: TransportPreferences = structuredClone(DEFAULT_TRANSPORT_PREFERENCES);
 
 // Mock peer data
 const mockPeers: Map<string, PeerInfo> = new Map();
 
 // Initialize session manager and transport
 export async function initializeSessionManager(): Promise<void> {
-  sessionManager = new NoiseSessionManager(localKeyPair);
+  // Load persisted settings before anything reads them
+  const userData = app.getPath('userData');
+  configStore = new ConfigStore({ directory: userData });
+  try {
+    await configStore.load();
+  } catch (error) {
+    console.error('Failed to load settings:', error);
+  }
+  settings = configStore.getSettings();
+  transportPreferences = configStore.getTransportPreferences();
+
+  // Load our long-term identity, creating it on first run
+  const secretStore = new SecretStore({ directory: userData });
+  identityStore = new IdentityStore({ directory: userData, secretStore });
+  localIdentity = await identityStore.loadOrCreate(settings.nickname || 'Anonymous');
+  localNostrKeyPair = localIdentity.nostrKeyPair || KeyManager.deriveNostrKeys(localIdentity.staticKeyPair);
+
+  // Open the encrypted message history; chat still works without it
+  messageStore = new MessageStore({ directory: path.join(userData, 'history'), secretStore });
+  try {
+    await messageStore.open();
+  } catch (error) {
+    console.error('Failed to open message history:', error);
+    messageStore = null;
+  }
+  if (messageStore) {
+    // Private chats follow the peer's key, not the peer ID it sends from
+    conversations = new Conversations({
+      store: messageStore,
+      getPeer: (id) => transportManager?.getPeer(id)
+    });
+  }
+
+  // Follow our private messages until the recipient has read them
+  deliveryTracker = new DeliveryTracker({
+    // Receipts may come from the peer's new ID after it changed it
+    isSamePeer: (trackedPeerID, peerID) => {
+      const peer = transportManager?.getPeer(peerID);
+      return trackedPeerID === peerID || (!!peer && peer === transportManager?.getPeer(trackedPeerID));
+    }
+  });
+  deliveryTracker.on('statusChanged', handleDeliveryStatusChange);
+  deliveryTracker.on('statusRequest', ({ messageId, peerID }) => {
+    transportManager?.sendDeliveryStatusRequest(peerID, [messageId])
+      .catch((error) => console.error('Failed to request delivery status:', error));
+  });
+
+  // Hold private messages until their recipient can be reached
+  outbox = new Outbox({
+    store: new OutboxStore({ directory: userData, secretStore }),
+    // Only mutual favorites have agreed to be reached through the relays
+    send: async (message, recipientId) => !!transportManager && transportManager.sendMessage(
+      message,
+      recipientId,
+      { allowNostrFallback: transportPreferences.preferredTransport !== 'ble' && isMutualFavorite(recipientId) }
+    )
+  });
+  outbox.on('sent', ({ message }) => deliveryTracker?.markSent(message.id));
+  outbox.on('expired', ({ message }) => deliveryTracker?.markFailed(message.id));
+  outbox.on('changed', (entries) => {
+    broadcastToAllWindows(IPC_CHANNELS.OUTBOX_UPDATED, entries.map(toOutboxItem));
+  });
+  try {
+    await outbox.load();
+    for (const { message, recipientId } of outbox.list()) {
+      deliveryTracker.track(message.id, recipientId);
+    }
+  } catch (error) {
+    console.error('Failed to load outbox:', error);
+  }
+
+  // Load the peers the user has verified
+  verificationStore = new VerificationStore({ directory: userData, secretStore });
+  try {
+    await verificationStore.load();
+  } catch (error) {
+    console.error('Failed to load verified peers:', error);
+  }
+
+  // Load our favorites and the peers that favorited us
+  favoritesStore = new FavoritesStore({ directory: userData, secretStore });
+  try {
+    await favoritesStore.load();
+  } catch (error) {
+    console.error('Failed to load favorites:', error);
+  }
+
+  sessionManager = new NoiseSessionManager(localIdentity.staticKeyPair, {
+    // Blocked peers are refused by key, whatever ID they handshake from
+    isBlocked: (remoteStaticPublicKey) =>
+      !!transportManager?.isBlocked(KeyManager.generateFingerprint(remoteStaticPublicKey))
+  });
   
   // Set up event listeners
   sessionManager.on('sessionEstablished', (event) => {
@@ -87,39 +194,90 @@ export async function initializeSessionManager(): Promise<void> {
   // Initialize transport manager
   transportManager = new TransportManager({
     deviceName: settings.nickname || 'BitChat',
-    sessionManager
+    sessionManager,
+    signingKeyPair: localIdentity.signingKeyPair,
+    blockedPeers: settings.blockedPeers,
+    compression: settings.compressMessages,
+    nostrPrivateKey: Buffer.from(localNostrKeyPair.privateKey, 'hex'),
+    nostrRelays: transportPreferences.nostrSettings.autoConnectRelays ?
+      transportPreferences.nostrSettings.defaultRelays :
+      []
   });
 
+  // Favorites stay in the contact list while offline, and are recognized
+  // when they come back under a new ID
+  for (const favorite of favoritesStore.list()) {
+    const peer = transportManager.rememberPeer(favorite.peerID, Buffer.from(favorite.noisePublicKey, 'hex'), {
+      nickname: favorite.nickname || undefined,
+      nostrPublicKey: favorite.nostrPublicKey
+    });
+    mockPeers.set(favorite.peerID, {
+      id: favorite.peerID,
+      stableId: peer.fingerprint,
+      nickname: favorite.nickname,
+      fingerprint: peer.fingerprint,
+      isConnected: false,
+      isFavorite: true,
+      isMutualFavorite: favoritesStore.isMutual(favorite.noisePublicKey),
+      isBlocked: transportManager.isBlocked(peer.fingerprint),
+      isVerified: !!verificationStore?.isVerified(peer.fingerprint),
+      sessionEstablished: false,
+      transport: favorite.nostrPublicKey ? 'nostr' : 'ble',
+      nostrPublicKey: favorite.nostrPublicKey
+    });
+  }
+
   // Set up transport event listeners
   transportManager.on('transport:ready', (transport: string) => {
     console.log(`Transport ready: ${transport}`);
     broadcastToAllWindows(IPC_CHANNELS.CONNECTION_STATUS, getConnectionStatus());
   });
 
+  transportManager.on('nostr:relayStatus', () => {
+    broadcastToAllWindows(IPC_CHANNELS.CONNECTION_STATUS, getConnectionStatus());
+  });
+
+  transportManager.on('error', (error: Error) => {
+    if (error instanceof ProtocolError) {
+      sendError({
+        code: error.code,
+        message: error.message,
+        details: error.details,
+        timestamp: Date.now()
+      });
+    }
+  });
+
   transportManager.on('peer:connected', (peer: any) => {
     console.log('Peer connected:', peer);
+    // A peer we already know may just have moved to another link
+    const existing = mockPeers.get(peer.id);
     const peerInfo: PeerInfo = {
       id: peer.id,
-      nickname: undefined,
-      fingerprint: undefined,
+      stableId: peer.fingerprint || existing?.stableId,
+      nickname: existing?.nickname,
+      fingerprint: existing?.fingerprint,
       isConnected: true,
-      isFavorite: false,
-      isBlocked: false,
+      isFavorite: existing?.isFavorite || false,
+      isBlocked: existing?.isBlocked || false,
       lastSeen: new Date().toISOString(),
-      sessionEstablished: false,
+      sessionEstablished: existing?.sessionEstablished || false,
       transport: peer.transport || 'ble',
-      nostrPublicKey: peer.publicKey,
+      nostrPublicKey: peer.publicKey || existing?.nostrPublicKey,
       bleAddress: peer.address
     };
     mockPeers.set(peer.id, peerInfo);
-    
+    flushOutbox(peer.id);
+
     broadcastToAllWindows(IPC_CHANNELS.PEER_CONNECTED, {
       id: peer.id,
+      nickname: peerInfo.nickname,
+      fingerprint: peerInfo.fingerprint,
       isConnected: true,
-      isFavorite: false,
-      transport: peer.transport || 'ble',
-      nostrPublicKey: peer.publicKey,
-      bleAddress: peer.address
+      isFavorite: peerInfo.isFavorite,
+      transport: peerInfo.transport,
+      nostrPublicKey: peerInfo.nostrPublicKey,
+      bleAddress: peerInfo.bleAddress
     });
   });
 
@@ -134,27 +292,239 @@ export async function initializeSessionManager(): Promise<void> {
     broadcastToAllWindows(IPC_CHANNELS.PEER_DISCONNECTED, peerId);
   });
 
-  transportManager.on('packet', (packet: any) => {
-    console.log('Received packet:', packet);
-    // Handle incoming messages
-    if (packet.messageType === MessageType.MESSAGE) {
-      const message = {
-        id: Date.now().toString(),
-        senderId: packet.senderID.toString('hex'),
-        senderNickname: mockPeers.get(packet.senderID.toString('hex'))?.nickname,
-        content: packet.payload.toString('utf8'),
-        timestamp: new Date().toISOString(),
-        isPrivate: !!packet.recipientID,
-        isEncrypted: packet.isEncrypted || false,
-        isSent: false,
-        isDelivered: false,
-        isRead: false
-      };
-      
-      broadcastToAllWindows(IPC_CHANNELS.MESSAGE_RECEIVED, message);
+  transportManager.on('message', (event: ProtocolMessageEvent) => {
+    const { message, senderID } = event;
+
+    // Acknowledge private messages, including retransmissions whose
+    // first ACK may have been lost
+    if (message.isPrivate) {
+      transportManager?.sendDeliveryAck(senderID, [message.id])
+        .catch((error) => console.error('Failed to send delivery ACK:', error));
+    }
+
+    conversations?.addMessage(
+      message.isPrivate ? senderID : PUBLIC_CONVERSATION,
+      {
+        ...message,
+        senderPeerID: senderID,
+        deliveryStatus: message.isPrivate ? DeliveryStatus.DELIVERED : undefined
+      },
+      true
+    ).catch((error) => console.error('Failed to store message:', error));
+
+    broadcastToAllWindows(IPC_CHANNELS.MESSAGE_RECEIVED, {
+      id: message.id,
+      senderId: senderID,
+      senderNickname: mockPeers.get(senderID)?.nickname || message.sender,
+      content: message.content,
+      timestamp: message.timestamp.toISOString(),
+      isPrivate: message.isPrivate,
+      isEncrypted: event.isEncrypted,
+      isSent: false,
+      isDelivered: false,
+      isRead: false
+    });
+  });
+
+  transportManager.on('delivery:ack', (event: DeliveryAckEvent) => {
+    deliveryTracker?.markDelivered(event.messageId, event.peerID, event.timestamp);
+  });
+
+  transportManager.on('read:receipt', (event: ReadReceiptEvent) => {
+    deliveryTracker?.markRead(event.messageId, event.peerID, event.timestamp);
+  });
+
+  // Answer again for messages we have, in case our ACK was lost
+  transportManager.on('delivery:statusRequest', async (event: DeliveryStatusRequestEvent) => {
+    try {
+      if (await conversations?.getMessage(event.peerID, event.messageId)) {
+        await transportManager?.sendDeliveryAck(event.peerID, [event.messageId]);
+      }
+    } catch (error) {
+      console.error('Failed to answer delivery status request:', error);
     }
   });
 
+  transportManager.on('fragment:progress', (progress: FragmentProgress) => {
+    broadcastToAllWindows(IPC_CHANNELS.MESSAGE_FRAGMENT_PROGRESS, {
+      messageId: progress.messageId,
+      senderId: progress.senderID,
+      currentFragment: progress.receivedFragments,
+      totalFragments: progress.totalFragments
+    });
+  });
+
+  // Announces are not authenticated, so they only fill in a peer that has
+  // not yet proved a static key; a proven one keeps what it proved, and
+  // nothing learned elsewhere is lost
+  transportManager.on('peer:announced', (event: PeerAnnouncedEvent) => {
+    const existing = mockPeers.get(event.peerID);
+    const proven = !!existing?.stableId;
+    const peerInfo: PeerInfo = {
+      isFavorite: false,
+      isBlocked: false,
+      sessionEstablished: false,
+      transport: 'ble',
+      ...existing,
+      id: event.peerID,
+      nickname: proven ? existing?.nickname : event.nickname,
+      fingerprint: proven ? existing?.fingerprint : KeyManager.generateFingerprint(event.publicKey),
+      isConnected: true,
+      lastSeen: new Date().toISOString()
+    };
+    mockPeers.set(event.peerID, peerInfo);
+    // A proven peer's queue is flushed when it connects or changes ID
+    if (!proven) {
+      flushOutbox(event.peerID);
+    }
+
+    broadcastToAllWindows(IPC_CHANNELS.PEER_CONNECTED, {
+      id: peerInfo.id,
+      nickname: peerInfo.nickname,
+      fingerprint: peerInfo.fingerprint,
+      isConnected: true,
+      isFavorite: peerInfo.isFavorite,
+      isMutualFavorite: peerInfo.isMutualFavorite,
+      isVerified: peerInfo.isVerified,
+      transport: peerInfo.transport
+    });
+  });
+
+  // A verified identity ties the peer to the fingerprint of its Noise
+  // static key, which unlike its BLE address or peer ID stays the same
+  // across connections
+  transportManager.on('peer:identity', (event: IdentityAnnouncedEvent) => {
+    const stableId = KeyManager.generateFingerprint(event.noisePublicKey);
+    const noisePublicKey = event.noisePublicKey.toString('hex');
+    const existing = mockPeers.get(event.peerID);
+    const previous = Array.from(mockPeers.values())
+      .find((peer) => peer.stableId === stableId && peer.id !== event.peerID);
+    if (previous) {
+      // The peer moved to a new ID; its chat goes with it
+      mockPeers.delete(previous.id);
+      broadcastToAllWindows(IPC_CHANNELS.PEER_DISCONNECTED, previous.id);
+    }
+
+    // File what we exchanged before it proved its key under that key
+    conversations?.adopt(event.peerID)
+      .catch((error) => console.error('Failed to move conversation:', error));
+
+    const peerInfo: PeerInfo = {
+      id: event.peerID,
+      stableId,
+      nickname: event.nickname,
+      fingerprint: stableId,
+      isConnected: true,
+      isFavorite: !!favoritesStore?.isFavorite(noisePublicKey),
+      isMutualFavorite: !!favoritesStore?.isMutual(noisePublicKey),
+      isBlocked: !!transportManager?.isBlocked(stableId),
+      isVerified: !!verificationStore?.isVerified(stableId),
+      lastSeen: new Date().toISOString(),
+      sessionEstablished: true,
+      transport: existing?.transport || 'ble',
+      nostrPublicKey: event.nostrPublicKey || existing?.nostrPublicKey || previous?.nostrPublicKey,
+      bleAddress: existing?.bleAddress
+    };
+    mockPeers.set(event.peerID, peerInfo);
+
+    broadcastToAllWindows(IPC_CHANNELS.PEER_CONNECTED, {
+      id: peerInfo.id,
+      nickname: peerInfo.nickname,
+      fingerprint: peerInfo.fingerprint,
+      isConnected: true,
+      isFavorite: peerInfo.isFavorite,
+      isMutualFavorite: peerInfo.isMutualFavorite,
+      isVerified: peerInfo.isVerified,
+      transport: peerInfo.transport
+    });
+
+    // Keep favorites up to date, and remind the peer it is one: it may
+    // have been out of reach when we favorited it
+    const favorite = favoritesStore?.get(noisePublicKey);
+    if (favorite) {
+      favoritesStore?.add({
+        ...favorite,
+        peerID: event.peerID,
+        nickname: event.nickname,
+        nostrPublicKey: event.nostrPublicKey || favorite.nostrPublicKey
+      }).catch((error) => console.error('Failed to update favorite:', error));
+      transportManager?.sendFavorite(event.peerID, true)
+        .catch((error) => console.error('Failed to send favorite:', error));
+    }
+  });
+
+  // The peer favorited or unfavorited us
+  transportManager.on('peer:favoriteChanged', async (event: { peerID: string; isFavorite: boolean; nostrPublicKey?: string; noisePublicKey?: Buffer }) => {
+    if (!event.noisePublicKey || !favoritesStore) {
+      return;
+    }
+
+    const noisePublicKey = event.noisePublicKey.toString('hex');
+    try {
+      await favoritesStore.setFavoritedBy(noisePublicKey, event.isFavorite);
+      const favorite = favoritesStore.get(noisePublicKey);
+      if (favorite && event.nostrPublicKey && favorite.nostrPublicKey !== event.nostrPublicKey) {
+        await favoritesStore.add({ ...favorite, nostrPublicKey: event.nostrPublicKey });
+      }
+    } catch (error) {
+      console.error('Failed to store favorite status:', error);
+    }
+    broadcastFavoriteStatus(event.peerID);
+  });
+
+  // A sender ID we knew under one static key handshaked with another. If
+  // the user had verified the old key this may be an impersonation, so
+  // warn loudly; the new key is not verified either way.
+  transportManager.on('peer:keyChanged', (event: { peerID: string; fingerprint: string; previousFingerprint: string }) => {
+    const wasVerified = !!verificationStore?.isVerified(event.previousFingerprint);
+    const peer = mockPeers.get(event.peerID);
+    if (peer) {
+      peer.isVerified = !!verificationStore?.isVerified(event.fingerprint);
+    }
+
+    const keyChange: PeerKeyChangedEvent = {
+      peerId: event.peerID,
+      nickname: peer?.nickname,
+      previousFingerprint: event.previousFingerprint,
+      fingerprint: event.fingerprint,
+      wasVerified,
+      timestamp: Date.now()
+    };
+    broadcastToAllWindows(IPC_CHANNELS.PEER_KEY_CHANGED, keyChange);
+
+    if (wasVerified) {
+      sendError({
+        code: ErrorCodes.PEER_KEY_CHANGED,
+        message: `The key of verified peer ${peer?.nickname || event.peerID} has changed`,
+        details: keyChange,
+        timestamp: keyChange.timestamp
+      });
+    }
+  });
+
+  // A peer blocked by ID proved its key, so keep the block by fingerprint
+  transportManager.on('peer:blocked', () => {
+    if (transportManager) {
+      updateSettings({ blockedPeers: transportManager.getBlockedPeers() })
+        .catch((error) => console.error('Failed to save blocked peers:', error));
+    }
+  });
+
+  // Messages queued for the peer's old ID now go to its new one
+  transportManager.on('peer:idChanged', (event: { previousPeerID: string }) => {
+    flushOutbox(event.previousPeerID);
+  });
+
+  transportManager.on('peer:left', (event: PeerLeftEvent) => {
+    const peer = mockPeers.get(event.peerID);
+    if (peer) {
+      peer.isConnected = false;
+      peer.lastSeen = new Date().toISOString();
+    }
+
+    broadcastToAllWindows(IPC_CHANNELS.PEER_DISCONNECTED, event.peerID);
+  });
+
   // Initialize transport
   try {
     await transportManager.initialize();
@@ -166,7 +536,7 @@ export async function initializeSessionManager(): Promise<void> {
 // Helper function to get connection status
 function getConnectionStatus(): ConnectionStatus {
   const transportStatus = transportManager?.getStatus() || {
-    ble: { isEnabled: false, isAdvertising: false, isConnected: false, connections: [] },
+    ble: { isEnabled: false, isAdvertising: false, isConnected: false, connection: null },
     nostr: { isEnabled: false, isConnected: false, publicKey: '', relays: [], peers: 0 },
     peers: []
   };
@@ -185,14 +555,14 @@ function getConnectionStatus(): ConnectionStatus {
     uptime: process.uptime(),
     transport: transportType,
     ble: {
-      isEnabled: transportStatus.ble.isEnabled || false,
-      isAdvertising: transportStatus.ble.isAdvertising || false,
-      isConnected: transportStatus.ble.isConnected || false,
+      isEnabled: transportStatus.ble.isEnabled,
+      isAdvertising: transportStatus.ble.isAdvertising,
+      isConnected: transportStatus.ble.isConnected,
       deviceName: settings.nickname || 'BitChat',
-      connectedDevice: transportStatus.ble.connections && transportStatus.ble.connections.length > 0 ? {
-        address: transportStatus.ble.connections[0].address || 'Unknown',
-        rssi: transportStatus.ble.connections[0].rssi,
-        connectedAt: transportStatus.ble.connections[0].connectedAt || new Date().toISOString()
+      connectedDevice: transportStatus.ble.connection ? {
+        address: transportStatus.ble.connection.address,
+        rssi: transportStatus.ble.connection.rssi,
+        connectedAt: transportStatus.ble.connection.connectedAt.toISOString()
       } : undefined
     },
     nostr: {
@@ -220,49 +590,64 @@ export function registerIPCHandlers(): void {
   });
   
   ipcMain.handle(IPC_CHANNELS.APP_GET_USER_ID, () => {
-    return localKeyPair.publicKey.toString('hex').slice(0, 16);
+    return getLocalUserId();
+  });
+
+  // Identity handlers
+  ipcMain.handle(IPC_CHANNELS.IDENTITY_GET_FINGERPRINT, () => {
+    return KeyManager.generateFingerprint(localIdentity.staticKeyPair.publicKey);
   });
   
   // Message handlers
   ipcMain.handle(IPC_CHANNELS.MESSAGE_SEND, async (event: IpcMainInvokeEvent, request: SendMessageRequest) => {
     try {
-      const payload = Buffer.from(request.content, 'utf8');
+      const bitchatMessage: BitchatMessage = {
+        id: randomUUID(),
+        sender: settings.nickname || 'Anonymous',
+        content: request.content,
+        timestamp: new Date(),
+        isRelay: false,
+        isPrivate: !!request.recipientId,
+        recipientNickname: request.recipientId ?
+          mockPeers.get(request.recipientId)?.nickname :
+          undefined
+      };
       
-      if (request.recipientId && transportManager) {
-        // Send private message
-        const success = await transportManager.sendPacket(
-          request.recipientId,
-          MessageType.MESSAGE,
-          payload
-        );
+      const { recipientId } = request;
+      if (recipientId) {
+        const recipient = mockPeers.get(recipientId);
+        if (!recipient) {
+          throw new Error(`Unknown peer ${recipientId}`);
+        }
+        if (transportManager?.isBlocked(recipientId)) {
+          throw new Error(`Peer ${recipientId} is blocked`);
+        }
+        if (!recipient.isConnected && !isMutualFavorite(recipientId)) {
+          throw new Error(`Peer ${recipientId} is offline; messages are only held for mutual favorites`);
+        }
+
+        // Private messages wait in the outbox until the peer is reachable
+        const pendingMessage = { ...bitchatMessage, isOwn: true, deliveryStatus: DeliveryStatus.PENDING };
+        deliveryTracker?.track(bitchatMessage.id, recipientId);
+        await conversations?.addMessage(recipientId, pendingMessage);
+        broadcastToAllWindows(IPC_CHANNELS.MESSAGE_RECEIVED, toChatMessage(pendingMessage, recipientId));
+        await outbox?.enqueue(bitchatMessage, recipientId);
+        return;
+      }
+
+      if (transportManager) {
+        const success = await transportManager.sendMessage(bitchatMessage);
         
         if (!success) {
           throw new Error('Failed to send message');
         }
-      } else if (transportManager) {
-        // Broadcast message
-        await transportManager.broadcastPacket(
-          MessageType.MESSAGE,
-          payload
-        );
       }
+
+      const sentMessage = { ...bitchatMessage, isOwn: true, deliveryStatus: DeliveryStatus.SENT };
+      await conversations?.addMessage(PUBLIC_CONVERSATION, sentMessage);
       
       // Echo back to sender
-      const message = {
-        id: Date.now().toString(),
-        senderId: localKeyPair.publicKey.toString('hex').slice(0, 16),
-        senderNickname: settings.nickname,
-        recipientId: request.recipientId,
-        content: request.content,
-        timestamp: new Date().toISOString(),
-        isPrivate: !!request.recipientId,
-        isEncrypted: !!request.recipientId,
-        isSent: true,
-        isDelivered: false,
-        isRead: false
-      };
-      
-      broadcastToAllWindows(IPC_CHANNELS.MESSAGE_RECEIVED, message);
+      broadcastToAllWindows(IPC_CHANNELS.MESSAGE_RECEIVED, toChatMessage(sentMessage));
       
       return;
     } catch (error) {
@@ -270,6 +655,56 @@ export function registerIPCHandlers(): void {
     }
   });
   
+  // Message history handlers
+  ipcMain.handle(IPC_CHANNELS.MESSAGE_HISTORY_GET, async (_event: IpcMainInvokeEvent, request: MessageHistoryRequest): Promise<MessageHistoryPage> => {
+    if (!conversations) {
+      return { messages: [], hasMore: false };
+    }
+
+    const conversationId = request.conversationId || PUBLIC_CONVERSATION;
+    const page = await conversations.getMessages(conversationId, {
+      before: request.before,
+      limit: request.limit
+    });
+
+    return {
+      messages: page.messages.map(message => toChatMessage(message, request.conversationId)),
+      hasMore: page.hasMore
+    };
+  });
+
+  ipcMain.handle(IPC_CHANNELS.MESSAGE_UNREAD_GET, async (): Promise<UnreadCounts> => {
+    const { [PUBLIC_CONVERSATION]: publicCount, ...privateCounts } = conversations?.getUnreadCounts() || {};
+    return {
+      public: publicCount || 0,
+      private: privateCounts
+    };
+  });
+
+  // Outbox handlers
+  ipcMain.handle(IPC_CHANNELS.OUTBOX_LIST, async (): Promise<OutboxItem[]> => {
+    return (outbox?.list() || []).map(toOutboxItem);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.OUTBOX_CANCEL, async (_event: IpcMainInvokeEvent, messageId: string): Promise<boolean> => {
+    const entry = await outbox?.cancel(messageId);
+    if (!entry) {
+      return false;
+    }
+
+    deliveryTracker?.markFailed(messageId);
+    return true;
+  });
+
+  ipcMain.handle(IPC_CHANNELS.MESSAGE_MARK_READ, async (_event: IpcMainInvokeEvent, conversationId?: string) => {
+    await conversations?.markAsRead(conversationId || PUBLIC_CONVERSATION);
+    if (conversationId) {
+      // May wait for a handshake with the peer, so don't hold up the view
+      sendReadReceipts(conversationId)
+        .catch((error) => console.error('Failed to send read receipts:', error));
+    }
+  });
+
   // Peer handlers
   ipcMain.handle(IPC_CHANNELS.PEERS_LIST, async () => {
     const peers = Array.from(mockPeers.values()).map(peer => ({
@@ -278,25 +713,39 @@ export function registerIPCHandlers(): void {
       fingerprint: peer.fingerprint,
       isConnected: peer.isConnected,
       isFavorite: peer.isFavorite,
+      isMutualFavorite: peer.isMutualFavorite,
+      isVerified: !!peer.stableId && !!verificationStore?.isVerified(peer.stableId),
       lastSeen: peer.lastSeen
     }));
     return peers;
   });
   
+  // Favorites are kept by the peer's Noise key, so it must have proved one
   ipcMain.handle(IPC_CHANNELS.PEER_FAVORITE, async (event: IpcMainInvokeEvent, peerId: string) => {
-    const peer = mockPeers.get(peerId);
-    if (peer) {
-      peer.isFavorite = true;
-      mockPeers.set(peerId, peer);
+    const peer = transportManager?.getPeer(peerId);
+    if (!peer) {
+      throw new Error(`No secure session with peer ${peerId} yet`);
     }
+
+    await favoritesStore?.add({
+      peerID: peer.peerID,
+      nickname: peer.nickname || mockPeers.get(peerId)?.nickname || '',
+      noisePublicKey: peer.noisePublicKey.toString('hex'),
+      nostrPublicKey: peer.nostrPublicKey,
+      addedAt: new Date()
+    });
+    transportManager?.sendFavorite(peerId, true)
+      .catch((error) => console.error('Failed to send favorite:', error));
+    broadcastFavoriteStatus(peerId);
   });
   
   ipcMain.handle(IPC_CHANNELS.PEER_UNFAVORITE, async (event: IpcMainInvokeEvent, peerId: string) => {
-    const peer = mockPeers.get(peerId);
-    if (peer) {
-      peer.isFavorite = false;
-      mockPeers.set(peerId, peer);
+    const peer = transportManager?.getPeer(peerId);
+    if (peer && await favoritesStore?.remove(peer.noisePublicKey.toString('hex'))) {
+      transportManager?.sendFavorite(peerId, false)
+        .catch((error) => console.error('Failed to send unfavorite:', error));
     }
+    broadcastFavoriteStatus(peerId);
   });
   
   ipcMain.handle(IPC_CHANNELS.PEER_BLOCK, async (event: IpcMainInvokeEvent, peerId: string) => {
@@ -304,7 +753,14 @@ export function registerIPCHandlers(): void {
     if (peer) {
       peer.isBlocked = true;
       mockPeers.set(peerId, peer);
-      settings.blockedPeers.push(peerId);
+    }
+
+    // Blocked by the peer's fingerprint when we know its key
+    if (transportManager) {
+      transportManager.blockPeer(peerId);
+      await updateSettings({ blockedPeers: transportManager.getBlockedPeers() });
+    } else if (!settings.blockedPeers.includes(peerId)) {
+      await updateSettings({ blockedPeers: [...settings.blockedPeers, peerId] });
     }
   });
   
@@ -313,13 +769,58 @@ export function registerIPCHandlers(): void {
     if (peer) {
       peer.isBlocked = false;
       mockPeers.set(peerId, peer);
-      settings.blockedPeers = settings.blockedPeers.filter(id => id !== peerId);
+    }
+
+    if (transportManager) {
+      transportManager.unblockPeer(peerId);
+      await updateSettings({ blockedPeers: transportManager.getBlockedPeers() });
+    } else {
+      await updateSettings({ blockedPeers: settings.blockedPeers.filter(id => id !== peerId) });
     }
   });
   
+  // Verification handlers
+  ipcMain.handle(IPC_CHANNELS.PEER_VERIFICATION_GET, async (_event: IpcMainInvokeEvent, peerId: string): Promise<PeerVerificationInfo> => {
+    return getPeerVerification(peerId);
+  });
+
+  // Marks the key the peer holds now as verified, after the user compared
+  // safety numbers or scanned the peer's code, which must name that key
+  ipcMain.handle(IPC_CHANNELS.PEER_VERIFY, async (_event: IpcMainInvokeEvent, request: PeerVerifyRequest): Promise<PeerVerificationInfo> => {
+    const peer = transportManager?.getPeer(request.peerId);
+    if (!peer) {
+      throw new Error(`No secure session with peer ${request.peerId} yet`);
+    }
+
+    if (request.code) {
+      const code = parseVerificationCode(request.code);
+      if (!code.noisePublicKey.equals(peer.noisePublicKey)) {
+        throw new Error('Verification code does not match the key this peer is using');
+      }
+    }
+
+    await verificationStore?.add({
+      fingerprint: peer.fingerprint,
+      noisePublicKey: peer.noisePublicKey.toString('hex'),
+      nickname: peer.nickname,
+      verifiedAt: Date.now()
+    });
+    setPeerVerified(request.peerId, true);
+    return getPeerVerification(request.peerId);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.PEER_UNVERIFY, async (_event: IpcMainInvokeEvent, peerId: string): Promise<PeerVerificationInfo> => {
+    const peer = transportManager?.getPeer(peerId);
+    if (peer) {
+      await verificationStore?.remove(peer.fingerprint);
+    }
+    setPeerVerified(peerId, false);
+    return getPeerVerification(peerId);
+  });
+
   // Command handlers
   ipcMain.handle(IPC_CHANNELS.COMMAND_NICK, async (event: IpcMainInvokeEvent, nickname: string) => {
-    settings.nickname = nickname;
+    await updateSettings({ nickname });
     // TODO: Broadcast nickname change
   });
   
@@ -331,9 +832,10 @@ export function registerIPCHandlers(): void {
     };
   });
   
-  ipcMain.handle(IPC_CHANNELS.COMMAND_CLEAR, async () => {
-    // TODO: Clear message history
-    console.log('Clearing message history');
+  ipcMain.handle(IPC_CHANNELS.COMMAND_CLEAR, async (_event: IpcMainInvokeEvent, request?: ClearMessagesRequest) => {
+    if (conversations) {
+      await conversations.clear(request?.all ? undefined : request?.conversationId || PUBLIC_CONVERSATION);
+    }
   });
   
   // Connection handlers
@@ -348,7 +850,13 @@ export function registerIPCHandlers(): void {
       bytesUploaded: 0,
       bytesDownloaded: 0,
       sessionsEstablished: 0,
-      handshakeFailures: 0
+      handshakeFailures: 0,
+      ...(transportManager?.getRelayStats() || {
+        packetsRelayed: 0,
+        relayBytes: 0,
+        relaysRateLimited: 0,
+        relaysFailed: 0
+      })
     };
   });
   
@@ -357,9 +865,8 @@ export function registerIPCHandlers(): void {
     return settings;
   });
   
-  ipcMain.handle(IPC_CHANNELS.SETTINGS_SET, async (event: IpcMainInvokeEvent, newSettings: Partial<AppSettings>) => {
-    settings = { ...settings, ...newSettings };
-    // TODO: Persist settings
+  ipcMain.handle(IPC_CHANNELS.SETTINGS_SET, async (_event: IpcMainInvokeEvent, newSettings: Partial<AppSettings>): Promise<AppSettings> => {
+    return updateSettings(newSettings);
   });
   
   // Transport Preferences handlers
@@ -367,59 +874,39 @@ export function registerIPCHandlers(): void {
     return transportPreferences;
   });
   
-  ipcMain.handle(IPC_CHANNELS.TRANSPORT_PREFERENCES_SET, async (event: IpcMainInvokeEvent, newPreferences: Partial<TransportPreferences>) => {
-    transportPreferences = { ...transportPreferences, ...newPreferences };
+  ipcMain.handle(IPC_CHANNELS.TRANSPORT_PREFERENCES_SET, async (_event: IpcMainInvokeEvent, newPreferences: DeepPartial<TransportPreferences>): Promise<TransportPreferences> => {
+    await updateTransportPreferences(newPreferences);
     
     // Apply changes to transport manager if available
     if (transportManager && newPreferences.bleSettings?.deviceName) {
       // TODO: Update BLE device name
       console.log('Updating BLE device name to:', newPreferences.bleSettings.deviceName);
     }
-    
-    // TODO: Persist transport preferences
-    console.log('Updated transport preferences:', transportPreferences);
+
+    return transportPreferences;
   });
   
-  ipcMain.handle(IPC_CHANNELS.TRANSPORT_PREFERENCES_RESET, async () => {
-    transportPreferences = {
-      preferredTransport: 'auto',
-      autoConnect: true,
-      bleSettings: {
-        deviceName: 'BitChat Device',
-        autoAdvertise: true,
-        discoverabilityTimeout: 15
-      },
-      nostrSettings: {
-        autoConnectRelays: true,
-        maxRelayConnections: 5,
-        defaultRelays: [
-          'wss://relay.damus.io',
-          'wss://relay.primal.net',
-          'wss://offchain.pub'
-        ],
-        reconnectAttempts: 3
-      },
-      hybridSettings: {
-        priority: 'balanced',
-        fallbackBehavior: 'maintain-both',
-        connectionTimeout: 30
-      }
-    };
-    
-    console.log('Reset transport preferences to defaults');
+  ipcMain.handle(IPC_CHANNELS.TRANSPORT_PREFERENCES_RESET, async (): Promise<TransportPreferences> => {
+    transportPreferences = configStore ?
+      await configStore.resetTransportPreferences() :
+      structuredClone(DEFAULT_TRANSPORT_PREFERENCES);
+    return transportPreferences;
   });
   
   // Nostr Relay Management handlers
   ipcMain.handle(IPC_CHANNELS.NOSTR_RELAY_ADD, async (event: IpcMainInvokeEvent, url: string) => {
     try {
       if (transportManager) {
-        // TODO: Add relay to transport manager
         console.log('Adding Nostr relay:', url);
         
         // Add to default relays if not already present
         if (!transportPreferences.nostrSettings.defaultRelays.includes(url)) {
-          transportPreferences.nostrSettings.defaultRelays.push(url);
+          await updateTransportPreferences({
+            nostrSettings: { defaultRelays: [...transportPreferences.nostrSettings.defaultRelays, url] }
+          });
         }
+
+        await transportManager.addNostrRelay(url);
       }
     } catch (error) {
       throw new Error(`Failed to add relay: ${error}`);
@@ -429,12 +916,15 @@ export function registerIPCHandlers(): void {
   ipcMain.handle(IPC_CHANNELS.NOSTR_RELAY_REMOVE, async (event: IpcMainInvokeEvent, url: string) => {
     try {
       if (transportManager) {
-        // TODO: Remove relay from transport manager
         console.log('Removing Nostr relay:', url);
+        transportManager.removeNostrRelay(url);
         
         // Remove from default relays
-        transportPreferences.nostrSettings.defaultRelays = 
-          transportPreferences.nostrSettings.defaultRelays.filter(relay => relay !== url);
+        await updateTransportPreferences({
+          nostrSettings: {
+            defaultRelays: transportPreferences.nostrSettings.defaultRelays.filter(relay => relay !== url)
+          }
+        });
       }
     } catch (error) {
       throw new Error(`Failed to remove relay: ${error}`);
@@ -444,8 +934,8 @@ export function registerIPCHandlers(): void {
   ipcMain.handle(IPC_CHANNELS.NOSTR_RELAY_CONNECT, async (event: IpcMainInvokeEvent, url: string) => {
     try {
       if (transportManager) {
-        // TODO: Connect to specific relay
         console.log('Connecting to Nostr relay:', url);
+        await transportManager.connectNostrRelay(url);
       }
     } catch (error) {
       throw new Error(`Failed to connect to relay: ${error}`);
@@ -455,13 +945,210 @@ export function registerIPCHandlers(): void {
   ipcMain.handle(IPC_CHANNELS.NOSTR_RELAY_DISCONNECT, async (event: IpcMainInvokeEvent, url: string) => {
     try {
       if (transportManager) {
-        // TODO: Disconnect from specific relay
         console.log('Disconnecting from Nostr relay:', url);
+        transportManager.disconnectNostrRelay(url);
       }
     } catch (error) {
       throw new Error(`Failed to disconnect from relay: ${error}`);
     }
   });
+
+  // Nostr Identity handlers
+  ipcMain.handle(IPC_CHANNELS.NOSTR_IDENTITY_GET, async (): Promise<NostrIdentityInfo> => {
+    return {
+      npub: KeyManager.encodeNpub(localNostrKeyPair.publicKey),
+      publicKey: localNostrKeyPair.publicKey
+    };
+  });
+
+  ipcMain.handle(IPC_CHANNELS.NOSTR_IDENTITY_IMPORT, async (_event: IpcMainInvokeEvent, nsec: string): Promise<NostrIdentityInfo> => {
+    try {
+      localNostrKeyPair = KeyManager.importNsec(nsec);
+
+      if (identityStore) {
+        localIdentity = await identityStore.setNostrKeyPair(localNostrKeyPair);
+      }
+
+      if (transportManager) {
+        await transportManager.setNostrPrivateKey(Buffer.from(localNostrKeyPair.privateKey, 'hex'));
+      }
+
+      return {
+        npub: KeyManager.encodeNpub(localNostrKeyPair.publicKey),
+        publicKey: localNostrKeyPair.publicKey
+      };
+    } catch (error) {
+      throw new Error(`Failed to import Nostr key: ${error instanceof Error ? error.message : error}`);
+    }
+  });
+}
+
+// Helper functions to validate, apply and persist config changes
+async function updateSettings(update: Partial<AppSettings>): Promise<AppSettings> {
+  if (configStore) {
+    settings = await configStore.updateSettings(update);
+  }
+  if (update.nickname) {
+    transportManager?.setNickname(update.nickname);
+  }
+  if (update.blockedPeers) {
+    transportManager?.setBlockedPeers(settings.blockedPeers);
+  }
+  if (update.compressMessages !== undefined) {
+    await transportManager?.setCompression(settings.compressMessages);
+  }
+  return settings;
+}
+
+async function updateTransportPreferences(update: DeepPartial<TransportPreferences>): Promise<TransportPreferences> {
+  if (configStore) {
+    transportPreferences = await configStore.updateTransportPreferences(update);
+  }
+  return transportPreferences;
+}
+
+// Persist a delivery status change and tell the renderer about it
+function handleDeliveryStatusChange(change: DeliveryStatusChange): void {
+  const { messageId, peerID, status } = change;
+
+  conversations?.updateDeliveryStatus(peerID, messageId, status)
+    .catch((error) => console.error('Failed to store delivery status:', error));
+
+  const timestamp = change.timestamp.getTime();
+  if (status === DeliveryStatus.DELIVERED || status === DeliveryStatus.FAILED) {
+    const update: MessageDeliveryUpdate = { messageId, delivered: status === DeliveryStatus.DELIVERED, timestamp };
+    broadcastToAllWindows(IPC_CHANNELS.MESSAGE_DELIVERED, update);
+  } else if (status === DeliveryStatus.READ) {
+    const update: MessageReadUpdate = { messageId, read: true, timestamp };
+    broadcastToAllWindows(IPC_CHANNELS.MESSAGE_READ, update);
+  }
+}
+
+// Send read receipts for a peer's messages in the latest page of the
+// conversation that we have not confirmed yet. They stay unconfirmed if
+// the peer cannot be reached, so the next view tries again.
+async function sendReadReceipts(conversationId: string): Promise<void> {
+  if (!conversations || !transportManager) {
+    return;
+  }
+
+  // Everything in a private chat that is not ours came from the peer,
+  // under whichever ID it used at the time
+  const { messages } = await conversations.getMessages(conversationId);
+  const unconfirmed = messages
+    .filter(message => !message.isOwn && message.deliveryStatus !== DeliveryStatus.READ)
+    .map(message => message.id);
+  if (unconfirmed.length === 0) {
+    return;
+  }
+
+  if (!await transportManager.sendReadReceipt(conversations.getPeerID(conversationId), unconfirmed)) {
+    return;
+  }
+
+  for (const messageId of unconfirmed) {
+    await conversations.updateDeliveryStatus(conversationId, messageId, DeliveryStatus.READ);
+  }
+}
+
+// Try a peer's queued messages now that it is reachable again
+function flushOutbox(peerId: string): void {
+  outbox?.flush(peerId).catch((error) => console.error('Failed to flush outbox:', error));
+}
+
+// Whether we and the peer favorited each other
+function isMutualFavorite(peerId: string): boolean {
+  const peer = transportManager?.getPeer(peerId);
+  return !!peer && !!favoritesStore?.isMutual(peer.noisePublicKey.toString('hex'));
+}
+
+// Update the peer's favorite flags and tell the renderer about them
+function broadcastFavoriteStatus(peerId: string): void {
+  const noisePublicKey = transportManager?.getPeer(peerId)?.noisePublicKey.toString('hex');
+  const update: PeerFavoriteChangedEvent = {
+    peerId,
+    isFavorite: !!noisePublicKey && !!favoritesStore?.isFavorite(noisePublicKey),
+    isFavoritedBy: !!noisePublicKey && !!favoritesStore?.isFavoritedBy(noisePublicKey),
+    isMutualFavorite: !!noisePublicKey && !!favoritesStore?.isMutual(noisePublicKey)
+  };
+
+  const peer = mockPeers.get(peerId);
+  if (peer) {
+    peer.isFavorite = update.isFavorite;
+    peer.isMutualFavorite = update.isMutualFavorite;
+  }
+  broadcastToAllWindows(IPC_CHANNELS.PEER_FAVORITE_CHANGED, update);
+}
+
+// Our verification code and, once the peer has proved its static key,
+// the safety number we share with it
+function getPeerVerification(peerId: string): PeerVerificationInfo {
+  const localKey = localIdentity.staticKeyPair.publicKey;
+  const verificationCode = createVerificationCode(localKey, localIdentity.signingKeyPair.publicKey);
+  const peer = transportManager?.getPeer(peerId);
+  const verified = peer && verificationStore?.get(peer.fingerprint);
+
+  return {
+    peerId,
+    localFingerprint: KeyManager.generateFingerprint(localKey),
+    verificationCode,
+    qrCode: encodeQRCode(verificationCode),
+    remoteFingerprint: peer?.fingerprint,
+    safetyNumber: peer && generateSafetyNumber(localKey, peer.noisePublicKey),
+    isVerified: !!verified,
+    verifiedAt: verified?.verifiedAt
+  };
+}
+
+function setPeerVerified(peerId: string, isVerified: boolean): void {
+  const peer = mockPeers.get(peerId);
+  if (peer) {
+    peer.isVerified = isVerified;
+  }
+}
+
+// Helper function to convert an outbox entry to the renderer's shape
+function toOutboxItem(entry: OutboxEntry): OutboxItem {
+  return {
+    messageId: entry.message.id,
+    recipientId: entry.recipientId,
+    content: entry.message.content,
+    queuedAt: entry.queuedAt,
+    attempts: entry.attempts,
+    nextAttemptAt: entry.nextAttemptAt,
+    expiresAt: entry.expiresAt
+  };
+}
+
+// Our user ID as shown to the renderer
+function getLocalUserId(): string {
+  return localIdentity.staticKeyPair.publicKey.toString('hex').slice(0, 16);
+}
+
+// Helper function to convert a stored message to the renderer's shape
+function toChatMessage(message: BitchatMessage, conversationId?: string) {
+  const isOwn = !!message.isOwn;
+
+  return {
+    id: message.id,
+    // A peer's earlier messages show under the ID it uses now
+    senderId: isOwn ?
+      getLocalUserId() :
+      message.isPrivate && conversationId ? conversationId : message.senderPeerID || message.sender,
+    senderNickname: isOwn ? settings.nickname : message.sender,
+    recipientId: isOwn ? conversationId : undefined,
+    isOwn,
+    content: message.content,
+    timestamp: message.timestamp,
+    isPrivate: message.isPrivate,
+    isEncrypted: message.isPrivate,
+    isSent: isOwn && message.deliveryStatus !== DeliveryStatus.PENDING,
+    isQueued: !!outbox?.has(message.id),
+    isDelivered: message.deliveryStatus === DeliveryStatus.DELIVERED ||
+      message.deliveryStatus === DeliveryStatus.READ,
+    isRead: message.deliveryStatus === DeliveryStatus.READ,
+    isFailed: message.deliveryStatus === DeliveryStatus.FAILED
+  };
 }
 
 // Helper function to broadcast to all windows
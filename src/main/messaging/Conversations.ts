@@ -0,0 +1,101 @@
+import { MessagePage, MessageQuery, MessageStore } from '../storage/MessageStore';
+import { BitchatMessage, DeliveryStatus } from '../../shared/types';
+
+/**
+ * What a conversation needs to know about a peer: who it is, and the ID
+ * to reach it by now
+ */
+export interface ConversationPeer {
+  fingerprint: string;
+  peerID: string;
+}
+
+export interface ConversationsOptions {
+  store: MessageStore;
+  // Looks a peer up by the fingerprint of its Noise static key or by any
+  // peer ID it has used
+  getPeer: (id: string) => ConversationPeer | undefined;
+}
+
+/**
+ * Conversations files each private chat under the fingerprint of the
+ * peer's Noise static key, so that history and unread counts carry on
+ * when the peer changes its peer ID. Callers use whatever peer ID they
+ * know the peer by, and get unread counts back by the ID it uses now.
+ * A peer that has not proved its key yet is filed under its peer ID
+ * until it does (see adopt). IDs that are not peers, such as the public
+ * channel, are used as they are.
+ */
+export class Conversations {
+  private readonly store: MessageStore;
+  private readonly getPeer: (id: string) => ConversationPeer | undefined;
+
+  constructor(options: ConversationsOptions) {
+    this.store = options.store;
+    this.getPeer = options.getPeer;
+  }
+
+  /**
+   * The ID a peer's conversation is stored under
+   */
+  getConversationId(id: string): string {
+    return this.getPeer(id)?.fingerprint ?? id;
+  }
+
+  /**
+   * The peer ID to send to for a conversation
+   */
+  getPeerID(id: string): string {
+    return this.getPeer(id)?.peerID ?? id;
+  }
+
+  /**
+   * Moves what was filed under a peer ID to the peer's fingerprint, once
+   * the peer behind it has proved its key
+   */
+  async adopt(peerID: string): Promise<void> {
+    const conversationId = this.getConversationId(peerID);
+    if (conversationId !== peerID) {
+      await this.store.mergeConversation(peerID, conversationId);
+    }
+  }
+
+  addMessage(id: string, message: BitchatMessage, unread: boolean = false): Promise<boolean> {
+    return this.store.addMessage(this.getConversationId(id), message, unread);
+  }
+
+  updateDeliveryStatus(id: string, messageId: string, status: DeliveryStatus): Promise<boolean> {
+    return this.store.updateDeliveryStatus(this.getConversationId(id), messageId, status);
+  }
+
+  getMessage(id: string, messageId: string): Promise<BitchatMessage | undefined> {
+    return this.store.getMessage(this.getConversationId(id), messageId);
+  }
+
+  getMessages(id: string, query: MessageQuery = {}): Promise<MessagePage> {
+    return this.store.getMessages(this.getConversationId(id), query);
+  }
+
+  markAsRead(id: string): Promise<void> {
+    return this.store.markAsRead(this.getConversationId(id));
+  }
+
+  /**
+   * Unread counts by the peer ID each peer uses now
+   */
+  getUnreadCounts(): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const [conversationId, count] of Object.entries(this.store.getUnreadCounts())) {
+      const peerID = this.getPeerID(conversationId);
+      counts[peerID] = (counts[peerID] || 0) + count;
+    }
+    return counts;
+  }
+
+  /**
+   * Deletes the history of one conversation, or of all of them
+   */
+  clear(id?: string): Promise<void> {
+    return this.store.clear(id === undefined ? undefined : this.getConversationId(id));
+  }
+}
@@ -0,0 +1,217 @@
+import { EventEmitter } from 'events';
+import { DeliveryStatus } from '../../shared/types';
+
+export interface DeliveryTrackerOptions {
+  ackTimeout?: number; // ms to wait for a DELIVERY_ACK before asking again
+  maxStatusRequests?: number; // requests sent before a message is FAILED
+  maxTracked?: number;
+  // Whether a receipt's sender is the peer a message went to, e.g. the
+  // same identity under a new peer ID
+  isSamePeer?: (trackedPeerID: string, peerID: string) => boolean;
+}
+
+export interface DeliveryStatusChange {
+  messageId: string;
+  peerID: string;
+  status: DeliveryStatus;
+  previousStatus: DeliveryStatus;
+  timestamp: Date;
+}
+
+export interface DeliveryStatusRequest {
+  messageId: string;
+  peerID: string;
+  attempt: number;
+}
+
+export type DeliveryTrackerEvents = {
+  statusChanged: [DeliveryStatusChange];
+  statusRequest: [DeliveryStatusRequest];
+};
+
+interface TrackedMessage {
+  peerID: string;
+  status: DeliveryStatus;
+  statusRequests: number;
+  timer?: NodeJS.Timeout;
+}
+
+const STATUS_ORDER: DeliveryStatus[] = [
+  DeliveryStatus.PENDING,
+  DeliveryStatus.SENT,
+  DeliveryStatus.DELIVERED,
+  DeliveryStatus.READ
+];
+
+/**
+ * DeliveryTracker follows our outgoing private messages through
+ * PENDING → SENT → DELIVERED → READ. Status only moves forward, except
+ * that a message which reached FAILED can still be delivered or read if
+ * the peer's ACK turns up late. While a sent message waits for its ACK
+ * the tracker asks for a DELIVERY_STATUS_REQUEST every ackTimeout, and
+ * gives up with FAILED after maxStatusRequests unanswered requests.
+ *
+ * Receipts are only accepted from the peer the message was sent to.
+ * Receipts for messages we are not tracking, e.g. sent before a restart,
+ * are accepted as-is; callers only apply them to that peer's conversation.
+ */
+export class DeliveryTracker extends EventEmitter<DeliveryTrackerEvents> {
+  private messages: Map<string, TrackedMessage> = new Map();
+  private ackTimeout: number;
+  private maxStatusRequests: number;
+  private maxTracked: number;
+  private isSamePeer: (trackedPeerID: string, peerID: string) => boolean;
+
+  constructor(options: DeliveryTrackerOptions = {}) {
+    super();
+    this.ackTimeout = options.ackTimeout ?? 30000; // 30 seconds
+    this.maxStatusRequests = options.maxStatusRequests ?? 3;
+    this.maxTracked = options.maxTracked ?? 1000;
+    this.isSamePeer = options.isSamePeer ?? ((trackedPeerID, peerID) => trackedPeerID === peerID);
+  }
+
+  /**
+   * Starts tracking a private message that is about to be sent
+   */
+  track(messageId: string, peerID: string): void {
+    this.remove(messageId);
+    this.add(messageId, { peerID, status: DeliveryStatus.PENDING, statusRequests: 0 });
+  }
+
+  /**
+   * Records that the message left this device and starts waiting for an ACK
+   */
+  markSent(messageId: string): boolean {
+    const message = this.messages.get(messageId);
+    if (!message || !this.transition(messageId, message, DeliveryStatus.SENT, new Date())) {
+      return false;
+    }
+
+    this.scheduleStatusRequest(messageId, message);
+    return true;
+  }
+
+  /**
+   * Applies a DELIVERY_ACK from a peer
+   */
+  markDelivered(messageId: string, peerID: string, timestamp: Date = new Date()): boolean {
+    return this.applyReceipt(messageId, peerID, DeliveryStatus.DELIVERED, timestamp);
+  }
+
+  /**
+   * Applies a READ_RECEIPT from a peer
+   */
+  markRead(messageId: string, peerID: string, timestamp: Date = new Date()): boolean {
+    return this.applyReceipt(messageId, peerID, DeliveryStatus.READ, timestamp);
+  }
+
+  /**
+   * Marks a message that could not be sent
+   */
+  markFailed(messageId: string): boolean {
+    const message = this.messages.get(messageId);
+    return !!message && this.transition(messageId, message, DeliveryStatus.FAILED, new Date());
+  }
+
+  getStatus(messageId: string): DeliveryStatus | undefined {
+    return this.messages.get(messageId)?.status;
+  }
+
+  /**
+   * Stops all timers and forgets every tracked message
+   */
+  destroy(): void {
+    for (const message of this.messages.values()) {
+      clearTimeout(message.timer);
+    }
+    this.messages.clear();
+    this.removeAllListeners();
+  }
+
+  private applyReceipt(messageId: string, peerID: string, status: DeliveryStatus, timestamp: Date): boolean {
+    let message = this.messages.get(messageId);
+    if (!message) {
+      message = { peerID, status: DeliveryStatus.SENT, statusRequests: 0 };
+      this.add(messageId, message);
+    }
+
+    if (!this.isSamePeer(message.peerID, peerID)) {
+      return false;
+    }
+
+    return this.transition(messageId, message, status, timestamp);
+  }
+
+  private transition(messageId: string, message: TrackedMessage, status: DeliveryStatus, timestamp: Date): boolean {
+    const previousStatus = message.status;
+    if (!this.canTransition(previousStatus, status)) {
+      return false;
+    }
+
+    message.status = status;
+    if (status !== DeliveryStatus.SENT) {
+      clearTimeout(message.timer);
+      message.timer = undefined;
+    }
+
+    // Nothing can follow READ, so there is no need to remember the message
+    if (status === DeliveryStatus.READ) {
+      this.messages.delete(messageId);
+    }
+
+    this.emit('statusChanged', { messageId, peerID: message.peerID, status, previousStatus, timestamp });
+    return true;
+  }
+
+  private canTransition(from: DeliveryStatus, to: DeliveryStatus): boolean {
+    if (to === DeliveryStatus.FAILED) {
+      return from === DeliveryStatus.PENDING || from === DeliveryStatus.SENT;
+    }
+
+    // A late ACK overrides FAILED
+    if (from === DeliveryStatus.FAILED) {
+      return to === DeliveryStatus.DELIVERED || to === DeliveryStatus.READ;
+    }
+
+    return STATUS_ORDER.indexOf(to) > STATUS_ORDER.indexOf(from);
+  }
+
+  private scheduleStatusRequest(messageId: string, message: TrackedMessage): void {
+    clearTimeout(message.timer);
+    message.timer = setTimeout(() => {
+      message.timer = undefined;
+      if (message.status !== DeliveryStatus.SENT) {
+        return;
+      }
+
+      if (message.statusRequests >= this.maxStatusRequests) {
+        this.transition(messageId, message, DeliveryStatus.FAILED, new Date());
+        return;
+      }
+
+      message.statusRequests++;
+      this.emit('statusRequest', { messageId, peerID: message.peerID, attempt: message.statusRequests });
+      this.scheduleStatusRequest(messageId, message);
+    }, this.ackTimeout);
+    message.timer.unref?.();
+  }
+
+  // Evicts the oldest message once the limit is reached
+  private add(messageId: string, message: TrackedMessage): void {
+    if (this.messages.size >= this.maxTracked) {
+      const oldest = this.messages.keys().next().value;
+      if (oldest !== undefined) {
+        this.remove(oldest);
+      }
+    }
+    this.messages.set(messageId, message);
+  }
+
+  private remove(messageId: string): void {
+    const message = this.messages.get(messageId);
+    if (message) {
+      clearTimeout(message.timer);
+      this.messages.delete(messageId);
+    }
+  }
+}
@@ -0,0 +1,226 @@
+import { EventEmitter } from 'events';
+import { BitchatMessage } from '../../shared/types';
+import { OutboxEntry, OutboxStore } from '../storage/OutboxStore';
+
+/**
+ * Sends a queued message. Resolves false, or rejects, if the peer could
+ * not be reached.
+ */
+export type OutboxSender = (message: BitchatMessage, recipientId: string) => Promise<boolean>;
+
+export interface OutboxOptions {
+  send: OutboxSender;
+  store?: OutboxStore;
+  initialRetryDelay?: number; // ms before the first retry; doubles after each failure
+  maxRetryDelay?: number;
+  deadline?: number; // ms a message may wait before it is given up on
+}
+
+export type OutboxEvents = {
+  sent: [OutboxEntry];
+  expired: [OutboxEntry];
+  changed: [OutboxEntry[]];
+};
+
+/**
+ * Outbox holds private messages until they can be handed to a transport.
+ * Each new message is tried straight away; if the peer cannot be reached
+ * it is retried with exponential backoff, and immediately whenever the
+ * peer reappears (see flush). Messages for a peer are always tried in the
+ * order they were written. A message still queued when its deadline
+ * passes is dropped with an expired event.
+ */
+export class Outbox extends EventEmitter<OutboxEvents> {
+  private readonly send: OutboxSender;
+  private readonly store?: OutboxStore;
+  private entries: Map<string, OutboxEntry> = new Map();
+  private initialRetryDelay: number;
+  private maxRetryDelay: number;
+  private deadline: number;
+  private processing: Promise<void> = Promise.resolve();
+  private timer?: NodeJS.Timeout;
+
+  constructor(options: OutboxOptions) {
+    super();
+    this.send = options.send;
+    this.store = options.store;
+    this.initialRetryDelay = options.initialRetryDelay ?? 5000; // 5 seconds
+    this.maxRetryDelay = options.maxRetryDelay ?? 5 * 60 * 1000;
+    this.deadline = options.deadline ?? 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Restores messages queued before a restart and schedules their retries
+   */
+  async load(): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+
+    for (const entry of await this.store.load()) {
+      this.entries.set(entry.message.id, entry);
+    }
+    this.schedule();
+  }
+
+  /**
+   * Queues a message and tries to send it, after anything already queued
+   * for the same peer. Returns true if it was sent straight away.
+   */
+  async enqueue(message: BitchatMessage, recipientId: string): Promise<boolean> {
+    const now = Date.now();
+    this.entries.set(message.id, {
+      message,
+      recipientId,
+      attempts: 0,
+      queuedAt: now,
+      nextAttemptAt: now,
+      expiresAt: now + this.deadline
+    });
+    await this.persist();
+
+    await this.flush(recipientId);
+    return !this.entries.has(message.id);
+  }
+
+  /**
+   * Tries every message queued for a peer now, e.g. because it came back
+   * into range, regardless of the backoff
+   */
+  flush(recipientId: string): Promise<void> {
+    return this.run(() => this.process((entry) => entry.recipientId === recipientId));
+  }
+
+  /**
+   * Removes a message from the queue. Returns the entry, or undefined if
+   * it was not queued.
+   */
+  async cancel(messageId: string): Promise<OutboxEntry | undefined> {
+    const entry = this.entries.get(messageId);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(messageId);
+    await this.persist();
+    this.schedule();
+    return entry;
+  }
+
+  has(messageId: string): boolean {
+    return this.entries.has(messageId);
+  }
+
+  list(): OutboxEntry[] {
+    return Array.from(this.entries.values(), (entry) => structuredClone(entry));
+  }
+
+  /**
+   * Stops retrying. Queued messages stay in the store for the next start.
+   */
+  destroy(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.entries.clear();
+    this.removeAllListeners();
+  }
+
+  // Serializes processing so a message is never sent twice at once
+  private run(task: () => Promise<void>): Promise<void> {
+    const result = this.processing.then(task);
+    this.processing = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Expires overdue messages and tries the selected ones. Once a message
+   * for a peer fails, the rest of that peer's queue waits with it so
+   * their order is kept.
+   */
+  private async process(select: (entry: OutboxEntry, now: number) => boolean): Promise<void> {
+    const unreachable: Map<string, number> = new Map();
+    let changed = false;
+
+    for (const entry of Array.from(this.entries.values())) {
+      const now = Date.now();
+      if (!this.entries.has(entry.message.id)) {
+        continue; // Cancelled while we were sending
+      }
+
+      if (entry.expiresAt <= now) {
+        this.entries.delete(entry.message.id);
+        this.emit('expired', entry);
+        changed = true;
+        continue;
+      }
+
+      const retryAt = unreachable.get(entry.recipientId);
+      if (retryAt !== undefined) {
+        entry.nextAttemptAt = Math.max(entry.nextAttemptAt, retryAt);
+        continue;
+      }
+
+      if (!select(entry, now)) {
+        continue;
+      }
+
+      changed = true;
+      if (await this.attempt(entry)) {
+        this.entries.delete(entry.message.id);
+        this.emit('sent', entry);
+      } else {
+        unreachable.set(entry.recipientId, entry.nextAttemptAt);
+      }
+    }
+
+    if (changed) {
+      await this.persist();
+    }
+    this.schedule();
+  }
+
+  private async attempt(entry: OutboxEntry): Promise<boolean> {
+    try {
+      if (await this.send(entry.message, entry.recipientId)) {
+        return true;
+      }
+    } catch (error) {
+      console.error('Failed to send queued message:', error);
+    }
+
+    entry.attempts++;
+    const delay = Math.min(this.initialRetryDelay * 2 ** (entry.attempts - 1), this.maxRetryDelay);
+    entry.nextAttemptAt = Date.now() + delay;
+    return false;
+  }
+
+  // Wakes up for the next retry or deadline, whichever comes first
+  private schedule(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    if (this.entries.size === 0) {
+      return;
+    }
+
+    let next = Infinity;
+    for (const entry of this.entries.values()) {
+      next = Math.min(next, entry.nextAttemptAt, entry.expiresAt);
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.run(() => this.process((entry, now) => entry.nextAttemptAt <= now))
+        .catch((error) => console.error('Failed to process outbox:', error));
+    }, Math.max(0, next - Date.now()));
+    this.timer.unref?.();
+  }
+
+  private async persist(): Promise<void> {
+    this.emit('changed', this.list());
+    try {
+      await this.store?.save(Array.from(this.entries.values()));
+    } catch (error) {
+      console.error('Failed to save outbox:', error);
+    }
+  }
+}
@@ -1,12 +1,21 @@
 import { BitchatPacket, MessageFragment } from '../../shared/types';
-import { MessageType, PacketFlags, BLE_MTU, MESSAGE_MAX_SIZE } from '../../shared/constants';
+import { MessageType, PacketFlags, BLE_MTU, MESSAGE_MAX_SIZE, ErrorCodes } from '../../shared/constants';
+import { BufferReader } from './BufferReader';
+import { ProtocolError } from './ProtocolError';
+
+const HEADER_SIZE = 14;
+const PEER_ID_SIZE = 8;
+const SIGNATURE_SIZE = 64;
+const FRAGMENT_HEADER_SIZE = 12;
+
+const KNOWN_FLAGS = PacketFlags.HAS_RECIPIENT | PacketFlags.HAS_SIGNATURE | PacketFlags.IS_COMPRESSED;
 
 /**
  * BinaryProtocol handles encoding and decoding of BitChat packets
  * according to the protocol specification.
  * 
  * Packet Structure:
- * Header (13 bytes):
+ * Header (14 bytes):
  * - Version (1 byte)
  * - Type (1 byte)
  * - TTL (1 byte)
@@ -19,6 +28,10 @@ import { MessageType, PacketFlags, BLE_MTU, MESSAGE_MAX_SIZE } from '../../share
  * - RecipientID (8 bytes, optional based on HAS_RECIPIENT flag)
  * - Payload (variable)
  * - Signature (64 bytes, optional based on HAS_SIGNATURE flag)
+ *
+ * Decoding is strict: a packet must be exactly as long as its header
+ * says, and may not set flags we do not know. Anything else is rejected
+ * with a MALFORMED_PACKET ProtocolError giving the offending offset.
  */
 export class BinaryProtocol {
   /**
@@ -31,12 +44,12 @@ export class BinaryProtocol {
     }
 
     // Calculate total buffer size
-    let bufferSize = 15 + 8 + packet.payload.length; // Header (15 bytes) + SenderID + Payload
+    let bufferSize = HEADER_SIZE + PEER_ID_SIZE + packet.payload.length;
     if (packet.recipientID) {
-      bufferSize += 8;
+      bufferSize += PEER_ID_SIZE;
     }
     if (packet.signature) {
-      bufferSize += 64;
+      bufferSize += SIGNATURE_SIZE;
     }
 
     const buffer = Buffer.alloc(bufferSize);
@@ -90,64 +103,41 @@ export class BinaryProtocol {
   }
 
   /**
-   * Decodes a binary buffer into a BitchatPacket
+   * Decodes a binary buffer into a BitchatPacket. Throws a ProtocolError
+   * with MALFORMED_PACKET if it is not exactly one well-formed packet.
    */
   static decode(data: Buffer): BitchatPacket {
-    if (data.length < 15) {
-      throw new Error('Invalid packet: too small for header');
+    if (data.length < HEADER_SIZE + PEER_ID_SIZE) {
+      throw new ProtocolError(
+        ErrorCodes.MALFORMED_PACKET,
+        `Invalid packet: too small for header (${data.length} bytes)`,
+        { context: 'packet', field: 'header', offset: 0, length: data.length }
+      );
     }
 
-    let offset = 0;
+    const reader = new BufferReader(data, 'packet');
 
     // Read header
-    const version = data.readUInt8(offset++);
-    const type = data.readUInt8(offset++);
-    const ttl = data.readUInt8(offset++);
-    const timestamp = Number(data.readBigUInt64BE(offset));
-    offset += 8;
-    const flags = data.readUInt8(offset++);
-    const payloadLength = data.readUInt16BE(offset);
-    offset += 2;
+    const version = reader.readUInt8('version');
+    const type = reader.readUInt8('type');
+    const ttl = reader.readUInt8('ttl');
+    const timestamp = reader.readSafeUInt64BE('timestamp');
+    const flags = reader.readUInt8('flags');
+    if ((flags & ~KNOWN_FLAGS) !== 0) {
+      reader.fail(`unknown flags 0x${(flags & ~KNOWN_FLAGS).toString(16).padStart(2, '0')}`, 'flags', reader.position - 1);
+    }
+    const payloadLength = reader.readUInt16BE('payload length');
 
     // Parse flags
     const hasRecipient = (flags & PacketFlags.HAS_RECIPIENT) !== 0;
     const hasSignature = (flags & PacketFlags.HAS_SIGNATURE) !== 0;
     const isCompressed = (flags & PacketFlags.IS_COMPRESSED) !== 0;
 
-    // Calculate expected size
-    let expectedSize = 15 + 8 + payloadLength; // Header (15 bytes) + SenderID + Payload
-    if (hasRecipient) {
-      expectedSize += 8;
-    }
-    if (hasSignature) {
-      expectedSize += 64;
-    }
-
-    if (data.length < expectedSize) {
-      throw new Error(`Invalid packet: expected ${expectedSize} bytes, got ${data.length}`);
-    }
-
-    // Read SenderID
-    const senderID = data.slice(offset, offset + 8);
-    offset += 8;
-
-    // Read RecipientID if present
-    let recipientID: Buffer | undefined;
-    if (hasRecipient) {
-      recipientID = data.slice(offset, offset + 8);
-      offset += 8;
-    }
-
-    // Read payload
-    const payload = data.slice(offset, offset + payloadLength);
-    offset += payloadLength;
-
-    // Read signature if present
-    let signature: Buffer | undefined;
-    if (hasSignature) {
-      signature = data.slice(offset, offset + 64);
-      offset += 64;
-    }
+    const senderID = reader.readBytes(PEER_ID_SIZE, 'sender ID');
+    const recipientID = hasRecipient ? reader.readBytes(PEER_ID_SIZE, 'recipient ID') : undefined;
+    const payload = reader.readBytes(payloadLength, 'payload');
+    const signature = hasSignature ? reader.readBytes(SIGNATURE_SIZE, 'signature') : undefined;
+    reader.expectEnd();
 
     return {
       version,
@@ -163,6 +153,19 @@ export class BinaryProtocol {
     };
   }
 
+  /**
+   * Encodes the canonical form of a packet that is covered by its signature.
+   * TTL is zeroed so relays can decrement it without invalidating the
+   * signature, and the signature itself is omitted.
+   */
+  static encodeForSigning(packet: BitchatPacket): Buffer {
+    return this.encode({
+      ...packet,
+      ttl: 0,
+      signature: undefined
+    });
+  }
+
   /**
    * Fragments a large message into multiple packets for BLE transmission
    */
@@ -192,11 +195,11 @@ export class BinaryProtocol {
       // - FragmentIndex (2 bytes)
       // - TotalFragments (2 bytes)
       // - Data (remaining bytes)
-      const fragmentPayload = Buffer.alloc(12 + fragment.length);
+      const fragmentPayload = Buffer.alloc(FRAGMENT_HEADER_SIZE + fragment.length);
       messageIdBuffer.copy(fragmentPayload, 0);
       fragmentPayload.writeUInt16BE(i, 8);
       fragmentPayload.writeUInt16BE(totalFragments, 10);
-      fragment.copy(fragmentPayload, 12);
+      fragment.copy(fragmentPayload, FRAGMENT_HEADER_SIZE);
 
       let fragmentType: number;
       if (i === 0) {
@@ -244,14 +247,22 @@ export class BinaryProtocol {
    * Extracts fragment information from a fragment packet payload
    */
   static parseFragment(payload: Buffer): MessageFragment {
-    if (payload.length < 12) {
-      throw new Error('Invalid fragment: too small');
+    if (payload.length < FRAGMENT_HEADER_SIZE) {
+      throw new ProtocolError(
+        ErrorCodes.MALFORMED_PACKET,
+        `Invalid fragment: too small (${payload.length} bytes)`,
+        { context: 'fragment', field: 'header', offset: 0, length: payload.length }
+      );
     }
 
-    const messageId = payload.slice(0, 8).toString('hex');
-    const fragmentIndex = payload.readUInt16BE(8);
-    const totalFragments = payload.readUInt16BE(10);
-    const data = payload.slice(12);
+    const reader = new BufferReader(payload, 'fragment');
+    const messageId = reader.readBytes(8, 'message ID').toString('hex');
+    const fragmentIndex = reader.readUInt16BE('fragment index');
+    const totalFragments = reader.readUInt16BE('fragment count');
+    if (totalFragments === 0 || fragmentIndex >= totalFragments) {
+      reader.fail(`fragment ${fragmentIndex} of ${totalFragments}`, 'fragment index', 8);
+    }
+    const data = reader.readRest();
 
     return {
       messageId,
@@ -1,27 +1,284 @@
+import { EventEmitter } from 'events';
 import { randomBytes } from 'crypto';
-import { BitchatPacket, BitchatMessage, Peer } from '../../shared/types';
+import { deflateRawSync, inflateRawSync } from 'zlib';
+import { BitchatPacket, BitchatMessage, KeyPair, MessageReceivedEvent } from '../../shared/types';
 import { 
   MessageType, 
   PROTOCOL_VERSION, 
+  SUPPORTED_PROTOCOL_VERSIONS,
   MAX_TTL, 
+  MAX_CLOCK_SKEW,
   BROADCAST_ID,
-  STANDARD_BLOCK_SIZES 
+  STANDARD_BLOCK_SIZES,
+  MESSAGE_MAX_SIZE,
+  ErrorCodes
 } from '../../shared/constants';
 import { BinaryProtocol } from './BinaryProtocol';
+import { ProtocolError } from './ProtocolError';
+import { BufferReader } from './BufferReader';
+import { FragmentManager, FragmentProgress } from './FragmentManager';
+import { SeenPacketCache } from './SeenPacketCache';
+import { KeyManager } from '../crypto/KeyManager';
+
+export interface AnnouncePayload {
+  nickname: string;
+  publicKey: Buffer;
+  signingPublicKey?: Buffer;
+}
+
+export interface IdentityAnnouncement {
+  nickname: string;
+  noisePublicKey: Buffer;
+  signingPublicKey: Buffer;
+  nostrPublicKey?: string; // hex
+  timestamp: Date;
+}
+
+export interface IdentityAnnouncedEvent extends IdentityAnnouncement {
+  peerID: string;
+  fromPeer: string;
+}
+
+export interface ProtocolMessageEvent extends MessageReceivedEvent {
+  senderID: string;
+  packet: BitchatPacket;
+  isEncrypted: boolean;
+}
+
+export interface PeerAnnouncedEvent extends AnnouncePayload {
+  peerID: string;
+  fromPeer: string;
+}
+
+export interface PeerLeftEvent {
+  peerID: string;
+  fromPeer: string;
+}
+
+export interface ReceiptPayload {
+  messageIds: string[];
+  timestamp: Date;
+}
+
+export interface DeliveryAckEvent {
+  messageId: string;
+  peerID: string;
+  fromPeer: string;
+  timestamp: Date;
+}
+
+export type ReadReceiptEvent = DeliveryAckEvent;
+
+export interface DeliveryStatusRequestEvent {
+  messageId: string;
+  peerID: string;
+  fromPeer: string;
+}
+
+export interface FavoriteNotice {
+  nostrPublicKey?: string; // hex, where the peer can be reached when out of range
+  timestamp: Date;
+}
+
+export interface FavoriteChangedEvent extends FavoriteNotice {
+  peerID: string;
+  isFavorite: boolean;
+  fromPeer: string;
+}
+
+export interface RelayEvent {
+  packet: BitchatPacket;
+  fromPeer: string;
+}
+
+export interface PacketAcceptedEvent {
+  packet: BitchatPacket;
+  fromPeer: string;
+}
+
+export interface ProtocolErrorEvent {
+  error: ProtocolError;
+  packet: BitchatPacket;
+  fromPeer: string;
+}
+
+export type BitchatProtocolEvents = {
+  message: [ProtocolMessageEvent];
+  peerAnnounced: [PeerAnnouncedEvent];
+  identityAnnounced: [IdentityAnnouncedEvent];
+  peerLeft: [PeerLeftEvent];
+  deliveryAck: [DeliveryAckEvent];
+  readReceipt: [ReadReceiptEvent];
+  deliveryStatusRequest: [DeliveryStatusRequestEvent];
+  favoriteChanged: [FavoriteChangedEvent];
+  relay: [RelayEvent];
+  packetAccepted: [PacketAcceptedEvent];
+  fragmentProgress: [FragmentProgress];
+  protocolError: [ProtocolErrorEvent];
+};
+
+// Six UUIDs keep a receipt within the smallest padding block
+export const MAX_RECEIPT_IDS = 6;
+
+// Messages shorter than this rarely shrink enough to be worth compressing
+export const DEFAULT_COMPRESSION_THRESHOLD = 256;
+
+// Padded and compressed payloads declare their length in two bytes
+const MAX_DECLARED_LENGTH = 0xFFFF;
+
+export interface EncodedPayload {
+  payload: Buffer;
+  isCompressed: boolean;
+}
+
+// Flags in the first byte of an encoded message
+const MessageFlags = {
+  IS_RELAY: 0x01,
+  IS_PRIVATE: 0x02,
+  HAS_ORIGINAL_SENDER: 0x04,
+  HAS_RECIPIENT_NICKNAME: 0x08,
+  HAS_SENDER_PEER_ID: 0x10,
+  HAS_MENTIONS: 0x20
+} as const;
+
+const KNOWN_MESSAGE_FLAGS = Object.values(MessageFlags).reduce((all, flag) => all | flag, 0);
+
+/**
+ * Encodes a string prefixed with its UTF-8 length in one or two bytes.
+ * Throws if it is too long for the prefix rather than writing a length
+ * that wraps around.
+ */
+const lengthPrefixed = (value: string, field: string, lengthBytes: 1 | 2 = 1): Buffer => {
+  const bytes = Buffer.from(value, 'utf8');
+  const maxLength = lengthBytes === 1 ? 0xFF : 0xFFFF;
+  if (bytes.length > maxLength) {
+    throw new Error(`The ${field} is ${bytes.length} bytes, more than the ${maxLength} that can be encoded`);
+  }
+
+  const length = Buffer.alloc(lengthBytes);
+  length.writeUIntBE(bytes.length, 0, lengthBytes);
+  return Buffer.concat([length, bytes]);
+};
+
+// Types whose payload is a message, whole or in fragments
+const isMessagePayload = (type: number): boolean =>
+  type === MessageType.MESSAGE ||
+  type === MessageType.FRAGMENT_START ||
+  type === MessageType.FRAGMENT_CONTINUE ||
+  type === MessageType.FRAGMENT_END;
+
+/**
+ * Decrypts a private payload from a peer. Returns null when there is no
+ * session with the peer, meaning the payload was sent in the clear.
+ */
+export type PayloadDecryptor = (senderID: string, payload: Buffer) => Buffer | null;
+
+/**
+ * Returns the Noise static key a peer proved in its handshake, or undefined
+ * when there is no established session with the peer
+ */
+export type PeerStaticKeyLookup = (senderID: string) => Buffer | undefined;
+
+/**
+ * Tells whether the user has blocked the peer behind a sender ID
+ */
+export type BlockedPeerCheck = (senderID: string) => boolean;
+
+// Signed identity announcements start with this, so the signature cannot
+// be passed off as one over any other payload
+const IDENTITY_SIGNATURE_CONTEXT = Buffer.from('bitchat-identity-v1', 'utf8');
+
+export interface BitchatProtocolOptions {
+  decryptPayload?: PayloadDecryptor;
+  getPeerStaticKey?: PeerStaticKeyLookup;
+  isBlocked?: BlockedPeerCheck;
+  relayBlockedPeers?: boolean; // carry blocked peers' traffic for others; defaults to true
+  compressionThreshold?: number; // bytes of encoded message before we compress it
+  maxDecompressedSize?: number; // bytes a compressed payload may expand to
+  fragmentManager?: FragmentManager;
+  seenPacketCache?: SeenPacketCache;
+}
 
 /**
  * BitchatProtocol manages the high-level protocol operations
  * including message creation, routing, and validation.
  */
-export class BitchatProtocol {
-  private readonly peerID: Buffer;
-  private messageCache: Set<string>;
-  private fragmentCache: Map<string, any[]>;
+export class BitchatProtocol extends EventEmitter<BitchatProtocolEvents> {
+  private peerID: Buffer;
+  private previousPeerID?: Buffer; // still ours until the next rotation
+  private readonly signingKeyPair?: KeyPair;
+  private readonly decryptPayload?: PayloadDecryptor;
+  private readonly getPeerStaticKey?: PeerStaticKeyLookup;
+  private readonly isBlocked?: BlockedPeerCheck;
+  private readonly relayBlockedPeers: boolean;
+  private readonly compressionThreshold: number;
+  private readonly maxDecompressedSize: number;
+  private seenPackets: SeenPacketCache;
+  private fragmentManager: FragmentManager;
+  private peerSigningKeys: Map<string, Buffer>;
 
-  constructor(peerID: Buffer) {
+  constructor(peerID: Buffer, signingKeyPair?: KeyPair, options: BitchatProtocolOptions = {}) {
+    super();
     this.peerID = peerID;
-    this.messageCache = new Set();
-    this.fragmentCache = new Map();
+    this.signingKeyPair = signingKeyPair;
+    this.decryptPayload = options.decryptPayload;
+    this.getPeerStaticKey = options.getPeerStaticKey;
+    this.isBlocked = options.isBlocked;
+    this.relayBlockedPeers = options.relayBlockedPeers ?? true;
+    this.compressionThreshold = options.compressionThreshold ?? DEFAULT_COMPRESSION_THRESHOLD;
+    this.maxDecompressedSize = options.maxDecompressedSize ?? MESSAGE_MAX_SIZE;
+    this.seenPackets = options.seenPacketCache || new SeenPacketCache();
+    this.fragmentManager = options.fragmentManager || new FragmentManager();
+    this.peerSigningKeys = new Map();
+
+    this.fragmentManager.on('progress', (progress) => {
+      this.emit('fragmentProgress', progress);
+    });
+  }
+
+  /**
+   * Switches to a new sender ID. Packets addressed to the previous ID are
+   * still accepted until the next switch, as some may be in flight.
+   */
+  setPeerID(peerID: Buffer): void {
+    this.previousPeerID = this.peerID;
+    this.peerID = peerID;
+  }
+
+  getPeerID(): Buffer {
+    return this.peerID;
+  }
+
+  /**
+   * Checks whether an ID is our sender ID, or the one it replaced
+   */
+  isOwnPeerID(id: Buffer): boolean {
+    return id.equals(this.peerID) || !!this.previousPeerID?.equals(id);
+  }
+
+  /**
+   * Creates a generic packet, signed with our identity if available
+   */
+  createPacket(
+    type: number,
+    payload: Buffer,
+    recipientID?: Buffer,
+    ttl: number = MAX_TTL,
+    isCompressed: boolean = false
+  ): BitchatPacket {
+    const packet: BitchatPacket = {
+      version: PROTOCOL_VERSION,
+      type,
+      ttl,
+      timestamp: Date.now(),
+      flags: 0,
+      senderID: this.peerID,
+      recipientID,
+      payload,
+      isCompressed
+    };
+
+    return this.signIfPossible(packet);
   }
 
   /**
@@ -32,11 +289,7 @@ export class BitchatProtocol {
     recipientID?: Buffer,
     privateKey?: Buffer
   ): BitchatPacket {
-    // Encode message to binary format
-    const messageBuffer = this.encodeMessage(message);
-    
-    // Apply padding for traffic analysis resistance
-    const paddedPayload = this.applyPadding(messageBuffer);
+    const paddedPayload = this.encodeMessagePayload(message);
 
     const packet: BitchatPacket = {
       version: PROTOCOL_VERSION,
@@ -50,60 +303,256 @@ export class BitchatProtocol {
       isCompressed: false
     };
 
-    // Sign packet if private key provided
+    // Sign with the explicit key if provided, otherwise with our identity
     if (privateKey) {
       packet.signature = this.signPacket(packet, privateKey);
+      return packet;
     }
 
-    return packet;
+    return this.signIfPossible(packet);
   }
 
   /**
-   * Creates an announce packet for peer discovery
+   * Encodes a message and pads it to a standard block size
    */
-  createAnnouncePacket(nickname: string, publicKey: Buffer): BitchatPacket {
-    const payload = Buffer.concat([
-      Buffer.from([nickname.length]),
-      Buffer.from(nickname, 'utf8'),
-      publicKey
-    ]);
+  encodeMessagePayload(message: BitchatMessage): Buffer {
+    return this.applyPadding(this.encodeMessage(message));
+  }
+
+  /**
+   * Encodes a message for a peer that accepts compressed payloads. Messages
+   * above the compression threshold are compressed before padding, and
+   * sent compressed only if that makes them smaller. Messages too long to
+   * declare their uncompressed length are never compressed.
+   */
+  encodeCompressedMessagePayload(message: BitchatMessage): EncodedPayload {
+    const encoded = this.encodeMessage(message);
+    if (encoded.length < this.compressionThreshold || encoded.length > MAX_DECLARED_LENGTH) {
+      return { payload: this.applyPadding(encoded), isCompressed: false };
+    }
+
+    const compressed = this.compress(encoded);
+    return compressed.length < encoded.length ?
+      { payload: this.applyPadding(compressed), isCompressed: true } :
+      { payload: this.applyPadding(encoded), isCompressed: false };
+  }
+
+  /**
+   * Strips padding and decodes a message payload, decompressing it if the
+   * packet was flagged IS_COMPRESSED
+   */
+  decodeMessagePayload(payload: Buffer, isCompressed: boolean = false): BitchatMessage {
+    const buffer = this.removePadding(payload);
+    return this.decodeMessage(isCompressed ? this.decompress(buffer) : buffer);
+  }
+
+  /**
+   * Encodes the payload shared by DELIVERY_ACK, READ_RECEIPT and
+   * DELIVERY_STATUS_REQUEST, padded like a message so receipts cannot be
+   * told apart from short messages by their size.
+   * Format: [count][ID length][ID]...[timestamp (8 bytes)]
+   */
+  encodeReceiptPayload(messageIds: string[], timestamp: Date = new Date()): Buffer {
+    if (messageIds.length === 0 || messageIds.length > MAX_RECEIPT_IDS) {
+      throw new Error(`A receipt must carry between 1 and ${MAX_RECEIPT_IDS} message IDs`);
+    }
+
+    const parts = [Buffer.from([messageIds.length])];
+    for (const messageId of messageIds) {
+      const idBytes = Buffer.from(messageId, 'utf8');
+      if (idBytes.length > 255) {
+        throw new Error('Message ID too long for a receipt');
+      }
+      parts.push(Buffer.from([idBytes.length]), idBytes);
+    }
+
+    const timestampBuffer = Buffer.alloc(8);
+    timestampBuffer.writeBigUInt64BE(BigInt(timestamp.getTime()));
+    parts.push(timestampBuffer);
+
+    return this.applyPadding(Buffer.concat(parts));
+  }
+
+  /**
+   * Strips padding and decodes a receipt payload. Every field is bounds
+   * checked, and bytes left over are rejected.
+   */
+  decodeReceiptPayload(payload: Buffer): ReceiptPayload {
+    const reader = new BufferReader(this.removePadding(payload), 'receipt');
+
+    const count = reader.readUInt8('message ID count');
+    if (count === 0 || count > MAX_RECEIPT_IDS) {
+      reader.fail(`${count} message IDs`, 'message ID count', 0);
+    }
+
+    const messageIds: string[] = [];
+    for (let i = 0; i < count; i++) {
+      messageIds.push(reader.readString8('message ID'));
+    }
+    const timestamp = new Date(reader.readSafeUInt64BE('timestamp'));
+
+    reader.expectEnd();
+    return { messageIds, timestamp };
+  }
+
+  /**
+   * Encodes the payload of FAVORITED and UNFAVORITED, padded like a
+   * message. A favorite carries our Nostr key so the peer can reach us
+   * when we are out of range.
+   * Format: [Nostr key length][Nostr key][timestamp (8 bytes)]
+   */
+  encodeFavoritePayload(nostrPublicKey?: string, timestamp: Date = new Date()): Buffer {
+    const nostrKeyBytes = nostrPublicKey ? Buffer.from(nostrPublicKey, 'hex') : Buffer.alloc(0);
+    const timestampBuffer = Buffer.alloc(8);
+    timestampBuffer.writeBigUInt64BE(BigInt(timestamp.getTime()));
 
+    return this.applyPadding(Buffer.concat([Buffer.from([nostrKeyBytes.length]), nostrKeyBytes, timestampBuffer]));
+  }
+
+  /**
+   * Strips padding and decodes a FAVORITED or UNFAVORITED payload. Every
+   * field is bounds checked, and bytes left over are rejected.
+   */
+  decodeFavoritePayload(payload: Buffer): FavoriteNotice {
+    const reader = new BufferReader(this.removePadding(payload), 'favorite notice');
+
+    const nostrKey = reader.readBytes(reader.readUInt8('Nostr key length'), 'Nostr key');
+    const timestamp = new Date(reader.readSafeUInt64BE('timestamp'));
+
+    reader.expectEnd();
     return {
-      version: PROTOCOL_VERSION,
-      type: MessageType.ANNOUNCE,
-      ttl: MAX_TTL,
-      timestamp: Date.now(),
-      flags: 0,
-      senderID: this.peerID,
-      recipientID: BROADCAST_ID,
-      payload,
-      isCompressed: false
+      nostrPublicKey: nostrKey.length > 0 ? nostrKey.toString('hex') : undefined,
+      timestamp
     };
   }
 
   /**
-   * Creates a leave packet when disconnecting
+   * Encodes a signed identity announcement, sent to a peer over a fresh
+   * Noise session to bind our nickname and keys to the session's static key.
+   * Format: [nickname length][nickname][Noise static key (32)]
+   * [Ed25519 key (32)][Nostr key length][Nostr key][timestamp (8)]
+   * [Ed25519 signature (64)], padded like a message.
    */
-  createLeavePacket(): BitchatPacket {
-    return {
-      version: PROTOCOL_VERSION,
-      type: MessageType.LEAVE,
-      ttl: MAX_TTL,
-      timestamp: Date.now(),
-      flags: 0,
-      senderID: this.peerID,
-      recipientID: BROADCAST_ID,
-      payload: Buffer.alloc(0),
-      isCompressed: false
+  encodeIdentityAnnouncePayload(
+    nickname: string,
+    noisePublicKey: Buffer,
+    nostrPublicKey?: string,
+    timestamp: Date = new Date()
+  ): Buffer {
+    if (!this.signingKeyPair) {
+      throw new Error('An identity announce needs a signing key');
+    }
+
+    const nicknameBytes = Buffer.from(nickname, 'utf8').slice(0, 255);
+    const nostrKeyBytes = nostrPublicKey ? Buffer.from(nostrPublicKey, 'hex') : Buffer.alloc(0);
+    const timestampBuffer = Buffer.alloc(8);
+    timestampBuffer.writeBigUInt64BE(BigInt(timestamp.getTime()));
+
+    const body = Buffer.concat([
+      Buffer.from([nicknameBytes.length]),
+      nicknameBytes,
+      noisePublicKey,
+      this.signingKeyPair.publicKey,
+      Buffer.from([nostrKeyBytes.length]),
+      nostrKeyBytes,
+      timestampBuffer
+    ]);
+    const signature = KeyManager.sign(
+      Buffer.concat([IDENTITY_SIGNATURE_CONTEXT, body]),
+      this.signingKeyPair.privateKey
+    );
+
+    return this.applyPadding(Buffer.concat([body, signature]));
+  }
+
+  /**
+   * Strips padding, decodes an identity announcement and checks that it is
+   * signed by the signing key it carries. Throws a ProtocolError with
+   * MALFORMED_PACKET if a field does not fit or bytes are left over, or
+   * INVALID_SIGNATURE if the signature does not verify.
+   */
+  decodeIdentityAnnouncePayload(payload: Buffer): IdentityAnnouncement {
+    const buffer = this.removePadding(payload);
+    const reader = new BufferReader(buffer, 'identity announce');
+
+    const nickname = reader.readString8('nickname');
+    const noisePublicKey = reader.readBytes(32, 'Noise static key');
+    const signingPublicKey = reader.readBytes(32, 'signing key');
+    const nostrKey = reader.readBytes(reader.readUInt8('Nostr key length'), 'Nostr key');
+    const timestamp = new Date(reader.readSafeUInt64BE('timestamp'));
+    const signed = Buffer.concat([IDENTITY_SIGNATURE_CONTEXT, buffer.slice(0, reader.position)]);
+    const signature = reader.readBytes(64, 'signature');
+    reader.expectEnd();
+
+    const nostrPublicKey = nostrKey.length > 0 ? nostrKey.toString('hex') : undefined;
+    let isValid: boolean;
+    try {
+      isValid = KeyManager.verify(signed, signature, signingPublicKey);
+    } catch {
+      isValid = false;
+    }
+    if (!isValid) {
+      throw new ProtocolError(ErrorCodes.INVALID_SIGNATURE, 'Invalid signature on identity announce');
+    }
+
+    return { nickname, noisePublicKey, signingPublicKey, nostrPublicKey, timestamp };
+  }
+
+  /**
+   * Parses the payload of an announce packet
+   */
+  static parseAnnouncePayload(payload: Buffer): AnnouncePayload {
+    if (payload.length < 1) {
+      throw new Error('Invalid announce: empty payload');
+    }
+
+    const nicknameLength = payload.readUInt8(0);
+    const keyOffset = 1 + nicknameLength;
+    if (payload.length < keyOffset + 32) {
+      throw new Error('Invalid announce: missing public key');
+    }
+
+    const announce: AnnouncePayload = {
+      nickname: payload.slice(1, keyOffset).toString('utf8'),
+      publicKey: payload.slice(keyOffset, keyOffset + 32)
     };
+
+    if (payload.length >= keyOffset + 64) {
+      announce.signingPublicKey = payload.slice(keyOffset + 32, keyOffset + 64);
+    }
+
+    return announce;
+  }
+
+  /**
+   * Records the Ed25519 signing key for a peer, from its identity announce.
+   * Once known, every packet from that peer must carry a valid signature.
+   */
+  registerPeerSigningKey(peerID: string, signingPublicKey: Buffer): void {
+    this.peerSigningKeys.set(peerID, Buffer.from(signingPublicKey));
+  }
+
+  /**
+   * Gets the signing key we have learned for a peer
+   */
+  getPeerSigningKey(peerID: string): Buffer | undefined {
+    return this.peerSigningKeys.get(peerID);
+  }
+
+  /**
+   * Forgets the signing key for a peer
+   */
+  removePeerSigningKey(peerID: string): void {
+    this.peerSigningKeys.delete(peerID);
   }
 
   /**
    * Validates an incoming packet
    */
   validatePacket(packet: BitchatPacket): boolean {
-    // Check protocol version
-    if (packet.version !== PROTOCOL_VERSION) {
+    // Check protocol version; which one a link speaks is negotiated by
+    // the transport, but a relayed packet may be in any version we know
+    if (!SUPPORTED_PROTOCOL_VERSIONS.includes(packet.version)) {
       return false;
     }
 
@@ -114,40 +563,127 @@ export class BitchatProtocol {
 
     // Check timestamp (allow 5 minute clock skew)
     const now = Date.now();
-    const skew = 5 * 60 * 1000;
-    if (packet.timestamp > now + skew || packet.timestamp < now - skew) {
+    if (packet.timestamp > now + MAX_CLOCK_SKEW || packet.timestamp < now - MAX_CLOCK_SKEW) {
       return false;
     }
 
     // Check if we've seen this packet before (duplicate detection)
-    const packetId = this.getPacketId(packet);
-    if (this.messageCache.has(packetId)) {
+    if (this.seenPackets.hasPacket(packet, now)) {
       return false;
     }
 
-    // Validate signature if present
-    if (packet.signature && !this.verifySignature(packet)) {
+    return true;
+  }
+
+  /**
+   * Verifies a packet's signature against the sender's known signing key.
+   * Announces carry a key of their own, and must be signed by it. Packets
+   * from peers whose key is unknown, because they have not announced
+   * their identity over a Noise session, are accepted as-is.
+   * Throws a ProtocolError with INVALID_SIGNATURE on failure.
+   */
+  verifyPacket(packet: BitchatPacket): void {
+    const senderID = packet.senderID.toString('hex');
+    const signingKey = this.peerSigningKeys.get(senderID) ||
+      this.getAnnouncedSigningKey(packet);
+
+    if (!signingKey) {
+      return;
+    }
+
+    if (!packet.signature) {
+      throw new ProtocolError(
+        ErrorCodes.INVALID_SIGNATURE,
+        `Unsigned packet from peer ${senderID}`,
+        { peerID: senderID, type: packet.type }
+      );
+    }
+
+    if (!this.verifySignature(packet, signingKey)) {
+      throw new ProtocolError(
+        ErrorCodes.INVALID_SIGNATURE,
+        `Invalid signature on packet from peer ${senderID}`,
+        { peerID: senderID, type: packet.type }
+      );
+    }
+  }
+
+  /**
+   * Processes an incoming packet. Failures are reported through the
+   * protocolError event rather than thrown.
+   */
+  async processPacket(packet: BitchatPacket, fromPeer: string): Promise<void> {
+    try {
+      if (!this.acceptPacket(packet, fromPeer)) {
+        return;
+      }
+      await this.handlePacket(packet, fromPeer);
+    } catch (error) {
+      const protocolError = error instanceof ProtocolError ?
+        error :
+        new ProtocolError(
+          ErrorCodes.MALFORMED_PACKET,
+          `Failed to process packet: ${error instanceof Error ? error.message : error}`,
+          { peerID: packet.senderID.toString('hex'), type: packet.type }
+        );
+
+      this.emit('protocolError', { error: protocolError, packet, fromPeer });
+    }
+  }
+
+  /**
+   * Checks that a packet is valid, new, not our own and not forged, and
+   * remembers it for duplicate detection. Returns false for packets to
+   * drop, and throws a ProtocolError with INVALID_SIGNATURE for forged
+   * ones. Accepted packets are announced with packetAccepted, so the
+   * transport learns where their sender can be reached only from packets
+   * that really came from it.
+   */
+  acceptPacket(packet: BitchatPacket, fromPeer: string): boolean {
+    // Our own packets echoed back by the mesh are neither handled nor relayed
+    if (!this.validatePacket(packet) || this.isOwnPeerID(packet.senderID)) {
       return false;
     }
 
+    // Reject forged packets before they can poison the duplicate cache
+    this.verifyPacket(packet);
+
+    // Remember the packet for duplicate detection
+    this.seenPackets.addPacket(packet);
+
+    this.emit('packetAccepted', { packet, fromPeer });
     return true;
   }
 
   /**
-   * Processes an incoming packet
+   * Dispatches and relays an accepted packet
    */
-  async processPacket(packet: BitchatPacket, fromPeer: string): Promise<void> {
-    if (!this.validatePacket(packet)) {
+  private async handlePacket(packet: BitchatPacket, fromPeer: string): Promise<void> {
+    // Broadcasts and packets for other peers travel on through the mesh,
+    // including types we do not understand ourselves. Blocked peers'
+    // traffic is only carried if we still relay for them.
+    const isBlocked = !!this.isBlocked?.(packet.senderID.toString('hex'));
+    if (!this.isPrivateForUs(packet) && packet.ttl > 0 && (!isBlocked || this.relayBlockedPeers)) {
+      await this.relayPacket(packet, fromPeer);
+    }
+
+    // Nothing from a blocked peer is handled
+    if (isBlocked) {
       return;
     }
 
-    // Add to message cache for duplicate detection
-    const packetId = this.getPacketId(packet);
-    this.messageCache.add(packetId);
+    // Packets addressed to someone else are only relayed
+    if (!this.isPacketForUs(packet)) {
+      return;
+    }
 
-    // Clean old cache entries periodically
-    if (this.messageCache.size > 10000) {
-      this.cleanMessageCache();
+    // Only message payloads are ever compressed
+    if (packet.isCompressed && !isMessagePayload(packet.type)) {
+      throw new ProtocolError(
+        ErrorCodes.MALFORMED_PACKET,
+        `Compressed payload in packet of type ${packet.type}`,
+        { peerID: packet.senderID.toString('hex'), type: packet.type }
+      );
     }
 
     // Handle based on message type
@@ -159,6 +695,10 @@ export class BitchatProtocol {
       case MessageType.ANNOUNCE:
         await this.handleAnnounce(packet, fromPeer);
         break;
+
+      case MessageType.NOISE_IDENTITY_ANNOUNCE:
+        await this.handleIdentityAnnounce(packet, fromPeer);
+        break;
       
       case MessageType.LEAVE:
         await this.handleLeave(packet, fromPeer);
@@ -173,14 +713,22 @@ export class BitchatProtocol {
       case MessageType.DELIVERY_ACK:
         await this.handleDeliveryAck(packet, fromPeer);
         break;
+
+      case MessageType.READ_RECEIPT:
+        await this.handleReadReceipt(packet, fromPeer);
+        break;
+
+      case MessageType.DELIVERY_STATUS_REQUEST:
+        await this.handleDeliveryStatusRequest(packet, fromPeer);
+        break;
+
+      case MessageType.FAVORITED:
+      case MessageType.UNFAVORITED:
+        await this.handleFavorite(packet, fromPeer);
+        break;
       
       // Handle other message types...
     }
-
-    // Relay packet if TTL > 0 and not for us
-    if (packet.ttl > 0 && !this.isPacketForUs(packet)) {
-      await this.relayPacket(packet, fromPeer);
-    }
   }
 
   /**
@@ -191,12 +739,12 @@ export class BitchatProtocol {
     
     // Flags byte
     let flags = 0;
-    if (message.isRelay) flags |= 0x01;
-    if (message.isPrivate) flags |= 0x02;
-    if (message.originalSender) flags |= 0x04;
-    if (message.recipientNickname) flags |= 0x08;
-    if (message.senderPeerID) flags |= 0x10;
-    if (message.mentions && message.mentions.length > 0) flags |= 0x20;
+    if (message.isRelay) flags |= MessageFlags.IS_RELAY;
+    if (message.isPrivate) flags |= MessageFlags.IS_PRIVATE;
+    if (message.originalSender) flags |= MessageFlags.HAS_ORIGINAL_SENDER;
+    if (message.recipientNickname) flags |= MessageFlags.HAS_RECIPIENT_NICKNAME;
+    if (message.senderPeerID) flags |= MessageFlags.HAS_SENDER_PEER_ID;
+    if (message.mentions && message.mentions.length > 0) flags |= MessageFlags.HAS_MENTIONS;
     
     buffers.push(Buffer.from([flags]));
     
@@ -205,48 +753,33 @@ export class BitchatProtocol {
     timestampBuffer.writeBigUInt64BE(BigInt(message.timestamp.getTime()));
     buffers.push(timestampBuffer);
     
-    // Message ID
-    const idBytes = Buffer.from(message.id, 'utf8');
-    buffers.push(Buffer.from([idBytes.length]));
-    buffers.push(idBytes);
-    
-    // Sender
-    const senderBytes = Buffer.from(message.sender, 'utf8');
-    buffers.push(Buffer.from([senderBytes.length]));
-    buffers.push(senderBytes);
+    // Message ID and sender
+    buffers.push(lengthPrefixed(message.id, 'message ID'));
+    buffers.push(lengthPrefixed(message.sender, 'sender'));
     
     // Content
-    const contentBytes = Buffer.from(message.content, 'utf8');
-    const contentLengthBuffer = Buffer.alloc(2);
-    contentLengthBuffer.writeUInt16BE(contentBytes.length);
-    buffers.push(contentLengthBuffer);
-    buffers.push(contentBytes);
+    buffers.push(lengthPrefixed(message.content, 'content', 2));
     
     // Optional fields based on flags
     if (message.originalSender) {
-      const originalSenderBytes = Buffer.from(message.originalSender, 'utf8');
-      buffers.push(Buffer.from([originalSenderBytes.length]));
-      buffers.push(originalSenderBytes);
+      buffers.push(lengthPrefixed(message.originalSender, 'original sender'));
     }
     
     if (message.recipientNickname) {
-      const recipientNicknameBytes = Buffer.from(message.recipientNickname, 'utf8');
-      buffers.push(Buffer.from([recipientNicknameBytes.length]));
-      buffers.push(recipientNicknameBytes);
+      buffers.push(lengthPrefixed(message.recipientNickname, 'recipient nickname'));
     }
     
     if (message.senderPeerID) {
-      const senderPeerIDBytes = Buffer.from(message.senderPeerID, 'utf8');
-      buffers.push(Buffer.from([senderPeerIDBytes.length]));
-      buffers.push(senderPeerIDBytes);
+      buffers.push(lengthPrefixed(message.senderPeerID, 'sender peer ID'));
     }
     
     if (message.mentions && message.mentions.length > 0) {
+      if (message.mentions.length > 255) {
+        throw new Error('Too many mentions to encode');
+      }
       buffers.push(Buffer.from([message.mentions.length]));
       for (const mention of message.mentions) {
-        const mentionBytes = Buffer.from(mention, 'utf8');
-        buffers.push(Buffer.from([mentionBytes.length]));
-        buffers.push(mentionBytes);
+        buffers.push(lengthPrefixed(mention, 'mention'));
       }
     }
     
@@ -254,86 +787,100 @@ export class BitchatProtocol {
   }
 
   /**
-   * Decodes a binary buffer to BitchatMessage
+   * Decodes a binary buffer to BitchatMessage. Every field is bounds
+   * checked, and unknown flags or bytes left over are rejected.
    */
   private decodeMessage(buffer: Buffer): BitchatMessage {
-    let offset = 0;
+    const reader = new BufferReader(buffer, 'message');
     
     // Read flags
-    const flags = buffer.readUInt8(offset++);
-    const isRelay = (flags & 0x01) !== 0;
-    const isPrivate = (flags & 0x02) !== 0;
-    const hasOriginalSender = (flags & 0x04) !== 0;
-    const hasRecipientNickname = (flags & 0x08) !== 0;
-    const hasSenderPeerID = (flags & 0x10) !== 0;
-    const hasMentions = (flags & 0x20) !== 0;
-    
-    // Read timestamp
-    const timestamp = new Date(Number(buffer.readBigUInt64BE(offset)));
-    offset += 8;
-    
-    // Read ID
-    const idLength = buffer.readUInt8(offset++);
-    const id = buffer.slice(offset, offset + idLength).toString('utf8');
-    offset += idLength;
-    
-    // Read sender
-    const senderLength = buffer.readUInt8(offset++);
-    const sender = buffer.slice(offset, offset + senderLength).toString('utf8');
-    offset += senderLength;
-    
-    // Read content
-    const contentLength = buffer.readUInt16BE(offset);
-    offset += 2;
-    const content = buffer.slice(offset, offset + contentLength).toString('utf8');
-    offset += contentLength;
+    const flags = reader.readUInt8('flags');
+    if ((flags & ~KNOWN_MESSAGE_FLAGS) !== 0) {
+      reader.fail(`unknown flags 0x${(flags & ~KNOWN_MESSAGE_FLAGS).toString(16).padStart(2, '0')}`, 'flags', 0);
+    }
     
     const message: BitchatMessage = {
-      id,
-      sender,
-      content,
-      timestamp,
-      isRelay,
-      isPrivate
+      timestamp: new Date(reader.readSafeUInt64BE('timestamp')),
+      id: reader.readString8('message ID'),
+      sender: reader.readString8('sender'),
+      content: reader.readString16('content'),
+      isRelay: (flags & MessageFlags.IS_RELAY) !== 0,
+      isPrivate: (flags & MessageFlags.IS_PRIVATE) !== 0
     };
     
     // Read optional fields
-    if (hasOriginalSender) {
-      const originalSenderLength = buffer.readUInt8(offset++);
-      message.originalSender = buffer.slice(offset, offset + originalSenderLength).toString('utf8');
-      offset += originalSenderLength;
+    if (flags & MessageFlags.HAS_ORIGINAL_SENDER) {
+      message.originalSender = reader.readString8('original sender');
     }
     
-    if (hasRecipientNickname) {
-      const recipientNicknameLength = buffer.readUInt8(offset++);
-      message.recipientNickname = buffer.slice(offset, offset + recipientNicknameLength).toString('utf8');
-      offset += recipientNicknameLength;
+    if (flags & MessageFlags.HAS_RECIPIENT_NICKNAME) {
+      message.recipientNickname = reader.readString8('recipient nickname');
     }
     
-    if (hasSenderPeerID) {
-      const senderPeerIDLength = buffer.readUInt8(offset++);
-      message.senderPeerID = buffer.slice(offset, offset + senderPeerIDLength).toString('utf8');
-      offset += senderPeerIDLength;
+    if (flags & MessageFlags.HAS_SENDER_PEER_ID) {
+      message.senderPeerID = reader.readString8('sender peer ID');
     }
     
-    if (hasMentions) {
-      const mentionsCount = buffer.readUInt8(offset++);
+    if (flags & MessageFlags.HAS_MENTIONS) {
+      const mentionsCount = reader.readUInt8('mention count');
       message.mentions = [];
       for (let i = 0; i < mentionsCount; i++) {
-        const mentionLength = buffer.readUInt8(offset++);
-        const mention = buffer.slice(offset, offset + mentionLength).toString('utf8');
-        offset += mentionLength;
-        message.mentions.push(mention);
+        message.mentions.push(reader.readString8('mention'));
       }
     }
     
+    reader.expectEnd();
     return message;
   }
 
+  /**
+   * Compresses an encoded message.
+   * Format: [uncompressed length (2 bytes)][raw DEFLATE data]
+   */
+  private compress(data: Buffer): Buffer {
+    const length = Buffer.alloc(2);
+    length.writeUInt16BE(data.length);
+    return Buffer.concat([length, deflateRawSync(data)]);
+  }
+
+  /**
+   * Decompresses a payload without letting it expand past the declared
+   * length or our limit, so a small packet cannot exhaust memory
+   */
+  private decompress(data: Buffer): Buffer {
+    const reader: BufferReader = new BufferReader(data, 'compressed payload');
+    const length = reader.readUInt16BE('uncompressed length');
+    if (length > this.maxDecompressedSize) {
+      throw new ProtocolError(
+        ErrorCodes.MESSAGE_TOO_LARGE,
+        `Compressed payload expands to ${length} bytes, more than the ${this.maxDecompressedSize} allowed`
+      );
+    }
+
+    let decompressed: Buffer;
+    try {
+      decompressed = inflateRawSync(reader.readRest(), { maxOutputLength: Math.max(length, 1) });
+    } catch (error) {
+      reader.fail(`cannot be inflated (${error instanceof Error ? error.message : error})`, 'data', 2);
+    }
+
+    if (decompressed.length !== length) {
+      reader.fail(`inflates to ${decompressed.length} bytes, not ${length}`, 'uncompressed length', 0);
+    }
+    return decompressed;
+  }
+
   /**
    * Applies padding to payload for traffic analysis resistance
    */
   private applyPadding(payload: Buffer): Buffer {
+    if (payload.length > MAX_DECLARED_LENGTH) {
+      throw new ProtocolError(
+        ErrorCodes.MESSAGE_TOO_LARGE,
+        `Payload is ${payload.length} bytes, more than the ${MAX_DECLARED_LENGTH} that can be padded`
+      );
+    }
+
     // Find the next standard block size
     let targetSize = payload.length;
     for (const blockSize of STANDARD_BLOCK_SIZES) {
@@ -365,29 +912,9 @@ export class BitchatProtocol {
    * Removes padding from payload
    */
   private removePadding(paddedPayload: Buffer): Buffer {
-    if (paddedPayload.length < 2) {
-      throw new Error('Invalid padded payload: too small');
-    }
-    
-    const payloadLength = paddedPayload.readUInt16BE(0);
-    if (payloadLength > paddedPayload.length - 2) {
-      throw new Error('Invalid padded payload: length mismatch');
-    }
-    
-    return paddedPayload.slice(2, 2 + payloadLength);
-  }
-
-  /**
-   * Generates a unique packet ID for duplicate detection
-   */
-  private getPacketId(packet: BitchatPacket): string {
-    // Use combination of senderID, timestamp, and first 8 bytes of payload
-    const parts = [
-      packet.senderID.toString('hex'),
-      packet.timestamp.toString(),
-      packet.payload.slice(0, 8).toString('hex')
-    ];
-    return parts.join(':');
+    const reader = new BufferReader(paddedPayload, 'padded payload');
+    const payloadLength = reader.readUInt16BE('payload length');
+    return reader.readBytes(payloadLength, 'payload');
   }
 
   /**
@@ -398,60 +925,189 @@ export class BitchatProtocol {
       return true; // Broadcast message
     }
     
-    return packet.recipientID.equals(this.peerID) || 
+    return this.isOwnPeerID(packet.recipientID) ||
            packet.recipientID.equals(BROADCAST_ID);
   }
 
   /**
-   * Signs a packet (placeholder - actual implementation would use Ed25519)
+   * Checks if a packet is addressed to us specifically
+   */
+  private isPrivateForUs(packet: BitchatPacket): boolean {
+    return !!packet.recipientID && this.isOwnPeerID(packet.recipientID);
+  }
+
+  /**
+   * Signs a packet with our identity's signing key, if we have one
+   */
+  private signIfPossible(packet: BitchatPacket): BitchatPacket {
+    if (this.signingKeyPair) {
+      packet.signature = this.signPacket(packet, this.signingKeyPair.privateKey);
+    }
+    return packet;
+  }
+
+  /**
+   * Signs the canonical encoding of a packet using Ed25519
    */
   private signPacket(packet: BitchatPacket, privateKey: Buffer): Buffer {
-    // TODO: Implement actual Ed25519 signing
-    // For now, return a dummy signature
-    return Buffer.alloc(64);
+    return KeyManager.sign(BinaryProtocol.encodeForSigning(packet), privateKey);
   }
 
   /**
-   * Verifies a packet signature (placeholder)
+   * Verifies a packet signature using Ed25519
    */
-  private verifySignature(packet: BitchatPacket): boolean {
-    // TODO: Implement actual Ed25519 verification
-    return true;
+  private verifySignature(packet: BitchatPacket, signingPublicKey: Buffer): boolean {
+    if (!packet.signature || packet.signature.length !== 64) {
+      return false;
+    }
+
+    try {
+      return KeyManager.verify(
+        BinaryProtocol.encodeForSigning(packet),
+        packet.signature,
+        signingPublicKey
+      );
+    } catch {
+      return false;
+    }
   }
 
   /**
-   * Handles incoming message packets
+   * Extracts the signing key carried by an announce packet, if any
+   */
+  private getAnnouncedSigningKey(packet: BitchatPacket): Buffer | undefined {
+    if (packet.type !== MessageType.ANNOUNCE) {
+      return undefined;
+    }
+
+    try {
+      return BitchatProtocol.parseAnnouncePayload(packet.payload).signingPublicKey;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Decrypts the payload of a packet addressed to us if we have a session
+   * with the sender; otherwise the payload is returned as sent
+   */
+  private openPayload(packet: BitchatPacket): { payload: Buffer; isEncrypted: boolean } {
+    if (!this.decryptPayload || !this.isPrivateForUs(packet)) {
+      return { payload: packet.payload, isEncrypted: false };
+    }
+
+    const senderID = packet.senderID.toString('hex');
+    let decrypted: Buffer | null;
+    try {
+      decrypted = this.decryptPayload(senderID, packet.payload);
+    } catch {
+      throw new ProtocolError(
+        ErrorCodes.DECRYPTION_FAILED,
+        `Failed to decrypt packet from peer ${senderID}`,
+        { peerID: senderID, type: packet.type }
+      );
+    }
+
+    return decrypted ?
+      { payload: decrypted, isEncrypted: true } :
+      { payload: packet.payload, isEncrypted: false };
+  }
+
+  /**
+   * Handles incoming message packets. Private messages only count when
+   * they arrive over a Noise session; anyone can send one in the clear
+   * under any sender ID, so those are dropped.
    */
   private async handleMessage(packet: BitchatPacket, fromPeer: string): Promise<void> {
-    const unpaddedPayload = this.removePadding(packet.payload);
-    const message = this.decodeMessage(unpaddedPayload);
-    
-    // Emit message event for application layer
-    // TODO: Implement event emitter
-    console.log('Received message:', message);
+    const senderID = packet.senderID.toString('hex');
+    const { payload, isEncrypted } = this.openPayload(packet);
+    if (!isEncrypted && this.isPrivateForUs(packet)) {
+      return;
+    }
+
+    const message = this.decodeMessagePayload(payload, packet.isCompressed);
+    if (!isEncrypted && message.isPrivate) {
+      return;
+    }
+
+    this.emit('message', { message, fromPeer, senderID, packet, isEncrypted });
   }
 
   /**
-   * Handles announce packets
+   * Handles announce packets from other clients. We do not send them
+   * ourselves, as the Noise key they carry in the clear would link our
+   * sender IDs across rotations. Anyone can announce any sender ID, so
+   * the signing key an announce carries is not remembered: a peer's key
+   * is only learned from the identity announce it sends over a Noise
+   * session, which binds it to the static key the handshake proved.
    */
   private async handleAnnounce(packet: BitchatPacket, fromPeer: string): Promise<void> {
     // Parse announce payload
-    const nicknameLength = packet.payload.readUInt8(0);
-    const nickname = packet.payload.slice(1, 1 + nicknameLength).toString('utf8');
-    const publicKey = packet.payload.slice(1 + nicknameLength);
-    
-    // Emit peer discovered event
-    // TODO: Implement event emitter
-    console.log('Peer announced:', nickname, publicKey.toString('hex'));
+    const { nickname, publicKey, signingPublicKey } =
+      BitchatProtocol.parseAnnouncePayload(packet.payload);
+    const senderID = packet.senderID.toString('hex');
+
+    this.emit('peerAnnounced', {
+      peerID: senderID,
+      nickname,
+      publicKey,
+      signingPublicKey,
+      fromPeer
+    });
+  }
+
+  /**
+   * Handles a peer's signed identity announcement. It only counts when it
+   * arrives over a Noise session whose static key it names, so the peer has
+   * proved it holds that key, and it may not replace a signing key we
+   * already know for the peer.
+   */
+  private async handleIdentityAnnounce(packet: BitchatPacket, fromPeer: string): Promise<void> {
+    if (!this.isPrivateForUs(packet)) {
+      return;
+    }
+
+    const senderID = packet.senderID.toString('hex');
+    const { payload, isEncrypted } = this.openPayload(packet);
+    if (!isEncrypted) {
+      throw new ProtocolError(
+        ErrorCodes.INVALID_SIGNATURE,
+        `Identity announce from peer ${senderID} was not sent over a Noise session`,
+        { peerID: senderID, type: packet.type }
+      );
+    }
+
+    const identity = this.decodeIdentityAnnouncePayload(payload);
+    const sessionKey = this.getPeerStaticKey?.(senderID);
+    if (!sessionKey || !sessionKey.equals(identity.noisePublicKey)) {
+      throw new ProtocolError(
+        ErrorCodes.INVALID_SIGNATURE,
+        `Identity announce from peer ${senderID} does not match its Noise session`,
+        { peerID: senderID, type: packet.type }
+      );
+    }
+
+    const knownKey = this.peerSigningKeys.get(senderID);
+    if (knownKey && !knownKey.equals(identity.signingPublicKey)) {
+      throw new ProtocolError(
+        ErrorCodes.INVALID_SIGNATURE,
+        `Identity announce from peer ${senderID} conflicts with its known signing key`,
+        { peerID: senderID, type: packet.type }
+      );
+    }
+    this.registerPeerSigningKey(senderID, identity.signingPublicKey);
+
+    this.emit('identityAnnounced', { ...identity, peerID: senderID, fromPeer });
   }
 
   /**
    * Handles leave packets
    */
   private async handleLeave(packet: BitchatPacket, fromPeer: string): Promise<void> {
-    // Emit peer left event
-    // TODO: Implement event emitter
-    console.log('Peer left:', packet.senderID.toString('hex'));
+    this.emit('peerLeft', {
+      peerID: packet.senderID.toString('hex'),
+      fromPeer
+    });
   }
 
   /**
@@ -459,45 +1115,91 @@ export class BitchatProtocol {
    */
   private async handleFragment(packet: BitchatPacket, fromPeer: string): Promise<void> {
     const fragment = BinaryProtocol.parseFragment(packet.payload);
-    
-    // Store fragment
-    if (!this.fragmentCache.has(fragment.messageId)) {
-      this.fragmentCache.set(fragment.messageId, []);
-    }
-    
-    const fragments = this.fragmentCache.get(fragment.messageId)!;
-    fragments.push(fragment);
-    
-    // Check if we have all fragments
-    if (fragments.length === fragment.totalFragments) {
-      const reassembled = BinaryProtocol.reassembleFragments(fragments);
-      if (reassembled) {
-        // Create a new packet with reassembled payload
-        const reassembledPacket: BitchatPacket = {
-          ...packet,
-          type: MessageType.MESSAGE,
-          payload: reassembled
-        };
-        
-        // Process the reassembled message
-        await this.handleMessage(reassembledPacket, fromPeer);
-        
-        // Clean up fragment cache
-        this.fragmentCache.delete(fragment.messageId);
-      }
+    const reassembled = this.fragmentManager.addFragment(
+      packet.senderID.toString('hex'),
+      fragment
+    );
+
+    if (!reassembled) {
+      return;
     }
+
+    // Process the reassembled message as a regular message packet
+    await this.handleMessage({
+      ...packet,
+      type: MessageType.MESSAGE,
+      payload: reassembled
+    }, fromPeer);
   }
 
   /**
    * Handles delivery acknowledgment packets
    */
   private async handleDeliveryAck(packet: BitchatPacket, fromPeer: string): Promise<void> {
-    // Extract message ID from payload
-    const messageId = packet.payload.toString('hex');
-    
-    // Emit delivery confirmation event
-    // TODO: Implement event emitter
-    console.log('Delivery confirmed for message:', messageId);
+    for (const event of this.openReceipt(packet, fromPeer)) {
+      this.emit('deliveryAck', event);
+    }
+  }
+
+  /**
+   * Handles read receipt packets
+   */
+  private async handleReadReceipt(packet: BitchatPacket, fromPeer: string): Promise<void> {
+    for (const event of this.openReceipt(packet, fromPeer)) {
+      this.emit('readReceipt', event);
+    }
+  }
+
+  /**
+   * Handles a peer asking whether we received its messages
+   */
+  private async handleDeliveryStatusRequest(packet: BitchatPacket, fromPeer: string): Promise<void> {
+    for (const { messageId, peerID } of this.openReceipt(packet, fromPeer)) {
+      this.emit('deliveryStatusRequest', { messageId, peerID, fromPeer });
+    }
+  }
+
+  /**
+   * Handles a peer telling us it favorited or unfavorited us. Only notices
+   * sent over a Noise session count, as they are tied to the peer's key.
+   */
+  private async handleFavorite(packet: BitchatPacket, fromPeer: string): Promise<void> {
+    if (!this.isPrivateForUs(packet)) {
+      return;
+    }
+
+    const { payload, isEncrypted } = this.openPayload(packet);
+    if (!isEncrypted) {
+      return;
+    }
+
+    this.emit('favoriteChanged', {
+      ...this.decodeFavoritePayload(payload),
+      peerID: packet.senderID.toString('hex'),
+      isFavorite: packet.type === MessageType.FAVORITED,
+      fromPeer
+    });
+  }
+
+  /**
+   * Decrypts and decodes a receipt, yielding one event per message ID.
+   * Receipts are only meaningful between two peers, so broadcast ones
+   * are ignored, as are any not sent over a Noise session.
+   */
+  private openReceipt(packet: BitchatPacket, fromPeer: string): DeliveryAckEvent[] {
+    if (!this.isPrivateForUs(packet)) {
+      return [];
+    }
+
+    const { payload, isEncrypted } = this.openPayload(packet);
+    if (!isEncrypted) {
+      return [];
+    }
+
+    const { messageIds, timestamp } = this.decodeReceiptPayload(payload);
+    const peerID = packet.senderID.toString('hex');
+
+    return messageIds.map((messageId) => ({ messageId, peerID, fromPeer, timestamp }));
   }
 
   /**
@@ -510,19 +1212,15 @@ export class BitchatProtocol {
       ttl: packet.ttl - 1
     };
     
-    // Emit relay event for transport layer
-    // TODO: Implement event emitter
-    console.log('Relaying packet with TTL:', relayPacket.ttl);
+    this.emit('relay', { packet: relayPacket, fromPeer });
   }
 
   /**
-   * Cleans old entries from message cache
+   * Releases timers, buffered fragments and the duplicate cache
    */
-  private cleanMessageCache(): void {
-    // Simple cleanup: clear half the cache
-    // In production, would use LRU or time-based eviction
-    const entries = Array.from(this.messageCache);
-    const toKeep = entries.slice(entries.length / 2);
-    this.messageCache = new Set(toKeep);
+  destroy(): void {
+    this.fragmentManager.destroy();
+    this.seenPackets.clear();
+    this.removeAllListeners();
   }
-}
\ No newline at end of file
+}
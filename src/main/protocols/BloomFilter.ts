@@ -0,0 +1,76 @@
+import { createHash } from 'crypto';
+
+/**
+ * BloomFilter is a fixed-size probabilistic set. Lookups never return
+ * false negatives; false positives occur at roughly the configured rate
+ * once the filter holds its expected number of items.
+ */
+export class BloomFilter {
+  private readonly bits: Uint8Array;
+  private readonly bitCount: number;
+  private readonly hashCount: number;
+  private itemCount: number = 0;
+
+  constructor(capacity: number, falsePositiveRate: number = 1e-6) {
+    if (capacity <= 0 || falsePositiveRate <= 0 || falsePositiveRate >= 1) {
+      throw new Error('Invalid Bloom filter parameters');
+    }
+
+    // Optimal sizing: m = -n ln(p) / ln(2)^2, k = (m / n) ln(2)
+    this.bitCount = Math.ceil(-capacity * Math.log(falsePositiveRate) / (Math.LN2 * Math.LN2));
+    this.hashCount = Math.max(1, Math.round((this.bitCount / capacity) * Math.LN2));
+    this.bits = new Uint8Array(Math.ceil(this.bitCount / 8));
+  }
+
+  /**
+   * Adds an item to the filter
+   */
+  add(item: Buffer | string): void {
+    for (const index of this.getIndexes(item)) {
+      this.bits[index >> 3] |= 1 << (index & 7);
+    }
+    this.itemCount++;
+  }
+
+  /**
+   * Checks whether an item may have been added
+   */
+  has(item: Buffer | string): boolean {
+    for (const index of this.getIndexes(item)) {
+      if ((this.bits[index >> 3] & (1 << (index & 7))) === 0) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Gets the number of items added
+   */
+  get size(): number {
+    return this.itemCount;
+  }
+
+  /**
+   * Gets the memory used by the bit array in bytes
+   */
+  get byteLength(): number {
+    return this.bits.length;
+  }
+
+  /**
+   * Derives the bit positions for an item using double hashing
+   */
+  private getIndexes(item: Buffer | string): number[] {
+    const digest = createHash('sha256').update(item).digest();
+    const h1 = digest.readUInt32BE(0);
+    const h2 = digest.readUInt32BE(4) | 1;
+    const indexes: number[] = [];
+
+    for (let i = 0; i < this.hashCount; i++) {
+      indexes.push(((h1 + Math.imul(i, h2)) >>> 0) % this.bitCount);
+    }
+
+    return indexes;
+  }
+}
@@ -0,0 +1,134 @@
+import { ErrorCodes } from '../../shared/constants';
+import { ProtocolError } from './ProtocolError';
+
+/**
+ * BufferReader reads the fields of a binary structure in order, checking
+ * each read against the bytes left. A field that does not fit throws a
+ * ProtocolError with MALFORMED_PACKET naming the field and the offset it
+ * starts at, instead of a RangeError or a silently short slice.
+ */
+export class BufferReader {
+  private readonly buffer: Buffer;
+  private readonly context: string;
+  private offset: number = 0;
+
+  /**
+   * @param context what is being read, e.g. "packet", for error messages
+   */
+  constructor(buffer: Buffer, context: string) {
+    this.buffer = buffer;
+    this.context = context;
+  }
+
+  get position(): number {
+    return this.offset;
+  }
+
+  get remaining(): number {
+    return this.buffer.length - this.offset;
+  }
+
+  readUInt8(field: string): number {
+    this.ensure(1, field);
+    return this.buffer.readUInt8(this.offset++);
+  }
+
+  readUInt16BE(field: string): number {
+    this.ensure(2, field);
+    const value = this.buffer.readUInt16BE(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  readUInt32BE(field: string): number {
+    this.ensure(4, field);
+    const value = this.buffer.readUInt32BE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  readBigUInt64BE(field: string): bigint {
+    this.ensure(8, field);
+    const value = this.buffer.readBigUInt64BE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  /**
+   * Reads a 64-bit value that must fit in a JavaScript number exactly,
+   * such as a timestamp in milliseconds
+   */
+  readSafeUInt64BE(field: string): number {
+    const start = this.offset;
+    const value = this.readBigUInt64BE(field);
+    if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+      this.fail(`${field} out of range`, field, start);
+    }
+    return Number(value);
+  }
+
+  readBytes(length: number, field: string): Buffer {
+    this.ensure(length, field);
+    const bytes = this.buffer.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  /**
+   * Reads everything that is left
+   */
+  readRest(): Buffer {
+    return this.readBytes(this.remaining, 'data');
+  }
+
+  /**
+   * Reads a UTF-8 string prefixed with its length in one byte
+   */
+  readString8(field: string): string {
+    const length = this.readUInt8(`${field} length`);
+    return this.readBytes(length, field).toString('utf8');
+  }
+
+  /**
+   * Reads a UTF-8 string prefixed with its length in two bytes
+   */
+  readString16(field: string): string {
+    const length = this.readUInt16BE(`${field} length`);
+    return this.readBytes(length, field).toString('utf8');
+  }
+
+  /**
+   * Throws unless every byte has been read
+   */
+  expectEnd(): void {
+    if (this.remaining > 0) {
+      throw this.error(`${this.remaining} unexpected trailing bytes at offset ${this.offset}`, 'end', this.offset);
+    }
+  }
+
+  /**
+   * Throws a MALFORMED_PACKET error for a field that was read but holds
+   * a value that is not allowed
+   */
+  fail(reason: string, field: string, offset: number = this.offset): never {
+    throw this.error(`${reason} at offset ${offset}`, field, offset);
+  }
+
+  private ensure(length: number, field: string): void {
+    if (length > this.remaining) {
+      throw this.error(
+        `${field} truncated at offset ${this.offset} (needs ${length} bytes, ${this.remaining} left)`,
+        field,
+        this.offset
+      );
+    }
+  }
+
+  private error(message: string, field: string, offset: number): ProtocolError {
+    return new ProtocolError(
+      ErrorCodes.MALFORMED_PACKET,
+      `Invalid ${this.context}: ${message}`,
+      { context: this.context, field, offset, length: this.buffer.length }
+    );
+  }
+}
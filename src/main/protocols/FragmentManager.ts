@@ -0,0 +1,280 @@
+import { EventEmitter } from 'events';
+import { MessageFragment } from '../../shared/types';
+import { ErrorCodes } from '../../shared/constants';
+import { ProtocolError } from './ProtocolError';
+
+export interface FragmentManagerOptions {
+  timeout?: number; // ms before an incomplete set is discarded
+  maxBytesPerPeer?: number;
+  maxBytesTotal?: number;
+  cleanupInterval?: number;
+}
+
+export interface FragmentProgress {
+  senderID: string;
+  messageId: string;
+  receivedFragments: number;
+  totalFragments: number;
+}
+
+export interface FragmentDroppedEvent extends FragmentProgress {
+  reason: 'timeout' | 'peer-limit' | 'global-limit' | 'removed';
+}
+
+export type FragmentManagerEvents = {
+  progress: [FragmentProgress];
+  dropped: [FragmentDroppedEvent];
+};
+
+interface FragmentSet {
+  senderID: string;
+  messageId: string;
+  totalFragments: number;
+  fragments: Map<number, Buffer>;
+  bytes: number;
+  createdAt: number;
+}
+
+/**
+ * FragmentManager reassembles FRAGMENT_START/CONTINUE/END payloads into
+ * complete messages. Fragments are keyed by sender and message ID, may
+ * arrive in any order and may be duplicated. Incomplete sets expire after
+ * a timeout, and buffered bytes are capped per peer and globally so a
+ * misbehaving peer cannot exhaust memory.
+ */
+export class FragmentManager extends EventEmitter<FragmentManagerEvents> {
+  private sets: Map<string, FragmentSet> = new Map();
+  private peerBytes: Map<string, number> = new Map();
+  private totalBytes: number = 0;
+  private timeout: number;
+  private maxBytesPerPeer: number;
+  private maxBytesTotal: number;
+  private cleanupTimer?: NodeJS.Timeout;
+
+  constructor(options: FragmentManagerOptions = {}) {
+    super();
+    this.timeout = options.timeout ?? 30000; // 30 seconds
+    this.maxBytesPerPeer = options.maxBytesPerPeer ?? 256 * 1024;
+    this.maxBytesTotal = options.maxBytesTotal ?? 2 * 1024 * 1024;
+
+    this.cleanupTimer = setInterval(() => {
+      this.cleanup();
+    }, options.cleanupInterval ?? 5000);
+    this.cleanupTimer.unref?.();
+  }
+
+  /**
+   * Adds a fragment from a peer.
+   * Returns the reassembled payload once every fragment has arrived,
+   * otherwise null.
+   */
+  addFragment(senderID: string, fragment: MessageFragment): Buffer | null {
+    const { messageId, fragmentIndex, totalFragments, data } = fragment;
+
+    if (totalFragments === 0 || fragmentIndex >= totalFragments) {
+      throw new ProtocolError(
+        ErrorCodes.MALFORMED_PACKET,
+        `Invalid fragment ${fragmentIndex}/${totalFragments}`,
+        { peerID: senderID, messageId }
+      );
+    }
+
+    const key = this.getKey(senderID, messageId);
+    let set = this.sets.get(key);
+
+    if (set && set.totalFragments !== totalFragments) {
+      this.removeSet(key);
+      throw new ProtocolError(
+        ErrorCodes.MALFORMED_PACKET,
+        `Fragment count mismatch for message ${messageId}`,
+        { peerID: senderID, messageId }
+      );
+    }
+
+    if (!set) {
+      set = {
+        senderID,
+        messageId,
+        totalFragments,
+        fragments: new Map(),
+        bytes: 0,
+        createdAt: Date.now()
+      };
+      this.sets.set(key, set);
+    }
+
+    // Duplicates are ignored
+    if (set.fragments.has(fragmentIndex)) {
+      return null;
+    }
+
+    if (!this.reserve(set, data.length)) {
+      return null;
+    }
+
+    set.fragments.set(fragmentIndex, Buffer.from(data));
+    set.bytes += data.length;
+
+    this.emit('progress', this.getSetProgress(set));
+
+    if (set.fragments.size < set.totalFragments) {
+      return null;
+    }
+
+    const chunks: Buffer[] = [];
+    for (let i = 0; i < set.totalFragments; i++) {
+      chunks.push(set.fragments.get(i)!);
+    }
+
+    this.removeSet(key);
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Gets reassembly progress for a message
+   */
+  getProgress(senderID: string, messageId: string): FragmentProgress | undefined {
+    const set = this.sets.get(this.getKey(senderID, messageId));
+    return set ? this.getSetProgress(set) : undefined;
+  }
+
+  /**
+   * Gets the number of buffered bytes for a peer, or for all peers
+   */
+  getBufferedBytes(senderID?: string): number {
+    if (senderID === undefined) {
+      return this.totalBytes;
+    }
+    return this.peerBytes.get(senderID) || 0;
+  }
+
+  /**
+   * Gets the number of incomplete messages being reassembled
+   */
+  getPendingCount(): number {
+    return this.sets.size;
+  }
+
+  /**
+   * Discards all incomplete messages from a peer
+   */
+  removePeer(senderID: string): void {
+    for (const [key, set] of this.sets) {
+      if (set.senderID === senderID) {
+        this.drop(key, 'removed');
+      }
+    }
+  }
+
+  /**
+   * Discards incomplete messages older than the timeout
+   */
+  cleanup(now: number = Date.now()): void {
+    for (const [key, set] of this.sets) {
+      if (now - set.createdAt > this.timeout) {
+        this.drop(key, 'timeout');
+      }
+    }
+  }
+
+  /**
+   * Stops the cleanup timer and discards all buffered fragments
+   */
+  destroy(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = undefined;
+    }
+
+    this.sets.clear();
+    this.peerBytes.clear();
+    this.totalBytes = 0;
+    this.removeAllListeners();
+  }
+
+  /**
+   * Makes room for incoming bytes, enforcing the per-peer and global caps.
+   * A peer over its own cap loses the message being assembled; the global
+   * cap evicts the oldest incomplete messages first.
+   */
+  private reserve(set: FragmentSet, length: number): boolean {
+    const key = this.getKey(set.senderID, set.messageId);
+    const peerBytes = this.peerBytes.get(set.senderID) || 0;
+
+    if (peerBytes + length > this.maxBytesPerPeer) {
+      this.drop(key, 'peer-limit');
+      return false;
+    }
+
+    if (length > this.maxBytesTotal) {
+      this.drop(key, 'global-limit');
+      return false;
+    }
+
+    while (this.totalBytes + length > this.maxBytesTotal) {
+      const oldest = this.findOldestKey(key);
+      if (!oldest) {
+        this.drop(key, 'global-limit');
+        return false;
+      }
+      this.drop(oldest, 'global-limit');
+    }
+
+    this.peerBytes.set(set.senderID, peerBytes + length);
+    this.totalBytes += length;
+    return true;
+  }
+
+  private findOldestKey(exclude: string): string | undefined {
+    let oldestKey: string | undefined;
+    let oldestTime = Infinity;
+
+    for (const [key, set] of this.sets) {
+      if (key !== exclude && set.createdAt < oldestTime) {
+        oldestKey = key;
+        oldestTime = set.createdAt;
+      }
+    }
+
+    return oldestKey;
+  }
+
+  private drop(key: string, reason: FragmentDroppedEvent['reason']): void {
+    const set = this.sets.get(key);
+    if (!set) {
+      return;
+    }
+
+    this.removeSet(key);
+    this.emit('dropped', { ...this.getSetProgress(set), reason });
+  }
+
+  private removeSet(key: string): void {
+    const set = this.sets.get(key);
+    if (!set) {
+      return;
+    }
+
+    const remaining = (this.peerBytes.get(set.senderID) || 0) - set.bytes;
+    if (remaining > 0) {
+      this.peerBytes.set(set.senderID, remaining);
+    } else {
+      this.peerBytes.delete(set.senderID);
+    }
+    this.totalBytes -= set.bytes;
+    this.sets.delete(key);
+  }
+
+  private getSetProgress(set: FragmentSet): FragmentProgress {
+    return {
+      senderID: set.senderID,
+      messageId: set.messageId,
+      receivedFragments: set.fragments.size,
+      totalFragments: set.totalFragments
+    };
+  }
+
+  private getKey(senderID: string, messageId: string): string {
+    return `${senderID}:${messageId}`;
+  }
+}
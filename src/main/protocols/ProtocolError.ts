@@ -0,0 +1,15 @@
+/**
+ * ProtocolError carries one of the shared ErrorCodes so protocol failures
+ * can be forwarded to the renderer as an AppError.
+ */
+export class ProtocolError extends Error {
+  readonly code: number;
+  readonly details?: Record<string, unknown>;
+
+  constructor(code: number, message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'ProtocolError';
+    this.code = code;
+    this.details = details;
+  }
+}
@@ -0,0 +1,144 @@
+import { createHash } from 'crypto';
+import { BitchatPacket } from '../../shared/types';
+import { MAX_CLOCK_SKEW } from '../../shared/constants';
+import { BinaryProtocol } from './BinaryProtocol';
+import { BloomFilter } from './BloomFilter';
+
+export interface SeenPacketCacheOptions {
+  maxAge?: number; // ms an ID is remembered for at minimum
+  rotationInterval?: number; // ms before a new generation is started
+  capacity?: number; // expected IDs per generation
+  falsePositiveRate?: number;
+  maxGenerations?: number;
+}
+
+interface Generation {
+  filter: BloomFilter;
+  createdAt: number;
+  sealedAt?: number;
+}
+
+/**
+ * SeenPacketCache remembers which packets have already been processed so
+ * duplicates arriving over other links, and replays, are dropped.
+ *
+ * IDs are kept in a chain of Bloom filter generations. New IDs go into the
+ * current generation, which is sealed once it is full or has been active
+ * for the rotation interval. A sealed generation is discarded only after
+ * every ID in it is older than maxAge. The default maxAge covers a packet
+ * whose timestamp is at the far future edge of the accepted clock skew,
+ * so anything evicted would fail timestamp validation anyway.
+ */
+export class SeenPacketCache {
+  private readonly maxAge: number;
+  private readonly rotationInterval: number;
+  private readonly capacity: number;
+  private readonly falsePositiveRate: number;
+  private readonly maxGenerations: number;
+  private generations: Generation[] = [];
+
+  constructor(options: SeenPacketCacheOptions = {}) {
+    this.maxAge = options.maxAge ?? 2 * MAX_CLOCK_SKEW;
+    this.rotationInterval = options.rotationInterval ?? this.maxAge / 2;
+    this.capacity = options.capacity ?? 10000;
+    this.falsePositiveRate = options.falsePositiveRate ?? 1e-6;
+    this.maxGenerations = options.maxGenerations ?? 16;
+  }
+
+  /**
+   * Derives a packet's ID from a hash of its signed content. TTL is not
+   * covered, so copies relayed over different paths share an ID.
+   */
+  static getPacketId(packet: BitchatPacket): Buffer {
+    return createHash('sha256')
+      .update(BinaryProtocol.encodeForSigning(packet))
+      .digest();
+  }
+
+  /**
+   * Checks whether an ID has been seen within maxAge
+   */
+  has(id: Buffer, now: number = Date.now()): boolean {
+    this.expire(now);
+    return this.generations.some((generation) => generation.filter.has(id));
+  }
+
+  /**
+   * Records an ID as seen
+   */
+  add(id: Buffer, now: number = Date.now()): void {
+    this.expire(now);
+    this.getCurrentGeneration(now).filter.add(id);
+  }
+
+  /**
+   * Checks a packet against the cache
+   */
+  hasPacket(packet: BitchatPacket, now?: number): boolean {
+    return this.has(SeenPacketCache.getPacketId(packet), now);
+  }
+
+  /**
+   * Records a packet as seen
+   */
+  addPacket(packet: BitchatPacket, now?: number): void {
+    this.add(SeenPacketCache.getPacketId(packet), now);
+  }
+
+  /**
+   * Gets the number of live Bloom filter generations
+   */
+  getGenerationCount(): number {
+    return this.generations.length;
+  }
+
+  /**
+   * Gets the memory used by all generations in bytes
+   */
+  getByteLength(): number {
+    return this.generations.reduce((total, generation) => total + generation.filter.byteLength, 0);
+  }
+
+  /**
+   * Forgets every ID
+   */
+  clear(): void {
+    this.generations = [];
+  }
+
+  private getCurrentGeneration(now: number): Generation {
+    let current = this.generations[this.generations.length - 1];
+
+    if (current && !current.sealedAt &&
+        (current.filter.size >= this.capacity || now - current.createdAt >= this.rotationInterval)) {
+      current.sealedAt = now;
+    }
+
+    if (!current || current.sealedAt) {
+      current = {
+        filter: new BloomFilter(this.capacity, this.falsePositiveRate),
+        createdAt: now
+      };
+      this.generations.push(current);
+
+      // Under a flood, memory wins over remembering the oldest IDs
+      while (this.generations.length > this.maxGenerations) {
+        this.generations.shift();
+      }
+    }
+
+    return current;
+  }
+
+  private expire(now: number): void {
+    this.generations = this.generations.filter((generation) => {
+      // Generations are sealed lazily, but never take inserts past the
+      // rotation interval
+      const lastInsert = Math.min(
+        generation.sealedAt ?? now,
+        generation.createdAt + this.rotationInterval
+      );
+      return now - lastInsert < this.maxAge;
+    });
+  }
+}
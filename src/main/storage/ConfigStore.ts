@@ -0,0 +1,370 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { AppSettings, TransportPreferences, DeepPartial } from '../../shared/ipc-types';
+
+export const CONFIG_VERSION = 1;
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  nickname: 'Anonymous',
+  autoConnect: true,
+  enableNotifications: true,
+  enableSounds: false,
+  theme: 'dark',
+  fontSize: 'medium',
+  blockedPeers: [],
+  compressMessages: false
+};
+
+export const DEFAULT_TRANSPORT_PREFERENCES: TransportPreferences = {
+  preferredTransport: 'auto',
+  autoConnect: true,
+  bleSettings: {
+    deviceName: 'BitChat Device',
+    autoAdvertise: true,
+    discoverabilityTimeout: 15
+  },
+  nostrSettings: {
+    autoConnectRelays: true,
+    maxRelayConnections: 5,
+    defaultRelays: [
+      'wss://relay.damus.io',
+      'wss://relay.primal.net',
+      'wss://offchain.pub'
+    ],
+    reconnectAttempts: 3
+  },
+  hybridSettings: {
+    priority: 'balanced',
+    fallbackBehavior: 'maintain-both',
+    connectionTimeout: 30
+  }
+};
+
+export interface StoredConfig {
+  version: number;
+  settings: AppSettings;
+  transportPreferences: TransportPreferences;
+}
+
+/**
+ * Upgrades a config file written at `version - 1` to `version`.
+ * Add one whenever the shape of AppSettings or TransportPreferences
+ * changes and bump CONFIG_VERSION.
+ */
+export interface ConfigMigration {
+  version: number;
+  migrate(config: Record<string, unknown>): Record<string, unknown>;
+}
+
+export const CONFIG_MIGRATIONS: ConfigMigration[] = [];
+
+export interface ConfigStoreOptions {
+  directory: string;
+  version?: number;
+  migrations?: ConfigMigration[];
+}
+
+type FieldSchema =
+  | { type: 'string'; values?: readonly string[]; pattern?: RegExp; maxLength?: number; optional?: boolean }
+  | { type: 'number'; min: number; max: number; integer?: boolean }
+  | { type: 'boolean' }
+  | { type: 'array'; items: FieldSchema; maxItems: number }
+  | { type: 'object'; fields: Record<string, FieldSchema> };
+
+const SETTINGS_SCHEMA: FieldSchema = {
+  type: 'object',
+  fields: {
+    nickname: { type: 'string', maxLength: 32, optional: true },
+    autoConnect: { type: 'boolean' },
+    enableNotifications: { type: 'boolean' },
+    enableSounds: { type: 'boolean' },
+    theme: { type: 'string', values: ['dark', 'light', 'auto'] },
+    fontSize: { type: 'string', values: ['small', 'medium', 'large'] },
+    blockedPeers: { type: 'array', items: { type: 'string', maxLength: 64 }, maxItems: 10000 },
+    compressMessages: { type: 'boolean' }
+  }
+};
+
+const TRANSPORT_PREFERENCES_SCHEMA: FieldSchema = {
+  type: 'object',
+  fields: {
+    preferredTransport: { type: 'string', values: ['ble', 'nostr', 'auto'] },
+    autoConnect: { type: 'boolean' },
+    bleSettings: {
+      type: 'object',
+      fields: {
+        deviceName: { type: 'string', maxLength: 64 },
+        autoAdvertise: { type: 'boolean' },
+        discoverabilityTimeout: { type: 'number', min: 0, max: 24 * 60, integer: true }
+      }
+    },
+    nostrSettings: {
+      type: 'object',
+      fields: {
+        autoConnectRelays: { type: 'boolean' },
+        maxRelayConnections: { type: 'number', min: 1, max: 50, integer: true },
+        defaultRelays: {
+          type: 'array',
+          items: { type: 'string', pattern: /^wss?:\/\/\S+$/, maxLength: 512 },
+          maxItems: 50
+        },
+        reconnectAttempts: { type: 'number', min: 0, max: 100, integer: true }
+      }
+    },
+    hybridSettings: {
+      type: 'object',
+      fields: {
+        priority: { type: 'string', values: ['ble', 'nostr', 'balanced'] },
+        fallbackBehavior: { type: 'string', values: ['switch', 'maintain-both'] },
+        connectionTimeout: { type: 'number', min: 1, max: 600, integer: true }
+      }
+    }
+  }
+};
+
+const CONFIG_FILE = 'config.json';
+
+/**
+ * ConfigStore persists AppSettings and TransportPreferences to
+ * config.json in the app data directory. Updates from the renderer are
+ * partial and may be nested; they are validated against a schema and
+ * deep merged, so changing bleSettings.deviceName leaves the other BLE
+ * settings alone. The file carries a schema version, and older files are
+ * upgraded through CONFIG_MIGRATIONS when loaded.
+ */
+export class ConfigStore {
+  private readonly directory: string;
+  private readonly version: number;
+  private readonly migrations: ConfigMigration[];
+  private settings: AppSettings = structuredClone(DEFAULT_SETTINGS);
+  private transportPreferences: TransportPreferences = structuredClone(DEFAULT_TRANSPORT_PREFERENCES);
+  private writes: Promise<void> = Promise.resolve();
+  private readOnly: boolean = false;
+
+  constructor(options: ConfigStoreOptions) {
+    this.directory = options.directory;
+    this.version = options.version ?? CONFIG_VERSION;
+    this.migrations = options.migrations ?? CONFIG_MIGRATIONS;
+  }
+
+  /**
+   * Loads the config file, migrating it if it was written by an older
+   * version. Fields that are missing or fail validation fall back to
+   * their defaults. A file from a newer version is read as far as we
+   * understand it but never written back, so a downgrade cannot destroy
+   * settings the newer version added.
+   */
+  async load(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    let config: Record<string, unknown>;
+    try {
+      config = JSON.parse(raw);
+    } catch {
+      console.warn('Config file is corrupt, using defaults');
+      return;
+    }
+
+    const fileVersion = typeof config.version === 'number' ? config.version : 0;
+    if (fileVersion > this.version) {
+      console.warn(`Config file version ${fileVersion} is newer than ${this.version}; changes will not be saved`);
+      this.readOnly = true;
+    }
+
+    for (let version = fileVersion + 1; version <= this.version; version++) {
+      const migration = this.migrations.find((m) => m.version === version);
+      if (migration) {
+        config = migration.migrate(config);
+      }
+    }
+
+    this.settings = sanitize(config.settings, SETTINGS_SCHEMA, DEFAULT_SETTINGS);
+    this.transportPreferences = sanitize(
+      config.transportPreferences,
+      TRANSPORT_PREFERENCES_SCHEMA,
+      DEFAULT_TRANSPORT_PREFERENCES
+    );
+
+    if (fileVersion < this.version) {
+      await this.save();
+    }
+  }
+
+  getSettings(): AppSettings {
+    return structuredClone(this.settings);
+  }
+
+  getTransportPreferences(): TransportPreferences {
+    return structuredClone(this.transportPreferences);
+  }
+
+  /**
+   * Validates and applies a partial settings update. Throws without
+   * changing anything if any field is invalid.
+   */
+  async updateSettings(update: DeepPartial<AppSettings>): Promise<AppSettings> {
+    validate(update, SETTINGS_SCHEMA, 'settings');
+    this.settings = deepMerge(this.settings, update);
+    await this.save();
+    return this.getSettings();
+  }
+
+  /**
+   * Validates and deep merges a partial transport preferences update
+   */
+  async updateTransportPreferences(update: DeepPartial<TransportPreferences>): Promise<TransportPreferences> {
+    validate(update, TRANSPORT_PREFERENCES_SCHEMA, 'transportPreferences');
+    this.transportPreferences = deepMerge(this.transportPreferences, update);
+    await this.save();
+    return this.getTransportPreferences();
+  }
+
+  async resetTransportPreferences(): Promise<TransportPreferences> {
+    this.transportPreferences = structuredClone(DEFAULT_TRANSPORT_PREFERENCES);
+    await this.save();
+    return this.getTransportPreferences();
+  }
+
+  private get filePath(): string {
+    return path.join(this.directory, CONFIG_FILE);
+  }
+
+  private save(): Promise<void> {
+    if (this.readOnly) {
+      return Promise.resolve();
+    }
+
+    const config: StoredConfig = {
+      version: this.version,
+      settings: this.settings,
+      transportPreferences: this.transportPreferences
+    };
+    const contents = JSON.stringify(config, null, 2);
+
+    // Serialize writes; each one replaces the file atomically
+    const result = this.writes.then(async () => {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(`${this.filePath}.tmp`, contents);
+      await fs.rename(`${this.filePath}.tmp`, this.filePath);
+    });
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks a partial update against the schema. Unknown keys are rejected
+ * so that typos do not silently do nothing.
+ */
+function validate(value: unknown, schema: FieldSchema, field: string): void {
+  switch (schema.type) {
+    case 'object':
+      if (!isPlainObject(value)) {
+        throw new Error(`Invalid ${field}: expected an object`);
+      }
+      for (const [key, child] of Object.entries(value)) {
+        const childSchema = schema.fields[key];
+        if (!childSchema) {
+          throw new Error(`Unknown setting ${field}.${key}`);
+        }
+        validate(child, childSchema, `${field}.${key}`);
+      }
+      return;
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        throw new Error(`Invalid ${field}: expected an array`);
+      }
+      if (value.length > schema.maxItems) {
+        throw new Error(`Invalid ${field}: at most ${schema.maxItems} entries allowed`);
+      }
+      value.forEach((item, index) => validate(item, schema.items, `${field}[${index}]`));
+      return;
+
+    case 'string':
+      if (value === undefined && schema.optional) {
+        return;
+      }
+      if (typeof value !== 'string') {
+        throw new Error(`Invalid ${field}: expected a string`);
+      }
+      if (schema.values && !schema.values.includes(value)) {
+        throw new Error(`Invalid ${field}: expected one of ${schema.values.join(', ')}`);
+      }
+      if (schema.pattern && !schema.pattern.test(value)) {
+        throw new Error(`Invalid ${field}: ${JSON.stringify(value)} is not in the expected format`);
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        throw new Error(`Invalid ${field}: at most ${schema.maxLength} characters allowed`);
+      }
+      return;
+
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new Error(`Invalid ${field}: expected a number`);
+      }
+      if (schema.integer && !Number.isInteger(value)) {
+        throw new Error(`Invalid ${field}: expected an integer`);
+      }
+      if (value < schema.min || value > schema.max) {
+        throw new Error(`Invalid ${field}: expected a value between ${schema.min} and ${schema.max}`);
+      }
+      return;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        throw new Error(`Invalid ${field}: expected a boolean`);
+      }
+      return;
+  }
+}
+
+/**
+ * Builds a complete value from stored data, keeping each field that
+ * validates and taking the default for the rest
+ */
+function sanitize<T>(value: unknown, schema: FieldSchema, defaults: T): T {
+  if (schema.type === 'object') {
+    const result: Record<string, unknown> = {};
+    const stored = isPlainObject(value) ? value : {};
+    for (const [key, childSchema] of Object.entries(schema.fields)) {
+      result[key] = sanitize(stored[key], childSchema, (defaults as Record<string, unknown>)[key]);
+    }
+    return result as T;
+  }
+
+  if (value === undefined) {
+    return structuredClone(defaults);
+  }
+
+  try {
+    validate(value, schema, 'value');
+    return structuredClone(value) as T;
+  } catch {
+    return structuredClone(defaults);
+  }
+}
+
+// Nested objects are merged key by key; arrays and other values replace
+function deepMerge<T>(target: T, update: DeepPartial<T>): T {
+  const result: Record<string, unknown> = { ...(target as Record<string, unknown>) };
+  for (const [key, value] of Object.entries(update as Record<string, unknown>)) {
+    const current = result[key];
+    result[key] = isPlainObject(current) && isPlainObject(value) ?
+      deepMerge(current, value) :
+      structuredClone(value);
+  }
+  return result as T;
+}
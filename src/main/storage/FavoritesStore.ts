@@ -0,0 +1,165 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { SecretStore } from './SecretStore';
+import { seal, unseal } from './sealing';
+import { FavoriteEntry } from '../../shared/types';
+
+export interface FavoritesStoreOptions {
+  directory: string;
+  secretStore: SecretStore;
+}
+
+type StoredFavorite = Omit<FavoriteEntry, 'addedAt'> & { addedAt: number };
+
+interface FavoritesFile {
+  version: number;
+  favorites: StoredFavorite[];
+  favoritedBy: string[]; // Noise keys of peers that told us they favorited us
+}
+
+const KEY_ACCOUNT = 'favorites-key';
+const FAVORITES_FILE = 'favorites.enc';
+const FAVORITES_VERSION = 1;
+
+/**
+ * FavoritesStore keeps the peers the user favorited and the peers that
+ * favorited the user, both by their Noise static key (hex). Peers that
+ * favorited each other are mutual favorites. Like the message history it
+ * is sealed with a key kept in the SecretStore.
+ */
+export class FavoritesStore {
+  private readonly directory: string;
+  private readonly secrets: SecretStore;
+  private key: Buffer | null = null;
+  private favorites: Map<string, FavoriteEntry> = new Map();
+  private favoritedBy: Set<string> = new Set();
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(options: FavoritesStoreOptions) {
+    this.directory = options.directory;
+    this.secrets = options.secretStore;
+  }
+
+  /**
+   * Loads the favorites, creating the store key on first use
+   */
+  async load(): Promise<void> {
+    const key = await this.getKey();
+
+    let sealed: Buffer;
+    try {
+      sealed = await fs.readFile(this.filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    const file: FavoritesFile = JSON.parse(unseal(key, sealed, Buffer.from(FAVORITES_FILE)).toString('utf8'));
+    if (file.version !== FAVORITES_VERSION) {
+      throw new Error(`Unsupported favorites store version: ${file.version}`);
+    }
+
+    this.favorites = new Map(file.favorites.map((favorite) => [
+      favorite.noisePublicKey,
+      { ...favorite, addedAt: new Date(favorite.addedAt) }
+    ]));
+    this.favoritedBy = new Set(file.favoritedBy);
+  }
+
+  get(noisePublicKey: string): FavoriteEntry | undefined {
+    const favorite = this.favorites.get(noisePublicKey);
+    return favorite && { ...favorite };
+  }
+
+  isFavorite(noisePublicKey: string): boolean {
+    return this.favorites.has(noisePublicKey);
+  }
+
+  isFavoritedBy(noisePublicKey: string): boolean {
+    return this.favoritedBy.has(noisePublicKey);
+  }
+
+  isMutual(noisePublicKey: string): boolean {
+    return this.isFavorite(noisePublicKey) && this.isFavoritedBy(noisePublicKey);
+  }
+
+  list(): FavoriteEntry[] {
+    return Array.from(this.favorites.values(), (favorite) => ({ ...favorite }));
+  }
+
+  /**
+   * Records a favorite, replacing any earlier entry for the same key
+   */
+  async add(favorite: FavoriteEntry): Promise<void> {
+    this.favorites.set(favorite.noisePublicKey, { ...favorite });
+    await this.save();
+  }
+
+  /**
+   * Removes a favorite. Returns false if the peer was not a favorite.
+   */
+  async remove(noisePublicKey: string): Promise<boolean> {
+    if (!this.favorites.delete(noisePublicKey)) {
+      return false;
+    }
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Records whether a peer has favorited us. Returns false if that is
+   * what we already knew.
+   */
+  async setFavoritedBy(noisePublicKey: string, isFavorited: boolean): Promise<boolean> {
+    if (this.favoritedBy.has(noisePublicKey) === isFavorited) {
+      return false;
+    }
+
+    if (isFavorited) {
+      this.favoritedBy.add(noisePublicKey);
+    } else {
+      this.favoritedBy.delete(noisePublicKey);
+    }
+    await this.save();
+    return true;
+  }
+
+  private get filePath(): string {
+    return path.join(this.directory, FAVORITES_FILE);
+  }
+
+  private async save(): Promise<void> {
+    const key = await this.getKey();
+    const file: FavoritesFile = {
+      version: FAVORITES_VERSION,
+      favorites: this.list().map((favorite) => ({ ...favorite, addedAt: favorite.addedAt.getTime() })),
+      favoritedBy: Array.from(this.favoritedBy)
+    };
+    const sealed = seal(key, Buffer.from(JSON.stringify(file)), Buffer.from(FAVORITES_FILE));
+
+    // Serialize writes; each one replaces the file atomically
+    const result = this.writes.then(async () => {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(`${this.filePath}.tmp`, sealed, { mode: 0o600 });
+      await fs.rename(`${this.filePath}.tmp`, this.filePath);
+    });
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+
+  private async getKey(): Promise<Buffer> {
+    if (!this.key) {
+      const storedKey = await this.secrets.get(KEY_ACCOUNT);
+      if (storedKey) {
+        this.key = Buffer.from(storedKey, 'hex');
+      } else {
+        this.key = randomBytes(32);
+        await this.secrets.set(KEY_ACCOUNT, this.key.toString('hex'));
+      }
+    }
+    return this.key;
+  }
+}
@@ -0,0 +1,167 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as nacl from 'tweetnacl';
+import { KeyManager } from '../crypto/KeyManager';
+import { SecretStore } from './SecretStore';
+import { Identity, NostrKeyPair } from '../../shared/types';
+
+export interface IdentityStoreOptions {
+  directory: string;
+  secretStore?: SecretStore;
+}
+
+// Public half, stored in plain JSON
+interface IdentityFile {
+  version: number;
+  nickname: string;
+  createdAt: string;
+  staticPublicKey: string; // hex
+  signingPublicKey: string; // hex
+  nostrPublicKey?: string; // hex
+}
+
+// Private half, stored in the SecretStore
+interface IdentitySecrets {
+  staticPrivateKey: string; // hex
+  signingPrivateKey: string; // hex
+  nostrPrivateKey?: string; // hex
+}
+
+const IDENTITY_FILE = 'identity.json';
+const IDENTITY_FILE_VERSION = 1;
+const SECRET_ACCOUNT = 'identity';
+
+/**
+ * IdentityStore persists our long-term identity so that the Noise static
+ * key, and with it our fingerprint, survives restarts. Public keys are
+ * kept in identity.json in the app data directory; private keys only ever
+ * go to the SecretStore.
+ */
+export class IdentityStore {
+  private readonly directory: string;
+  private readonly secrets: SecretStore;
+
+  constructor(options: IdentityStoreOptions) {
+    this.directory = options.directory;
+    this.secrets = options.secretStore || new SecretStore({ directory: options.directory });
+  }
+
+  /**
+   * Loads the stored identity, or creates and stores one on first run
+   */
+  async loadOrCreate(nickname: string): Promise<Identity> {
+    const existing = await this.load();
+    if (existing) {
+      return existing;
+    }
+
+    const identity = await KeyManager.createIdentity(nickname);
+    await this.save(identity);
+    return identity;
+  }
+
+  /**
+   * Loads the stored identity, or null if none has been created yet.
+   * Throws if the public half exists but its private keys are missing or
+   * do not match, rather than silently replacing the identity.
+   */
+  async load(): Promise<Identity | null> {
+    let file: IdentityFile;
+    try {
+      file = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw new Error(`Identity file is unreadable: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (file.version !== IDENTITY_FILE_VERSION) {
+      throw new Error(`Unsupported identity file version: ${file.version}`);
+    }
+
+    const stored = await this.secrets.get(SECRET_ACCOUNT);
+    if (!stored) {
+      throw new Error('Identity private keys are missing from secure storage');
+    }
+    const secrets: IdentitySecrets = JSON.parse(stored);
+
+    const staticKeyPair = {
+      publicKey: Buffer.from(file.staticPublicKey, 'hex'),
+      privateKey: Buffer.from(secrets.staticPrivateKey, 'hex')
+    };
+    const signingKeyPair = {
+      publicKey: Buffer.from(file.signingPublicKey, 'hex'),
+      privateKey: Buffer.from(secrets.signingPrivateKey, 'hex')
+    };
+
+    const derivedStatic = Buffer.from(nacl.box.keyPair.fromSecretKey(new Uint8Array(staticKeyPair.privateKey)).publicKey);
+    const derivedSigning = Buffer.from(nacl.sign.keyPair.fromSecretKey(new Uint8Array(signingKeyPair.privateKey)).publicKey);
+    if (!derivedStatic.equals(staticKeyPair.publicKey) || !derivedSigning.equals(signingKeyPair.publicKey)) {
+      throw new Error('Identity private keys do not match the stored public keys');
+    }
+
+    return {
+      nickname: file.nickname,
+      staticKeyPair,
+      signingKeyPair,
+      nostrKeyPair: secrets.nostrPrivateKey ?
+        KeyManager.nostrKeysFromPrivateKey(Buffer.from(secrets.nostrPrivateKey, 'hex')) :
+        KeyManager.deriveNostrKeys(staticKeyPair),
+      createdAt: new Date(file.createdAt)
+    };
+  }
+
+  /**
+   * Stores an identity, replacing any existing one. Secrets are written
+   * first so a crash in between never leaves public keys without them.
+   */
+  async save(identity: Identity): Promise<void> {
+    const secrets: IdentitySecrets = {
+      staticPrivateKey: identity.staticKeyPair.privateKey.toString('hex'),
+      signingPrivateKey: identity.signingKeyPair.privateKey.toString('hex'),
+      nostrPrivateKey: identity.nostrKeyPair?.privateKey
+    };
+    await this.secrets.set(SECRET_ACCOUNT, JSON.stringify(secrets));
+
+    const file: IdentityFile = {
+      version: IDENTITY_FILE_VERSION,
+      nickname: identity.nickname,
+      createdAt: identity.createdAt.toISOString(),
+      staticPublicKey: identity.staticKeyPair.publicKey.toString('hex'),
+      signingPublicKey: identity.signingKeyPair.publicKey.toString('hex'),
+      nostrPublicKey: identity.nostrKeyPair?.publicKey
+    };
+
+    await fs.mkdir(this.directory, { recursive: true });
+    const temp = `${this.filePath}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(file, null, 2));
+    await fs.rename(temp, this.filePath);
+  }
+
+  /**
+   * Replaces the Nostr key of the stored identity, e.g. after an nsec import
+   */
+  async setNostrKeyPair(nostrKeyPair: NostrKeyPair): Promise<Identity> {
+    const identity = await this.load();
+    if (!identity) {
+      throw new Error('No identity to update');
+    }
+
+    const updated = { ...identity, nostrKeyPair };
+    await this.save(updated);
+    return updated;
+  }
+
+  /**
+   * Deletes the stored identity and its private keys
+   */
+  async delete(): Promise<void> {
+    await this.secrets.delete(SECRET_ACCOUNT);
+    await fs.rm(this.filePath, { force: true });
+  }
+
+  private get filePath(): string {
+    return path.join(this.directory, IDENTITY_FILE);
+  }
+}
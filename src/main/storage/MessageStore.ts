@@ -0,0 +1,376 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createHmac, randomBytes } from 'crypto';
+import { SecretStore } from './SecretStore';
+import { seal, unseal } from './sealing';
+import { BitchatMessage, DeliveryStatus } from '../../shared/types';
+
+export const PUBLIC_CONVERSATION = 'public';
+
+export interface MessageStoreOptions {
+  directory: string;
+  secretStore: SecretStore;
+}
+
+export interface MessageQuery {
+  before?: string; // message ID; returns messages older than it
+  limit?: number;
+}
+
+export interface MessagePage {
+  messages: BitchatMessage[]; // oldest first
+  hasMore: boolean;
+}
+
+interface ConversationEntry {
+  file: string;
+  unreadCount: number;
+}
+
+interface IndexFile {
+  version: number;
+  conversations: Record<string, ConversationEntry>;
+}
+
+// One line of a conversation log
+type LogRecord =
+  | { type: 'message'; message: Omit<BitchatMessage, 'timestamp'> & { timestamp: string } }
+  | { type: 'status'; messageId: string; status: DeliveryStatus };
+
+interface LoadedConversation {
+  messages: BitchatMessage[];
+  byId: Map<string, BitchatMessage>;
+}
+
+const KEY_ACCOUNT = 'message-history-key';
+const INDEX_FILE = 'index.enc';
+const INDEX_VERSION = 1;
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * MessageStore keeps the message history of every conversation, the
+ * public channel and each private chat, encrypted at rest. Each
+ * conversation is an append-only log of sealed records in a file named
+ * by an HMAC of the conversation ID, so peer IDs do not leak through file
+ * names. Delivery status changes are appended as their own records and
+ * replayed onto the message when the log is read. A sealed index maps
+ * conversations to files and tracks unread counts. The key is generated on first use and kept in the SecretStore.
+ */
+export class MessageStore {
+  private readonly directory: string;
+  private readonly secrets: SecretStore;
+  private key: Buffer | null = null;
+  private conversations: Map<string, ConversationEntry> = new Map();
+  private loaded: Map<string, Promise<LoadedConversation>> = new Map();
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(options: MessageStoreOptions) {
+    this.directory = options.directory;
+    this.secrets = options.secretStore;
+  }
+
+  /**
+   * Loads the history key and index, creating both on first run
+   */
+  async open(): Promise<void> {
+    const storedKey = await this.secrets.get(KEY_ACCOUNT);
+    if (storedKey) {
+      this.key = Buffer.from(storedKey, 'hex');
+    } else {
+      this.key = randomBytes(32);
+      await this.secrets.set(KEY_ACCOUNT, this.key.toString('hex'));
+    }
+
+    await fs.mkdir(this.directory, { recursive: true });
+
+    let sealed: Buffer;
+    try {
+      sealed = await fs.readFile(path.join(this.directory, INDEX_FILE));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    const index: IndexFile = JSON.parse(unseal(this.requireKey(), sealed, Buffer.from(INDEX_FILE)).toString('utf8'));
+    if (index.version !== INDEX_VERSION) {
+      throw new Error(`Unsupported message index version: ${index.version}`);
+    }
+    this.conversations = new Map(Object.entries(index.conversations));
+  }
+
+  /**
+   * Appends a message to a conversation. Returns false if a message with
+   * the same ID is already stored there.
+   */
+  async addMessage(conversationId: string, message: BitchatMessage, unread: boolean = false): Promise<boolean> {
+    const conversation = await this.loadConversation(conversationId);
+    if (conversation.byId.has(message.id)) {
+      return false;
+    }
+
+    conversation.messages.push(message);
+    conversation.byId.set(message.id, message);
+
+    const entry = this.getOrCreateEntry(conversationId);
+    if (unread) {
+      entry.unreadCount++;
+    }
+
+    await this.appendRecord(entry, {
+      type: 'message',
+      message: { ...message, timestamp: message.timestamp.toISOString() }
+    });
+    return true;
+  }
+
+  /**
+   * Records a new delivery status for a stored message. Returns false if
+   * the message is not in the conversation or already has that status.
+   */
+  async updateDeliveryStatus(conversationId: string, messageId: string, status: DeliveryStatus): Promise<boolean> {
+    const conversation = await this.loadConversation(conversationId);
+    const message = conversation.byId.get(messageId);
+    const entry = this.conversations.get(conversationId);
+    if (!message || !entry || message.deliveryStatus === status) {
+      return false;
+    }
+
+    message.deliveryStatus = status;
+    await this.appendRecord(entry, { type: 'status', messageId, status });
+    return true;
+  }
+
+  async getMessage(conversationId: string, messageId: string): Promise<BitchatMessage | undefined> {
+    return (await this.loadConversation(conversationId)).byId.get(messageId);
+  }
+
+  /**
+   * Gets a page of history, newest page first. Pass the ID of the oldest
+   * message already shown as `before` to page further back.
+   */
+  async getMessages(conversationId: string, query: MessageQuery = {}): Promise<MessagePage> {
+    const { messages } = await this.loadConversation(conversationId);
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+
+    let end = messages.length;
+    if (query.before) {
+      end = messages.findIndex((message) => message.id === query.before);
+      if (end === -1) {
+        return { messages: [], hasMore: false };
+      }
+    }
+
+    const start = Math.max(0, end - limit);
+    return {
+      messages: messages.slice(start, end),
+      hasMore: start > 0
+    };
+  }
+
+  getUnreadCount(conversationId: string): number {
+    return this.conversations.get(conversationId)?.unreadCount || 0;
+  }
+
+  getUnreadCounts(): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const [id, entry] of this.conversations) {
+      if (entry.unreadCount > 0) {
+        counts[id] = entry.unreadCount;
+      }
+    }
+    return counts;
+  }
+
+  getConversationIds(): string[] {
+    return Array.from(this.conversations.keys());
+  }
+
+  async markAsRead(conversationId: string): Promise<void> {
+    const entry = this.conversations.get(conversationId);
+    if (!entry || entry.unreadCount === 0) {
+      return;
+    }
+
+    entry.unreadCount = 0;
+    await this.enqueue(() => this.writeIndex());
+  }
+
+  /**
+   * Moves the history of one conversation into another, merging the two
+   * in timestamp order and adding up their unread counts. The target's
+   * log is rewritten and the source deleted.
+   */
+  async mergeConversation(fromId: string, toId: string): Promise<void> {
+    const source = this.conversations.get(fromId);
+    if (!source || fromId === toId) {
+      return;
+    }
+
+    const from = await this.loadConversation(fromId);
+    const to = await this.loadConversation(toId);
+    if (this.conversations.get(fromId) !== source) {
+      return; // Merged or cleared while loading
+    }
+
+    const merged = [...to.messages, ...from.messages.filter((message) => !to.byId.has(message.id))]
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    to.messages.splice(0, to.messages.length, ...merged);
+    for (const message of merged) {
+      to.byId.set(message.id, message);
+    }
+
+    const entry = this.getOrCreateEntry(toId);
+    entry.unreadCount += source.unreadCount;
+    this.conversations.delete(fromId);
+    this.loaded.delete(fromId);
+
+    // Messages added from here on are appended after the rewrite
+    const lines = merged.map((message) => this.sealRecord(entry, {
+      type: 'message',
+      message: { ...message, timestamp: message.timestamp.toISOString() }
+    }) + '\n');
+
+    await this.enqueue(async () => {
+      const file = path.join(this.directory, entry.file);
+      await fs.writeFile(`${file}.tmp`, lines.join(''), { mode: 0o600 });
+      await fs.rename(`${file}.tmp`, file);
+      await fs.rm(path.join(this.directory, source.file), { force: true });
+      await this.writeIndex();
+    });
+  }
+
+  /**
+   * Deletes the history of one conversation, or of all of them
+   */
+  async clear(conversationId?: string): Promise<void> {
+    const ids = conversationId === undefined ? this.getConversationIds() : [conversationId];
+
+    await this.enqueue(async () => {
+      for (const id of ids) {
+        const entry = this.conversations.get(id);
+        if (entry) {
+          await fs.rm(path.join(this.directory, entry.file), { force: true });
+          this.conversations.delete(id);
+        }
+        this.loaded.delete(id);
+      }
+      await this.writeIndex();
+    });
+  }
+
+  /**
+   * Waits for pending writes and drops decrypted history from memory
+   */
+  async close(): Promise<void> {
+    await this.writes;
+    this.loaded.clear();
+    this.conversations.clear();
+    this.key = null;
+  }
+
+  // Caches the promise so concurrent callers share one load
+  private loadConversation(conversationId: string): Promise<LoadedConversation> {
+    let conversation = this.loaded.get(conversationId);
+    if (!conversation) {
+      conversation = this.readConversation(conversationId);
+      this.loaded.set(conversationId, conversation);
+      conversation.catch(() => this.loaded.delete(conversationId));
+    }
+    return conversation;
+  }
+
+  private async readConversation(conversationId: string): Promise<LoadedConversation> {
+    const conversation: LoadedConversation = { messages: [], byId: new Map() };
+    const entry = this.conversations.get(conversationId);
+    if (!entry) {
+      return conversation;
+    }
+
+    let contents = '';
+    try {
+      contents = await fs.readFile(path.join(this.directory, entry.file), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    const ad = Buffer.from(entry.file);
+    for (const line of contents.split('\n')) {
+      if (!line) {
+        continue;
+      }
+
+      let record: LogRecord;
+      try {
+        record = JSON.parse(unseal(this.requireKey(), Buffer.from(line, 'base64'), ad).toString('utf8'));
+      } catch {
+        continue; // Torn write from a crash, or tampered
+      }
+
+      if (record.type === 'message' && !conversation.byId.has(record.message.id)) {
+        const message = { ...record.message, timestamp: new Date(record.message.timestamp) };
+        conversation.messages.push(message);
+        conversation.byId.set(message.id, message);
+      } else if (record.type === 'status') {
+        const message = conversation.byId.get(record.messageId);
+        if (message) {
+          message.deliveryStatus = record.status;
+        }
+      }
+    }
+
+    return conversation;
+  }
+
+  private getOrCreateEntry(conversationId: string): ConversationEntry {
+    let entry = this.conversations.get(conversationId);
+    if (!entry) {
+      const name = createHmac('sha256', this.requireKey()).update(conversationId).digest('hex').slice(0, 32);
+      entry = { file: `${name}.log`, unreadCount: 0 };
+      this.conversations.set(conversationId, entry);
+    }
+    return entry;
+  }
+
+  private sealRecord(entry: ConversationEntry, record: LogRecord): string {
+    return seal(this.requireKey(), Buffer.from(JSON.stringify(record)), Buffer.from(entry.file)).toString('base64');
+  }
+
+  private appendRecord(entry: ConversationEntry, record: LogRecord): Promise<void> {
+    const line = this.sealRecord(entry, record);
+
+    return this.enqueue(async () => {
+      await fs.appendFile(path.join(this.directory, entry.file), line + '\n', { mode: 0o600 });
+      await this.writeIndex();
+    });
+  }
+
+  private async writeIndex(): Promise<void> {
+    const index: IndexFile = {
+      version: INDEX_VERSION,
+      conversations: Object.fromEntries(this.conversations)
+    };
+    const sealed = seal(this.requireKey(), Buffer.from(JSON.stringify(index)), Buffer.from(INDEX_FILE));
+
+    const file = path.join(this.directory, INDEX_FILE);
+    await fs.writeFile(`${file}.tmp`, sealed, { mode: 0o600 });
+    await fs.rename(`${file}.tmp`, file);
+  }
+
+  // Serializes file writes so appends and index updates never interleave
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    const result = this.writes.then(write);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+
+  private requireKey(): Buffer {
+    if (!this.key) {
+      throw new Error('MessageStore is not open');
+    }
+    return this.key;
+  }
+}
@@ -0,0 +1,116 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { SecretStore } from './SecretStore';
+import { seal, unseal } from './sealing';
+import { BitchatMessage } from '../../shared/types';
+
+export interface OutboxStoreOptions {
+  directory: string;
+  secretStore: SecretStore;
+}
+
+export interface OutboxEntry {
+  message: BitchatMessage;
+  recipientId: string;
+  attempts: number;
+  queuedAt: number;
+  nextAttemptAt: number;
+  expiresAt: number;
+}
+
+interface OutboxFile {
+  version: number;
+  entries: Array<Omit<OutboxEntry, 'message'> & {
+    message: Omit<BitchatMessage, 'timestamp'> & { timestamp: string };
+  }>;
+}
+
+const KEY_ACCOUNT = 'outbox-key';
+const OUTBOX_FILE = 'outbox.enc';
+const OUTBOX_VERSION = 1;
+
+/**
+ * OutboxStore persists messages waiting to be sent, so they survive a
+ * restart. The queue holds message content and peer IDs, so like the
+ * message history it is sealed with a key kept in the SecretStore.
+ */
+export class OutboxStore {
+  private readonly directory: string;
+  private readonly secrets: SecretStore;
+  private key: Buffer | null = null;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(options: OutboxStoreOptions) {
+    this.directory = options.directory;
+    this.secrets = options.secretStore;
+  }
+
+  /**
+   * Loads the queued entries, creating the outbox key on first use
+   */
+  async load(): Promise<OutboxEntry[]> {
+    const key = await this.getKey();
+
+    let sealed: Buffer;
+    try {
+      sealed = await fs.readFile(this.filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const outbox: OutboxFile = JSON.parse(unseal(key, sealed, Buffer.from(OUTBOX_FILE)).toString('utf8'));
+    if (outbox.version !== OUTBOX_VERSION) {
+      throw new Error(`Unsupported outbox version: ${outbox.version}`);
+    }
+
+    return outbox.entries.map((entry) => ({
+      ...entry,
+      message: { ...entry.message, timestamp: new Date(entry.message.timestamp) }
+    }));
+  }
+
+  /**
+   * Replaces the stored queue
+   */
+  async save(entries: OutboxEntry[]): Promise<void> {
+    const key = await this.getKey();
+    const outbox: OutboxFile = {
+      version: OUTBOX_VERSION,
+      entries: entries.map((entry) => ({
+        ...entry,
+        message: { ...entry.message, timestamp: entry.message.timestamp.toISOString() }
+      }))
+    };
+    const sealed = seal(key, Buffer.from(JSON.stringify(outbox)), Buffer.from(OUTBOX_FILE));
+
+    // Serialize writes; each one replaces the file atomically
+    const result = this.writes.then(async () => {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(`${this.filePath}.tmp`, sealed, { mode: 0o600 });
+      await fs.rename(`${this.filePath}.tmp`, this.filePath);
+    });
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+
+  private get filePath(): string {
+    return path.join(this.directory, OUTBOX_FILE);
+  }
+
+  private async getKey(): Promise<Buffer> {
+    if (!this.key) {
+      const storedKey = await this.secrets.get(KEY_ACCOUNT);
+      if (storedKey) {
+        this.key = Buffer.from(storedKey, 'hex');
+      } else {
+        this.key = randomBytes(32);
+        await this.secrets.set(KEY_ACCOUNT, this.key.toString('hex'));
+      }
+    }
+    return this.key;
+  }
+}
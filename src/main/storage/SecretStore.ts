@@ -0,0 +1,189 @@
+import { promises as fs, readFileSync } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { randomBytes, scryptSync } from 'crypto';
+import { seal, unseal } from './sealing';
+
+export type SecretBackend = 'keychain' | 'file';
+
+export interface SecretStoreOptions {
+  directory: string; // where the fallback file lives
+  service?: string; // keychain service name
+  passphrase?: string; // fallback file passphrase, defaults to a machine-bound secret
+}
+
+interface Keychain {
+  getPassword(service: string, account: string): Promise<string | null>;
+  setPassword(service: string, account: string, password: string): Promise<void>;
+  deletePassword(service: string, account: string): Promise<boolean>;
+  findCredentials(service: string): Promise<Array<{ account: string; password: string }>>;
+}
+
+interface SecretFile {
+  version: number;
+  salt: string; // hex
+  data: string; // base64, sealed JSON of the secrets
+}
+
+const SECRET_FILE = 'secrets.enc';
+const SECRET_FILE_VERSION = 1;
+
+/**
+ * SecretStore keeps small secrets such as private keys in the OS keychain
+ * through keytar. Where no keychain is available, typically headless
+ * Linux without a Secret Service, secrets go to an encrypted file in the
+ * app data directory instead. That file is sealed with ChaCha20-Poly1305
+ * under a key stretched from the passphrase with scrypt.
+ */
+export class SecretStore {
+  private readonly directory: string;
+  private readonly service: string;
+  private readonly passphrase?: string;
+  private backend?: Promise<Keychain | null>;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(options: SecretStoreOptions) {
+    this.directory = options.directory;
+    this.service = options.service || 'BitChat';
+    this.passphrase = options.passphrase;
+  }
+
+  /**
+   * Reports where secrets are stored on this machine
+   */
+  async getBackend(): Promise<SecretBackend> {
+    return (await this.getKeychain()) ? 'keychain' : 'file';
+  }
+
+  async get(account: string): Promise<string | null> {
+    const keychain = await this.getKeychain();
+    if (keychain) {
+      return keychain.getPassword(this.service, account);
+    }
+
+    const secrets = await this.readFile();
+    return secrets[account] ?? null;
+  }
+
+  async set(account: string, secret: string): Promise<void> {
+    const keychain = await this.getKeychain();
+    if (keychain) {
+      return keychain.setPassword(this.service, account, secret);
+    }
+
+    await this.enqueue(async () => {
+      const secrets = await this.readFile();
+      secrets[account] = secret;
+      await this.writeFile(secrets);
+    });
+  }
+
+  async delete(account: string): Promise<void> {
+    const keychain = await this.getKeychain();
+    if (keychain) {
+      await keychain.deletePassword(this.service, account);
+      return;
+    }
+
+    await this.enqueue(async () => {
+      const secrets = await this.readFile();
+      if (account in secrets) {
+        delete secrets[account];
+        await this.writeFile(secrets);
+      }
+    });
+  }
+
+  /**
+   * Loads keytar once. The native module may be missing, or load but fail
+   * on first use when no keychain daemon is running; both mean fallback.
+   */
+  private getKeychain(): Promise<Keychain | null> {
+    if (!this.backend) {
+      this.backend = (async () => {
+        try {
+          const keytar: Keychain = await import('keytar');
+          await keytar.findCredentials(this.service);
+          return keytar;
+        } catch (error) {
+          console.warn('OS keychain unavailable, using encrypted file:', error instanceof Error ? error.message : error);
+          return null;
+        }
+      })();
+    }
+    return this.backend;
+  }
+
+  private get filePath(): string {
+    return path.join(this.directory, SECRET_FILE);
+  }
+
+  private async readFile(): Promise<Record<string, string>> {
+    let file: SecretFile;
+    try {
+      file = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw new Error(`Secret file is unreadable: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (file.version !== SECRET_FILE_VERSION) {
+      throw new Error(`Unsupported secret file version: ${file.version}`);
+    }
+
+    try {
+      const key = this.deriveKey(Buffer.from(file.salt, 'hex'));
+      const plaintext = unseal(key, Buffer.from(file.data, 'base64'), Buffer.from(SECRET_FILE));
+      return JSON.parse(plaintext.toString('utf8'));
+    } catch {
+      throw new Error('Secret file could not be decrypted');
+    }
+  }
+
+  private async writeFile(secrets: Record<string, string>): Promise<void> {
+    const salt = randomBytes(16);
+    const sealed = seal(this.deriveKey(salt), Buffer.from(JSON.stringify(secrets), 'utf8'), Buffer.from(SECRET_FILE));
+    const file: SecretFile = {
+      version: SECRET_FILE_VERSION,
+      salt: salt.toString('hex'),
+      data: sealed.toString('base64')
+    };
+
+    // Write then rename so a crash never leaves a truncated file
+    await fs.mkdir(this.directory, { recursive: true });
+    const temp = `${this.filePath}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(file), { mode: 0o600 });
+    await fs.rename(temp, this.filePath);
+  }
+
+  // Serializes changes to the file so concurrent ones never lose a write
+  private enqueue(change: () => Promise<void>): Promise<void> {
+    const result = this.writes.then(change);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+
+  private deriveKey(salt: Buffer): Buffer {
+    return scryptSync(this.passphrase ?? machineSecret(), salt, 32);
+  }
+}
+
+/**
+ * Binds the fallback file to this machine and user account. This keeps
+ * a copied file useless elsewhere; it is no defence against code running
+ * as the same user, which a keychain would not stop either.
+ */
+function machineSecret(): string {
+  let machineId = os.hostname();
+  for (const file of ['/etc/machine-id', '/var/lib/dbus/machine-id']) {
+    try {
+      machineId = readFileSync(file, 'utf8').trim();
+      break;
+    } catch {
+      // Not Linux, or no systemd/dbus machine ID
+    }
+  }
+  return `bitchat:${machineId}:${os.userInfo().username}`;
+}
@@ -0,0 +1,133 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { SecretStore } from './SecretStore';
+import { seal, unseal } from './sealing';
+
+export interface VerificationStoreOptions {
+  directory: string;
+  secretStore: SecretStore;
+}
+
+// A peer the user verified, by the fingerprint of its Noise static key
+export interface VerifiedPeer {
+  fingerprint: string;
+  noisePublicKey: string; // hex
+  nickname?: string;
+  verifiedAt: number;
+}
+
+interface VerificationFile {
+  version: number;
+  peers: VerifiedPeer[];
+}
+
+const KEY_ACCOUNT = 'verification-key';
+const VERIFICATION_FILE = 'verified-peers.enc';
+const VERIFICATION_VERSION = 1;
+
+/**
+ * VerificationStore remembers which peers the user has verified. The list
+ * says who the user has met in person, so like the message history it is
+ * sealed with a key kept in the SecretStore.
+ */
+export class VerificationStore {
+  private readonly directory: string;
+  private readonly secrets: SecretStore;
+  private key: Buffer | null = null;
+  private peers: Map<string, VerifiedPeer> = new Map();
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(options: VerificationStoreOptions) {
+    this.directory = options.directory;
+    this.secrets = options.secretStore;
+  }
+
+  /**
+   * Loads the verified peers, creating the store key on first use
+   */
+  async load(): Promise<void> {
+    const key = await this.getKey();
+
+    let sealed: Buffer;
+    try {
+      sealed = await fs.readFile(this.filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    const file: VerificationFile = JSON.parse(unseal(key, sealed, Buffer.from(VERIFICATION_FILE)).toString('utf8'));
+    if (file.version !== VERIFICATION_VERSION) {
+      throw new Error(`Unsupported verification store version: ${file.version}`);
+    }
+
+    this.peers = new Map(file.peers.map((peer) => [peer.fingerprint, peer]));
+  }
+
+  get(fingerprint: string): VerifiedPeer | undefined {
+    const peer = this.peers.get(fingerprint);
+    return peer && { ...peer };
+  }
+
+  isVerified(fingerprint: string): boolean {
+    return this.peers.has(fingerprint);
+  }
+
+  list(): VerifiedPeer[] {
+    return Array.from(this.peers.values(), (peer) => ({ ...peer }));
+  }
+
+  /**
+   * Records a peer as verified
+   */
+  async add(peer: VerifiedPeer): Promise<void> {
+    this.peers.set(peer.fingerprint, { ...peer });
+    await this.save();
+  }
+
+  /**
+   * Forgets a verification. Returns false if the peer was not verified.
+   */
+  async remove(fingerprint: string): Promise<boolean> {
+    if (!this.peers.delete(fingerprint)) {
+      return false;
+    }
+    await this.save();
+    return true;
+  }
+
+  private get filePath(): string {
+    return path.join(this.directory, VERIFICATION_FILE);
+  }
+
+  private async save(): Promise<void> {
+    const key = await this.getKey();
+    const file: VerificationFile = { version: VERIFICATION_VERSION, peers: this.list() };
+    const sealed = seal(key, Buffer.from(JSON.stringify(file)), Buffer.from(VERIFICATION_FILE));
+
+    // Serialize writes; each one replaces the file atomically
+    const result = this.writes.then(async () => {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(`${this.filePath}.tmp`, sealed, { mode: 0o600 });
+      await fs.rename(`${this.filePath}.tmp`, this.filePath);
+    });
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+
+  private async getKey(): Promise<Buffer> {
+    if (!this.key) {
+      const storedKey = await this.secrets.get(KEY_ACCOUNT);
+      if (storedKey) {
+        this.key = Buffer.from(storedKey, 'hex');
+      } else {
+        this.key = randomBytes(32);
+        await this.secrets.set(KEY_ACCOUNT, this.key.toString('hex'));
+      }
+    }
+    return this.key;
+  }
+}
@@ -0,0 +1,34 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+const NONCE_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Encrypts a record for storage with ChaCha20-Poly1305.
+ * Layout: [nonce (12 bytes)][ciphertext][tag (16 bytes)]
+ * The associated data binds the record to where it is stored, e.g. its
+ * file name, so records cannot be moved between files unnoticed.
+ */
+export function seal(key: Buffer, plaintext: Buffer, ad: Buffer): Buffer {
+  const nonce = randomBytes(NONCE_LENGTH);
+  const cipher = createCipheriv('chacha20-poly1305', key, nonce, { authTagLength: TAG_LENGTH });
+  cipher.setAAD(ad, { plaintextLength: plaintext.length });
+  return Buffer.concat([nonce, cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+}
+
+/**
+ * Decrypts a record written by seal. Throws if it was tampered with or
+ * sealed with different associated data.
+ */
+export function unseal(key: Buffer, sealed: Buffer, ad: Buffer): Buffer {
+  if (sealed.length < NONCE_LENGTH + TAG_LENGTH) {
+    throw new Error('Sealed record too short');
+  }
+
+  const nonce = sealed.subarray(0, NONCE_LENGTH);
+  const ciphertext = sealed.subarray(NONCE_LENGTH, sealed.length - TAG_LENGTH);
+  const decipher = createDecipheriv('chacha20-poly1305', key, nonce, { authTagLength: TAG_LENGTH });
+  decipher.setAAD(ad, { plaintextLength: ciphertext.length });
+  decipher.setAuthTag(sealed.subarray(sealed.length - TAG_LENGTH));
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
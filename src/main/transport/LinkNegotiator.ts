@@ -0,0 +1,333 @@
+import { EventEmitter } from 'events';
+import {
+  MessageType,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  ProtocolFeatures,
+  NackReason
+} from '../../shared/constants';
+import { BufferReader } from '../protocols/BufferReader';
+
+export interface VersionHello {
+  versions: number[];
+  features: number;
+  requiredFeatures: number; // the link is refused unless both sides have these
+}
+
+export interface VersionAck {
+  version: number;
+  features: number;
+}
+
+export interface ProtocolNack {
+  reason: number;
+  versions: number[]; // what the refusing side supports
+}
+
+// What the two ends of a link agreed to speak
+export interface LinkProtocol {
+  version: number;
+  features: number;
+  peerID: string; // the node at the other end, as it introduced itself
+}
+
+export interface LinkNegotiatedEvent extends LinkProtocol {
+  linkId: string;
+}
+
+export interface LinkIncompatibleEvent {
+  linkId: string;
+  reason: number;
+  peerVersions: number[];
+  refusedByPeer: boolean; // the peer sent the PROTOCOL_NACK, not us
+}
+
+export type LinkNegotiatorEvents = {
+  negotiated: [LinkNegotiatedEvent];
+  incompatible: [LinkIncompatibleEvent];
+};
+
+export interface LinkNegotiatorOptions {
+  sendToLink: (linkId: string, type: number, payload: Buffer) => Promise<boolean>;
+  versions?: number[];
+  features?: number;
+  requiredFeatures?: number;
+}
+
+type LinkState =
+  | { status: 'pending' }
+  | { status: 'negotiated'; protocol: LinkProtocol }
+  | { status: 'incompatible'; reason: number };
+
+// Features we implement
+export const LOCAL_FEATURES = ProtocolFeatures.SIGNATURES | ProtocolFeatures.FRAGMENTATION;
+
+export const isNegotiationMessage = (type: number): boolean =>
+  type === MessageType.VERSION_HELLO ||
+  type === MessageType.VERSION_ACK ||
+  type === MessageType.PROTOCOL_NACK;
+
+/**
+ * LinkNegotiator agrees a protocol version and feature set with the node
+ * at the other end of each link. Each side offers its versions and
+ * features in a VERSION_HELLO; the receiver picks the highest version
+ * both support and the features both have, and answers with a
+ * VERSION_ACK, or with a PROTOCOL_NACK giving the reason if there is no
+ * common ground. Both sides pick the same way, so hellos that cross on
+ * the wire settle on the same result.
+ *
+ * Negotiation packets always use the version 1 header, so any node can
+ * read them. A link whose node never answers, such as one running an
+ * older build, is spoken to in version 1 without optional features.
+ *
+ * Only the agreed features change what is sent. The agreed version is
+ * recorded but every packet still carries the version 1 header: this
+ * build speaks no other, and a signed packet relayed across the mesh
+ * cannot change its header from link to link.
+ */
+export class LinkNegotiator extends EventEmitter<LinkNegotiatorEvents> {
+  private readonly sendToLink: (linkId: string, type: number, payload: Buffer) => Promise<boolean>;
+  private readonly versions: number[];
+  private features: number;
+  private readonly requiredFeatures: number;
+  private links: Map<string, LinkState> = new Map();
+
+  constructor(options: LinkNegotiatorOptions) {
+    super();
+    this.sendToLink = options.sendToLink;
+    this.versions = options.versions ?? SUPPORTED_PROTOCOL_VERSIONS;
+    this.features = options.features ?? LOCAL_FEATURES;
+    this.requiredFeatures = options.requiredFeatures ?? 0;
+  }
+
+  /**
+   * Sends our hello on a link, unless negotiation on it has already begun
+   */
+  async start(linkId: string): Promise<boolean> {
+    if (this.links.has(linkId)) {
+      return false;
+    }
+
+    this.links.set(linkId, { status: 'pending' });
+    return this.sendHello(linkId);
+  }
+
+  /**
+   * Changes the features we offer and offers them again on every link
+   * not refused, so each link settles on the new set
+   */
+  async setFeatures(features: number): Promise<void> {
+    if (features === this.features) {
+      return;
+    }
+
+    this.features = features;
+    for (const [linkId, state] of Array.from(this.links)) {
+      if (state.status !== 'incompatible') {
+        await this.sendHello(linkId);
+      }
+    }
+  }
+
+  /**
+   * Handles a VERSION_HELLO, VERSION_ACK or PROTOCOL_NACK received on a
+   * link from the node with the given sender ID. Throws a ProtocolError
+   * with MALFORMED_PACKET if it cannot be decoded.
+   */
+  async handlePacket(linkId: string, peerID: string, type: number, payload: Buffer): Promise<void> {
+    switch (type) {
+      case MessageType.VERSION_HELLO:
+        await this.handleHello(linkId, peerID, payload);
+        break;
+
+      case MessageType.VERSION_ACK:
+        await this.handleAck(linkId, peerID, payload);
+        break;
+
+      case MessageType.PROTOCOL_NACK:
+        this.handleNack(linkId, payload);
+        break;
+    }
+  }
+
+  /**
+   * The version and features agreed on a link, if negotiation completed
+   */
+  getProtocol(linkId: string): LinkProtocol | undefined {
+    const state = this.links.get(linkId);
+    return state?.status === 'negotiated' ? { ...state.protocol } : undefined;
+  }
+
+  /**
+   * Whether either side refused the link. Nothing but negotiation is
+   * exchanged on such a link.
+   */
+  isIncompatible(linkId: string): boolean {
+    return this.links.get(linkId)?.status === 'incompatible';
+  }
+
+  /**
+   * Forgets a link that went away
+   */
+  removeLink(linkId: string): void {
+    this.links.delete(linkId);
+  }
+
+  clear(): void {
+    this.links.clear();
+  }
+
+  /**
+   * Encodes a VERSION_HELLO payload.
+   * Format: [version count][versions][features (4)][required features (4)]
+   */
+  static encodeHello(hello: VersionHello): Buffer {
+    const flags = Buffer.alloc(8);
+    flags.writeUInt32BE(hello.features >>> 0, 0);
+    flags.writeUInt32BE(hello.requiredFeatures >>> 0, 4);
+    return Buffer.concat([LinkNegotiator.encodeVersions(hello.versions), flags]);
+  }
+
+  static decodeHello(payload: Buffer): VersionHello {
+    const reader = new BufferReader(payload, 'version hello');
+    const hello = {
+      versions: LinkNegotiator.readVersions(reader),
+      features: reader.readUInt32BE('features'),
+      requiredFeatures: reader.readUInt32BE('required features')
+    };
+    reader.expectEnd();
+    return hello;
+  }
+
+  /**
+   * Encodes a VERSION_ACK payload.
+   * Format: [version][features (4)]
+   */
+  static encodeAck(ack: VersionAck): Buffer {
+    const payload = Buffer.alloc(5);
+    payload.writeUInt8(ack.version, 0);
+    payload.writeUInt32BE(ack.features >>> 0, 1);
+    return payload;
+  }
+
+  static decodeAck(payload: Buffer): VersionAck {
+    const reader = new BufferReader(payload, 'version ack');
+    const ack = {
+      version: reader.readUInt8('version'),
+      features: reader.readUInt32BE('features')
+    };
+    reader.expectEnd();
+    return ack;
+  }
+
+  /**
+   * Encodes a PROTOCOL_NACK payload.
+   * Format: [reason][version count][versions]
+   */
+  static encodeNack(nack: ProtocolNack): Buffer {
+    return Buffer.concat([Buffer.from([nack.reason]), LinkNegotiator.encodeVersions(nack.versions)]);
+  }
+
+  static decodeNack(payload: Buffer): ProtocolNack {
+    const reader = new BufferReader(payload, 'protocol nack');
+    const nack = {
+      reason: reader.readUInt8('reason'),
+      versions: LinkNegotiator.readVersions(reader)
+    };
+    reader.expectEnd();
+    return nack;
+  }
+
+  private async handleHello(linkId: string, peerID: string, payload: Buffer): Promise<void> {
+    let hello: VersionHello;
+    try {
+      hello = LinkNegotiator.decodeHello(payload);
+    } catch (error) {
+      await this.refuse(linkId, NackReason.MALFORMED_NEGOTIATION, []);
+      throw error;
+    }
+
+    const common = hello.versions.filter((version) => this.versions.includes(version));
+    if (common.length === 0) {
+      await this.refuse(linkId, NackReason.UNSUPPORTED_VERSION, hello.versions);
+      return;
+    }
+
+    // Each side may insist on features the other lacks
+    const features = this.features & hello.features;
+    if (!this.hasRequiredFeatures(features, hello.requiredFeatures)) {
+      await this.refuse(linkId, NackReason.MISSING_FEATURES, hello.versions);
+      return;
+    }
+
+    const protocol = { version: Math.max(...common), features, peerID };
+    this.agree(linkId, protocol);
+    await this.sendToLink(linkId, MessageType.VERSION_ACK, LinkNegotiator.encodeAck(protocol));
+  }
+
+  private async handleAck(linkId: string, peerID: string, payload: Buffer): Promise<void> {
+    const ack = LinkNegotiator.decodeAck(payload);
+
+    // The peer may only pick from what we offered
+    if (!this.versions.includes(ack.version)) {
+      await this.refuse(linkId, NackReason.UNSUPPORTED_VERSION, [ack.version]);
+      return;
+    }
+    if ((ack.features & ~this.features) !== 0 || !this.hasRequiredFeatures(ack.features, 0)) {
+      await this.refuse(linkId, NackReason.MISSING_FEATURES, [ack.version]);
+      return;
+    }
+
+    this.agree(linkId, { ...ack, peerID });
+  }
+
+  private handleNack(linkId: string, payload: Buffer): void {
+    const nack = LinkNegotiator.decodeNack(payload);
+    this.links.set(linkId, { status: 'incompatible', reason: nack.reason });
+    this.emit('incompatible', { linkId, reason: nack.reason, peerVersions: nack.versions, refusedByPeer: true });
+  }
+
+  private hasRequiredFeatures(features: number, peerRequiredFeatures: number): boolean {
+    const required = this.requiredFeatures | peerRequiredFeatures;
+    return (features & required) === required;
+  }
+
+  private agree(linkId: string, protocol: LinkProtocol): void {
+    const current = this.getProtocol(linkId);
+    this.links.set(linkId, { status: 'negotiated', protocol: { ...protocol } });
+
+    if (current?.version !== protocol.version ||
+        current.features !== protocol.features ||
+        current.peerID !== protocol.peerID) {
+      this.emit('negotiated', { linkId, ...protocol });
+    }
+  }
+
+  private async refuse(linkId: string, reason: number, peerVersions: number[]): Promise<void> {
+    this.links.set(linkId, { status: 'incompatible', reason });
+    this.emit('incompatible', { linkId, reason, peerVersions, refusedByPeer: false });
+    await this.sendToLink(linkId, MessageType.PROTOCOL_NACK, LinkNegotiator.encodeNack({ reason, versions: this.versions }));
+  }
+
+  private sendHello(linkId: string): Promise<boolean> {
+    return this.sendToLink(linkId, MessageType.VERSION_HELLO, LinkNegotiator.encodeHello({
+      versions: this.versions,
+      features: this.features,
+      requiredFeatures: this.requiredFeatures
+    }));
+  }
+
+  private static encodeVersions(versions: number[]): Buffer {
+    if (versions.length === 0 || versions.length > 255) {
+      throw new Error('Between 1 and 255 protocol versions must be given');
+    }
+    return Buffer.from([versions.length, ...versions]);
+  }
+
+  private static readVersions(reader: BufferReader): number[] {
+    const count = reader.readUInt8('version count');
+    if (count === 0) {
+      reader.fail('no versions', 'version count', reader.position - 1);
+    }
+    return Array.from(reader.readBytes(count, 'versions'));
+  }
+}
@@ -0,0 +1,164 @@
+import { BinaryProtocol } from '../protocols/BinaryProtocol';
+import { BitchatPacket } from '../../shared/types';
+
+export interface MeshRelayOptions {
+  getLinks: () => string[];
+  sendToLink: (linkId: string, data: Buffer) => Promise<boolean>;
+  minJitter?: number; // ms
+  maxJitter?: number; // ms
+  maxRelaysPerOrigin?: number; // per rate limit window
+  rateLimitWindow?: number; // ms
+}
+
+export interface RelayStats {
+  packetsRelayed: number;
+  relayBytes: number;
+  relaysRateLimited: number;
+  relaysFailed: number;
+}
+
+interface OriginWindow {
+  windowStart: number;
+  count: number;
+}
+
+/**
+ * MeshRelay forwards packets that BitchatProtocol has decided to relay.
+ * Each packet is re-encoded and sent on every connected link except the
+ * one it arrived on, after a random delay so that neighbours hearing the
+ * same broadcast do not all retransmit at once. Relays are rate limited
+ * per originating peer so a single chatty or hostile node cannot flood
+ * the mesh through us.
+ */
+export class MeshRelay {
+  private readonly getLinks: () => string[];
+  private readonly sendToLink: (linkId: string, data: Buffer) => Promise<boolean>;
+  private readonly minJitter: number;
+  private readonly maxJitter: number;
+  private readonly maxRelaysPerOrigin: number;
+  private readonly rateLimitWindow: number;
+  private origins: Map<string, OriginWindow> = new Map();
+  private pending: Set<NodeJS.Timeout> = new Set();
+  private stats: RelayStats = {
+    packetsRelayed: 0,
+    relayBytes: 0,
+    relaysRateLimited: 0,
+    relaysFailed: 0
+  };
+
+  constructor(options: MeshRelayOptions) {
+    this.getLinks = options.getLinks;
+    this.sendToLink = options.sendToLink;
+    this.minJitter = options.minJitter ?? 10;
+    this.maxJitter = options.maxJitter ?? 100;
+    this.maxRelaysPerOrigin = options.maxRelaysPerOrigin ?? 100;
+    this.rateLimitWindow = options.rateLimitWindow ?? 60000; // 1 minute
+  }
+
+  /**
+   * Schedules a packet for relay to every link except the arrival link.
+   * Returns false if the packet was dropped without being scheduled.
+   */
+  relay(packet: BitchatPacket, fromLink: string): boolean {
+    if (packet.ttl < 0) {
+      return false;
+    }
+
+    if (!this.allowOrigin(packet.senderID.toString('hex'))) {
+      this.stats.relaysRateLimited++;
+      return false;
+    }
+
+    const delay = this.minJitter + Math.random() * (this.maxJitter - this.minJitter);
+    const timer = setTimeout(() => {
+      this.pending.delete(timer);
+      this.forward(packet, fromLink);
+    }, delay);
+    this.pending.add(timer);
+
+    return true;
+  }
+
+  /**
+   * Gets a snapshot of the relay counters
+   */
+  getStats(): RelayStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Gets the number of packets waiting for their jitter delay
+   */
+  getPendingCount(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Cancels pending relays
+   */
+  destroy(): void {
+    for (const timer of this.pending) {
+      clearTimeout(timer);
+    }
+    this.pending.clear();
+    this.origins.clear();
+  }
+
+  private async forward(packet: BitchatPacket, fromLink: string): Promise<void> {
+    const data = BinaryProtocol.encode(packet);
+    let sent = false;
+
+    for (const linkId of this.getLinks()) {
+      if (linkId === fromLink) {
+        continue;
+      }
+
+      try {
+        if (await this.sendToLink(linkId, data)) {
+          sent = true;
+          this.stats.relayBytes += data.length;
+        } else {
+          this.stats.relaysFailed++;
+        }
+      } catch (error) {
+        console.error(`Error relaying to link ${linkId}:`, error);
+        this.stats.relaysFailed++;
+      }
+    }
+
+    if (sent) {
+      this.stats.packetsRelayed++;
+    }
+  }
+
+  /**
+   * Counts a relay against the origin's budget for the current window
+   */
+  private allowOrigin(origin: string): boolean {
+    const now = Date.now();
+    let window = this.origins.get(origin);
+
+    if (!window || now - window.windowStart >= this.rateLimitWindow) {
+      if (!window && this.origins.size >= 1000) {
+        this.pruneOrigins(now);
+      }
+      window = { windowStart: now, count: 0 };
+      this.origins.set(origin, window);
+    }
+
+    if (window.count >= this.maxRelaysPerOrigin) {
+      return false;
+    }
+
+    window.count++;
+    return true;
+  }
+
+  private pruneOrigins(now: number): void {
+    for (const [origin, window] of this.origins) {
+      if (now - window.windowStart >= this.rateLimitWindow) {
+        this.origins.delete(origin);
+      }
+    }
+  }
+}
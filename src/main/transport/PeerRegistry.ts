@@ -0,0 +1,247 @@
+import { EventEmitter } from 'events';
+import { KeyManager } from '../crypto/KeyManager';
+
+/**
+ * A peer's long-term identity, keyed by the fingerprint of its Noise
+ * static key. Its peer ID and the links it is heard on may change; the
+ * fingerprint does not.
+ */
+export interface Peer {
+  fingerprint: string;
+  noisePublicKey: Buffer;
+  peerID: string; // the sender ID it is using now
+  nickname?: string;
+  nostrPublicKey?: string; // hex
+  lastSeen: Date;
+}
+
+export interface PeerDetails {
+  nickname?: string;
+  nostrPublicKey?: string;
+}
+
+export interface PeerRoute {
+  peerID: string;
+  linkId: string;
+  lastSeen: Date;
+}
+
+export interface PeerIDChangedEvent {
+  peer: Peer;
+  previousPeerID: string;
+}
+
+export interface PeerKeyChangedEvent {
+  peerID: string;
+  peer: Peer;
+  previousFingerprint: string;
+}
+
+// Sender IDs a peer has moved on from that still resolve to it, so that
+// replies and receipts addressed to a recent ID reach the peer
+export const MAX_RETIRED_PEER_IDS = 8;
+
+export type PeerRegistryEvents = {
+  peerReachable: [PeerRoute];
+  peerUnreachable: [PeerRoute];
+  peerUpdated: [Peer];
+  peerIDChanged: [PeerIDChangedEvent];
+  peerKeyChanged: [PeerKeyChangedEvent];
+};
+
+/**
+ * PeerRegistry keeps track of who is behind the IDs we see. Links (a BLE
+ * address, or `nostr:<public key>` for a Nostr sender) come and go, and a
+ * peer may change its 8-byte sender ID, so neither says who a peer is.
+ *
+ * Routes record the link each sender ID was last heard on, which is where
+ * packets for it go. Once a peer proves its Noise static key, its sender
+ * IDs are bound to a Peer keyed by that key's fingerprint, so BLE and
+ * Nostr presence, old and new IDs all resolve to the same identity.
+ */
+export class PeerRegistry extends EventEmitter<PeerRegistryEvents> {
+  private peers: Map<string, Peer> = new Map();
+  private fingerprints: Map<string, string> = new Map(); // peer ID -> fingerprint
+  private routes: Map<string, PeerRoute> = new Map();
+  private nostrPublicKeys: Map<string, string> = new Map(); // for IDs not yet identified
+  private retiredPeerIDs: Map<string, string[]> = new Map(); // fingerprint -> IDs it has used, oldest first
+
+  /**
+   * Records that a sender ID was heard on a link. Returns true if the peer
+   * was not reachable on that link before.
+   */
+  heard(peerID: string, linkId: string): boolean {
+    const route = this.routes.get(peerID);
+    const now = new Date();
+    const peer = this.get(peerID);
+
+    // Nothing goes to an ID the peer has moved on from
+    if (peer && peer.peerID !== peerID) {
+      return false;
+    }
+    if (peer) {
+      peer.lastSeen = now;
+    }
+
+    if (route?.linkId === linkId) {
+      route.lastSeen = now;
+      return false;
+    }
+
+    const newRoute = { peerID, linkId, lastSeen: now };
+    this.routes.set(peerID, newRoute);
+    this.emit('peerReachable', newRoute);
+    return true;
+  }
+
+  /**
+   * Forgets the routes through a link that went away and returns them
+   */
+  removeLink(linkId: string): PeerRoute[] {
+    const removed: PeerRoute[] = [];
+    for (const route of Array.from(this.routes.values())) {
+      if (route.linkId === linkId) {
+        this.routes.delete(route.peerID);
+        removed.push(route);
+        this.emit('peerUnreachable', route);
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Binds a sender ID to the Noise static key it proved in a handshake.
+   * If the key belongs to a peer we know under another ID, that peer has
+   * moved to the new ID and keeps its details.
+   */
+  identify(peerID: string, noisePublicKey: Buffer, details: PeerDetails = {}): Peer {
+    const fingerprint = KeyManager.generateFingerprint(noisePublicKey);
+    const peer: Peer = this.peers.get(fingerprint) ?? {
+      fingerprint,
+      noisePublicKey,
+      peerID,
+      lastSeen: new Date()
+    };
+    const previousPeerID = peer.peerID;
+
+    // A sender ID belongs to one key at a time. One that turns up with a
+    // different key is either a new device or someone impersonating it.
+    const previous = this.get(peerID);
+    const keyChanged = !!previous && previous.fingerprint !== fingerprint;
+    if (previous && keyChanged && previous.peerID === peerID) {
+      this.peers.delete(previous.fingerprint);
+    }
+
+    peer.peerID = peerID;
+    peer.nickname = details.nickname ?? peer.nickname;
+    peer.nostrPublicKey = details.nostrPublicKey ?? this.nostrPublicKeys.get(peerID) ?? peer.nostrPublicKey;
+    this.nostrPublicKeys.delete(peerID);
+    peer.lastSeen = new Date();
+    this.peers.set(fingerprint, peer);
+    this.fingerprints.set(peerID, fingerprint);
+
+    if (previous && keyChanged) {
+      this.emit('peerKeyChanged', { peerID, peer, previousFingerprint: previous.fingerprint });
+    }
+    if (previousPeerID !== peerID) {
+      // The peer has left its old ID behind, so nothing more goes to it
+      const oldRoute = this.routes.get(previousPeerID);
+      if (oldRoute) {
+        this.routes.delete(previousPeerID);
+        this.emit('peerUnreachable', oldRoute);
+      }
+      this.retire(peer, previousPeerID);
+      this.emit('peerIDChanged', { peer, previousPeerID });
+    }
+    this.emit('peerUpdated', peer);
+    return peer;
+  }
+
+  /**
+   * Records the Nostr key a peer can be reached at when it has no link.
+   * A key given for an ID we cannot tie to an identity yet is kept until
+   * the peer is identified.
+   */
+  setNostrPublicKey(id: string, nostrPublicKey: string | undefined): void {
+    const peer = this.get(id);
+    if (!peer) {
+      if (nostrPublicKey) {
+        this.nostrPublicKeys.set(id, nostrPublicKey);
+      } else {
+        this.nostrPublicKeys.delete(id);
+      }
+      return;
+    }
+
+    peer.nostrPublicKey = nostrPublicKey;
+    this.emit('peerUpdated', peer);
+  }
+
+  getNostrPublicKey(id: string): string | undefined {
+    return this.get(id)?.nostrPublicKey ?? this.nostrPublicKeys.get(id);
+  }
+
+  /**
+   * IDs we have a Nostr key for, whether or not they are identified
+   */
+  getNostrPeerIDs(): string[] {
+    return [
+      ...this.list().filter((peer) => peer.nostrPublicKey).map((peer) => peer.peerID),
+      ...this.nostrPublicKeys.keys()
+    ];
+  }
+
+  /**
+   * Looks a peer up by fingerprint or by any sender ID it has used
+   */
+  get(id: string): Peer | undefined {
+    return this.peers.get(id) ?? this.peers.get(this.fingerprints.get(id) ?? '');
+  }
+
+  /**
+   * The sender ID to address packets for a peer to. IDs we cannot tie to
+   * an identity are returned as they are.
+   */
+  resolvePeerID(id: string): string {
+    return this.get(id)?.peerID ?? id;
+  }
+
+  /**
+   * The route to a peer's current sender ID, if it has been heard
+   */
+  getRoute(id: string): PeerRoute | undefined {
+    return this.routes.get(this.resolvePeerID(id));
+  }
+
+  getRoutes(): PeerRoute[] {
+    return Array.from(this.routes.values());
+  }
+
+  list(): Peer[] {
+    return Array.from(this.peers.values());
+  }
+
+  clear(): void {
+    this.peers.clear();
+    this.fingerprints.clear();
+    this.routes.clear();
+    this.nostrPublicKeys.clear();
+    this.retiredPeerIDs.clear();
+  }
+
+  /**
+   * Keeps a peer's old sender ID resolving to it, forgetting the oldest
+   * once there are more than MAX_RETIRED_PEER_IDS
+   */
+  private retire(peer: Peer, peerID: string): void {
+    const retired = (this.retiredPeerIDs.get(peer.fingerprint) ?? []).filter((id) => id !== peer.peerID);
+    retired.push(peerID);
+    for (const forgotten of retired.splice(0, Math.max(0, retired.length - MAX_RETIRED_PEER_IDS))) {
+      if (this.fingerprints.get(forgotten) === peer.fingerprint) {
+        this.fingerprints.delete(forgotten);
+      }
+      this.routes.delete(forgotten);
+    }
+    this.retiredPeerIDs.set(peer.fingerprint, retired);
+  }
+}
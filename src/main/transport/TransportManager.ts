@@ -1,37 +1,347 @@
 import { EventEmitter } from 'events';
-import { BLETransport, BLEConnection } from './ble/BLETransport';
+import { randomBytes } from 'crypto';
+import { BLETransport, BLEConnection, BLETransportStatus } from './ble/BLETransport';
+import { NostrTransport, NostrTransportStatus } from './nostr/NostrTransport';
 import { BinaryProtocol } from '../protocols/BinaryProtocol';
-import { BitchatProtocol } from '../protocols/BitchatProtocol';
+import { BitchatProtocol, MAX_RECEIPT_IDS } from '../protocols/BitchatProtocol';
 import { FragmentManager } from '../protocols/FragmentManager';
+import { MeshRelay, RelayStats } from './MeshRelay';
+import { Peer, PeerDetails, PeerRegistry } from './PeerRegistry';
+import { LinkNegotiator, LinkProtocol, LOCAL_FEATURES, isNegotiationMessage } from './LinkNegotiator';
 import { NoiseSessionManager } from '../crypto/NoiseSessionManager';
-import { BitchatPacket } from '../../shared/types';
-import { MessageType } from '../../shared/constants';
+import { BitchatMessage, BitchatPacket, KeyPair } from '../../shared/types';
+import {
+  MessageType,
+  BLE_MTU,
+  ErrorCodes,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  ProtocolFeatures
+} from '../../shared/constants';
+import { ProtocolError } from '../protocols/ProtocolError';
 
 export interface TransportOptions {
   deviceName?: string;
   sessionManager: NoiseSessionManager;
+  peerID?: Buffer;
+  signingKeyPair?: KeyPair;
+  nostrPrivateKey?: Uint8Array;
+  nostrRelays?: string[];
+  peerIDRotationInterval?: number; // ms between sender ID changes; 0 never changes it
+  blockedPeers?: string[]; // fingerprints, or peer IDs of peers whose key we did not know
+  relayBlockedPeers?: boolean; // carry blocked peers' traffic for others; defaults to true
+  compression?: boolean; // offer and use compressed messages; defaults to false
 }
 
-interface PeerConnection {
-  transport: 'ble' | 'nostr';
-  connection: BLEConnection | any; // Will add Nostr connection type later
-  fragmentManager: FragmentManager;
+interface NostrConnection {
+  publicKey: string;
 }
 
+export interface SendOptions {
+  // Use the peer's Nostr key when it has no working direct link
+  allowNostrFallback?: boolean;
+  // The payload was compressed, so the packets are flagged IS_COMPRESSED
+  isCompressed?: boolean;
+}
+
+interface SessionWaiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+type PeerConnection =
+  | { transport: 'ble'; connection: BLEConnection }
+  | { transport: 'nostr'; connection: NostrConnection };
+
+// Packets received over Nostr arrive on a link named after the sender's key
+const NOSTR_LINK_PREFIX = 'nostr:';
+
+// Handshake and rekey messages, which the session manager handles itself
+const isNoiseControlMessage = (type: number): boolean =>
+  type === MessageType.NOISE_HANDSHAKE_INIT ||
+  type === MessageType.NOISE_HANDSHAKE_RESP ||
+  type === MessageType.NOISE_ENCRYPTED ||
+  type === MessageType.NOISE_REKEY;
+
 export class TransportManager extends EventEmitter {
   private bleTransport: BLETransport | null = null;
+  private nostrTransport: NostrTransport | null = null;
   private binaryProtocol: BinaryProtocol;
   private bitchatProtocol: BitchatProtocol;
   private sessionManager: NoiseSessionManager;
-  private peers: Map<string, PeerConnection> = new Map();
+  private links: Map<string, BLEConnection> = new Map(); // by BLE address
+  private peerRegistry: PeerRegistry = new PeerRegistry();
+  private blockedPeers: Set<string>;
+  private sessionWaiters: Map<string, SessionWaiter[]> = new Map();
+  private fragmentManager: FragmentManager;
+  private meshRelay: MeshRelay;
+  private linkNegotiator: LinkNegotiator;
+  private peerID: Buffer;
   private deviceName: string;
+  private nostrPrivateKey?: Uint8Array;
+  private nostrRelays?: string[];
+  private peerIDRotationInterval: number;
+  private compression: boolean;
+  private rotationTimer?: NodeJS.Timeout;
 
   constructor(options: TransportOptions) {
     super();
     this.deviceName = options.deviceName || 'BitChat';
+    this.nostrPrivateKey = options.nostrPrivateKey;
+    this.nostrRelays = options.nostrRelays;
+    this.peerIDRotationInterval = options.peerIDRotationInterval ?? 15 * 60 * 1000; // 15 minutes
     this.sessionManager = options.sessionManager;
+    this.blockedPeers = new Set(options.blockedPeers);
+    this.compression = options.compression ?? false;
     this.binaryProtocol = new BinaryProtocol();
-    this.bitchatProtocol = new BitchatProtocol();
+    this.peerID = options.peerID || randomBytes(8);
+    this.fragmentManager = new FragmentManager();
+    this.meshRelay = new MeshRelay({
+      // Nostr peers are point-to-point, so the mesh only spans BLE links
+      getLinks: () => this.getCompatibleLinks(),
+      sendToLink: (linkId, data) => this.sendToLink(linkId, data)
+    });
+    // Negotiation is between neighbours, so its packets are never relayed
+    this.linkNegotiator = new LinkNegotiator({
+      sendToLink: (linkId, type, payload) => this.sendOnLink(
+        linkId,
+        this.bitchatProtocol.createPacket(type, payload, undefined, 0)
+      ),
+      features: this.getLocalFeatures()
+    });
+    this.bitchatProtocol = new BitchatProtocol(
+      this.peerID,
+      options.signingKeyPair,
+      {
+        decryptPayload: (senderId, payload) => this.sessionManager.hasSession(senderId) ?
+          this.sessionManager.decryptMessage(senderId, payload) :
+          null,
+        getPeerStaticKey: (senderId) => this.sessionManager.hasSession(senderId) ?
+          this.sessionManager.getSession(senderId)!.session.remoteStaticPublicKey :
+          undefined,
+        isBlocked: (senderId) => this.isBlocked(senderId),
+        relayBlockedPeers: options.relayBlockedPeers,
+        fragmentManager: this.fragmentManager
+      }
+    );
+
+    this.setupProtocolEvents();
+    this.setupSessionEvents();
+    this.setupRegistryEvents();
+    this.setupNegotiationEvents();
+  }
+
+  /**
+   * Forward decoded protocol events to the application layer
+   */
+  private setupProtocolEvents(): void {
+    this.bitchatProtocol.on('message', (event) => {
+      this.emit('message', event);
+    });
+
+    this.bitchatProtocol.on('peerAnnounced', (event) => {
+      this.emit('peer:announced', event);
+    });
+
+    this.bitchatProtocol.on('identityAnnounced', (event) => {
+      this.peerRegistry.identify(event.peerID, event.noisePublicKey, {
+        nickname: event.nickname,
+        nostrPublicKey: event.nostrPublicKey
+      });
+      this.resolvePendingBlock(event.peerID);
+      this.emit('peer:identity', event);
+    });
+
+    this.bitchatProtocol.on('peerLeft', (event) => {
+      this.emit('peer:left', event);
+    });
+
+    this.bitchatProtocol.on('deliveryAck', (event) => {
+      this.emit('delivery:ack', event);
+    });
+
+    this.bitchatProtocol.on('readReceipt', (event) => {
+      this.emit('read:receipt', event);
+    });
+
+    this.bitchatProtocol.on('deliveryStatusRequest', (event) => {
+      this.emit('delivery:statusRequest', event);
+    });
+
+    // A peer that favorites us says where to reach it over Nostr
+    this.bitchatProtocol.on('favoriteChanged', (event) => {
+      if (event.isFavorite && event.nostrPublicKey) {
+        this.peerRegistry.setNostrPublicKey(event.peerID, event.nostrPublicKey);
+      }
+      const peer = this.peerRegistry.get(event.peerID);
+      this.emit('peer:favoriteChanged', {
+        ...event,
+        fingerprint: peer?.fingerprint,
+        noisePublicKey: peer?.noisePublicKey
+      });
+    });
+
+    // Replies go back the way the sender was last heard, which for a
+    // relayed packet is the neighbour that relayed it. Only packets that
+    // passed verification and duplicate detection count, so a forged or
+    // replayed one cannot divert a peer's traffic. A blocked peer never
+    // shows up as reachable.
+    this.bitchatProtocol.on('packetAccepted', ({ packet, fromPeer }) => {
+      const senderId = packet.senderID.toString('hex');
+      if (this.isBlocked(senderId)) {
+        return;
+      }
+      this.peerRegistry.heard(senderId, fromPeer);
+
+      // Links we did not open, such as a Nostr sender's, are offered our
+      // versions when first heard from
+      this.linkNegotiator.start(fromPeer)
+        .catch((error) => console.error('Failed to send version hello:', error));
+    });
+
+    this.bitchatProtocol.on('relay', (event) => {
+      this.meshRelay.relay(event.packet, event.fromPeer);
+    });
+
+    this.bitchatProtocol.on('fragmentProgress', (progress) => {
+      this.emit('fragment:progress', progress);
+    });
+
+    this.bitchatProtocol.on('protocolError', (event) => {
+      this.emit('error', event.error);
+    });
+  }
+
+  /**
+   * Send the session manager's handshake and rekey messages to the peer,
+   * and release private packets waiting for a session
+   */
+  private setupSessionEvents(): void {
+    this.sessionManager.on('handshakeMessage', (event) => {
+      // These are safe over any link, and a handshake for a peer only
+      // reachable through Nostr has to go that way
+      this.sendPacket(event.peerID, event.type, event.message, 7, { allowNostrFallback: true });
+    });
+
+    this.sessionManager.on('sessionEstablished', (event) => {
+      // The handshake proved the peer's static key, so we know who it is
+      const sessionInfo = this.sessionManager.getSession(event.peerID);
+      if (sessionInfo) {
+        this.peerRegistry.identify(event.peerID, sessionInfo.session.remoteStaticPublicKey);
+      }
+      // The user may have blocked the peer by ID while we handshook
+      this.resolvePendingBlock(event.peerID);
+      if (this.isBlocked(event.peerID)) {
+        this.refuseSession(event.peerID);
+        return;
+      }
+      this.settleSessionWaiters(event.peerID);
+    });
+
+    this.sessionManager.on('identityAnnounce', (event) => {
+      this.announceIdentity(event.peerID)
+        .catch((error) => console.error('Failed to announce identity:', error));
+    });
+
+    this.sessionManager.on('handshakeFailed', (event) => {
+      this.settleSessionWaiters(event.peerID, new ProtocolError(
+        ErrorCodes.HANDSHAKE_FAILED,
+        `Handshake with peer ${event.peerID} failed: ${event.reason}`,
+        { peerID: event.peerID }
+      ));
+    });
+  }
+
+  /**
+   * Tell the application when a sender ID becomes reachable, or is no
+   * longer reachable, on any link
+   */
+  private setupRegistryEvents(): void {
+    this.peerRegistry.on('peerReachable', (route) => {
+      const connection = this.toConnection(route.linkId);
+      this.emit('peer:connected', {
+        id: route.peerID,
+        fingerprint: this.peerRegistry.get(route.peerID)?.fingerprint,
+        transport: connection?.transport ?? 'ble',
+        address: connection?.transport === 'ble' ? route.linkId : undefined,
+        publicKey: connection?.transport === 'nostr' ? connection.connection.publicKey : undefined
+      });
+    });
+
+    this.peerRegistry.on('peerUnreachable', (route) => {
+      this.emit('peer:disconnected', route.peerID);
+    });
+
+    // The peer handshook from a new ID, so its old session is finished with
+    this.peerRegistry.on('peerIDChanged', ({ peer, previousPeerID }) => {
+      if (this.sessionManager.hasSession(previousPeerID)) {
+        this.sessionManager.closeSession(previousPeerID);
+      }
+      this.emit('peer:idChanged', { peerID: peer.peerID, previousPeerID, fingerprint: peer.fingerprint });
+    });
+
+    this.peerRegistry.on('peerKeyChanged', ({ peerID, peer, previousFingerprint }) => {
+      this.emit('peer:keyChanged', { peerID, fingerprint: peer.fingerprint, previousFingerprint });
+    });
+  }
+
+  /**
+   * Forward the outcome of version negotiation. Peers heard only on a
+   * refused link are no longer reachable through it.
+   */
+  private setupNegotiationEvents(): void {
+    this.linkNegotiator.on('negotiated', (event) => {
+      this.emit('link:negotiated', event);
+    });
+
+    this.linkNegotiator.on('incompatible', (event) => {
+      this.peerRegistry.removeLink(event.linkId);
+      this.emit('link:incompatible', event);
+      this.emit('error', new ProtocolError(
+        ErrorCodes.INVALID_PROTOCOL_VERSION,
+        event.refusedByPeer ?
+          `A nearby node refused our protocol versions (${SUPPORTED_PROTOCOL_VERSIONS.join(', ')})` :
+          `A nearby node speaks no protocol version we support (${event.peerVersions.join(', ') || 'none'})`,
+        { linkId: event.linkId, reason: event.reason, peerVersions: event.peerVersions }
+      ));
+    });
+  }
+
+  /**
+   * Resolves once a Noise session with the peer is established, starting a
+   * handshake if there is none. Private packets wait here, in order, so
+   * that nothing private is ever sent in the clear.
+   */
+  private waitForSession(peerID: string): Promise<void> {
+    if (this.sessionManager.hasSession(peerID)) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiters = this.sessionWaiters.get(peerID) ?? [];
+      waiters.push({ resolve, reject });
+      this.sessionWaiters.set(peerID, waiters);
+
+      // Failures are also reported through handshakeFailed
+      this.sessionManager.getOrCreateSession(peerID).catch((error) => {
+        this.settleSessionWaiters(peerID, new ProtocolError(
+          ErrorCodes.HANDSHAKE_FAILED,
+          `Handshake with peer ${peerID} failed: ${error}`,
+          { peerID }
+        ));
+      });
+    });
+  }
+
+  private settleSessionWaiters(peerID: string, error?: Error): void {
+    const waiters = this.sessionWaiters.get(peerID) ?? [];
+    this.sessionWaiters.delete(peerID);
+    for (const waiter of waiters) {
+      if (error) {
+        waiter.reject(error);
+      } else {
+        waiter.resolve();
+      }
+    }
   }
 
   /**
@@ -40,8 +350,108 @@ export class TransportManager extends EventEmitter {
   async initialize(): Promise<void> {
     // Initialize BLE transport
     await this.initializeBLE();
-    
-    // TODO: Initialize Nostr transport
+
+    // Initialize Nostr transport
+    await this.initializeNostr();
+
+    if (this.peerIDRotationInterval > 0) {
+      this.rotationTimer = setInterval(() => this.rotatePeerID(), this.peerIDRotationInterval);
+      this.rotationTimer.unref?.();
+    }
+  }
+
+  /**
+   * Switch to a fresh random sender ID, so that observers of the mesh
+   * cannot follow us from one ID to the next. A new ID is also picked on
+   * every start. Which identity is behind the new ID is only revealed
+   * inside Noise sessions: we handshake again from it with every peer we
+   * have a session with, and the peer ties it to our static key.
+   */
+  rotatePeerID(): void {
+    this.peerID = randomBytes(8);
+    this.bitchatProtocol.setPeerID(this.peerID);
+
+    for (const peerID of Array.from(this.sessionManager.getAllSessions().keys())) {
+      // Our old session is keyed to our old ID on the peer's side, so
+      // private packets wait for the new one
+      this.sessionManager.closeSession(peerID);
+      if (this.getConnection(peerID)) {
+        this.sessionManager.getOrCreateSession(peerID)
+          .catch((error) => console.error('Failed to start handshake after changing peer ID:', error));
+      }
+    }
+
+    this.emit('peerID:rotated', this.peerID.toString('hex'));
+  }
+
+  getPeerID(): string {
+    return this.peerID.toString('hex');
+  }
+
+  /**
+   * Block a peer by its long-term identity, so it stays blocked whatever
+   * ID it uses. A peer that has not proved its key yet is blocked by the
+   * ID given until it does (see resolvePendingBlock), and its handshakes
+   * are refused meanwhile. Its session is closed, and handshakes from its
+   * key are refused by the session manager.
+   */
+  blockPeer(id: string): void {
+    const peer = this.peerRegistry.get(id);
+    this.blockedPeers.add(peer?.fingerprint ?? id);
+    this.refuseSession(this.peerRegistry.resolvePeerID(id));
+  }
+
+  /**
+   * Moves a block by peer ID to the fingerprint of the key the peer has
+   * just proved, so that it follows the peer to new IDs
+   */
+  private resolvePendingBlock(peerID: string): void {
+    const peer = this.peerRegistry.get(peerID);
+    if (!peer || !this.blockedPeers.delete(peerID)) {
+      return;
+    }
+    this.blockedPeers.add(peer.fingerprint);
+    this.emit('peer:blocked', { peerID, fingerprint: peer.fingerprint });
+  }
+
+  private refuseSession(peerID: string): void {
+    if (this.sessionManager.hasSession(peerID)) {
+      this.sessionManager.closeSession(peerID);
+    }
+    this.settleSessionWaiters(peerID, new ProtocolError(
+      ErrorCodes.PEER_BLOCKED,
+      `Peer ${peerID} is blocked`,
+      { peerID }
+    ));
+  }
+
+  unblockPeer(id: string): void {
+    this.blockedPeers.delete(id);
+    const peer = this.peerRegistry.get(id);
+    if (peer) {
+      this.blockedPeers.delete(peer.fingerprint);
+      this.blockedPeers.delete(peer.peerID);
+    }
+  }
+
+  /**
+   * Whether a peer is blocked, looked up by fingerprint or any peer ID
+   */
+  isBlocked(id: string): boolean {
+    const peer = this.peerRegistry.get(id);
+    return this.blockedPeers.has(id) || (!!peer && this.blockedPeers.has(peer.fingerprint));
+  }
+
+  /**
+   * The fingerprints we block, and the IDs of blocked peers that have not
+   * proved their key yet, to persist
+   */
+  getBlockedPeers(): string[] {
+    return Array.from(this.blockedPeers);
+  }
+
+  setBlockedPeers(ids: string[]): void {
+    this.blockedPeers = new Set(ids);
   }
 
   /**
@@ -62,37 +472,25 @@ export class TransportManager extends EventEmitter {
 
       this.bleTransport.on('connect', (connection: BLEConnection) => {
         console.log('BLE peer connected:', connection.address);
-        
-        // Create peer connection entry
-        const peerId = connection.address; // Use BLE address as peer ID for now
-        this.peers.set(peerId, {
-          transport: 'ble',
-          connection,
-          fragmentManager: new FragmentManager()
-        });
-
-        this.emit('peer:connected', {
-          id: peerId,
-          transport: 'ble',
-          address: connection.address
-        });
+
+        // Addresses are randomised, so who is on the link is only known
+        // once a packet arrives on it
+        this.links.set(connection.address, connection);
+        this.linkNegotiator.start(connection.address)
+          .catch((error) => console.error('Failed to send version hello:', error));
       });
 
       this.bleTransport.on('disconnect', (address: string) => {
         console.log('BLE peer disconnected:', address);
-        
-        // Find and remove peer
-        for (const [peerId, peer] of this.peers) {
-          if (peer.transport === 'ble' && peer.connection.address === address) {
-            this.peers.delete(peerId);
-            this.emit('peer:disconnected', peerId);
-            break;
-          }
-        }
+
+        this.links.delete(address);
+        this.peerRegistry.removeLink(address);
+        this.linkNegotiator.removeLink(address);
       });
 
       this.bleTransport.on('rawData', (data: Buffer) => {
-        this.handleIncomingData('ble', data);
+        const address = this.bleTransport?.getConnectionStatus().connection?.address;
+        this.handleIncomingData(data, address || 'ble');
       });
 
       this.bleTransport.on('error', (error: Error) => {
@@ -109,49 +507,51 @@ export class TransportManager extends EventEmitter {
   }
 
   /**
-   * Handle incoming data from any transport
+   * Initialize Nostr transport
    */
-  private async handleIncomingData(transport: 'ble' | 'nostr', data: Buffer): Promise<void> {
+  private async initializeNostr(): Promise<void> {
+    if (!this.nostrPrivateKey) {
+      return;
+    }
+
     try {
-      // Try to decode as complete packet
-      let packet: BitchatPacket;
-      
-      try {
-        packet = this.binaryProtocol.decode(data);
-      } catch (error) {
-        // Might be a fragment, handle accordingly
-        console.debug('Failed to decode packet, checking if fragment');
-        
-        // Find peer by transport
-        let peerId: string | undefined;
-        for (const [id, peer] of this.peers) {
-          if (peer.transport === transport) {
-            peerId = id;
-            break;
-          }
-        }
+      this.nostrTransport = new NostrTransport({
+        privateKey: this.nostrPrivateKey,
+        relays: this.nostrRelays
+      });
 
-        if (!peerId) {
-          console.error('Received data from unknown peer');
-          return;
-        }
+      this.nostrTransport.on('ready', () => {
+        console.log('Nostr transport ready');
+        this.emit('transport:ready', 'nostr');
+      });
+
+      this.nostrTransport.on('data', (event) => {
+        this.handleIncomingData(event.data, `${NOSTR_LINK_PREFIX}${event.senderPublicKey}`);
+      });
 
-        const peer = this.peers.get(peerId);
-        if (!peer) return;
+      this.nostrTransport.on('relayStatus', (relay) => {
+        this.emit('nostr:relayStatus', relay);
+      });
 
-        // Try to handle as fragment
-        const completeData = peer.fragmentManager.addFragment(data);
-        if (!completeData) {
-          // Still collecting fragments
-          return;
-        }
+      this.nostrTransport.on('error', (error: Error) => {
+        console.error('Nostr transport error:', error);
+        this.emit('transport:error', { transport: 'nostr', error });
+      });
 
-        // Try to decode complete packet
-        packet = this.binaryProtocol.decode(completeData);
-      }
+      await this.nostrTransport.start();
+    } catch (error) {
+      console.error('Failed to initialize Nostr transport:', error);
+      this.emit('transport:error', { transport: 'nostr', error });
+    }
+  }
 
-      // Handle packet based on type
-      await this.handlePacket(packet, transport);
+  /**
+   * Handle incoming data from any transport
+   */
+  private async handleIncomingData(data: Buffer, linkId: string): Promise<void> {
+    try {
+      const packet = BinaryProtocol.decode(data);
+      await this.handlePacket(packet, linkId);
     } catch (error) {
       console.error('Error handling incoming data:', error);
       this.emit('error', error);
@@ -161,18 +561,46 @@ export class TransportManager extends EventEmitter {
   /**
    * Handle decoded packet
    */
-  private async handlePacket(packet: BitchatPacket, transport: 'ble' | 'nostr'): Promise<void> {
+  private async handlePacket(packet: BitchatPacket, linkId: string): Promise<void> {
     const senderId = packet.senderID.toString('hex');
+    const isBlocked = this.isBlocked(senderId);
+    const isOwnPacket = this.bitchatProtocol.isOwnPeerID(packet.senderID);
+
+    // Version negotiation is between us and the node at the other end of
+    // the link, whoever it is relaying for
+    if (isNegotiationMessage(packet.type)) {
+      if (!isOwnPacket && !isBlocked) {
+        this.bitchatProtocol.verifyPacket(packet);
+        await this.linkNegotiator.handlePacket(linkId, senderId, packet.type, packet.payload);
+      }
+      return;
+    }
+
+    // Nothing else crosses a link either side refused
+    if (this.linkNegotiator.isIncompatible(linkId)) {
+      return;
+    }
+
+    // Special handling for Noise handshake messages addressed to us; those
+    // for other peers are relayed by the protocol layer like any other packet
+    if (isNoiseControlMessage(packet.type) &&
+        (!packet.recipientID || this.bitchatProtocol.isOwnPeerID(packet.recipientID))) {
+      // Blocked peers get no session with us. One using an ID we have not
+      // seen yet is refused once its handshake reveals its key.
+      if (isBlocked) {
+        return;
+      }
+
+      // Drop forged packets from peers whose signing key we know, and
+      // replayed ones
+      if (!this.bitchatProtocol.acceptPacket(packet, linkId)) {
+        return;
+      }
 
-    // Special handling for Noise handshake messages
-    if (packet.messageType === MessageType.NOISE_HANDSHAKE_INIT ||
-        packet.messageType === MessageType.NOISE_HANDSHAKE_RESP ||
-        packet.messageType === MessageType.NOISE_ENCRYPTED) {
-      
       try {
         await this.sessionManager.processHandshakeMessage(
           senderId,
-          packet.messageType,
+          packet.type,
           packet.payload
         );
       } catch (error) {
@@ -181,71 +609,272 @@ export class TransportManager extends EventEmitter {
       return;
     }
 
-    // For other message types, check if we have an encrypted session
-    const session = this.sessionManager.getSession(senderId);
-    let decryptedPayload = packet.payload;
+    // Everything else goes through the protocol layer, which verifies,
+    // decrypts and emits decoded events
+    await this.bitchatProtocol.processPacket(packet, linkId);
+  }
 
-    if (session && session.handshakeState === 'completed') {
-      try {
-        decryptedPayload = this.sessionManager.decryptMessage(senderId, packet.payload);
-      } catch (error) {
-        console.error('Decryption error:', error);
-        return;
-      }
+  /**
+   * Send encoded data on a single BLE link, through that link's connection
+   */
+  private async sendToLink(linkId: string, data: Buffer): Promise<boolean> {
+    if (this.links.has(linkId) && this.bleTransport) {
+      return this.bleTransport.sendData(data, linkId);
     }
 
-    // Emit packet for application layer
-    this.emit('packet', {
-      ...packet,
-      payload: decryptedPayload,
-      transport,
-      isEncrypted: !!session
-    });
+    return false;
+  }
+
+  /**
+   * Send a single packet on a link, whether a BLE connection or a Nostr
+   * sender's key
+   */
+  private async sendOnLink(linkId: string, packet: BitchatPacket): Promise<boolean> {
+    const connection = this.toConnection(linkId);
+    return !!connection && this.sendPackets(connection, [packet]);
   }
 
   /**
-   * Send packet to a peer
+   * BLE links that neither side has refused
+   */
+  private getCompatibleLinks(): string[] {
+    return Array.from(this.links.keys()).filter((linkId) => !this.linkNegotiator.isIncompatible(linkId));
+  }
+
+  /**
+   * The version and features agreed with the node on a link, if it
+   * answered our hello
+   */
+  getLinkProtocol(linkId: string): LinkProtocol | undefined {
+    return this.linkNegotiator.getProtocol(linkId);
+  }
+
+  /**
+   * Turn compression of messages on or off. The change is offered to the
+   * nodes on every link; compressed messages are accepted either way.
+   */
+  async setCompression(enabled: boolean): Promise<void> {
+    this.compression = enabled;
+    await this.linkNegotiator.setFeatures(this.getLocalFeatures());
+  }
+
+  private getLocalFeatures(): number {
+    return this.compression ? LOCAL_FEATURES | ProtocolFeatures.COMPRESSION : LOCAL_FEATURES;
+  }
+
+  /**
+   * Whether to compress messages for a peer. Compression is end to end,
+   * so it is only used with a peer that agreed to it itself, on the link
+   * it is reached by; peers further away in the mesh may not support it.
+   */
+  private acceptsCompression(id: string): boolean {
+    const route = this.peerRegistry.getRoute(id);
+    const protocol = route && this.linkNegotiator.getProtocol(route.linkId);
+    return this.compression &&
+      !!protocol &&
+      (protocol.features & ProtocolFeatures.COMPRESSION) !== 0 &&
+      this.peerRegistry.resolvePeerID(protocol.peerID) === this.peerRegistry.resolvePeerID(id);
+  }
+
+  /**
+   * The connection behind a link ID, if the link is still up
+   */
+  private toConnection(linkId: string): PeerConnection | undefined {
+    if (linkId.startsWith(NOSTR_LINK_PREFIX)) {
+      return { transport: 'nostr', connection: { publicKey: linkId.slice(NOSTR_LINK_PREFIX.length) } };
+    }
+
+    const connection = this.links.get(linkId);
+    return connection && { transport: 'ble', connection };
+  }
+
+  /**
+   * How to reach a peer: the link its current ID was last heard on, or
+   * failing that its Nostr key
+   */
+  private getConnection(peerID: string): PeerConnection | undefined {
+    const route = this.peerRegistry.getRoute(peerID);
+    const connection = route && !this.linkNegotiator.isIncompatible(route.linkId) ?
+      this.toConnection(route.linkId) :
+      undefined;
+    if (connection) {
+      return connection;
+    }
+
+    const nostrPublicKey = this.peerRegistry.getNostrPublicKey(peerID);
+    return nostrPublicKey ? { transport: 'nostr', connection: { publicKey: nostrPublicKey } } : undefined;
+  }
+
+  /**
+   * Restore a peer identified in an earlier run, such as a favorite, so
+   * that it is recognized when it handshakes again from a new ID and
+   * anything queued for its old ID follows it there
+   */
+  rememberPeer(peerID: string, noisePublicKey: Buffer, details: PeerDetails = {}): Peer {
+    return this.peerRegistry.identify(peerID, noisePublicKey, details);
+  }
+
+  /**
+   * Look a peer up by the fingerprint of its Noise static key or by any
+   * peer ID it has used
+   */
+  getPeer(id: string): Peer | undefined {
+    return this.peerRegistry.get(id);
+  }
+
+  /**
+   * Get mesh relay counters
+   */
+  getRelayStats(): RelayStats {
+    return this.meshRelay.getStats();
+  }
+
+  /**
+   * Encode a chat message and send it privately or to everyone
+   */
+  async sendMessage(message: BitchatMessage, recipientId?: string, options: SendOptions = {}): Promise<boolean> {
+    if (recipientId) {
+      const { payload, isCompressed } = this.acceptsCompression(recipientId) ?
+        this.bitchatProtocol.encodeCompressedMessagePayload(message) :
+        { payload: this.bitchatProtocol.encodeMessagePayload(message), isCompressed: false };
+      return this.sendPacket(recipientId, MessageType.MESSAGE, payload, 7, { ...options, isCompressed });
+    }
+
+    await this.broadcastPacket(MessageType.MESSAGE, this.bitchatProtocol.encodeMessagePayload(message));
+    return true;
+  }
+
+  /**
+   * Send our signed identity to a peer over its Noise session, so it can
+   * tie our nickname and keys to the static key we just proved
+   */
+  async announceIdentity(recipientId: string): Promise<boolean> {
+    const payload = this.bitchatProtocol.encodeIdentityAnnouncePayload(
+      this.deviceName,
+      this.sessionManager.getLocalStaticPublicKey(),
+      this.nostrTransport?.getPublicKey()
+    );
+    return this.sendPacket(recipientId, MessageType.NOISE_IDENTITY_ANNOUNCE, payload, 7, { allowNostrFallback: true });
+  }
+
+  /**
+   * Tell a peer we favorited or unfavorited it. A favorite carries our
+   * Nostr key, so the peer can reach us when we are out of range.
+   */
+  async sendFavorite(recipientId: string, isFavorite: boolean): Promise<boolean> {
+    const payload = this.bitchatProtocol.encodeFavoritePayload(
+      isFavorite ? this.nostrTransport?.getPublicKey() : undefined
+    );
+    return this.sendPacket(
+      recipientId,
+      isFavorite ? MessageType.FAVORITED : MessageType.UNFAVORITED,
+      payload,
+      7,
+      { allowNostrFallback: true }
+    );
+  }
+
+  /**
+   * Change the nickname sent in identity announcements
+   */
+  setNickname(nickname: string): void {
+    this.deviceName = nickname;
+  }
+
+  /**
+   * Acknowledge receipt of private messages from a peer
+   */
+  async sendDeliveryAck(recipientId: string, messageIds: string[]): Promise<boolean> {
+    return this.sendReceipt(recipientId, MessageType.DELIVERY_ACK, messageIds);
+  }
+
+  /**
+   * Tell a peer that we have read its private messages
+   */
+  async sendReadReceipt(recipientId: string, messageIds: string[]): Promise<boolean> {
+    return this.sendReceipt(recipientId, MessageType.READ_RECEIPT, messageIds);
+  }
+
+  /**
+   * Ask a peer to acknowledge messages we have not heard back about
+   */
+  async sendDeliveryStatusRequest(recipientId: string, messageIds: string[]): Promise<boolean> {
+    return this.sendReceipt(recipientId, MessageType.DELIVERY_STATUS_REQUEST, messageIds);
+  }
+
+  /**
+   * Send a receipt in as many packets as the message IDs need. Like any
+   * private packet it is encrypted under the peer's Noise session.
+   */
+  private async sendReceipt(recipientId: string, messageType: number, messageIds: string[]): Promise<boolean> {
+    for (let i = 0; i < messageIds.length; i += MAX_RECEIPT_IDS) {
+      const payload = this.bitchatProtocol.encodeReceiptPayload(messageIds.slice(i, i + MAX_RECEIPT_IDS));
+      if (!await this.sendPacket(recipientId, messageType, payload)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Send packet to a peer, given its peer ID or the fingerprint of its
+   * Noise static key. Anything but Noise's own messages is encrypted, so
+   * it waits for a handshake if there is no session yet, and rejects with
+   * HANDSHAKE_FAILED if the handshake fails, or PEER_BLOCKED if the user
+   * blocked the peer.
    */
   async sendPacket(
     recipientId: string,
     messageType: number,
     payload: Buffer,
-    ttl: number = 7
+    ttl: number = 7,
+    options: SendOptions = {}
   ): Promise<boolean> {
-    const peer = this.peers.get(recipientId);
-    if (!peer) {
+    // Noise messages are already protected by the session manager
+    const isNoiseMessage = isNoiseControlMessage(messageType);
+    if (!isNoiseMessage && this.isBlocked(recipientId)) {
+      throw new ProtocolError(
+        ErrorCodes.PEER_BLOCKED,
+        `Peer ${recipientId} is blocked`,
+        { peerID: recipientId }
+      );
+    }
+
+    const peerID = this.peerRegistry.resolvePeerID(recipientId);
+    if (!this.getConnection(peerID)) {
       console.error('Peer not found:', recipientId);
       return false;
     }
+    if (!isNoiseMessage) {
+      await this.waitForSession(peerID);
+    }
+
+    // The peer may have come or gone while we waited
+    const peer = this.getConnection(peerID);
+    const nostrPublicKey = options.allowNostrFallback ? this.peerRegistry.getNostrPublicKey(peerID) : undefined;
 
     try {
-      // Check if we need to encrypt
-      const session = this.sessionManager.getSession(recipientId);
-      let finalPayload = payload;
-
-      if (session && session.handshakeState === 'completed' && 
-          messageType !== MessageType.NOISE_HANDSHAKE_INIT &&
-          messageType !== MessageType.NOISE_HANDSHAKE_RESP) {
-        finalPayload = this.sessionManager.encryptMessage(recipientId, payload);
-      }
+      const finalPayload = isNoiseMessage ?
+        payload :
+        this.sessionManager.encryptMessage(peerID, payload);
 
-      // Create packet
-      const packet = this.bitchatProtocol.createPacket(
+      // Create packets, fragmenting large messages
+      const packets = this.createPackets(
         messageType,
         finalPayload,
-        Buffer.from(recipientId, 'hex'),
-        ttl
+        Buffer.from(peerID, 'hex'),
+        ttl,
+        options.isCompressed
       );
 
-      // Encode packet
-      const encodedData = this.binaryProtocol.encode(packet);
-
-      // Send based on transport
-      if (peer.transport === 'ble' && this.bleTransport) {
-        return await this.bleTransport.sendData(encodedData);
+      if (peer && await this.sendPackets(peer, packets)) {
+        return true;
       }
 
-      // TODO: Add Nostr transport sending
+      // Fall back to the relays when the direct link is gone or failing
+      if (nostrPublicKey && peer?.transport !== 'nostr') {
+        return this.sendPackets({ transport: 'nostr', connection: { publicKey: nostrPublicKey } }, packets);
+      }
 
       return false;
     } catch (error) {
@@ -256,76 +885,214 @@ export class TransportManager extends EventEmitter {
   }
 
   /**
-   * Broadcast packet to all peers
+   * Send packets over a peer's link, stopping at the first failure
+   */
+  private async sendPackets(peer: PeerConnection, packets: BitchatPacket[]): Promise<boolean> {
+    if (peer.transport === 'ble') {
+      for (const packet of packets) {
+        if (!await this.sendToLink(peer.connection.address, BinaryProtocol.encode(packet))) {
+          return false;
+        }
+      }
+      return true;
+    }
+
+    if (peer.transport === 'nostr' && this.nostrTransport) {
+      for (const packet of packets) {
+        if (!await this.nostrTransport.send(peer.connection.publicKey, BinaryProtocol.encode(packet))) {
+          return false;
+        }
+      }
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Broadcast packet to all peers in the BLE mesh. Nostr links are
+   * point-to-point, so broadcasts are not sent over them.
    */
   async broadcastPacket(
     messageType: number,
     payload: Buffer,
     ttl: number = 7
   ): Promise<void> {
-    // Create broadcast packet
-    const packet = this.bitchatProtocol.createPacket(
+    // Create broadcast packets
+    const encodedPackets = this.createPackets(
       messageType,
       payload,
       undefined, // No recipient for broadcast
       ttl
-    );
+    ).map((packet) => BinaryProtocol.encode(packet));
 
-    const encodedData = this.binaryProtocol.encode(packet);
-
-    // Send to all connected peers
-    for (const [peerId, peer] of this.peers) {
+    // Send once on each connected link
+    for (const linkId of this.getCompatibleLinks()) {
       try {
-        if (peer.transport === 'ble' && this.bleTransport) {
-          await this.bleTransport.sendData(encodedData);
+        for (const encodedData of encodedPackets) {
+          if (!await this.sendToLink(linkId, encodedData)) {
+            break;
+          }
         }
-        // TODO: Add Nostr broadcast
       } catch (error) {
-        console.error(`Error broadcasting to peer ${peerId}:`, error);
+        console.error(`Error broadcasting to link ${linkId}:`, error);
       }
     }
   }
 
+  /**
+   * Creates the packets for a payload, splitting messages larger than
+   * the BLE MTU into FRAGMENT_START/CONTINUE/END packets
+   */
+  private createPackets(
+    messageType: number,
+    payload: Buffer,
+    recipientID: Buffer | undefined,
+    ttl: number,
+    isCompressed: boolean = false
+  ): BitchatPacket[] {
+    if (messageType !== MessageType.MESSAGE || payload.length <= BLE_MTU) {
+      return [this.bitchatProtocol.createPacket(messageType, payload, recipientID, ttl, isCompressed)];
+    }
+
+    // Every fragment carries the flag, as the receiver goes by the last
+    return BinaryProtocol.fragmentMessage(
+      randomBytes(8).toString('hex'),
+      payload,
+      (type, fragmentPayload) =>
+        this.bitchatProtocol.createPacket(type, fragmentPayload, recipientID, ttl, isCompressed)
+    );
+  }
+
   /**
    * Get transport status
    */
   getStatus(): {
-    ble: any;
-    nostr: any;
+    ble: BLETransportStatus;
+    nostr: NostrTransportStatus & { peers: number };
     peers: Array<{
       id: string;
       transport: string;
       connected: boolean;
     }>;
   } {
-    const bleStatus = this.bleTransport?.getConnectionStatus() || {
+    const bleStatus: BLETransportStatus = this.bleTransport?.getConnectionStatus() || {
       isEnabled: false,
       isAdvertising: false,
       isConnected: false,
       connection: null
     };
 
-    const peers = Array.from(this.peers.entries()).map(([id, peer]) => ({
-      id,
-      transport: peer.transport,
-      connected: true
-    }));
+    const peerIDs = new Set([
+      ...this.peerRegistry.getRoutes().map((route) => route.peerID),
+      ...this.peerRegistry.getNostrPeerIDs()
+    ]);
+    const peers = Array.from(peerIDs)
+      .map((id) => ({ id, connection: this.getConnection(id) }))
+      .filter(({ connection }) => connection)
+      .map(({ id, connection }) => ({
+        id,
+        transport: connection!.transport,
+        connected: true
+      }));
+
+    const nostrStatus = this.nostrTransport?.getStatus() || {
+      isEnabled: false,
+      isConnected: false,
+      publicKey: '',
+      relays: []
+    };
 
     return {
       ble: bleStatus,
-      nostr: { isEnabled: false }, // TODO: Add Nostr status
+      nostr: {
+        ...nostrStatus,
+        peers: peers.filter((peer) => peer.transport === 'nostr').length
+      },
       peers
     };
   }
 
+  /**
+   * Make a peer reachable over Nostr by its Nostr public key. While the
+   * peer has a direct link the key is kept for sends that allow a
+   * Nostr fallback.
+   */
+  addNostrPeer(peerId: string, nostrPublicKey: string): void {
+    this.peerRegistry.setNostrPublicKey(peerId, nostrPublicKey);
+  }
+
+  /**
+   * Stop reaching a peer over Nostr
+   */
+  removeNostrPeer(peerId: string): void {
+    this.peerRegistry.setNostrPublicKey(peerId, undefined);
+  }
+
+  /**
+   * Switch to a different Nostr identity, reconnecting to the same relays
+   */
+  async setNostrPrivateKey(privateKey: Uint8Array): Promise<void> {
+    if (this.nostrTransport) {
+      this.nostrRelays = this.nostrTransport.getStatus().relays.map((relay) => relay.url);
+      this.nostrTransport.destroy();
+      this.nostrTransport = null;
+    }
+
+    this.nostrPrivateKey = privateKey;
+    await this.initializeNostr();
+  }
+
+  /**
+   * Add a Nostr relay and connect to it
+   */
+  async addNostrRelay(url: string): Promise<void> {
+    await this.nostrTransport?.addRelay(url);
+  }
+
+  /**
+   * Disconnect from a Nostr relay and forget it
+   */
+  removeNostrRelay(url: string): void {
+    this.nostrTransport?.removeRelay(url);
+  }
+
+  /**
+   * Reconnect to a configured Nostr relay
+   */
+  async connectNostrRelay(url: string): Promise<void> {
+    await this.nostrTransport?.connectRelay(url);
+  }
+
+  /**
+   * Disconnect from a Nostr relay but keep it configured
+   */
+  disconnectNostrRelay(url: string): void {
+    this.nostrTransport?.disconnectRelay(url);
+  }
+
   /**
    * Clean up resources
    */
   destroy(): void {
+    clearInterval(this.rotationTimer);
+    this.rotationTimer = undefined;
     if (this.bleTransport) {
       this.bleTransport.destroy();
     }
-    this.peers.clear();
+    if (this.nostrTransport) {
+      this.nostrTransport.destroy();
+    }
+    this.meshRelay.destroy();
+    this.linkNegotiator.clear();
+    this.linkNegotiator.removeAllListeners();
+    this.bitchatProtocol.destroy();
+    this.links.clear();
+    this.peerRegistry.clear();
+    this.peerRegistry.removeAllListeners();
+    for (const peerID of Array.from(this.sessionWaiters.keys())) {
+      this.settleSessionWaiters(peerID, new Error('Transport manager destroyed'));
+    }
     this.removeAllListeners();
   }
 }
\ No newline at end of file
@@ -11,6 +11,13 @@ export interface BLEConnection {
   connectedAt: Date;
 }
 
+export interface BLETransportStatus {
+  isEnabled: boolean;
+  isAdvertising: boolean;
+  isConnected: boolean;
+  connection: BLEConnection | null;
+}
+
 export interface BLETransportOptions {
   deviceName?: string;
   fragmentManager?: FragmentManager;
@@ -181,12 +188,16 @@ export class BLETransport extends EventEmitter {
   }
 
   /**
-   * Send data to connected peer
+   * Send data to connected peer. The peripheral serves one central at a
+   * time, so a send addressed to any other connection fails.
    */
-  async sendData(data: Buffer): Promise<boolean> {
+  async sendData(data: Buffer, address?: string): Promise<boolean> {
     if (!this.service || !this.currentConnection) {
       return false;
     }
+    if (address !== undefined && address !== this.currentConnection.address) {
+      return false;
+    }
 
     try {
       // Fragment if necessary
@@ -257,12 +268,7 @@ export class BLETransport extends EventEmitter {
   /**
    * Get current connection status
    */
-  getConnectionStatus(): {
-    isEnabled: boolean;
-    isAdvertising: boolean;
-    isConnected: boolean;
-    connection: BLEConnection | null;
-  } {
+  getConnectionStatus(): BLETransportStatus {
     return {
       isEnabled: this.isEnabled,
       isAdvertising: this.isAdvertising,
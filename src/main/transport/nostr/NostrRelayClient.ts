@@ -0,0 +1,272 @@
+import WebSocket from 'ws';
+import { EventEmitter } from 'events';
+import { randomBytes } from 'crypto';
+import { Event, Filter, verifyEvent } from 'nostr-tools';
+import { NostrRelayInfo } from '../../../shared/ipc-types';
+
+export type NostrRelayStatus = NostrRelayInfo['status'];
+
+export interface NostrRelayClientOptions {
+  publishTimeout?: number; // ms to wait for the relay's OK
+  connectTimeout?: number; // ms
+  reconnectAttempts?: number;
+  reconnectDelay?: number; // ms, doubled after each failed attempt
+}
+
+export interface NostrSubscription {
+  close(): void;
+}
+
+export type NostrRelayClientEvents = {
+  status: [NostrRelayStatus];
+  notice: [string];
+};
+
+interface SubscriptionEntry {
+  filters: Filter[];
+  onEvent: (event: Event) => void;
+}
+
+interface PendingPublish {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * NostrRelayClient speaks NIP-01 to a single relay over a WebSocket.
+ * Subscriptions survive reconnects: they are re-sent whenever the
+ * connection is re-established. Events delivered by the relay are
+ * signature-checked before they reach subscribers.
+ */
+export class NostrRelayClient extends EventEmitter<NostrRelayClientEvents> {
+  readonly url: string;
+  private ws: WebSocket | null = null;
+  private status: NostrRelayStatus = 'disconnected';
+  private lastError?: string;
+  private subscriptions: Map<string, SubscriptionEntry> = new Map();
+  private pendingPublishes: Map<string, PendingPublish> = new Map();
+  private publishTimeout: number;
+  private connectTimeout: number;
+  private reconnectAttempts: number;
+  private reconnectDelay: number;
+  private failedAttempts: number = 0;
+  private reconnectTimer?: NodeJS.Timeout;
+  private closedByUser: boolean = false;
+
+  constructor(url: string, options: NostrRelayClientOptions = {}) {
+    super();
+    this.url = url;
+    this.publishTimeout = options.publishTimeout ?? 10000;
+    this.connectTimeout = options.connectTimeout ?? 10000;
+    this.reconnectAttempts = options.reconnectAttempts ?? 3;
+    this.reconnectDelay = options.reconnectDelay ?? 1000;
+  }
+
+  /**
+   * Opens the connection and resolves once the socket is open
+   */
+  connect(): Promise<void> {
+    if (this.ws && this.status === 'connected') {
+      return Promise.resolve();
+    }
+
+    this.closedByUser = false;
+    this.setStatus('connecting');
+
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(this.url, { handshakeTimeout: this.connectTimeout });
+      this.ws = ws;
+
+      ws.on('open', () => {
+        this.failedAttempts = 0;
+        this.lastError = undefined;
+        this.setStatus('connected');
+
+        for (const [id, subscription] of this.subscriptions) {
+          this.send(['REQ', id, ...subscription.filters]);
+        }
+        resolve();
+      });
+
+      ws.on('message', (data) => {
+        this.handleMessage(data.toString());
+      });
+
+      ws.on('error', (error) => {
+        this.lastError = error.message;
+        if (this.status === 'connecting') {
+          this.setStatus('error');
+          reject(error);
+        }
+      });
+
+      ws.on('close', () => {
+        if (this.ws !== ws) {
+          return;
+        }
+
+        this.ws = null;
+        this.rejectPendingPublishes(new Error(`Connection to ${this.url} closed`));
+
+        if (this.status !== 'error') {
+          this.setStatus('disconnected');
+        }
+        if (!this.closedByUser) {
+          this.scheduleReconnect();
+        }
+      });
+    });
+  }
+
+  /**
+   * Publishes an event and resolves once the relay accepts it
+   */
+  publish(event: Event): Promise<void> {
+    if (!this.ws || this.status !== 'connected') {
+      return Promise.reject(new Error(`Not connected to ${this.url}`));
+    }
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingPublishes.delete(event.id);
+        reject(new Error(`Publish to ${this.url} timed out`));
+      }, this.publishTimeout);
+
+      this.pendingPublishes.set(event.id, { resolve, reject, timer });
+      this.send(['EVENT', event]);
+    });
+  }
+
+  /**
+   * Subscribes to events matching the filters
+   */
+  subscribe(filters: Filter[], onEvent: (event: Event) => void): NostrSubscription {
+    const id = randomBytes(8).toString('hex');
+    this.subscriptions.set(id, { filters, onEvent });
+
+    if (this.status === 'connected') {
+      this.send(['REQ', id, ...filters]);
+    }
+
+    return {
+      close: () => {
+        if (this.subscriptions.delete(id) && this.status === 'connected') {
+          this.send(['CLOSE', id]);
+        }
+      }
+    };
+  }
+
+  /**
+   * Gets the relay state as reported over IPC
+   */
+  getInfo(): NostrRelayInfo {
+    return {
+      url: this.url,
+      status: this.status,
+      error: this.lastError,
+      activeSubscriptions: this.subscriptions.size
+    };
+  }
+
+  /**
+   * Closes the connection without reconnecting. Subscriptions are kept
+   * and re-sent if connect is called again.
+   */
+  close(): void {
+    this.closedByUser = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+
+    const ws = this.ws;
+    this.ws = null;
+    this.rejectPendingPublishes(new Error(`Connection to ${this.url} closed`));
+    this.setStatus('disconnected');
+    ws?.close();
+  }
+
+  private handleMessage(raw: string): void {
+    let message: unknown;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return;
+    }
+
+    if (!Array.isArray(message)) {
+      return;
+    }
+
+    switch (message[0]) {
+      case 'EVENT': {
+        const subscription = this.subscriptions.get(message[1]);
+        const event = message[2] as Event;
+        if (subscription && event && verifyEvent(event)) {
+          subscription.onEvent(event);
+        }
+        break;
+      }
+
+      case 'OK': {
+        const pending = this.pendingPublishes.get(message[1]);
+        if (pending) {
+          clearTimeout(pending.timer);
+          this.pendingPublishes.delete(message[1]);
+          if (message[2]) {
+            pending.resolve();
+          } else {
+            pending.reject(new Error(`Relay ${this.url} rejected event: ${message[3] || 'unknown reason'}`));
+          }
+        }
+        break;
+      }
+
+      case 'NOTICE':
+        this.emit('notice', String(message[1]));
+        break;
+
+      case 'CLOSED':
+        this.subscriptions.delete(message[1]);
+        break;
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.failedAttempts >= this.reconnectAttempts) {
+      return;
+    }
+
+    const delay = this.reconnectDelay * Math.pow(2, this.failedAttempts);
+    this.failedAttempts++;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.connect().catch(() => {
+        // The close handler schedules the next attempt
+      });
+    }, delay);
+    this.reconnectTimer.unref?.();
+  }
+
+  private rejectPendingPublishes(error: Error): void {
+    for (const pending of this.pendingPublishes.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    }
+    this.pendingPublishes.clear();
+  }
+
+  private send(message: unknown[]): void {
+    this.ws?.send(JSON.stringify(message));
+  }
+
+  private setStatus(status: NostrRelayStatus): void {
+    if (this.status !== status) {
+      this.status = status;
+      this.emit('status', status);
+    }
+  }
+}
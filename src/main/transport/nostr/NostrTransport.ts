@@ -0,0 +1,237 @@
+import { EventEmitter } from 'events';
+import { Event, getPublicKey, kinds, nip17 } from 'nostr-tools';
+import { NostrRelayClient, NostrRelayClientOptions, NostrSubscription } from './NostrRelayClient';
+import { NostrRelayInfo } from '../../../shared/ipc-types';
+import { NOSTR_CONTENT_PREFIX, NOSTR_RELAYS } from '../../../shared/constants';
+
+export interface NostrTransportOptions {
+  privateKey: Uint8Array;
+  relays?: string[];
+  relayOptions?: NostrRelayClientOptions;
+}
+
+export interface NostrDataEvent {
+  data: Buffer;
+  senderPublicKey: string;
+  relayUrl: string;
+}
+
+export interface NostrTransportStatus {
+  isEnabled: boolean;
+  isConnected: boolean;
+  publicKey: string;
+  relays: NostrRelayInfo[];
+}
+
+export type NostrTransportEvents = {
+  ready: [];
+  data: [NostrDataEvent];
+  relayStatus: [NostrRelayInfo];
+  error: [Error];
+};
+
+interface RelayEntry {
+  client: NostrRelayClient;
+  inbox: NostrSubscription;
+}
+
+// NIP-59 gift wraps are backdated by up to two days
+const GIFT_WRAP_LOOKBACK = 2 * 24 * 60 * 60; // seconds
+const MAX_SEEN_EVENTS = 5000;
+
+/**
+ * NostrTransport carries BitChat packets between peers that are not in
+ * Bluetooth range. Each packet is sent to the recipient's Nostr public
+ * key as a NIP-17 private direct message, sealed and gift-wrapped so that
+ * relays learn neither the sender nor the content. We subscribe on every
+ * configured relay for gift wraps addressed to our own key.
+ */
+export class NostrTransport extends EventEmitter<NostrTransportEvents> {
+  private readonly privateKey: Uint8Array;
+  private readonly publicKey: string;
+  private readonly relayOptions: NostrRelayClientOptions;
+  private relays: Map<string, RelayEntry> = new Map();
+  private seenEvents: Set<string> = new Set();
+  private initialRelays: string[];
+
+  constructor(options: NostrTransportOptions) {
+    super();
+    this.privateKey = options.privateKey;
+    this.publicKey = getPublicKey(options.privateKey);
+    this.relayOptions = options.relayOptions || {};
+    this.initialRelays = options.relays || NOSTR_RELAYS;
+  }
+
+  /**
+   * Connects to the configured relays. Resolves once every relay has
+   * either connected or failed; emits ready if at least one connected.
+   */
+  async start(): Promise<void> {
+    const results = await Promise.allSettled(
+      this.initialRelays.map((url) => this.addRelay(url))
+    );
+
+    if (results.some((result) => result.status === 'fulfilled')) {
+      this.emit('ready');
+    } else if (results.length > 0) {
+      this.emit('error', new Error('Failed to connect to any Nostr relay'));
+    }
+  }
+
+  /**
+   * Gets our Nostr public key as hex
+   */
+  getPublicKey(): string {
+    return this.publicKey;
+  }
+
+  /**
+   * Sends data to a peer's Nostr public key as a gift-wrapped DM.
+   * Returns true if at least one relay accepted it.
+   */
+  async send(recipientPublicKey: string, data: Buffer): Promise<boolean> {
+    const connected = Array.from(this.relays.values())
+      .filter((entry) => entry.client.getInfo().status === 'connected');
+
+    if (connected.length === 0) {
+      return false;
+    }
+
+    const wrap = nip17.wrapEvent(
+      this.privateKey,
+      { publicKey: recipientPublicKey },
+      NOSTR_CONTENT_PREFIX + data.toString('base64url')
+    );
+
+    const results = await Promise.allSettled(
+      connected.map((entry) => entry.client.publish(wrap))
+    );
+
+    return results.some((result) => result.status === 'fulfilled');
+  }
+
+  /**
+   * Adds a relay, connects to it and subscribes to our inbox
+   */
+  async addRelay(url: string): Promise<void> {
+    if (this.relays.has(url)) {
+      return this.connectRelay(url);
+    }
+
+    const client = new NostrRelayClient(url, this.relayOptions);
+    client.on('status', () => {
+      this.emit('relayStatus', client.getInfo());
+    });
+
+    const inbox = client.subscribe(
+      [{
+        kinds: [kinds.GiftWrap],
+        '#p': [this.publicKey],
+        since: Math.floor(Date.now() / 1000) - GIFT_WRAP_LOOKBACK
+      }],
+      (event) => this.handleGiftWrap(event, url)
+    );
+
+    this.relays.set(url, { client, inbox });
+    await client.connect();
+  }
+
+  /**
+   * Disconnects from a relay and forgets it
+   */
+  removeRelay(url: string): void {
+    const entry = this.relays.get(url);
+    if (!entry) {
+      return;
+    }
+
+    entry.inbox.close();
+    entry.client.close();
+    entry.client.removeAllListeners();
+    this.relays.delete(url);
+  }
+
+  /**
+   * Reconnects to a known relay
+   */
+  async connectRelay(url: string): Promise<void> {
+    const entry = this.relays.get(url);
+    if (!entry) {
+      throw new Error(`Unknown relay: ${url}`);
+    }
+    await entry.client.connect();
+  }
+
+  /**
+   * Disconnects from a relay but keeps it configured
+   */
+  disconnectRelay(url: string): void {
+    this.relays.get(url)?.client.close();
+  }
+
+  /**
+   * Get transport status
+   */
+  getStatus(): NostrTransportStatus {
+    const relays = Array.from(this.relays.values()).map((entry) => entry.client.getInfo());
+
+    return {
+      isEnabled: true,
+      isConnected: relays.some((relay) => relay.status === 'connected'),
+      publicKey: this.publicKey,
+      relays
+    };
+  }
+
+  /**
+   * Disconnects from all relays
+   */
+  destroy(): void {
+    for (const url of Array.from(this.relays.keys())) {
+      this.removeRelay(url);
+    }
+    this.seenEvents.clear();
+    this.removeAllListeners();
+  }
+
+  /**
+   * Unwraps a gift wrap addressed to us and emits the BitChat payload
+   */
+  private handleGiftWrap(event: Event, relayUrl: string): void {
+    // The same wrap usually arrives from several relays
+    if (this.seenEvents.has(event.id)) {
+      return;
+    }
+    this.rememberEvent(event.id);
+
+    let rumor: ReturnType<typeof nip17.unwrapEvent>;
+    try {
+      rumor = nip17.unwrapEvent(event, this.privateKey);
+    } catch {
+      return; // Corrupt, or not encrypted to our key
+    }
+
+    if (rumor.kind !== kinds.PrivateDirectMessage ||
+        !rumor.content.startsWith(NOSTR_CONTENT_PREFIX)) {
+      return;
+    }
+
+    this.emit('data', {
+      data: Buffer.from(rumor.content.slice(NOSTR_CONTENT_PREFIX.length), 'base64url'),
+      senderPublicKey: rumor.pubkey,
+      relayUrl
+    });
+  }
+
+  private rememberEvent(id: string): void {
+    this.seenEvents.add(id);
+
+    // Sets iterate in insertion order, so the first entry is the oldest
+    if (this.seenEvents.size > MAX_SEEN_EVENTS) {
+      const oldest = this.seenEvents.values().next().value;
+      if (oldest !== undefined) {
+        this.seenEvents.delete(oldest);
+      }
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import { createHash } from 'crypto';
+
+/**
+ * What a peer's verification code carries: the keys it proves it holds
+ * when it handshakes with us
+ */
+export interface VerificationCode {
+  noisePublicKey: Buffer;
+  signingPublicKey: Buffer;
+}
+
+const VERIFICATION_CODE_PREFIX = 'bitchat-verify:1:';
+const KEY_LENGTH = 32;
+
+const SAFETY_NUMBER_VERSION = Buffer.from([0x00, 0x01]);
+const SAFETY_NUMBER_ITERATIONS = 5200;
+const SAFETY_NUMBER_CHUNKS = 6; // five-digit groups per key
+
+/**
+ * Encodes our keys as the text shown in our verification QR code, which
+ * the other side scans or pastes
+ */
+export function createVerificationCode(noisePublicKey: Buffer, signingPublicKey: Buffer): string {
+  return `${VERIFICATION_CODE_PREFIX}${noisePublicKey.toString('hex')}:${signingPublicKey.toString('hex')}`;
+}
+
+/**
+ * Parses a scanned or pasted verification code. Throws if it is not one.
+ */
+export function parseVerificationCode(code: string): VerificationCode {
+  const text = code.trim();
+  if (!text.startsWith(VERIFICATION_CODE_PREFIX)) {
+    throw new Error('Not a BitChat verification code');
+  }
+
+  const [noiseHex, signingHex, ...rest] = text.slice(VERIFICATION_CODE_PREFIX.length).split(':');
+  const isKey = (hex: string | undefined) => !!hex && new RegExp(`^[0-9a-fA-F]{${KEY_LENGTH * 2}}$`).test(hex);
+  if (rest.length > 0 || !isKey(noiseHex) || !isKey(signingHex)) {
+    throw new Error('Invalid verification code: malformed keys');
+  }
+
+  return {
+    noisePublicKey: Buffer.from(noiseHex, 'hex'),
+    signingPublicKey: Buffer.from(signingHex, 'hex')
+  };
+}
+
+/**
+ * Derives the safety number two peers compare to verify each other: 60
+ * digits in groups of five, from both Noise static keys. Each key is
+ * stretched to 30 digits and the halves are ordered, so both sides see
+ * the same number, and it changes if either key does.
+ */
+export function generateSafetyNumber(localStaticKey: Buffer, remoteStaticKey: Buffer): string {
+  const halves = [keyDigits(localStaticKey), keyDigits(remoteStaticKey)].sort();
+  return (halves.join('').match(/\d{5}/g) as string[]).join(' ');
+}
+
+// Iterated hashing makes finding a key with a chosen safety number costly
+function keyDigits(publicKey: Buffer): string {
+  let digest = createHash('sha512').update(SAFETY_NUMBER_VERSION).update(publicKey).digest();
+  for (let i = 0; i < SAFETY_NUMBER_ITERATIONS; i++) {
+    digest = createHash('sha512').update(digest).update(publicKey).digest();
+  }
+
+  let digits = '';
+  for (let i = 0; i < SAFETY_NUMBER_CHUNKS; i++) {
+    const chunk = digest.readUIntBE(i * 5, 5);
+    digits += (chunk % 100000).toString().padStart(5, '0');
+  }
+  return digits;
+}
@@ -0,0 +1,403 @@
+/**
+ * A small QR code encoder for the codes peers scan to verify each other.
+ * It only supports what those need: byte mode at error correction level M
+ * in versions 1 to 10, which hold up to 213 bytes. See ISO/IEC 18004.
+ */
+
+// Dark modules are true; indexed [row][column]
+export type QRMatrix = boolean[][];
+
+interface VersionLayout {
+  eccPerBlock: number;
+  blocks: number[]; // data codewords in each block
+  alignment: number[]; // row and column centres of the alignment patterns
+}
+
+// Level M block structure for versions 1 to 10
+const VERSIONS: VersionLayout[] = [
+  { eccPerBlock: 10, blocks: [16], alignment: [] },
+  { eccPerBlock: 16, blocks: [28], alignment: [6, 18] },
+  { eccPerBlock: 26, blocks: [44], alignment: [6, 22] },
+  { eccPerBlock: 18, blocks: [32, 32], alignment: [6, 26] },
+  { eccPerBlock: 24, blocks: [43, 43], alignment: [6, 30] },
+  { eccPerBlock: 16, blocks: [27, 27, 27, 27], alignment: [6, 34] },
+  { eccPerBlock: 18, blocks: [31, 31, 31, 31], alignment: [6, 22, 38] },
+  { eccPerBlock: 22, blocks: [38, 38, 39, 39], alignment: [6, 24, 42] },
+  { eccPerBlock: 22, blocks: [36, 36, 36, 37, 37], alignment: [6, 26, 46] },
+  { eccPerBlock: 26, blocks: [43, 43, 43, 43, 44], alignment: [6, 28, 50] }
+];
+
+const MODE_BYTE = 0b0100;
+const ECC_LEVEL_M = 0b00;
+const PAD_BYTES = [0xec, 0x11];
+
+const MASKS: Array<(row: number, column: number) => boolean> = [
+  (row, column) => (row + column) % 2 === 0,
+  (row) => row % 2 === 0,
+  (_row, column) => column % 3 === 0,
+  (row, column) => (row + column) % 3 === 0,
+  (row, column) => (Math.floor(row / 2) + Math.floor(column / 3)) % 2 === 0,
+  (row, column) => (row * column) % 2 + (row * column) % 3 === 0,
+  (row, column) => ((row * column) % 2 + (row * column) % 3) % 2 === 0,
+  (row, column) => ((row + column) % 2 + (row * column) % 3) % 2 === 0
+];
+
+// GF(256) with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1
+const GF_EXP = new Uint8Array(512);
+const GF_LOG = new Uint8Array(256);
+for (let i = 0, x = 1; i < 255; i++) {
+  GF_EXP[i] = x;
+  GF_LOG[x] = i;
+  x <<= 1;
+  if (x & 0x100) {
+    x ^= 0x11d;
+  }
+}
+for (let i = 255; i < 512; i++) {
+  GF_EXP[i] = GF_EXP[i - 255];
+}
+
+const gfMultiply = (a: number, b: number): number =>
+  a === 0 || b === 0 ? 0 : GF_EXP[GF_LOG[a] + GF_LOG[b]];
+
+/**
+ * Computes the Reed-Solomon error correction codewords for a block
+ */
+export function reedSolomonRemainder(data: number[], degree: number): number[] {
+  // Generator (x - a^0)(x - a^1)...(x - a^(degree-1)), highest power first
+  let generator = [1];
+  for (let i = 0; i < degree; i++) {
+    const next = new Array(generator.length + 1).fill(0);
+    for (let j = 0; j < generator.length; j++) {
+      next[j] ^= generator[j];
+      next[j + 1] ^= gfMultiply(generator[j], GF_EXP[i]);
+    }
+    generator = next;
+  }
+
+  const remainder: number[] = new Array(degree).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ remainder.shift()!;
+    remainder.push(0);
+    for (let i = 0; i < degree; i++) {
+      remainder[i] ^= gfMultiply(generator[i + 1], factor);
+    }
+  }
+  return remainder;
+}
+
+/**
+ * Encodes text as a QR code. The mask is chosen by the standard penalty
+ * score unless one is given. Throws if the text does not fit.
+ */
+export function encodeQRCode(text: string, mask?: number): QRMatrix {
+  const data = Buffer.from(text, 'utf8');
+  const version = VERSIONS.findIndex((layout, index) =>
+    4 + countBits(index + 1) + data.length * 8 <= sum(layout.blocks) * 8) + 1;
+  if (version === 0) {
+    throw new Error(`Too much data for a QR code: ${data.length} bytes`);
+  }
+  if (mask !== undefined && (!Number.isInteger(mask) || mask < 0 || mask >= MASKS.length)) {
+    throw new Error(`Invalid QR mask: ${mask}`);
+  }
+
+  const codewords = addErrorCorrection(encodeData(data, version), VERSIONS[version - 1]);
+  const symbol = new QRSymbol(version);
+  symbol.drawCodewords(codewords);
+
+  if (mask !== undefined) {
+    return symbol.finish(mask);
+  }
+
+  let best: { matrix: QRMatrix; penalty: number } | undefined;
+  for (let candidate = 0; candidate < MASKS.length; candidate++) {
+    const matrix = symbol.finish(candidate);
+    const penalty = penaltyScore(matrix);
+    if (!best || penalty < best.penalty) {
+      best = { matrix, penalty };
+    }
+  }
+  return best!.matrix;
+}
+
+const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+
+const countBits = (version: number): number => version < 10 ? 8 : 16;
+
+// Mode, length and data, then terminator and padding to fill the version
+function encodeData(data: Buffer, version: number): number[] {
+  const capacity = sum(VERSIONS[version - 1].blocks) * 8;
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits.push((value >>> i) & 1);
+    }
+  };
+
+  append(MODE_BYTE, 4);
+  append(data.length, countBits(version));
+  for (const byte of data) {
+    append(byte, 8);
+  }
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - bits.length % 8) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let i = 0; codewords.length < capacity / 8; i++) {
+    codewords.push(PAD_BYTES[i % 2]);
+  }
+  return codewords;
+}
+
+// Splits the data into blocks and interleaves them with their ECC
+function addErrorCorrection(data: number[], layout: VersionLayout): number[] {
+  const blocks: number[][] = [];
+  const ecc: number[][] = [];
+  let offset = 0;
+  for (const length of layout.blocks) {
+    const block = data.slice(offset, offset + length);
+    blocks.push(block);
+    ecc.push(reedSolomonRemainder(block, layout.eccPerBlock));
+    offset += length;
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < Math.max(...layout.blocks); i++) {
+    for (const block of blocks) {
+      if (i < block.length) {
+        result.push(block[i]);
+      }
+    }
+  }
+  for (let i = 0; i < layout.eccPerBlock; i++) {
+    for (const block of ecc) {
+      result.push(block[i]);
+    }
+  }
+  return result;
+}
+
+/**
+ * The module grid of a QR symbol while it is being drawn. Function
+ * patterns are fixed; data modules are masked when the symbol is finished.
+ */
+class QRSymbol {
+  private readonly version: number;
+  private readonly size: number;
+  private readonly modules: boolean[][];
+  private readonly isFunction: boolean[][];
+
+  constructor(version: number) {
+    this.version = version;
+    this.size = 17 + version * 4;
+    this.modules = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+
+    this.drawFunctionPatterns();
+  }
+
+  /**
+   * Places the codewords in the zigzag order, two columns at a time from
+   * the bottom right, skipping the vertical timing pattern
+   */
+  drawCodewords(codewords: number[]): void {
+    let bit = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) {
+        right = 5;
+      }
+      const upward = ((right + 1) & 2) === 0;
+      for (let step = 0; step < this.size; step++) {
+        const row = upward ? this.size - 1 - step : step;
+        for (let column = right; column > right - 2; column--) {
+          if (this.isFunction[row][column]) {
+            continue;
+          }
+          // Remainder bits past the last codeword stay light
+          const byte = codewords[bit >>> 3];
+          this.modules[row][column] = byte !== undefined && ((byte >>> (7 - (bit & 7))) & 1) === 1;
+          bit++;
+        }
+      }
+    }
+  }
+
+  /**
+   * Returns the symbol with a mask applied and its format information
+   */
+  finish(mask: number): QRMatrix {
+    const matrix = this.modules.map((row) => row.slice());
+    for (let row = 0; row < this.size; row++) {
+      for (let column = 0; column < this.size; column++) {
+        if (!this.isFunction[row][column] && MASKS[mask](row, column)) {
+          matrix[row][column] = !matrix[row][column];
+        }
+      }
+    }
+
+    this.drawFormatBits(matrix, mask);
+    return matrix;
+  }
+
+  private drawFunctionPatterns(): void {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinder(0, 0);
+    this.drawFinder(0, this.size - 7);
+    this.drawFinder(this.size - 7, 0);
+
+    const { alignment } = VERSIONS[this.version - 1];
+    const last = alignment.length - 1;
+    for (let i = 0; i < alignment.length; i++) {
+      for (let j = 0; j < alignment.length; j++) {
+        // The corners overlap the finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+          continue;
+        }
+        this.drawAlignment(alignment[i], alignment[j]);
+      }
+    }
+
+    // Reserve the format areas; they are filled in per mask
+    this.drawFormatBits(this.modules, 0);
+    this.drawVersionBits();
+  }
+
+  // A 7x7 finder with its light separator, top left corner at row, column
+  private drawFinder(top: number, left: number): void {
+    for (let row = top - 1; row <= top + 7; row++) {
+      for (let column = left - 1; column <= left + 7; column++) {
+        if (row < 0 || row >= this.size || column < 0 || column >= this.size) {
+          continue;
+        }
+        const distance = Math.max(Math.abs(row - top - 3), Math.abs(column - left - 3));
+        this.setFunction(row, column, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+
+  private drawAlignment(centerRow: number, centerColumn: number): void {
+    for (let row = -2; row <= 2; row++) {
+      for (let column = -2; column <= 2; column++) {
+        this.setFunction(centerRow + row, centerColumn + column, Math.max(Math.abs(row), Math.abs(column)) !== 1);
+      }
+    }
+  }
+
+  // Error correction level and mask, with a BCH code, in both copies
+  private drawFormatBits(matrix: boolean[][], mask: number): void {
+    const data = (ECC_LEVEL_M << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    const bitAt = (i: number) => ((bits >>> i) & 1) === 1;
+    const set = (row: number, column: number, dark: boolean) => {
+      matrix[row][column] = dark;
+      this.isFunction[row][column] = true;
+    };
+
+    for (let i = 0; i <= 5; i++) {
+      set(i, 8, bitAt(i));
+    }
+    set(7, 8, bitAt(6));
+    set(8, 8, bitAt(7));
+    set(8, 7, bitAt(8));
+    for (let i = 9; i < 15; i++) {
+      set(8, 14 - i, bitAt(i));
+    }
+
+    for (let i = 0; i < 8; i++) {
+      set(8, this.size - 1 - i, bitAt(i));
+    }
+    for (let i = 8; i < 15; i++) {
+      set(this.size - 15 + i, 8, bitAt(i));
+    }
+    set(this.size - 8, 8, true); // Always dark
+  }
+
+  // Versions 7 and up carry their version number, with a BCH code
+  private drawVersionBits(): void {
+    if (this.version < 7) {
+      return;
+    }
+
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const bits = (this.version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) === 1;
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(b, a, dark);
+      this.setFunction(a, b, dark);
+    }
+  }
+
+  private setFunction(row: number, column: number, dark: boolean): void {
+    this.modules[row][column] = dark;
+    this.isFunction[row][column] = true;
+  }
+}
+
+// 1:1:3:1:1 finder lookalikes with four light modules on one side
+const FINDER_LIKE = [
+  [true, false, true, true, true, false, true, false, false, false, false],
+  [false, false, false, false, true, false, true, true, true, false, true]
+];
+
+/**
+ * The penalty score from the standard: runs of five or more modules of one
+ * colour, 2x2 blocks, finder lookalikes and the balance of dark and light
+ */
+function penaltyScore(matrix: QRMatrix): number {
+  const size = matrix.length;
+  const lines: boolean[][] = [
+    ...matrix,
+    ...matrix.map((_, column) => matrix.map((row) => row[column]))
+  ];
+  let penalty = 0;
+
+  for (const line of lines) {
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        run++;
+        continue;
+      }
+      if (run >= 5) {
+        penalty += run - 2;
+      }
+      run = 1;
+    }
+
+    for (let i = 0; i + 11 <= size; i++) {
+      if (FINDER_LIKE.some((pattern) => pattern.every((dark, j) => line[i + j] === dark))) {
+        penalty += 40;
+      }
+    }
+  }
+
+  for (let row = 0; row < size - 1; row++) {
+    for (let column = 0; column < size - 1; column++) {
+      const dark = matrix[row][column];
+      if (matrix[row][column + 1] === dark && matrix[row + 1][column] === dark && matrix[row + 1][column + 1] === dark) {
+        penalty += 3;
+      }
+    }
+  }
+
+  const dark = sum(matrix.map((row) => row.filter(Boolean).length));
+  penalty += Math.floor(Math.abs(dark * 100 / (size * size) - 50) / 5) * 10;
+
+  return penalty;
+}
@@ -6,6 +6,13 @@ import {
   Contact,
   MessageDeliveryUpdate,
   MessageReadUpdate,
+  MessageFragmentProgress,
+  MessageHistoryRequest,
+  ClearMessagesRequest,
+  OutboxItem,
+  PeerFavoriteChangedEvent,
+  PeerVerifyRequest,
+  PeerKeyChangedEvent,
   NoiseSessionEvent,
   NoiseHandshakeFailedEvent,
   ConnectionStatus,
@@ -30,6 +37,9 @@ const api: BitChatAPI = {
   // App
   getVersion: () => ipcRenderer.invoke(IPC_CHANNELS.APP_GET_VERSION),
   getUserId: () => ipcRenderer.invoke(IPC_CHANNELS.APP_GET_USER_ID),
+
+  // Identity
+  getFingerprint: () => ipcRenderer.invoke(IPC_CHANNELS.IDENTITY_GET_FINGERPRINT),
   
   // Messages
   sendMessage: (content: string, recipientId?: string) => 
@@ -44,6 +54,26 @@ const api: BitChatAPI = {
   onMessageRead: (callback: (update: MessageReadUpdate) => void) =>
     createSafeListener(IPC_CHANNELS.MESSAGE_READ, callback),
   
+  onMessageFragmentProgress: (callback: (progress: MessageFragmentProgress) => void) =>
+    createSafeListener(IPC_CHANNELS.MESSAGE_FRAGMENT_PROGRESS, callback),
+
+  getMessageHistory: (request: MessageHistoryRequest) =>
+    ipcRenderer.invoke(IPC_CHANNELS.MESSAGE_HISTORY_GET, request),
+
+  getUnreadCounts: () => ipcRenderer.invoke(IPC_CHANNELS.MESSAGE_UNREAD_GET),
+
+  markConversationRead: (conversationId?: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.MESSAGE_MARK_READ, conversationId),
+
+  // Outbox
+  getOutbox: () => ipcRenderer.invoke(IPC_CHANNELS.OUTBOX_LIST),
+
+  cancelQueuedMessage: (messageId: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.OUTBOX_CANCEL, messageId),
+
+  onOutboxUpdated: (callback: (items: OutboxItem[]) => void) =>
+    createSafeListener(IPC_CHANNELS.OUTBOX_UPDATED, callback),
+
   // Peers
   getPeers: () => ipcRenderer.invoke(IPC_CHANNELS.PEERS_LIST),
   
@@ -66,6 +96,22 @@ const api: BitChatAPI = {
     createSafeListener(IPC_CHANNELS.PEER_DISCONNECTED, (event: any) => 
       callback(typeof event === 'string' ? event : event.peerId)
     ),
+
+  onPeerFavoriteChanged: (callback: (event: PeerFavoriteChangedEvent) => void) =>
+    createSafeListener(IPC_CHANNELS.PEER_FAVORITE_CHANGED, callback),
+
+  // Verification
+  getPeerVerification: (peerId: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.PEER_VERIFICATION_GET, peerId),
+
+  verifyPeer: (request: PeerVerifyRequest) =>
+    ipcRenderer.invoke(IPC_CHANNELS.PEER_VERIFY, request),
+
+  unverifyPeer: (peerId: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.PEER_UNVERIFY, peerId),
+
+  onPeerKeyChanged: (callback: (event: PeerKeyChangedEvent) => void) =>
+    createSafeListener(IPC_CHANNELS.PEER_KEY_CHANGED, callback),
   
   // Noise Sessions
   onSessionEstablished: (callback: (event: NoiseSessionEvent) => void) =>
@@ -83,7 +129,8 @@ const api: BitChatAPI = {
   
   getWhoList: () => ipcRenderer.invoke(IPC_CHANNELS.COMMAND_WHO),
   
-  clearMessages: () => ipcRenderer.invoke(IPC_CHANNELS.COMMAND_CLEAR),
+  clearMessages: (request?: ClearMessagesRequest) =>
+    ipcRenderer.invoke(IPC_CHANNELS.COMMAND_CLEAR, request),
   
   // Connection
   getConnectionStatus: () => ipcRenderer.invoke(IPC_CHANNELS.CONNECTION_STATUS),
@@ -99,6 +146,29 @@ const api: BitChatAPI = {
   setSettings: (settings) => 
     ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_SET, settings),
   
+  // Transport Preferences
+  getTransportPreferences: () => ipcRenderer.invoke(IPC_CHANNELS.TRANSPORT_PREFERENCES_GET),
+
+  setTransportPreferences: (preferences) =>
+    ipcRenderer.invoke(IPC_CHANNELS.TRANSPORT_PREFERENCES_SET, preferences),
+
+  resetTransportPreferences: () => ipcRenderer.invoke(IPC_CHANNELS.TRANSPORT_PREFERENCES_RESET),
+
+  // Nostr Relay Management
+  addNostrRelay: (url: string) => ipcRenderer.invoke(IPC_CHANNELS.NOSTR_RELAY_ADD, url),
+
+  removeNostrRelay: (url: string) => ipcRenderer.invoke(IPC_CHANNELS.NOSTR_RELAY_REMOVE, url),
+
+  connectNostrRelay: (url: string) => ipcRenderer.invoke(IPC_CHANNELS.NOSTR_RELAY_CONNECT, url),
+
+  disconnectNostrRelay: (url: string) => ipcRenderer.invoke(IPC_CHANNELS.NOSTR_RELAY_DISCONNECT, url),
+
+  // Nostr Identity
+  getNostrIdentity: () => ipcRenderer.invoke(IPC_CHANNELS.NOSTR_IDENTITY_GET),
+
+  importNostrKey: (nsec: string) =>
+    ipcRenderer.invoke(IPC_CHANNELS.NOSTR_IDENTITY_IMPORT, nsec),
+
   // Errors
   onError: (callback: (error: AppError) => void) =>
     createSafeListener(IPC_CHANNELS.ERROR_OCCURRED, callback),
@@ -1,54 +1,155 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import ContactList, { Contact } from './ContactList';
 import MessageThread, { Message } from './MessageThread';
 import MessageInput from './MessageInput';
 import ConnectionStatus from './ConnectionStatus';
+import VerificationPanel from './VerificationPanel';
+import {
+  OutboxItem,
+  MessageDeliveryUpdate,
+  MessageReadUpdate,
+  MessageFragmentProgress,
+  PeerKeyChangedEvent,
+  PeerFavoriteChangedEvent
+} from '../../shared/ipc-types';
 
 const ChatView: React.FC = () => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [selectedContactId, setSelectedContactId] = useState<string | undefined>();
-  const [currentUserId] = useState('self'); // TODO: Get from session manager
+  const [hasMoreHistory, setHasMoreHistory] = useState(false);
+  const [showVerification, setShowVerification] = useState(false);
+  const selectedContactRef = useRef<string | undefined>();
   
   useEffect(() => {
     // Load initial contacts
     loadContacts();
     
     // Set up message listener
-    window.bitchatAPI.onMessageReceived((message) => {
+    window.bitchatAPI.onMessageReceived((message: Message) => {
+      const conversationId = message.isPrivate && !message.isOwn ? message.senderId : undefined;
+      if (conversationId === selectedContactRef.current) {
+        window.bitchatAPI.markConversationRead(conversationId);
+      } else if (conversationId) {
+        setContacts(prev => prev.map(c =>
+          c.id === conversationId ? { ...c, unreadCount: (c.unreadCount || 0) + 1 } : c
+        ));
+      }
+
       setMessages(prev => [...prev, {
         id: message.id || Date.now().toString(),
         senderId: message.senderId,
         senderNickname: message.senderNickname,
         recipientId: message.recipientId,
+        isOwn: message.isOwn,
         content: message.content,
         timestamp: new Date(message.timestamp),
         isPrivate: message.isPrivate || false,
         isEncrypted: message.isEncrypted || false,
-        isSent: false,
+        isSent: message.isSent || false,
+        isQueued: message.isQueued,
         isDelivered: message.isDelivered,
         isRead: message.isRead
       }]);
     });
     
+    // Update the ticks on our own private messages
+    window.bitchatAPI.onMessageDelivered((update: MessageDeliveryUpdate) => {
+      setMessages(prev => prev.map(m => m.id === update.messageId ?
+        { ...m, isDelivered: update.delivered, isFailed: !update.delivered } :
+        m
+      ));
+    });
+
+    window.bitchatAPI.onMessageRead((update: MessageReadUpdate) => {
+      setMessages(prev => prev.map(m => m.id === update.messageId ?
+        { ...m, isDelivered: true, isRead: update.read, isFailed: false } :
+        m
+      ));
+    });
+
+    // Track which of our messages are still waiting in the outbox
+    const applyOutbox = (items: OutboxItem[]) => {
+      const queued = new Set(items.map(item => item.messageId));
+      setMessages(prev => prev.map(m => m.isQueued || queued.has(m.id) ?
+        { ...m, isQueued: queued.has(m.id), isSent: m.isSent || !queued.has(m.id) } :
+        m
+      ));
+    };
+    window.bitchatAPI.getOutbox().then(applyOutbox);
+    window.bitchatAPI.onOutboxUpdated(applyOutbox);
+
+    // Show partially received messages while fragments arrive
+    window.bitchatAPI.onMessageFragmentProgress((progress: MessageFragmentProgress) => {
+      const placeholderId = `fragment-${progress.senderId}-${progress.messageId}`;
+      const isComplete = progress.currentFragment >= progress.totalFragments;
+
+      setMessages(prev => {
+        const others = prev.filter(m => m.id !== placeholderId);
+        if (isComplete) {
+          return others;
+        }
+
+        const existing = prev.find(m => m.id === placeholderId);
+        return [...others, {
+          id: placeholderId,
+          senderId: progress.senderId,
+          content: 'Receiving message…',
+          timestamp: existing ? existing.timestamp : new Date(),
+          isPrivate: false,
+          isEncrypted: false,
+          isSent: false,
+          fragmentInfo: {
+            isFragmented: true,
+            currentFragment: progress.currentFragment,
+            totalFragments: progress.totalFragments
+          }
+        }];
+      });
+    });
+
     // Set up peer listeners
-    window.bitchatAPI.onPeerConnected((peer) => {
+    window.bitchatAPI.onPeerConnected((peer: Contact) => {
       setContacts(prev => {
         const existing = prev.find(c => c.id === peer.id);
         if (existing) {
-          return prev.map(c => c.id === peer.id ? { ...c, isConnected: true } : c);
+          return prev.map(c => c.id === peer.id ? {
+            ...c,
+            nickname: peer.nickname || c.nickname,
+            fingerprint: peer.fingerprint || c.fingerprint,
+            isVerified: peer.isVerified ?? c.isVerified,
+            isConnected: true,
+            transport: peer.transport || c.transport
+          } : c);
         }
         return [...prev, {
           id: peer.id,
           nickname: peer.nickname,
           fingerprint: peer.fingerprint,
           isConnected: true,
-          isFavorite: false
+          isFavorite: false,
+          isVerified: peer.isVerified,
+          transport: peer.transport || 'ble'
         }];
       });
     });
+
+    // A peer turned up with a different key than before
+    window.bitchatAPI.onPeerKeyChanged((event: PeerKeyChangedEvent) => {
+      setContacts(prev => prev.map(c => c.id === event.peerId ?
+        { ...c, fingerprint: event.fingerprint, isVerified: false, keyChanged: true } :
+        c
+      ));
+    });
     
-    window.bitchatAPI.onPeerDisconnected((peerId) => {
+    window.bitchatAPI.onPeerFavoriteChanged((event: PeerFavoriteChangedEvent) => {
+      setContacts(prev => prev.map(c => c.id === event.peerId ?
+        { ...c, isFavorite: event.isFavorite, isMutualFavorite: event.isMutualFavorite } :
+        c
+      ));
+    });
+
+    window.bitchatAPI.onPeerDisconnected((peerId: string) => {
       setContacts(prev => prev.map(c => 
         c.id === peerId ? { ...c, isConnected: false, lastSeen: new Date() } : c
       ));
@@ -57,22 +158,85 @@ const ChatView: React.FC = () => {
     // Cleanup
     return () => {
       window.bitchatAPI.removeAllListeners('message:received');
+      window.bitchatAPI.removeAllListeners('message:delivered');
+      window.bitchatAPI.removeAllListeners('message:read');
+      window.bitchatAPI.removeAllListeners('outbox:updated');
+      window.bitchatAPI.removeAllListeners('message:fragmentProgress');
       window.bitchatAPI.removeAllListeners('peer:connected');
       window.bitchatAPI.removeAllListeners('peer:disconnected');
+      window.bitchatAPI.removeAllListeners('peer:keyChanged');
+      window.bitchatAPI.removeAllListeners('peer:favoriteChanged');
     };
   }, []);
 
+  const loadHistory = useCallback(async (before?: string) => {
+    try {
+      const page = await window.bitchatAPI.getMessageHistory({
+        conversationId: selectedContactId,
+        before
+      });
+      setMessages(prev => {
+        const known = new Set(prev.map(m => m.id));
+        const older = page.messages
+          .filter((m: Message) => !known.has(m.id))
+          .map((m: Message) => ({ ...m, timestamp: new Date(m.timestamp) }));
+        return [...older, ...prev];
+      });
+      setHasMoreHistory(page.hasMore);
+    } catch (error) {
+      console.error('Failed to load message history:', error);
+    }
+  }, [selectedContactId]);
+
+  // Load the latest history page whenever the conversation changes
+  useEffect(() => {
+    selectedContactRef.current = selectedContactId;
+    loadHistory();
+    window.bitchatAPI.markConversationRead(selectedContactId);
+    if (selectedContactId) {
+      setContacts(prev => prev.map(c => c.id === selectedContactId ? { ...c, unreadCount: 0 } : c));
+    }
+  }, [selectedContactId, loadHistory]);
+
+  const handleLoadEarlier = () => {
+    const oldest = messages.find(m => selectedContactId
+      ? m.isPrivate && (m.senderId === selectedContactId || m.recipientId === selectedContactId)
+      : !m.isPrivate);
+    loadHistory(oldest?.id);
+  };
+
+  const handleClearCommand = async (args: string) => {
+    const all = args.trim() === 'all';
+    await window.bitchatAPI.clearMessages({ conversationId: selectedContactId, all });
+
+    setMessages(prev => prev.filter(m => {
+      if (all) {
+        return false;
+      }
+      return selectedContactId
+        ? !(m.isPrivate && (m.senderId === selectedContactId || m.recipientId === selectedContactId))
+        : m.isPrivate;
+    }));
+    setHasMoreHistory(false);
+  };
+
   const loadContacts = async () => {
     try {
-      const peerList = await window.bitchatAPI.getPeers();
+      const [peerList, unread] = await Promise.all([
+        window.bitchatAPI.getPeers(),
+        window.bitchatAPI.getUnreadCounts()
+      ]);
       setContacts(peerList.map((peer: any) => ({
         id: peer.id,
         nickname: peer.nickname,
         fingerprint: peer.fingerprint,
         isConnected: peer.isConnected || false,
         isFavorite: peer.isFavorite || false,
+        isMutualFavorite: peer.isMutualFavorite || false,
+        isVerified: peer.isVerified || false,
         lastSeen: peer.lastSeen ? new Date(peer.lastSeen) : undefined,
-        unreadCount: 0
+        unreadCount: unread.private[peer.id] || 0,
+        transport: peer.transport || 'ble'
       })));
     } catch (error) {
       console.error('Failed to load contacts:', error);
@@ -81,36 +245,50 @@ const ChatView: React.FC = () => {
 
   const handleSendMessage = async (content: string, isPrivate: boolean) => {
     try {
+      if (content === '/clear' || content.startsWith('/clear ')) {
+        await handleClearCommand(content.slice('/clear'.length));
+        return;
+      }
+
+      // The main process echoes the message back once it is stored
       const recipient = isPrivate ? selectedContactId : undefined;
       await window.bitchatAPI.sendMessage(content, recipient);
-      
-      // Add message to local state
-      const newMessage: Message = {
-        id: Date.now().toString(),
-        senderId: currentUserId,
-        recipientId: recipient,
-        content,
-        timestamp: new Date(),
-        isPrivate,
-        isEncrypted: isPrivate && !!selectedContactId,
-        isSent: true,
-        isDelivered: false,
-        isRead: false
-      };
-      
-      setMessages(prev => [...prev, newMessage]);
     } catch (error) {
       console.error('Failed to send message:', error);
     }
   };
 
+  const handleMessageAction = async (messageId: string, action: string) => {
+    if (action === 'cancel') {
+      await window.bitchatAPI.cancelQueuedMessage(messageId);
+    }
+  };
+
   const handleContactSelect = (contactId: string) => {
     setSelectedContactId(contactId === selectedContactId ? undefined : contactId);
+    setShowVerification(false);
+  };
+
+  const handleVerifiedChange = (contactId: string, isVerified: boolean) => {
+    setContacts(prev => prev.map(c => c.id === contactId ?
+      { ...c, isVerified, keyChanged: isVerified ? false : c.keyChanged } :
+      c
+    ));
   };
 
   const handleContactAction = async (contactId: string, action: string) => {
-    // TODO: Implement contact actions (favorite, unfavorite, block)
-    console.log(`Contact action: ${action} on ${contactId}`);
+    try {
+      // Favorite changes come back through onPeerFavoriteChanged
+      if (action === 'favorite') {
+        await window.bitchatAPI.favoritePeer(contactId);
+      } else if (action === 'unfavorite') {
+        await window.bitchatAPI.unfavoritePeer(contactId);
+      } else if (action === 'block') {
+        await window.bitchatAPI.blockPeer(contactId);
+      }
+    } catch (error) {
+      console.error(`Failed to ${action} contact:`, error);
+    }
   };
 
   const selectedContact = contacts.find(c => c.id === selectedContactId);
@@ -137,30 +315,59 @@ const ChatView: React.FC = () => {
                 <span className="chat-header-status">
                   {selectedContact.isConnected ? 'Online' : 'Offline'}
                   {isEncrypted && ' • Encrypted'}
+                  {selectedContact.isVerified && ' • Verified'}
                 </span>
               </div>
-              {selectedContact.fingerprint && (
-                <div className="chat-header-fingerprint" title={selectedContact.fingerprint}>
-                  {selectedContact.fingerprint.slice(0, 16)}...
-                </div>
-              )}
+              <div className="chat-header-actions">
+                {selectedContact.fingerprint && (
+                  <div className="chat-header-fingerprint" title={selectedContact.fingerprint}>
+                    {selectedContact.fingerprint.slice(0, 16)}...
+                  </div>
+                )}
+                <button
+                  className="btn-secondary"
+                  onClick={() => handleContactAction(selectedContact.id, selectedContact.isFavorite ? 'unfavorite' : 'favorite')}
+                  title={selectedContact.isMutualFavorite ? 'Mutual favorite' : undefined}
+                >
+                  {selectedContact.isFavorite ? '★ Favorite' : '☆ Favorite'}
+                </button>
+                <button className="btn-secondary" onClick={() => setShowVerification(!showVerification)}>
+                  {selectedContact.isVerified ? 'Verified ✓' : 'Verify'}
+                </button>
+              </div>
             </>
           ) : (
             <h3>Broadcast Channel</h3>
           )}
         </div>
+
+        {selectedContact?.keyChanged && (
+          <div className="key-changed-banner">
+            ⚠ {selectedContact.nickname || selectedContact.id.slice(0, 8)}&apos;s key has changed. This may be a
+            new device or someone impersonating them; verify them again before sharing anything sensitive.
+          </div>
+        )}
+
+        {selectedContact && showVerification && (
+          <VerificationPanel
+            contact={selectedContact}
+            onClose={() => setShowVerification(false)}
+            onVerifiedChange={handleVerifiedChange}
+          />
+        )}
         
         <MessageThread
           messages={messages}
-          currentUserId={currentUserId}
           currentContactId={selectedContactId}
+          hasMore={hasMoreHistory}
+          onLoadEarlier={handleLoadEarlier}
+          onMessageAction={handleMessageAction}
         />
         
         <MessageInput
           onSendMessage={handleSendMessage}
           currentContactId={selectedContactId}
           isEncrypted={isEncrypted}
-          disabled={selectedContact ? !selectedContact.isConnected : false}
         />
       </div>
     </div>
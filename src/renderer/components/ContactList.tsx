@@ -6,6 +6,9 @@ export interface Contact {
   fingerprint?: string;
   isConnected: boolean;
   isFavorite: boolean;
+  isMutualFavorite?: boolean; // it favorited us too, so it can be reached over Nostr
+  isVerified?: boolean;
+  keyChanged?: boolean; // its key changed since we last saw it
   lastSeen?: Date;
   unreadCount?: number;
   transport: 'ble' | 'nostr' | 'both';
@@ -57,7 +60,13 @@ const ContactList: React.FC<ContactListProps> = ({
         <div className="contact-info">
           <div className="contact-name">
             {displayName}
-            {contact.isFavorite && <span className="favorite-star">★</span>}
+            {contact.isFavorite && (
+              <span className="favorite-star" title={contact.isMutualFavorite ? 'Mutual favorite' : 'Favorite'}>
+                {contact.isMutualFavorite ? '★★' : '★'}
+              </span>
+            )}
+            {contact.isVerified && <span className="verified-mark" title="Verified">✓</span>}
+            {contact.keyChanged && <span className="key-changed-mark" title="Key changed">⚠</span>}
             <div className="transport-badges">
               {contact.transport === 'both' && (
                 <>
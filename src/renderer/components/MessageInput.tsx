@@ -83,7 +83,7 @@ const MessageInput: React.FC<MessageInputProps> = ({
 /unfav <user> - Remove user from favorites
 /block <user> - Block a user
 /unblock <user> - Unblock a user
-/clear - Clear chat history`;
+/clear [all] - Clear this conversation, or all history`;
     
     alert(helpText);
   };
@@ -5,6 +5,7 @@ export interface Message {
   senderId: string;
   senderNickname?: string;
   recipientId?: string;
+  isOwn?: boolean; // we sent it
   content: string;
   timestamp: Date;
   isPrivate: boolean;
@@ -12,6 +13,8 @@ export interface Message {
   isSent: boolean;
   isDelivered?: boolean;
   isRead?: boolean;
+  isFailed?: boolean;
+  isQueued?: boolean; // waiting in the outbox for the recipient
   fragmentInfo?: {
     isFragmented: boolean;
     currentFragment: number;
@@ -21,16 +24,18 @@ export interface Message {
 
 interface MessageThreadProps {
   messages: Message[];
-  currentUserId: string;
   currentContactId?: string;
-  onMessageAction?: (messageId: string, action: 'resend' | 'delete') => void;
+  onMessageAction?: (messageId: string, action: 'resend' | 'delete' | 'cancel') => void;
+  hasMore?: boolean;
+  onLoadEarlier?: () => void;
 }
 
 const MessageThread: React.FC<MessageThreadProps> = ({
   messages,
-  currentUserId,
   currentContactId,
-  onMessageAction
+  onMessageAction,
+  hasMore = false,
+  onLoadEarlier
 }) => {
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -56,8 +61,24 @@ const MessageThread: React.FC<MessageThreadProps> = ({
     return messageDate.toLocaleDateString();
   };
 
+  const getStatusTitle = (message: Message): string => {
+    if (message.isFailed) {
+      return 'Not delivered';
+    }
+    if (message.isRead) {
+      return 'Read';
+    }
+    if (message.isDelivered) {
+      return 'Delivered';
+    }
+    if (message.isQueued) {
+      return 'Queued until the recipient is reachable';
+    }
+    return message.isSent ? 'Sent' : 'Sending';
+  };
+
   const renderMessage = (message: Message, prevMessage?: Message) => {
-    const isOwnMessage = message.senderId === currentUserId;
+    const isOwnMessage = !!message.isOwn;
     const showTimestamp = !prevMessage || 
       (new Date(message.timestamp).getTime() - new Date(prevMessage.timestamp).getTime()) > 300000; // 5 minutes
 
@@ -100,10 +121,21 @@ const MessageThread: React.FC<MessageThreadProps> = ({
               <span className="encryption-indicator" title="End-to-end encrypted">🔒</span>
             )}
             {isOwnMessage && (
-              <span className="message-status">
-                {message.isRead ? '✓✓' : message.isDelivered ? '✓✓' : message.isSent ? '✓' : '⏱'}
+              <span
+                className={['message-status', message.isRead && 'read', message.isFailed && 'failed'].filter(Boolean).join(' ')}
+                title={getStatusTitle(message)}
+              >
+                {message.isFailed ? '!' : message.isRead ? '✓✓' : message.isDelivered ? '✓✓' : message.isSent ? '✓' : '⏱'}
               </span>
             )}
+            {isOwnMessage && message.isQueued && onMessageAction && (
+              <button
+                className="message-cancel-button"
+                onClick={() => onMessageAction(message.id, 'cancel')}
+              >
+                Cancel
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -113,12 +145,17 @@ const MessageThread: React.FC<MessageThreadProps> = ({
   const filteredMessages = currentContactId
     ? messages.filter(m => 
         (m.senderId === currentContactId || m.recipientId === currentContactId) ||
-        (!m.isPrivate && m.senderId === currentUserId)
+        (!m.isPrivate && m.isOwn)
       )
     : messages.filter(m => !m.isPrivate);
 
   return (
     <div className="message-thread">
+      {hasMore && onLoadEarlier && (
+        <button className="load-earlier-button" onClick={onLoadEarlier}>
+          Load earlier messages
+        </button>
+      )}
       {filteredMessages.length === 0 ? (
         <div className="no-messages">
           <div className="no-messages-icon">💬</div>
@@ -0,0 +1,159 @@
+import React, { useState, useEffect } from 'react';
+import { Contact } from './ContactList';
+import { PeerVerificationInfo } from '../../shared/ipc-types';
+
+interface VerificationPanelProps {
+  contact: Contact;
+  onClose: () => void;
+  onVerifiedChange: (contactId: string, isVerified: boolean) => void;
+}
+
+const QR_QUIET_ZONE = 4; // modules of light border scanners need
+
+const QRCodeImage: React.FC<{ modules: boolean[][] }> = ({ modules }) => {
+  const size = modules.length + QR_QUIET_ZONE * 2;
+
+  return (
+    <svg
+      className="verification-qr"
+      viewBox={`0 0 ${size} ${size}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="Verification QR code"
+    >
+      <rect width={size} height={size} fill="#ffffff" />
+      {modules.map((row, y) => row.map((isDark, x) => isDark && (
+        <rect key={`${x},${y}`} x={x + QR_QUIET_ZONE} y={y + QR_QUIET_ZONE} width={1} height={1} fill="#000000" />
+      )))}
+    </svg>
+  );
+};
+
+const VerificationPanel: React.FC<VerificationPanelProps> = ({
+  contact,
+  onClose,
+  onVerifiedChange
+}) => {
+  const [info, setInfo] = useState<PeerVerificationInfo | null>(null);
+  const [scannedCode, setScannedCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    window.bitchatAPI.getPeerVerification(contact.id)
+      .then(setInfo)
+      .catch((err: Error) => setError(err.message));
+  }, [contact.id]);
+
+  const applyResult = (result: PeerVerificationInfo) => {
+    setInfo(result);
+    setError(null);
+    setScannedCode('');
+    onVerifiedChange(contact.id, result.isVerified);
+  };
+
+  const handleVerify = async (code?: string) => {
+    try {
+      applyResult(await window.bitchatAPI.verifyPeer({ peerId: contact.id, code }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleUnverify = async () => {
+    try {
+      applyResult(await window.bitchatAPI.unverifyPeer(contact.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const displayName = contact.nickname || contact.id.slice(0, 8);
+
+  return (
+    <div className="verification-panel">
+      <div className="verification-header">
+        <h3>Verify {displayName}</h3>
+        <button className="btn-secondary" onClick={onClose}>✕</button>
+      </div>
+
+      {contact.keyChanged && (
+        <div className="verification-warning">
+          {displayName}&apos;s key has changed. Verify them again before trusting this conversation.
+        </div>
+      )}
+
+      {info && (
+        <>
+          <div className="verification-section">
+            <div className="verification-label">Safety number</div>
+            {info.safetyNumber ? (
+              <div className="safety-number">{info.safetyNumber}</div>
+            ) : (
+              <div className="verification-hint">Available once a secure session is established</div>
+            )}
+            <div className="verification-hint">
+              Compare this number with the one on {displayName}&apos;s screen. It matches only if
+              neither of you is being impersonated.
+            </div>
+          </div>
+
+          <div className="verification-section">
+            <div className="verification-label">Your code</div>
+            <QRCodeImage modules={info.qrCode} />
+            <div className="verification-fingerprint" title={info.verificationCode}>
+              {info.localFingerprint}
+            </div>
+          </div>
+
+          <div className="verification-section">
+            <div className="verification-label">Their code</div>
+            <textarea
+              className="verification-input"
+              value={scannedCode}
+              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setScannedCode(e.target.value)}
+              placeholder="Scan or paste the code shown on their screen"
+              rows={3}
+            />
+            {info.remoteFingerprint && (
+              <div className="verification-fingerprint">{info.remoteFingerprint}</div>
+            )}
+          </div>
+
+          {error && <div className="verification-error">{error}</div>}
+
+          <div className="verification-actions">
+            {info.isVerified ? (
+              <>
+                <span className="verified-badge">
+                  ✓ Verified {info.verifiedAt && new Date(info.verifiedAt).toLocaleDateString()}
+                </span>
+                <button className="btn-danger" onClick={handleUnverify}>Unverify</button>
+              </>
+            ) : (
+              <>
+                <button
+                  className="btn-primary"
+                  onClick={() => handleVerify(scannedCode)}
+                  disabled={!scannedCode.trim() || !info.remoteFingerprint}
+                >
+                  Verify code
+                </button>
+                <button
+                  className="btn-secondary"
+                  onClick={() => handleVerify()}
+                  disabled={!info.safetyNumber}
+                >
+                  Numbers match
+                </button>
+              </>
+            )}
+          </div>
+        </>
+      )}
+
+      {!info && error && <div className="verification-error">{error}</div>}
+    </div>
+  );
+};
+
+export default VerificationPanel;
@@ -0,0 +1,9 @@
+import { BitChatAPI } from '../shared/ipc-types';
+
+// The API exposed by the preload script, declared again here because the
+// renderer is type-checked without it
+declare global {
+  interface Window {
+    bitchatAPI: BitChatAPI;
+  }
+}
@@ -1,10 +1,12 @@
 // Protocol Constants
 export const PROTOCOL_VERSION = 1;
+export const SUPPORTED_PROTOCOL_VERSIONS = [1]; // versions we can parse, oldest first
 export const MAX_TTL = 7;
 export const BROADCAST_ID = Buffer.from([0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF]);
 export const MESSAGE_MAX_SIZE = 65535;
 export const BLE_MTU = 512;
 export const STANDARD_BLOCK_SIZES = [256, 512, 1024, 2048];
+export const MAX_CLOCK_SKEW = 5 * 60 * 1000; // ms a packet timestamp may differ from ours
 
 // Message Types
 export const MessageType = {
@@ -21,6 +23,7 @@ export const MessageType = {
   NOISE_HANDSHAKE_RESP: 0x11,
   NOISE_ENCRYPTED: 0x12,
   NOISE_IDENTITY_ANNOUNCE: 0x13,
+  NOISE_REKEY: 0x14,
   VERSION_HELLO: 0x20,
   VERSION_ACK: 0x21,
   PROTOCOL_ACK: 0x22,
@@ -38,6 +41,20 @@ export const PacketFlags = {
   IS_COMPRESSED: 0x04
 } as const;
 
+// Optional protocol features, offered in VERSION_HELLO
+export const ProtocolFeatures = {
+  COMPRESSION: 0x01,
+  SIGNATURES: 0x02,
+  FRAGMENTATION: 0x04 // FRAGMENT_START/CONTINUE/END with 8-byte fragment IDs
+} as const;
+
+// Why a PROTOCOL_NACK refused a link
+export const NackReason = {
+  UNSUPPORTED_VERSION: 0x01,
+  MISSING_FEATURES: 0x02,
+  MALFORMED_NEGOTIATION: 0x03
+} as const;
+
 // BLE Service and Characteristic UUIDs
 export const BLE_SERVICE_UUID = '12345678-1234-5678-1234-56789ABCDEF0';
 export const BLE_CHARACTERISTICS = {
@@ -52,6 +69,7 @@ export const NOSTR_RELAYS = [
   'wss://offchain.pub',
   'wss://nostr21.com'
 ];
+export const NOSTR_CONTENT_PREFIX = 'bitchat1:';
 
 // Error Codes
 export const ErrorCodes = {
@@ -64,6 +82,7 @@ export const ErrorCodes = {
   HANDSHAKE_FAILED: 2001,
   DECRYPTION_FAILED: 2002,
   INVALID_SIGNATURE: 2003,
+  PEER_KEY_CHANGED: 2004,
   
   // Transport errors (3000-3999)
   BLUETOOTH_UNAVAILABLE: 3001,
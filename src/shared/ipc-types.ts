@@ -6,12 +6,24 @@ export const IPC_CHANNELS = {
   // App
   APP_GET_VERSION: 'app:getVersion',
   APP_GET_USER_ID: 'app:getUserId',
+
+  // Identity
+  IDENTITY_GET_FINGERPRINT: 'identity:getFingerprint',
   
   // Messages
   MESSAGE_SEND: 'message:send',
   MESSAGE_RECEIVED: 'message:received',
   MESSAGE_DELIVERED: 'message:delivered',
   MESSAGE_READ: 'message:read',
+  MESSAGE_FRAGMENT_PROGRESS: 'message:fragmentProgress',
+  MESSAGE_HISTORY_GET: 'message:history:get',
+  MESSAGE_UNREAD_GET: 'message:unread:get',
+  MESSAGE_MARK_READ: 'message:markRead',
+
+  // Outbox
+  OUTBOX_LIST: 'outbox:list',
+  OUTBOX_CANCEL: 'outbox:cancel',
+  OUTBOX_UPDATED: 'outbox:updated',
   
   // Peers/Contacts
   PEERS_LIST: 'peers:list',
@@ -19,8 +31,13 @@ export const IPC_CHANNELS = {
   PEER_DISCONNECTED: 'peer:disconnected',
   PEER_FAVORITE: 'peer:favorite',
   PEER_UNFAVORITE: 'peer:unfavorite',
+  PEER_FAVORITE_CHANGED: 'peer:favoriteChanged',
   PEER_BLOCK: 'peer:block',
   PEER_UNBLOCK: 'peer:unblock',
+  PEER_VERIFICATION_GET: 'peer:verification:get',
+  PEER_VERIFY: 'peer:verify',
+  PEER_UNVERIFY: 'peer:unverify',
+  PEER_KEY_CHANGED: 'peer:keyChanged',
   
   // Noise Protocol
   NOISE_SESSION_ESTABLISHED: 'noise:sessionEstablished',
@@ -51,6 +68,10 @@ export const IPC_CHANNELS = {
   NOSTR_RELAY_CONNECT: 'nostr:relay:connect',
   NOSTR_RELAY_DISCONNECT: 'nostr:relay:disconnect',
   
+  // Nostr Identity
+  NOSTR_IDENTITY_GET: 'nostr:identity:get',
+  NOSTR_IDENTITY_IMPORT: 'nostr:identity:import',
+
   // Errors
   ERROR_OCCURRED: 'error:occurred'
 } as const;
@@ -87,14 +108,56 @@ export interface MessageReadUpdate {
   timestamp: number;
 }
 
+export interface MessageFragmentProgress {
+  messageId: string;
+  senderId: string;
+  currentFragment: number;
+  totalFragments: number;
+}
+
+export interface MessageHistoryRequest {
+  conversationId?: string; // peer ID, or omitted for the public channel
+  before?: string; // ID of the oldest message already loaded
+  limit?: number;
+}
+
+export interface MessageHistoryPage {
+  messages: Message[]; // oldest first
+  hasMore: boolean;
+}
+
+export interface UnreadCounts {
+  public: number;
+  private: Record<string, number>; // by peer ID
+}
+
+export interface ClearMessagesRequest {
+  conversationId?: string; // peer ID, or omitted for the public channel
+  all?: boolean; // clear every conversation
+}
+
+// A private message waiting for its recipient to become reachable
+export interface OutboxItem {
+  messageId: string;
+  recipientId: string;
+  content: string;
+  queuedAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  expiresAt: number;
+}
+
 // Peer Types
 export interface PeerInfo {
   id: string;
+  stableId?: string; // fingerprint of the peer's verified Noise static key
   nickname?: string;
   fingerprint?: string;
   isConnected: boolean;
   isFavorite: boolean;
+  isMutualFavorite?: boolean; // the peer favorited us too
   isBlocked: boolean;
+  isVerified?: boolean;
   lastSeen?: string;
   sessionEstablished: boolean;
   transport: 'ble' | 'nostr' | 'both';
@@ -107,12 +170,45 @@ export interface PeerConnectionEvent {
   timestamp: number;
 }
 
+export interface PeerFavoriteChangedEvent {
+  peerId: string;
+  isFavorite: boolean; // we favorited the peer
+  isFavoritedBy: boolean; // the peer favorited us
+  isMutualFavorite: boolean;
+}
+
 export interface PeerDisconnectionEvent {
   peerId: string;
   reason?: string;
   timestamp: number;
 }
 
+// Verification Types
+export interface PeerVerificationInfo {
+  peerId: string;
+  localFingerprint: string;
+  verificationCode: string; // ours, for the other side to scan or paste
+  qrCode: boolean[][]; // the verification code as QR modules, true = dark
+  remoteFingerprint?: string; // absent until the peer has handshaked
+  safetyNumber?: string;
+  isVerified: boolean;
+  verifiedAt?: number;
+}
+
+export interface PeerVerifyRequest {
+  peerId: string;
+  code?: string; // the peer's scanned or pasted code; omit after comparing safety numbers
+}
+
+export interface PeerKeyChangedEvent {
+  peerId: string;
+  nickname?: string;
+  previousFingerprint: string;
+  fingerprint: string;
+  wasVerified: boolean;
+  timestamp: number;
+}
+
 // Noise Session Types
 export interface NoiseSessionEvent {
   peerID: string;
@@ -183,6 +279,10 @@ export interface ConnectionStats {
   bytesDownloaded: number;
   sessionsEstablished: number;
   handshakeFailures: number;
+  packetsRelayed: number;
+  relayBytes: number;
+  relaysRateLimited: number;
+  relaysFailed: number;
 }
 
 // Settings Types
@@ -193,9 +293,15 @@ export interface AppSettings {
   enableSounds: boolean;
   theme: 'dark' | 'light' | 'auto';
   fontSize: 'small' | 'medium' | 'large';
-  blockedPeers: string[];
+  blockedPeers: string[]; // fingerprints, or peer IDs of peers whose key we did not know
+  compressMessages: boolean; // compress long messages for peers that support it
 }
 
+// Partial update where nested objects may themselves be partial
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends unknown[] ? T[K] : T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
 // Transport Preferences Types
 export interface TransportPreferences {
   preferredTransport: 'ble' | 'nostr' | 'auto';
@@ -218,6 +324,12 @@ export interface TransportPreferences {
   };
 }
 
+// Nostr Identity Types
+export interface NostrIdentityInfo {
+  npub: string;
+  publicKey: string; // hex
+}
+
 // Nostr Relay Management Types
 export interface NostrRelayRequest {
   url: string;
@@ -236,12 +348,24 @@ export interface BitChatAPI {
   // App
   getVersion: () => Promise<string>;
   getUserId: () => Promise<string>;
+
+  // Identity
+  getFingerprint: () => Promise<string>;
   
   // Messages
   sendMessage: (content: string, recipientId?: string) => Promise<void>;
   onMessageReceived: (callback: (message: Message) => void) => void;
   onMessageDelivered: (callback: (update: MessageDeliveryUpdate) => void) => void;
   onMessageRead: (callback: (update: MessageReadUpdate) => void) => void;
+  onMessageFragmentProgress: (callback: (progress: MessageFragmentProgress) => void) => void;
+  getMessageHistory: (request: MessageHistoryRequest) => Promise<MessageHistoryPage>;
+  getUnreadCounts: () => Promise<UnreadCounts>;
+  markConversationRead: (conversationId?: string) => Promise<void>;
+
+  // Outbox
+  getOutbox: () => Promise<OutboxItem[]>;
+  cancelQueuedMessage: (messageId: string) => Promise<boolean>;
+  onOutboxUpdated: (callback: (items: OutboxItem[]) => void) => void;
   
   // Peers
   getPeers: () => Promise<Contact[]>;
@@ -251,6 +375,13 @@ export interface BitChatAPI {
   unblockPeer: (peerId: string) => Promise<void>;
   onPeerConnected: (callback: (peer: Contact) => void) => void;
   onPeerDisconnected: (callback: (peerId: string) => void) => void;
+  onPeerFavoriteChanged: (callback: (event: PeerFavoriteChangedEvent) => void) => void;
+
+  // Verification
+  getPeerVerification: (peerId: string) => Promise<PeerVerificationInfo>;
+  verifyPeer: (request: PeerVerifyRequest) => Promise<PeerVerificationInfo>;
+  unverifyPeer: (peerId: string) => Promise<PeerVerificationInfo>;
+  onPeerKeyChanged: (callback: (event: PeerKeyChangedEvent) => void) => void;
   
   // Noise Sessions
   onSessionEstablished: (callback: (event: NoiseSessionEvent) => void) => void;
@@ -260,7 +391,7 @@ export interface BitChatAPI {
   // Commands
   setNickname: (nickname: string) => Promise<void>;
   getWhoList: () => Promise<WhoCommandResponse>;
-  clearMessages: () => Promise<void>;
+  clearMessages: (request?: ClearMessagesRequest) => Promise<void>;
   
   // Connection
   getConnectionStatus: () => Promise<ConnectionStatus>;
@@ -269,12 +400,12 @@ export interface BitChatAPI {
   
   // Settings
   getSettings: () => Promise<AppSettings>;
-  setSettings: (settings: Partial<AppSettings>) => Promise<void>;
+  setSettings: (settings: Partial<AppSettings>) => Promise<AppSettings>;
   
   // Transport Preferences
   getTransportPreferences: () => Promise<TransportPreferences>;
-  setTransportPreferences: (preferences: Partial<TransportPreferences>) => Promise<void>;
-  resetTransportPreferences: () => Promise<void>;
+  setTransportPreferences: (preferences: DeepPartial<TransportPreferences>) => Promise<TransportPreferences>;
+  resetTransportPreferences: () => Promise<TransportPreferences>;
   
   // Nostr Relay Management
   addNostrRelay: (url: string) => Promise<void>;
@@ -282,6 +413,10 @@ export interface BitChatAPI {
   connectNostrRelay: (url: string) => Promise<void>;
   disconnectNostrRelay: (url: string) => Promise<void>;
   
+  // Nostr Identity
+  getNostrIdentity: () => Promise<NostrIdentityInfo>;
+  importNostrKey: (nsec: string) => Promise<NostrIdentityInfo>;
+
   // Errors
   onError: (callback: (error: AppError) => void) => void;
   
@@ -12,6 +12,7 @@ export interface BitchatMessage {
   senderPeerID?: string;
   mentions?: string[];
   deliveryStatus?: DeliveryStatus;
+  isOwn?: boolean; // we sent it; kept locally and never encoded
 }
 
 export interface BitchatPacket {
@@ -72,13 +73,15 @@ export interface Identity {
   nickname: string;
   staticKeyPair: KeyPair; // Curve25519 for Noise
   signingKeyPair: KeyPair; // Ed25519 for signatures
-  nostrKeyPair?: {
-    publicKey: string;
-    privateKey: string;
-  };
+  nostrKeyPair?: NostrKeyPair;
   createdAt: Date;
 }
 
+export interface NostrKeyPair {
+  publicKey: string; // hex, BIP-340 x-only
+  privateKey: string; // hex, secp256k1 scalar
+}
+
 export interface NostrEvent {
   id?: string;
   pubkey: string;
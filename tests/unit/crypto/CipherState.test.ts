@@ -1,4 +1,4 @@
-import { CipherState, SymmetricState } from '../../../src/main/crypto/CipherState';
+import { CipherState, SymmetricState, MAX_NONCE } from '../../../src/main/crypto/CipherState';
 import { randomBytes } from 'crypto';
 
 describe('CipherState', () => {
@@ -138,6 +138,15 @@ describe('CipherState', () => {
         .toThrow('Decryption failed: invalid ciphertext or authentication tag');
     });
 
+    it('should refuse to use an exhausted nonce', () => {
+      cipher.setNonce(MAX_NONCE);
+
+      expect(() => cipher.encryptWithAd(Buffer.alloc(0), Buffer.from('Test')))
+        .toThrow('Nonce exhausted');
+      expect(() => cipher.decryptWithAd(Buffer.alloc(0), Buffer.alloc(20)))
+        .toThrow('Nonce exhausted');
+    });
+
     it('should throw when not initialized', () => {
       const uninitializedCipher = new CipherState();
       const plaintext = Buffer.from('Test');
@@ -1,3 +1,4 @@
+import { getPublicKey } from 'nostr-tools';
 import { KeyManager } from '../../../src/main/crypto/KeyManager';
 
 describe('KeyManager', () => {
@@ -163,7 +164,7 @@ describe('KeyManager', () => {
       expect(identity.signingKeyPair.publicKey.length).toBe(32);
       expect(identity.signingKeyPair.privateKey.length).toBe(64);
       expect(identity.nostrKeyPair!.publicKey).toMatch(/^[0-9a-f]{64}$/);
-      expect(identity.nostrKeyPair!.privateKey).toMatch(/^[0-9a-f]{128}$/);
+      expect(identity.nostrKeyPair!.privateKey).toMatch(/^[0-9a-f]{64}$/);
     });
 
     it('should create unique identities', async () => {
@@ -272,7 +273,13 @@ describe('KeyManager', () => {
       const nostrKeys = KeyManager.deriveNostrKeys(noiseKeyPair);
       
       expect(nostrKeys.publicKey).toMatch(/^[0-9a-f]{64}$/);
-      expect(nostrKeys.privateKey).toMatch(/^[0-9a-f]{128}$/);
+      expect(nostrKeys.privateKey).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should derive valid secp256k1 keys', () => {
+      const nostrKeys = KeyManager.deriveNostrKeys(KeyManager.generateCurve25519KeyPair());
+
+      expect(getPublicKey(Buffer.from(nostrKeys.privateKey, 'hex'))).toBe(nostrKeys.publicKey);
     });
 
     it('should derive consistent Nostr keys', () => {
@@ -295,4 +302,51 @@ describe('KeyManager', () => {
       expect(nostrKeys1.privateKey).not.toBe(nostrKeys2.privateKey);
     });
   });
+  describe('Nostr Key Encoding', () => {
+    // Test vectors from NIP-19
+    const nsec = 'nsec1vl029mgpspedva04g90vltkh6fvh240zqtv9k0t9af8935ke9laqsnlfe5';
+    const privateKey = '67dea2ed018072d675f5415ecfaed7d2597555e202d85b3d65ea4e58d2d92ffa';
+    const npub = 'npub10elfcs4fr0l0r8af98jlmgdh9c8tcxjvz9qkw038js35mp4dma8qzvjptg';
+    const publicKey = '7e7e9c42a91bfef19fa929e5fda1b72e0ebc1a4c1141673e2794234d86addf4e';
+
+    it('should encode and decode npub', () => {
+      expect(KeyManager.encodeNpub(publicKey)).toBe(npub);
+      expect(KeyManager.decodeNpub(npub)).toBe(publicKey);
+    });
+
+    it('should encode and decode nsec', () => {
+      expect(KeyManager.encodeNsec(privateKey)).toBe(nsec);
+      expect(KeyManager.decodeNsec(nsec)).toBe(privateKey);
+    });
+
+    it('should import an existing nsec', () => {
+      const imported = KeyManager.importNsec(`  ${nsec}\n`);
+
+      expect(imported.privateKey).toBe(privateKey);
+      expect(imported.publicKey).toBe(getPublicKey(Buffer.from(privateKey, 'hex')));
+    });
+
+    it('should round trip derived keys', () => {
+      const nostrKeys = KeyManager.deriveNostrKeys(KeyManager.generateCurve25519KeyPair());
+
+      expect(KeyManager.importNsec(KeyManager.encodeNsec(nostrKeys.privateKey))).toEqual(nostrKeys);
+      expect(KeyManager.decodeNpub(KeyManager.encodeNpub(nostrKeys.publicKey))).toBe(nostrKeys.publicKey);
+    });
+
+    it('should reject keys of the wrong type', () => {
+      expect(() => KeyManager.decodeNsec(npub)).toThrow('Expected nsec');
+      expect(() => KeyManager.decodeNpub(nsec)).toThrow('Expected npub');
+    });
+
+    it('should reject malformed keys', () => {
+      expect(() => KeyManager.importNsec('nsec1notavalidkey')).toThrow('Invalid bech32 key');
+      expect(() => KeyManager.decodeNpub(npub.slice(0, -1) + 'q')).toThrow();
+    });
+
+    it('should reject out of range private keys', () => {
+      expect(() => KeyManager.nostrKeysFromPrivateKey(Buffer.alloc(32))).toThrow('Invalid secp256k1 private key');
+      expect(() => KeyManager.nostrKeysFromPrivateKey(Buffer.alloc(32, 0xFF))).toThrow('Invalid secp256k1 private key');
+      expect(() => KeyManager.nostrKeysFromPrivateKey(Buffer.alloc(31, 1))).toThrow('Invalid secp256k1 private key');
+    });
+  });
 });
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { NoiseProtocol, HandshakeRole, NoiseSession } from '../../../src/main/crypto/NoiseProtocol';
+import { NoiseProtocol, HandshakeRole, NoiseSession, TRANSPORT_NONCE_SIZE } from '../../../src/main/crypto/NoiseProtocol';
 import { KeyManager } from '../../../src/main/crypto/KeyManager';
 
 describe('NoiseProtocol', () => {
@@ -244,6 +244,83 @@ describe('NoiseProtocol', () => {
     });
   });
 
+  describe('Transport Messages', () => {
+    const establish = () => {
+      const aliceState = NoiseProtocol.createHandshakeState(HandshakeRole.INITIATOR, aliceStatic);
+      const bobState = NoiseProtocol.createHandshakeState(HandshakeRole.RESPONDER, bobStatic);
+
+      NoiseProtocol.readMessage(bobState, NoiseProtocol.writeMessage(aliceState));
+      NoiseProtocol.readMessage(aliceState, NoiseProtocol.writeMessage(bobState));
+      const { session: bobSession } = NoiseProtocol.readMessage(bobState, NoiseProtocol.writeMessage(aliceState));
+
+      const [aliceSend, aliceReceive] = aliceState.symmetricState.split();
+      const aliceSession: NoiseSession = {
+        sendCipher: aliceSend,
+        receiveCipher: aliceReceive,
+        handshakeHash: aliceState.symmetricState.getHandshakeHash(),
+        remoteStaticPublicKey: aliceState.remoteStatic!
+      };
+      return { aliceSession, bobSession: bobSession! };
+    };
+
+    it('should prefix each message with its nonce', () => {
+      const { aliceSession } = establish();
+
+      NoiseProtocol.encryptMessage(aliceSession, Buffer.from('First'));
+      const encrypted = NoiseProtocol.encryptMessage(aliceSession, Buffer.from('Second'));
+
+      expect(encrypted.readBigUInt64BE(0)).toBe(1n);
+      expect(encrypted.length).toBe(TRANSPORT_NONCE_SIZE + 'Second'.length + 16);
+    });
+
+    it('should decrypt messages that arrive out of order or not at all', () => {
+      const { aliceSession, bobSession } = establish();
+      const encrypted = ['0', '1', '2', '3'].map((text) =>
+        NoiseProtocol.encryptMessage(aliceSession, Buffer.from(text)));
+
+      // Message 1 is lost and 3 overtakes 2
+      const received = [encrypted[0], encrypted[3], encrypted[2]].map((message) =>
+        NoiseProtocol.decryptMessage(bobSession, message).toString());
+
+      expect(received).toEqual(['0', '3', '2']);
+      expect(bobSession.receiveCipher.getNonce()).toBe(4n);
+    });
+
+    it('should reject replayed messages', () => {
+      const { aliceSession, bobSession } = establish();
+      const encrypted = NoiseProtocol.encryptMessage(aliceSession, Buffer.from('Pay Bob'));
+
+      NoiseProtocol.decryptMessage(bobSession, encrypted);
+
+      expect(() => NoiseProtocol.decryptMessage(bobSession, encrypted))
+        .toThrow('Replayed or out-of-window nonce');
+    });
+
+    it('should reject messages older than the replay window', () => {
+      const { aliceSession, bobSession } = establish();
+      const old = NoiseProtocol.encryptMessage(aliceSession, Buffer.from('Old'));
+      let latest = old;
+      for (let i = 0; i < 1024; i++) {
+        latest = NoiseProtocol.encryptMessage(aliceSession, Buffer.from('New'));
+      }
+
+      NoiseProtocol.decryptMessage(bobSession, latest);
+
+      expect(() => NoiseProtocol.decryptMessage(bobSession, old))
+        .toThrow('Replayed or out-of-window nonce');
+    });
+
+    it('should not let a forged nonce consume a slot in the window', () => {
+      const { aliceSession, bobSession } = establish();
+      const encrypted = NoiseProtocol.encryptMessage(aliceSession, Buffer.from('Hello'));
+      const forged = Buffer.from(encrypted);
+      forged[forged.length - 1] ^= 0xFF;
+
+      expect(() => NoiseProtocol.decryptMessage(bobSession, forged)).toThrow('Decryption failed');
+      expect(NoiseProtocol.decryptMessage(bobSession, encrypted).toString()).toBe('Hello');
+    });
+  });
+
   describe('Error handling', () => {
     it('should throw on invalid handshake state transitions', () => {
       const state = NoiseProtocol.createHandshakeState(
@@ -1,4 +1,4 @@
-import { NoiseSessionManager } from '../../../src/main/crypto/NoiseSessionManager';
+import { NoiseSessionManager, NoiseSessionManagerOptions } from '../../../src/main/crypto/NoiseSessionManager';
 import { KeyManager } from '../../../src/main/crypto/KeyManager';
 import { MessageType } from '../../../src/shared/constants';
 
@@ -379,6 +379,130 @@ describe('NoiseSessionManager', () => {
     });
   });
 
+  describe('Crossed Handshakes', () => {
+    let wire: Array<{ to: NoiseSessionManager; from: string; type: number; message: Buffer }>;
+    let failures: any[];
+    let aliceInitiated: boolean | undefined;
+    let bobInitiated: boolean | undefined;
+
+    const deliver = async () => {
+      while (wire.length > 0) {
+        const { to, from, type, message } = wire.shift()!;
+        await to.processHandshakeMessage(from, type, message);
+      }
+    };
+
+
+    beforeEach(() => {
+      wire = [];
+      failures = [];
+      aliceInitiated = undefined;
+      bobInitiated = undefined;
+      aliceManager.on('handshakeMessage', (msg) => wire.push({ to: bobManager, from: 'alice-peer-id', ...msg }));
+      bobManager.on('handshakeMessage', (msg) => wire.push({ to: aliceManager, from: 'bob-peer-id', ...msg }));
+      aliceManager.on('sessionEstablished', (event) => { aliceInitiated = event.isInitiator; });
+      bobManager.on('sessionEstablished', (event) => { bobInitiated = event.isInitiator; });
+      aliceManager.on('handshakeFailed', (event) => failures.push(event));
+      bobManager.on('handshakeFailed', (event) => failures.push(event));
+    });
+
+    const expectWorkingSession = () => {
+      expect(aliceManager.hasSession('bob-peer-id')).toBe(true);
+      expect(bobManager.hasSession('alice-peer-id')).toBe(true);
+      expect([aliceInitiated, bobInitiated].sort()).toEqual([false, true]);
+      expect(failures).toEqual([]);
+
+      const encrypted = aliceManager.encryptMessage('bob-peer-id', Buffer.from('Hello Bob'));
+      expect(bobManager.decryptMessage('alice-peer-id', encrypted).toString()).toBe('Hello Bob');
+      const reply = bobManager.encryptMessage('alice-peer-id', Buffer.from('Hello Alice'));
+      expect(aliceManager.decryptMessage('bob-peer-id', reply).toString()).toBe('Hello Alice');
+    };
+
+    it('should make exactly one side responder when both initiate at once', async () => {
+      await aliceManager.initiateHandshake('bob-peer-id');
+      await bobManager.initiateHandshake('alice-peer-id');
+      expect(wire.map((msg) => msg.type)).toEqual([
+        MessageType.NOISE_HANDSHAKE_INIT,
+        MessageType.NOISE_HANDSHAKE_INIT
+      ]);
+
+      await deliver();
+
+      expectWorkingSession();
+    });
+
+    it('should pick the same initiator whichever INIT arrives first', async () => {
+      await aliceManager.initiateHandshake('bob-peer-id');
+      await bobManager.initiateHandshake('alice-peer-id');
+      wire.reverse();
+
+      await deliver();
+
+      expectWorkingSession();
+    });
+
+    it('should answer a peer that starts its handshake over', async () => {
+      await aliceManager.initiateHandshake('bob-peer-id');
+      await bobManager.processHandshakeMessage('alice-peer-id', MessageType.NOISE_HANDSHAKE_INIT, wire[0].message);
+      wire = []; // Bob's response is lost
+
+      aliceManager.closeSession('bob-peer-id');
+      failures = [];
+      await aliceManager.initiateHandshake('bob-peer-id');
+      await deliver();
+
+      expectWorkingSession();
+    });
+  });
+
+  describe('Blocking', () => {
+    const handshake = async () => {
+      const wire: Array<{ to: NoiseSessionManager; from: string; type: number; message: Buffer }> = [];
+      aliceManager.on('handshakeMessage', (msg) => wire.push({ to: bobManager, from: 'alice-peer-id', ...msg }));
+      bobManager.on('handshakeMessage', (msg) => wire.push({ to: aliceManager, from: 'bob-peer-id', ...msg }));
+
+      await aliceManager.initiateHandshake('bob-peer-id');
+      while (wire.length > 0) {
+        const { to, from, type, message } = wire.shift()!;
+        await to.processHandshakeMessage(from, type, message);
+      }
+    };
+
+    it('should refuse to complete a handshake with a blocked responder', async () => {
+      aliceManager.destroy(); // wipes aliceStatic
+      aliceStatic = KeyManager.generateCurve25519KeyPair();
+      aliceManager = new NoiseSessionManager(aliceStatic, {
+        isBlocked: (key) => key.equals(bobStatic.publicKey)
+      });
+      const failures: any[] = [];
+      aliceManager.on('handshakeFailed', (event) => failures.push(event));
+      const sent: number[] = [];
+      aliceManager.on('handshakeMessage', (msg) => sent.push(msg.type));
+
+      await handshake();
+
+      // Alice never sent the message that reveals her static key
+      expect(sent).toEqual([MessageType.NOISE_HANDSHAKE_INIT]);
+      expect(aliceManager.hasSession('bob-peer-id')).toBe(false);
+      expect(failures).toEqual([{ peerID: 'bob-peer-id', reason: 'Peer is blocked' }]);
+    });
+
+    it('should refuse a session to a blocked initiator', async () => {
+      bobManager.destroy(); // wipes bobStatic
+      bobStatic = KeyManager.generateCurve25519KeyPair();
+      bobManager = new NoiseSessionManager(bobStatic, {
+        isBlocked: (key) => key.equals(aliceStatic.publicKey)
+      });
+      const failures: any[] = [];
+      bobManager.on('handshakeFailed', (event) => failures.push(event));
+
+      await handshake();
+
+      expect(bobManager.hasSession('alice-peer-id')).toBe(false);
+      expect(failures).toEqual([{ peerID: 'alice-peer-id', reason: 'Peer is blocked' }]);
+    });
+  });
+
   describe('Session Persistence', () => {
     it('should return all active sessions', async () => {
       // Initially no sessions
@@ -419,4 +543,217 @@ describe('NoiseSessionManager', () => {
       carolManager.destroy();
     });
   });
+
+  describe('Rekeying', () => {
+    interface WireMessage {
+      to: NoiseSessionManager;
+      from: string;
+      type: number;
+      message: Buffer;
+    }
+
+    let managers: NoiseSessionManager[];
+    let wire: WireMessage[];
+    let received: string[];
+
+    // Delivers everything on the wire in order, as the transport would
+    const deliver = async () => {
+      while (wire.length > 0) {
+        const { to, from, type, message } = wire.shift()!;
+        if (type === MessageType.MESSAGE) {
+          received.push(to.decryptMessage(from, message).toString());
+        } else {
+          await to.processHandshakeMessage(from, type, message);
+        }
+      }
+    };
+
+    const connect = async (aliceOptions: NoiseSessionManagerOptions, bobOptions = aliceOptions) => {
+      const alice = new NoiseSessionManager(KeyManager.generateCurve25519KeyPair(), aliceOptions);
+      const bob = new NoiseSessionManager(KeyManager.generateCurve25519KeyPair(), bobOptions);
+      managers.push(alice, bob);
+
+      alice.on('handshakeMessage', (msg) => wire.push({ to: bob, from: 'alice-peer-id', ...msg }));
+      bob.on('handshakeMessage', (msg) => wire.push({ to: alice, from: 'bob-peer-id', ...msg }));
+
+      await alice.initiateHandshake('bob-peer-id');
+      await deliver();
+
+      const send = (sender: NoiseSessionManager, text: string) => {
+        const [to, from, recipient] = sender === alice ?
+          [bob, 'alice-peer-id', 'bob-peer-id'] :
+          [alice, 'bob-peer-id', 'alice-peer-id'];
+        const message = sender.encryptMessage(recipient, Buffer.from(text));
+        wire.push({ to, from, type: MessageType.MESSAGE, message });
+      };
+
+      return { alice, bob, send };
+    };
+
+    beforeEach(() => {
+      managers = [];
+      wire = [];
+      received = [];
+    });
+
+    afterEach(() => {
+      managers.forEach((manager) => manager.destroy());
+      jest.useRealTimers();
+    });
+
+    it('should rotate keys in both directions after enough messages', async () => {
+      const { alice, bob, send } = await connect({ rekeyAfterMessages: 2 });
+      const rekeys: string[] = [];
+      alice.on('sessionRekeyed', (event) => rekeys.push(`alice:${event.direction}`));
+      bob.on('sessionRekeyed', (event) => rekeys.push(`bob:${event.direction}`));
+
+      for (let i = 1; i <= 3; i++) {
+        send(alice, `a${i}`);
+      }
+      await deliver();
+
+      expect(wire).toHaveLength(0);
+      expect(rekeys).toEqual(['alice:send', 'bob:receive', 'bob:send', 'alice:receive']);
+      expect(alice.getSession('bob-peer-id')!.session.sendCipher.getNonce()).toBe(1n);
+
+      send(bob, 'b1');
+      await deliver();
+      expect(received).toEqual(['a1', 'a2', 'a3', 'b1']);
+    });
+
+    it('should keep the stream in sync when both peers rekey at once', async () => {
+      const { alice, bob, send } = await connect({ rekeyAfterMessages: 1 });
+
+      send(alice, 'a1');
+      send(bob, 'b1');
+      await deliver();
+      send(alice, 'a2');
+      send(bob, 'b2');
+      send(alice, 'a3');
+      await deliver();
+
+      expect(received).toEqual(['a1', 'b1', 'a2', 'b2', 'a3']);
+      expect(alice.hasSession('bob-peer-id')).toBe(true);
+      expect(bob.hasSession('alice-peer-id')).toBe(true);
+    });
+
+    it('should read messages overtaken by a rekey', async () => {
+      const { send } = await connect({ rekeyAfterMessages: 1 });
+
+      send(managers[0], 'a1');
+      send(managers[0], 'a2');
+      expect(wire.map((msg) => msg.type)).toEqual([
+        MessageType.MESSAGE,
+        MessageType.NOISE_REKEY,
+        MessageType.MESSAGE
+      ]);
+      wire.unshift(wire.splice(1, 1)[0]);
+      await deliver();
+
+      expect(received).toEqual(['a1', 'a2']);
+    });
+
+    it('should move on to the next key when a rekey message is lost', async () => {
+      const { alice, bob, send } = await connect({ rekeyAfterMessages: 1 });
+
+      send(alice, 'a1');
+      send(alice, 'a2');
+      wire.splice(1, 1);
+      await deliver();
+      send(alice, 'a3');
+      send(bob, 'b1');
+      await deliver();
+
+      expect(received).toEqual(['a1', 'a2', 'a3', 'b1']);
+    });
+
+    it('should not rotate twice when a rekey message arrives late', async () => {
+      const { alice, bob, send } = await connect({ rekeyAfterMessages: 1 });
+      const rekeys: string[] = [];
+      bob.on('sessionRekeyed', (event) => rekeys.push(event.direction));
+
+      send(alice, 'a1');
+      send(alice, 'a2');
+      wire.push(wire.splice(1, 1)[0]);
+      await deliver();
+      send(alice, 'a3');
+      send(bob, 'b1');
+      await deliver();
+
+      expect(received).toEqual(['a1', 'a2', 'a3', 'b1']);
+      expect(rekeys.slice(0, 2)).toEqual(['receive', 'send']);
+    });
+
+    it('should rekey once the send key is old enough', async () => {
+      jest.useFakeTimers();
+      const { alice, send } = await connect({ rekeyAfterMs: 30000 });
+
+      send(alice, 'a1');
+      expect(wire.map((msg) => msg.type)).toEqual([MessageType.MESSAGE]);
+
+      jest.advanceTimersByTime(30000);
+      send(alice, 'a2');
+      expect(wire.map((msg) => msg.type)).toEqual([
+        MessageType.MESSAGE,
+        MessageType.NOISE_REKEY,
+        MessageType.MESSAGE
+      ]);
+
+      await deliver();
+      expect(received).toEqual(['a1', 'a2']);
+      expect(alice.getSession('bob-peer-id')!.messagesSinceRekey).toBe(1);
+    });
+
+    it('should rotate the keys of idle sessions', async () => {
+      jest.useFakeTimers();
+      const { send } = await connect({ rekeyAfterMs: 30000 });
+
+      jest.advanceTimersByTime(60000);
+      expect(wire.map((msg) => msg.type)).toContain(MessageType.NOISE_REKEY);
+
+      await deliver();
+      send(managers[0], 'a1');
+      await deliver();
+      expect(received).toEqual(['a1']);
+    });
+
+    it('should re-handshake before the send nonce is exhausted', async () => {
+      const { alice, bob, send } = await connect({ rekeyAfterMessages: 100, nonceLimit: 3n });
+      const closed: string[] = [];
+      alice.on('sessionClosed', (event) => closed.push(event.peerID));
+
+      send(alice, 'a1');
+      send(alice, 'a2');
+      send(alice, 'a3');
+      expect(() => send(alice, 'a4')).toThrow('nonce exhausted');
+
+      expect(closed).toEqual(['bob-peer-id']);
+      expect(alice.hasSession('bob-peer-id')).toBe(false);
+      expect(wire[wire.length - 1].type).toBe(MessageType.NOISE_HANDSHAKE_INIT);
+
+      await deliver();
+      send(alice, 'a4');
+      await deliver();
+
+      expect(received).toEqual(['a1', 'a2', 'a3', 'a4']);
+      expect(bob.hasSession('alice-peer-id')).toBe(true);
+    });
+
+    it('should re-handshake when a peer never rekeys', async () => {
+      const { alice, bob, send } = await connect({ rekeyAfterMessages: 100 }, { nonceLimit: 2n });
+
+      send(alice, 'a1');
+      send(alice, 'a2');
+      send(alice, 'a3');
+      await expect(deliver()).rejects.toThrow('nonce exhausted');
+
+      expect(bob.hasSession('alice-peer-id')).toBe(false);
+      await deliver();
+      send(alice, 'a4');
+      await deliver();
+
+      expect(received).toEqual(['a1', 'a2', 'a4']);
+      expect(alice.hasSession('bob-peer-id')).toBe(true);
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,61 @@
+import { ReplayWindow } from '../../../src/main/crypto/ReplayWindow';
+
+describe('ReplayWindow', () => {
+  let window: ReplayWindow;
+
+  beforeEach(() => {
+    window = new ReplayWindow(8);
+  });
+
+  it('should accept each nonce once', () => {
+    expect(window.check(0n)).toBe(true);
+    window.accept(0n);
+
+    expect(window.check(0n)).toBe(false);
+    expect(window.check(1n)).toBe(true);
+  });
+
+  it('should accept nonces out of order within the window', () => {
+    window.accept(5n);
+
+    expect(window.check(3n)).toBe(true);
+    window.accept(3n);
+    expect(window.check(3n)).toBe(false);
+    expect(window.check(4n)).toBe(true);
+  });
+
+  it('should remember nonces as the window slides', () => {
+    window.accept(1n);
+    window.accept(4n);
+    window.accept(7n);
+
+    expect(window.check(1n)).toBe(false);
+    expect(window.check(4n)).toBe(false);
+    expect(window.check(2n)).toBe(true);
+  });
+
+  it('should reject nonces older than the window', () => {
+    window.accept(10n);
+
+    expect(window.check(3n)).toBe(true);
+    expect(window.check(2n)).toBe(false);
+  });
+
+  it('should forget everything after a large jump', () => {
+    window.accept(1n);
+    window.accept(100n);
+
+    expect(window.check(99n)).toBe(true);
+    expect(window.check(100n)).toBe(false);
+    expect(window.check(1n)).toBe(false);
+  });
+
+  it('should copy and reset its state', () => {
+    window.accept(2n);
+    const copy = window.clone();
+    window.reset();
+
+    expect(window.check(2n)).toBe(true);
+    expect(copy.check(2n)).toBe(false);
+  });
+});
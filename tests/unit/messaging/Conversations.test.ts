@@ -0,0 +1,132 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Conversations } from '../../../src/main/messaging/Conversations';
+import { MessageStore, PUBLIC_CONVERSATION } from '../../../src/main/storage/MessageStore';
+import { SecretStore } from '../../../src/main/storage/SecretStore';
+import { PeerRegistry } from '../../../src/main/transport/PeerRegistry';
+import { KeyManager } from '../../../src/main/crypto/KeyManager';
+import { BitchatMessage, DeliveryStatus } from '../../../src/shared/types';
+
+const mockKeychain: Map<string, string> = new Map();
+
+// Mock keytar with an in-memory keychain
+jest.mock('keytar', () => ({
+  getPassword: jest.fn(async (service: string, account: string) =>
+    mockKeychain.get(`${service}/${account}`) ?? null),
+  setPassword: jest.fn(async (service: string, account: string, password: string) => {
+    mockKeychain.set(`${service}/${account}`, password);
+  }),
+  deletePassword: jest.fn(async (service: string, account: string) =>
+    mockKeychain.delete(`${service}/${account}`)),
+  findCredentials: jest.fn(async () => [])
+}));
+
+describe('Conversations', () => {
+  const bobID = '2222222222222222';
+  const bobNewID = '2222222222223333';
+  const bobKey = KeyManager.generateCurve25519KeyPair().publicKey;
+  const bobFingerprint = KeyManager.generateFingerprint(bobKey);
+  let directory: string;
+  let store: MessageStore;
+  let registry: PeerRegistry;
+  let conversations: Conversations;
+
+  const createMessage = (id: string, senderPeerID: string = bobID): BitchatMessage => ({
+    id,
+    sender: 'bob',
+    content: `Message ${id}`,
+    timestamp: new Date(1700000000000 + Number(id) * 1000),
+    isRelay: false,
+    isPrivate: true,
+    senderPeerID
+  });
+
+  const messageIds = async (id: string): Promise<string[]> =>
+    (await conversations.getMessages(id)).messages.map((message) => message.id);
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'bitchat-conversations-'));
+    mockKeychain.clear();
+    store = new MessageStore({ directory, secretStore: new SecretStore({ directory }) });
+    await store.open();
+    registry = new PeerRegistry();
+    conversations = new Conversations({ store, getPeer: (id) => registry.get(id) });
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  describe('Peer ID rotation', () => {
+    beforeEach(async () => {
+      registry.identify(bobID, bobKey);
+      await conversations.addMessage(bobID, createMessage('1'), true);
+    });
+
+    it('should continue the history under the new ID', async () => {
+      registry.identify(bobNewID, bobKey);
+      await conversations.addMessage(bobNewID, createMessage('2', bobNewID), true);
+
+      expect(await messageIds(bobNewID)).toEqual(['1', '2']);
+      expect(await messageIds(bobID)).toEqual(['1', '2']);
+      expect(store.getConversationIds()).toEqual([bobFingerprint]);
+    });
+
+    it('should report unread counts by the ID the peer uses now', async () => {
+      registry.identify(bobNewID, bobKey);
+      await conversations.addMessage(bobNewID, createMessage('2', bobNewID), true);
+
+      expect(conversations.getUnreadCounts()).toEqual({ [bobNewID]: 2 });
+
+      await conversations.markAsRead(bobNewID);
+
+      expect(conversations.getUnreadCounts()).toEqual({});
+    });
+
+    it('should update messages stored under an earlier ID', async () => {
+      registry.identify(bobNewID, bobKey);
+
+      expect(await conversations.updateDeliveryStatus(bobNewID, '1', DeliveryStatus.READ)).toBe(true);
+      expect((await conversations.getMessage(bobID, '1'))?.deliveryStatus).toBe(DeliveryStatus.READ);
+    });
+
+    it('should send to the ID the peer uses now', () => {
+      registry.identify(bobNewID, bobKey);
+
+      expect(conversations.getPeerID(bobID)).toBe(bobNewID);
+      expect(conversations.getPeerID(bobFingerprint)).toBe(bobNewID);
+    });
+  });
+
+  describe('Unidentified peers', () => {
+    it('should file chats by peer ID until the peer proves its key', async () => {
+      await conversations.addMessage(bobID, createMessage('2'), true);
+
+      expect(store.getConversationIds()).toEqual([bobID]);
+      expect(conversations.getUnreadCounts()).toEqual({ [bobID]: 1 });
+    });
+
+    it('should move them to the peer\'s fingerprint when it does', async () => {
+      registry.identify(bobID, bobKey);
+      await conversations.addMessage(bobID, createMessage('1'), true);
+      // Written to the new ID before the peer handshook from it
+      await conversations.addMessage(bobNewID, createMessage('2', bobNewID), true);
+
+      registry.identify(bobNewID, bobKey);
+      await conversations.adopt(bobNewID);
+
+      expect(await messageIds(bobNewID)).toEqual(['1', '2']);
+      expect(store.getConversationIds()).toEqual([bobFingerprint]);
+      expect(conversations.getUnreadCounts()).toEqual({ [bobNewID]: 2 });
+    });
+  });
+
+  it('should use the public channel as it is', async () => {
+    await conversations.addMessage(PUBLIC_CONVERSATION, { ...createMessage('1'), isPrivate: false }, true);
+
+    expect(store.getConversationIds()).toEqual([PUBLIC_CONVERSATION]);
+    expect(conversations.getUnreadCounts()).toEqual({ [PUBLIC_CONVERSATION]: 1 });
+  });
+});
@@ -0,0 +1,147 @@
+import { DeliveryTracker, DeliveryStatusChange } from '../../../src/main/messaging/DeliveryTracker';
+import { DeliveryStatus } from '../../../src/shared/types';
+
+describe('DeliveryTracker', () => {
+  const bob = '2222222222222222';
+  const carol = '3333333333333333';
+  let tracker: DeliveryTracker;
+  let changes: DeliveryStatusChange[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    tracker = new DeliveryTracker({ ackTimeout: 1000, maxStatusRequests: 2 });
+    changes = [];
+    tracker.on('statusChanged', (change) => changes.push(change));
+  });
+
+  afterEach(() => {
+    tracker.destroy();
+    jest.useRealTimers();
+  });
+
+  describe('Transitions', () => {
+    it('should move a message through sent, delivered and read', () => {
+      const deliveredAt = new Date(1700000000000);
+      tracker.track('msg-1', bob);
+
+      expect(tracker.getStatus('msg-1')).toBe(DeliveryStatus.PENDING);
+      expect(tracker.markSent('msg-1')).toBe(true);
+      expect(tracker.markDelivered('msg-1', bob, deliveredAt)).toBe(true);
+      expect(tracker.markRead('msg-1', bob)).toBe(true);
+
+      expect(changes.map((change) => [change.previousStatus, change.status])).toEqual([
+        [DeliveryStatus.PENDING, DeliveryStatus.SENT],
+        [DeliveryStatus.SENT, DeliveryStatus.DELIVERED],
+        [DeliveryStatus.DELIVERED, DeliveryStatus.READ]
+      ]);
+      expect(changes[1].timestamp).toBe(deliveredAt);
+      expect(changes[1].peerID).toBe(bob);
+    });
+
+    it('should never move backwards', () => {
+      tracker.track('msg-1', bob);
+      tracker.markSent('msg-1');
+      tracker.markDelivered('msg-1', bob);
+
+      expect(tracker.markDelivered('msg-1', bob)).toBe(false);
+      expect(tracker.markFailed('msg-1')).toBe(false);
+      expect(tracker.getStatus('msg-1')).toBe(DeliveryStatus.DELIVERED);
+    });
+
+    it('should go straight to read when the ACK was lost', () => {
+      tracker.track('msg-1', bob);
+      tracker.markSent('msg-1');
+
+      expect(tracker.markRead('msg-1', bob)).toBe(true);
+      expect(changes[changes.length - 1].status).toBe(DeliveryStatus.READ);
+    });
+
+    it('should ignore receipts from other peers', () => {
+      tracker.track('msg-1', bob);
+      tracker.markSent('msg-1');
+
+      expect(tracker.markDelivered('msg-1', carol)).toBe(false);
+      expect(tracker.getStatus('msg-1')).toBe(DeliveryStatus.SENT);
+    });
+
+    it('should accept receipts from the same peer under a new ID', () => {
+      const bobNewID = '2222222222223333';
+      tracker = new DeliveryTracker({ isSamePeer: (tracked, peerID) => tracked === bob && peerID === bobNewID });
+      tracker.on('statusChanged', (change) => changes.push(change));
+      tracker.track('msg-1', bob);
+      tracker.markSent('msg-1');
+
+      expect(tracker.markDelivered('msg-1', bobNewID)).toBe(true);
+      expect(tracker.markRead('msg-1', carol)).toBe(false);
+      expect(changes[changes.length - 1]).toMatchObject({ peerID: bob, status: DeliveryStatus.DELIVERED });
+    });
+
+    it('should accept receipts for messages sent before a restart', () => {
+      expect(tracker.markDelivered('msg-old', bob)).toBe(true);
+      expect(changes[0]).toMatchObject({ messageId: 'msg-old', peerID: bob, status: DeliveryStatus.DELIVERED });
+    });
+
+    it('should mark messages that could not be sent as failed', () => {
+      tracker.track('msg-1', bob);
+
+      expect(tracker.markFailed('msg-1')).toBe(true);
+      expect(tracker.getStatus('msg-1')).toBe(DeliveryStatus.FAILED);
+    });
+  });
+
+  describe('Timeouts', () => {
+    it('should request the status of unacknowledged messages and then fail them', () => {
+      const requests: any[] = [];
+      tracker.on('statusRequest', (request) => requests.push(request));
+      tracker.track('msg-1', bob);
+      tracker.markSent('msg-1');
+
+      jest.advanceTimersByTime(1000);
+      jest.advanceTimersByTime(1000);
+      expect(requests).toEqual([
+        { messageId: 'msg-1', peerID: bob, attempt: 1 },
+        { messageId: 'msg-1', peerID: bob, attempt: 2 }
+      ]);
+      expect(tracker.getStatus('msg-1')).toBe(DeliveryStatus.SENT);
+
+      jest.advanceTimersByTime(1000);
+      expect(tracker.getStatus('msg-1')).toBe(DeliveryStatus.FAILED);
+    });
+
+    it('should stop waiting once the message is delivered', () => {
+      const requests: any[] = [];
+      tracker.on('statusRequest', (request) => requests.push(request));
+      tracker.track('msg-1', bob);
+      tracker.markSent('msg-1');
+      tracker.markDelivered('msg-1', bob);
+
+      jest.advanceTimersByTime(10000);
+
+      expect(requests).toHaveLength(0);
+      expect(tracker.getStatus('msg-1')).toBe(DeliveryStatus.DELIVERED);
+    });
+
+    it('should let a late ACK override a failure', () => {
+      tracker.track('msg-1', bob);
+      tracker.markSent('msg-1');
+      jest.advanceTimersByTime(3000);
+
+      expect(tracker.getStatus('msg-1')).toBe(DeliveryStatus.FAILED);
+      expect(tracker.markDelivered('msg-1', bob)).toBe(true);
+      expect(tracker.getStatus('msg-1')).toBe(DeliveryStatus.DELIVERED);
+    });
+  });
+
+  describe('Limits', () => {
+    it('should forget the oldest messages beyond the limit', () => {
+      const small = new DeliveryTracker({ maxTracked: 2 });
+      small.track('msg-1', bob);
+      small.track('msg-2', bob);
+      small.track('msg-3', bob);
+
+      expect(small.getStatus('msg-1')).toBeUndefined();
+      expect(small.getStatus('msg-3')).toBe(DeliveryStatus.PENDING);
+      small.destroy();
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import { Outbox, OutboxSender } from '../../../src/main/messaging/Outbox';
+import { OutboxEntry, OutboxStore } from '../../../src/main/storage/OutboxStore';
+import { BitchatMessage } from '../../../src/shared/types';
+
+describe('Outbox', () => {
+  const bob = '2222222222222222';
+  const carol = '3333333333333333';
+  let reachable: Set<string>;
+  let sent: Array<[string, string]>;
+  let send: jest.MockedFunction<OutboxSender>;
+  let outbox: Outbox;
+
+  const createMessage = (id: string): BitchatMessage => ({
+    id,
+    sender: 'alice',
+    content: `Message ${id}`,
+    timestamp: new Date(1700000000000),
+    isRelay: false,
+    isPrivate: true
+  });
+
+  const createStore = (entries: OutboxEntry[] = []) => ({
+    load: jest.fn(async () => entries),
+    save: jest.fn(async (_entries: OutboxEntry[]) => undefined)
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    reachable = new Set();
+    sent = [];
+    send = jest.fn(async (message: BitchatMessage, recipientId: string) => {
+      if (!reachable.has(recipientId)) {
+        return false;
+      }
+      sent.push([message.id, recipientId]);
+      return true;
+    });
+    outbox = new Outbox({ send, initialRetryDelay: 1000, maxRetryDelay: 4000, deadline: 60000 });
+  });
+
+  afterEach(() => {
+    outbox.destroy();
+    jest.useRealTimers();
+  });
+
+  describe('Sending', () => {
+    it('should send straight away when the peer is reachable', async () => {
+      const events: OutboxEntry[] = [];
+      outbox.on('sent', (entry) => events.push(entry));
+      reachable.add(bob);
+
+      expect(await outbox.enqueue(createMessage('1'), bob)).toBe(true);
+
+      expect(sent).toEqual([['1', bob]]);
+      expect(events.map((entry) => entry.message.id)).toEqual(['1']);
+      expect(outbox.list()).toEqual([]);
+    });
+
+    it('should queue messages for unreachable peers', async () => {
+      expect(await outbox.enqueue(createMessage('1'), bob)).toBe(false);
+
+      expect(outbox.has('1')).toBe(true);
+      expect(outbox.list()[0]).toMatchObject({ recipientId: bob, attempts: 1 });
+    });
+
+    it('should treat a throwing transport as unreachable', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      send.mockRejectedValueOnce(new Error('radio off'));
+
+      expect(await outbox.enqueue(createMessage('1'), bob)).toBe(false);
+      expect(outbox.has('1')).toBe(true);
+    });
+  });
+
+  describe('Retries', () => {
+    it('should back off exponentially up to the maximum', async () => {
+      await outbox.enqueue(createMessage('1'), bob);
+      const attemptsAfter = async (ms: number) => {
+        await jest.advanceTimersByTimeAsync(ms);
+        return send.mock.calls.length;
+      };
+
+      expect(await attemptsAfter(999)).toBe(1);
+      expect(await attemptsAfter(1)).toBe(2);
+      expect(await attemptsAfter(2000)).toBe(3);
+      expect(await attemptsAfter(4000)).toBe(4);
+      expect(await attemptsAfter(4000)).toBe(5);
+    });
+
+    it('should send once the peer becomes reachable', async () => {
+      await outbox.enqueue(createMessage('1'), bob);
+      reachable.add(bob);
+
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(sent).toEqual([['1', bob]]);
+      expect(outbox.has('1')).toBe(false);
+    });
+
+    it('should try immediately when the peer reappears', async () => {
+      await outbox.enqueue(createMessage('1'), bob);
+      await outbox.enqueue(createMessage('2'), carol);
+      reachable.add(bob);
+
+      await outbox.flush(bob);
+
+      expect(sent).toEqual([['1', bob]]);
+      expect(outbox.has('2')).toBe(true);
+    });
+
+    it('should keep the order of messages to the same peer', async () => {
+      await outbox.enqueue(createMessage('1'), bob);
+      await outbox.enqueue(createMessage('2'), bob);
+      reachable.add(bob);
+
+      await outbox.enqueue(createMessage('3'), bob);
+
+      expect(sent.map(([id]) => id)).toEqual(['1', '2', '3']);
+    });
+
+    it('should not try later messages once a peer fails', async () => {
+      await outbox.enqueue(createMessage('1'), bob);
+      send.mockClear();
+
+      await outbox.enqueue(createMessage('2'), bob);
+
+      expect(send.mock.calls.map(([message]) => message.id)).toEqual(['1']);
+    });
+  });
+
+  describe('Deadlines and cancelling', () => {
+    it('should give up on messages after the deadline', async () => {
+      const expired: OutboxEntry[] = [];
+      outbox.on('expired', (entry) => expired.push(entry));
+      await outbox.enqueue(createMessage('1'), bob);
+
+      await jest.advanceTimersByTimeAsync(60000);
+
+      expect(expired.map((entry) => entry.message.id)).toEqual(['1']);
+      expect(outbox.list()).toEqual([]);
+    });
+
+    it('should cancel queued messages', async () => {
+      await outbox.enqueue(createMessage('1'), bob);
+
+      expect((await outbox.cancel('1'))?.message.id).toBe('1');
+      expect(await outbox.cancel('1')).toBeUndefined();
+
+      reachable.add(bob);
+      await jest.advanceTimersByTimeAsync(10000);
+      expect(sent).toEqual([]);
+    });
+
+    it('should report every change', async () => {
+      const changes: OutboxEntry[][] = [];
+      outbox.on('changed', (entries) => changes.push(entries));
+
+      await outbox.enqueue(createMessage('1'), bob);
+      await outbox.cancel('1');
+
+      expect(changes.length).toBeGreaterThan(1);
+      expect(changes[changes.length - 1]).toEqual([]);
+    });
+  });
+
+  describe('Persistence', () => {
+    it('should save the queue on every change', async () => {
+      const store = createStore();
+      outbox = new Outbox({ send, store: store as unknown as OutboxStore, initialRetryDelay: 1000 });
+
+      await outbox.enqueue(createMessage('1'), bob);
+
+      const saved = store.save.mock.calls[store.save.mock.calls.length - 1][0];
+      expect(saved.map((entry) => entry.message.id)).toEqual(['1']);
+    });
+
+    it('should resume retrying messages queued before a restart', async () => {
+      const store = createStore([{
+        message: createMessage('1'),
+        recipientId: bob,
+        attempts: 3,
+        queuedAt: Date.now() - 10000,
+        nextAttemptAt: Date.now() + 500,
+        expiresAt: Date.now() + 60000
+      }]);
+      outbox = new Outbox({ send, store: store as unknown as OutboxStore });
+      reachable.add(bob);
+
+      await outbox.load();
+      expect(outbox.has('1')).toBe(true);
+
+      await jest.advanceTimersByTimeAsync(500);
+      expect(sent).toEqual([['1', bob]]);
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { BinaryProtocol } from '../../../src/main/protocols/BinaryProtocol';
+import { ProtocolError } from '../../../src/main/protocols/ProtocolError';
 import { BitchatPacket, MessageFragment } from '../../../src/shared/types';
-import { MessageType, PacketFlags, PROTOCOL_VERSION, BLE_MTU } from '../../../src/shared/constants';
+import { ErrorCodes, MessageType, PacketFlags, PROTOCOL_VERSION, BLE_MTU } from '../../../src/shared/constants';
 
 describe('BinaryProtocol', () => {
   describe('encode/decode', () => {
@@ -122,6 +123,61 @@ describe('BinaryProtocol', () => {
 
       expect(() => BinaryProtocol.decode(truncated)).toThrow(/Invalid packet/);
     });
+
+    const basicPacket = (): BitchatPacket => ({
+      version: PROTOCOL_VERSION,
+      type: MessageType.MESSAGE,
+      ttl: 7,
+      timestamp: 1733251200000,
+      flags: 0,
+      senderID: Buffer.from('1234567890ABCDEF', 'hex'),
+      payload: Buffer.from('Hello', 'utf8'),
+      isCompressed: false
+    });
+
+    const expectMalformedAt = (data: Buffer, offset: number) => {
+      try {
+        BinaryProtocol.decode(data);
+        fail('Expected ProtocolError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ProtocolError);
+        expect((error as ProtocolError).code).toBe(ErrorCodes.MALFORMED_PACKET);
+        expect((error as ProtocolError).details?.offset).toBe(offset);
+      }
+    };
+
+    it('should encode a 14 byte header with nothing after the payload', () => {
+      const encoded = BinaryProtocol.encode(basicPacket());
+
+      expect(encoded.length).toBe(14 + 8 + 5);
+      expect(encoded.slice(22).toString('utf8')).toBe('Hello');
+    });
+
+    it('should reject trailing bytes', () => {
+      const encoded = BinaryProtocol.encode(basicPacket());
+
+      expectMalformedAt(Buffer.concat([encoded, Buffer.from([0x00])]), encoded.length);
+    });
+
+    it('should reject unknown flags', () => {
+      const encoded = BinaryProtocol.encode(basicPacket());
+      encoded.writeUInt8(0x80, 11);
+
+      expectMalformedAt(encoded, 11);
+    });
+
+    it('should reject a payload that runs past the end', () => {
+      const encoded = BinaryProtocol.encode(basicPacket());
+
+      expectMalformedAt(encoded.slice(0, encoded.length - 1), 22);
+    });
+
+    it('should reject timestamps beyond the safe integer range', () => {
+      const encoded = BinaryProtocol.encode(basicPacket());
+      encoded.writeBigUInt64BE(BigInt(Number.MAX_SAFE_INTEGER) + 1n, 3);
+
+      expectMalformedAt(encoded, 3);
+    });
   });
 
   describe('fragmentMessage', () => {
@@ -310,5 +366,17 @@ describe('BinaryProtocol', () => {
       const tooSmall = Buffer.alloc(10);
       expect(() => BinaryProtocol.parseFragment(tooSmall)).toThrow(/too small/);
     });
+
+    it('should throw on a fragment index outside the fragment count', () => {
+      const payload = Buffer.alloc(13);
+      payload.writeUInt16BE(3, 8);
+      payload.writeUInt16BE(3, 10);
+
+      expect(() => BinaryProtocol.parseFragment(payload)).toThrow(ProtocolError);
+
+      payload.writeUInt16BE(0, 8);
+      payload.writeUInt16BE(0, 10);
+      expect(() => BinaryProtocol.parseFragment(payload)).toThrow(ProtocolError);
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,866 @@
+import { deflateRawSync } from 'zlib';
+import { BitchatProtocol, MAX_RECEIPT_IDS } from '../../../src/main/protocols/BitchatProtocol';
+import { BinaryProtocol } from '../../../src/main/protocols/BinaryProtocol';
+import { ProtocolError } from '../../../src/main/protocols/ProtocolError';
+import { KeyManager } from '../../../src/main/crypto/KeyManager';
+import { BitchatMessage, KeyPair } from '../../../src/shared/types';
+import { BROADCAST_ID, ErrorCodes, MessageType, MAX_TTL, STANDARD_BLOCK_SIZES } from '../../../src/shared/constants';
+
+describe('BitchatProtocol', () => {
+  let aliceID: Buffer;
+  let bobID: Buffer;
+  let aliceSigning: KeyPair;
+  let bobSigning: KeyPair;
+  let alice: BitchatProtocol;
+  let bob: BitchatProtocol;
+
+  // Stands in for a Noise session's encryption
+  const xor = (payload: Buffer) => Buffer.from(payload.map((byte) => byte ^ 0x42));
+
+  // Bob with a session with every peer
+  const createReceiver = () =>
+    new BitchatProtocol(bobID, bobSigning, { decryptPayload: (_senderID, payload) => xor(payload) });
+
+  const createMessage = (content: string): BitchatMessage => ({
+    id: 'msg-1',
+    sender: 'alice',
+    content,
+    timestamp: new Date(),
+    isRelay: false,
+    isPrivate: false
+  });
+
+  // An announce as other clients send it:
+  // [nickname length][nickname][Noise public key][Ed25519 public key]
+  const createAnnounce = (protocol: BitchatProtocol, nickname: string, noiseKey: Buffer, signingKey?: Buffer) =>
+    protocol.createPacket(
+      MessageType.ANNOUNCE,
+      Buffer.concat([Buffer.from([nickname.length]), Buffer.from(nickname), noiseKey, signingKey ?? Buffer.alloc(0)]),
+      BROADCAST_ID
+    );
+
+  const expectInvalidSignature = (fn: () => void) => {
+    try {
+      fn();
+      fail('Expected ProtocolError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ProtocolError);
+      expect((error as ProtocolError).code).toBe(ErrorCodes.INVALID_SIGNATURE);
+    }
+  };
+
+  beforeEach(() => {
+    aliceID = Buffer.from('1111111111111111', 'hex');
+    bobID = Buffer.from('2222222222222222', 'hex');
+    aliceSigning = KeyManager.generateEd25519KeyPair();
+    bobSigning = KeyManager.generateEd25519KeyPair();
+    alice = new BitchatProtocol(aliceID, aliceSigning);
+    bob = new BitchatProtocol(bobID, bobSigning);
+  });
+
+  describe('Packet Signing', () => {
+    it('should sign created packets with the identity signing key', () => {
+      const packet = alice.createMessagePacket(createMessage('Hello'));
+
+      expect(packet.signature).toBeDefined();
+      expect(packet.signature!.length).toBe(64);
+      expect(KeyManager.verify(
+        BinaryProtocol.encodeForSigning(packet),
+        packet.signature!,
+        aliceSigning.publicKey
+      )).toBe(true);
+    });
+
+    it('should not sign packets without an identity', () => {
+      const anonymous = new BitchatProtocol(aliceID);
+      const packet = anonymous.createPacket(MessageType.MESSAGE, Buffer.from('hi'));
+
+      expect(packet.signature).toBeUndefined();
+    });
+
+    it('should keep signatures valid when TTL is decremented', () => {
+      const packet = alice.createMessagePacket(createMessage('Relay me'));
+      bob.registerPeerSigningKey(aliceID.toString('hex'), aliceSigning.publicKey);
+
+      expect(() => bob.verifyPacket({ ...packet, ttl: packet.ttl - 3 })).not.toThrow();
+    });
+
+    it('should survive an encode/decode round trip', () => {
+      const packet = alice.createMessagePacket(createMessage('Over the wire'));
+      const decoded = BinaryProtocol.decode(BinaryProtocol.encode(packet));
+      bob.registerPeerSigningKey(aliceID.toString('hex'), aliceSigning.publicKey);
+
+      expect(() => bob.verifyPacket(decoded)).not.toThrow();
+    });
+  });
+
+  describe('Signature Verification', () => {
+    it('should not trust the signing key an announce carries', async () => {
+      const noiseKey = KeyManager.generateCurve25519KeyPair().publicKey;
+      const mallorySigning = KeyManager.generateEd25519KeyPair();
+      const mallory = new BitchatProtocol(aliceID, mallorySigning);
+      const messages: any[] = [];
+      bob.on('message', (event) => messages.push(event));
+
+      await bob.processPacket(createAnnounce(mallory, 'alice', noiseKey, mallorySigning.publicKey), 'link-1');
+      await bob.processPacket(alice.createMessagePacket(createMessage('Still me')), 'link-1');
+
+      expect(bob.getPeerSigningKey(aliceID.toString('hex'))).toBeUndefined();
+      expect(messages).toHaveLength(1);
+    });
+
+    it('should parse announce payloads with and without a signing key', () => {
+      const noiseKey = KeyManager.generateCurve25519KeyPair().publicKey;
+      const signed = BitchatProtocol.parseAnnouncePayload(
+        createAnnounce(alice, 'alice', noiseKey, aliceSigning.publicKey).payload
+      );
+      const unsigned = BitchatProtocol.parseAnnouncePayload(
+        createAnnounce(new BitchatProtocol(aliceID), 'alice', noiseKey).payload
+      );
+
+      expect(signed.nickname).toBe('alice');
+      expect(signed.publicKey).toEqual(noiseKey);
+      expect(signed.signingPublicKey).toEqual(aliceSigning.publicKey);
+      expect(unsigned.signingPublicKey).toBeUndefined();
+    });
+
+    it('should reject announces not signed by the key they carry', () => {
+      const announce = createAnnounce(
+        alice,
+        'alice',
+        KeyManager.generateCurve25519KeyPair().publicKey,
+        aliceSigning.publicKey
+      );
+      announce.signature = KeyManager.sign(
+        BinaryProtocol.encodeForSigning(announce),
+        bobSigning.privateKey
+      );
+
+      expectInvalidSignature(() => bob.verifyPacket(announce));
+    });
+
+    it('should reject unsigned packets from known peers', () => {
+      bob.registerPeerSigningKey(aliceID.toString('hex'), aliceSigning.publicKey);
+      const packet = new BitchatProtocol(aliceID).createPacket(
+        MessageType.MESSAGE,
+        Buffer.from('spoofed')
+      );
+
+      expectInvalidSignature(() => bob.verifyPacket(packet));
+    });
+
+    it('should reject tampered packets from known peers', () => {
+      bob.registerPeerSigningKey(aliceID.toString('hex'), aliceSigning.publicKey);
+      const packet = alice.createMessagePacket(createMessage('Original'));
+      const tampered = { ...packet, payload: Buffer.from(packet.payload) };
+      tampered.payload[4] ^= 0xFF;
+
+      expectInvalidSignature(() => bob.verifyPacket(tampered));
+    });
+
+    it('should reject packets spoofing a known sender ID', () => {
+      bob.registerPeerSigningKey(aliceID.toString('hex'), aliceSigning.publicKey);
+      const mallorySigning = KeyManager.generateEd25519KeyPair();
+      const mallory = new BitchatProtocol(aliceID, mallorySigning);
+      const spoofed = createAnnounce(
+        mallory,
+        'alice',
+        KeyManager.generateCurve25519KeyPair().publicKey,
+        mallorySigning.publicKey
+      );
+
+      expectInvalidSignature(() => bob.verifyPacket(spoofed));
+    });
+
+    it('should accept unsigned packets from unknown peers', () => {
+      const packet = new BitchatProtocol(aliceID).createPacket(
+        MessageType.MESSAGE,
+        Buffer.from('legacy')
+      );
+
+      expect(() => bob.verifyPacket(packet)).not.toThrow();
+    });
+
+    it('should report badly signed packets as protocol errors', async () => {
+      bob.registerPeerSigningKey(aliceID.toString('hex'), aliceSigning.publicKey);
+      const packet = alice.createMessagePacket(createMessage('Hello'));
+      packet.signature = Buffer.alloc(64);
+      const errors: any[] = [];
+      const messages: any[] = [];
+      bob.on('protocolError', (event) => errors.push(event));
+      bob.on('message', (event) => messages.push(event));
+
+      await bob.processPacket(packet, 'link-1');
+
+      expect(messages).toHaveLength(0);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].error.code).toBe(ErrorCodes.INVALID_SIGNATURE);
+      expect(errors[0].fromPeer).toBe('link-1');
+    });
+  });
+
+  describe('Events', () => {
+    it('should emit decoded broadcast messages', async () => {
+      const events: any[] = [];
+      bob.on('message', (event) => events.push(event));
+
+      await bob.processPacket(alice.createMessagePacket(createMessage('Hello mesh')), 'link-1');
+
+      expect(events).toHaveLength(1);
+      expect(events[0].message.content).toBe('Hello mesh');
+      expect(events[0].message.sender).toBe('alice');
+      expect(events[0].senderID).toBe(aliceID.toString('hex'));
+      expect(events[0].fromPeer).toBe('link-1');
+      expect(events[0].isEncrypted).toBe(false);
+    });
+
+    it('should drop packets in protocol versions we do not support', async () => {
+      const events: any[] = [];
+      bob.on('message', (event) => events.push(event));
+
+      const packet = alice.createMessagePacket(createMessage('From the future'));
+      await bob.processPacket({ ...packet, version: 2 }, 'link-1');
+
+      expect(events).toEqual([]);
+    });
+
+    it('should decrypt private messages addressed to us', async () => {
+      const decryptPayload = jest.fn((_senderID: string, payload: Buffer) =>
+        Buffer.from(payload.map((byte) => byte ^ 0x42))
+      );
+      const receiver = new BitchatProtocol(bobID, bobSigning, { decryptPayload });
+      const events: any[] = [];
+      receiver.on('message', (event) => events.push(event));
+
+      const plaintext = alice.encodeMessagePayload({ ...createMessage('Secret'), isPrivate: true });
+      const ciphertext = Buffer.from(plaintext.map((byte) => byte ^ 0x42));
+      await receiver.processPacket(
+        alice.createPacket(MessageType.MESSAGE, ciphertext, bobID),
+        'link-1'
+      );
+
+      expect(decryptPayload).toHaveBeenCalledWith(aliceID.toString('hex'), ciphertext);
+      expect(events).toHaveLength(1);
+      expect(events[0].message.content).toBe('Secret');
+      expect(events[0].isEncrypted).toBe(true);
+    });
+
+    it('should report decryption failures', async () => {
+      const receiver = new BitchatProtocol(bobID, bobSigning, {
+        decryptPayload: () => {
+          throw new Error('bad tag');
+        }
+      });
+      const errors: any[] = [];
+      receiver.on('protocolError', (event) => errors.push(event));
+
+      await receiver.processPacket(
+        alice.createPacket(MessageType.MESSAGE, Buffer.alloc(64), bobID),
+        'link-1'
+      );
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0].error.code).toBe(ErrorCodes.DECRYPTION_FAILED);
+    });
+
+    it('should emit peerAnnounced and peerLeft', async () => {
+      const noiseKey = KeyManager.generateCurve25519KeyPair().publicKey;
+      const announced: any[] = [];
+      const left: any[] = [];
+      bob.on('peerAnnounced', (event) => announced.push(event));
+      bob.on('peerLeft', (event) => left.push(event));
+
+      await bob.processPacket(createAnnounce(alice, 'alice', noiseKey, aliceSigning.publicKey), 'link-1');
+      await bob.processPacket(alice.createPacket(MessageType.LEAVE, Buffer.alloc(0), BROADCAST_ID), 'link-1');
+
+      expect(announced).toHaveLength(1);
+      expect(announced[0].peerID).toBe(aliceID.toString('hex'));
+      expect(announced[0].nickname).toBe('alice');
+      expect(announced[0].publicKey).toEqual(noiseKey);
+      expect(left).toEqual([{ peerID: aliceID.toString('hex'), fromPeer: 'link-1' }]);
+    });
+
+    it('should emit deliveryAck with the acknowledged message ID', async () => {
+      const receiver = createReceiver();
+      const acks: any[] = [];
+      const timestamp = new Date(1700000000000);
+      receiver.on('deliveryAck', (event) => acks.push(event));
+
+      await receiver.processPacket(
+        alice.createPacket(MessageType.DELIVERY_ACK, xor(alice.encodeReceiptPayload(['msg-1'], timestamp)), bobID),
+        'link-1'
+      );
+
+      expect(acks).toEqual([{
+        messageId: 'msg-1',
+        peerID: aliceID.toString('hex'),
+        fromPeer: 'link-1',
+        timestamp
+      }]);
+    });
+
+    it('should emit readReceipt once per message ID', async () => {
+      const receiver = createReceiver();
+      const receipts: any[] = [];
+      receiver.on('readReceipt', (event) => receipts.push(event));
+
+      await receiver.processPacket(
+        alice.createPacket(MessageType.READ_RECEIPT, xor(alice.encodeReceiptPayload(['msg-1', 'msg-2'])), bobID),
+        'link-1'
+      );
+
+      expect(receipts.map((event) => event.messageId)).toEqual(['msg-1', 'msg-2']);
+    });
+
+    it('should decrypt receipts addressed to us', async () => {
+      const decryptPayload = jest.fn((_senderID: string, payload: Buffer) => xor(payload));
+      const receiver = new BitchatProtocol(bobID, bobSigning, { decryptPayload });
+      const acks: any[] = [];
+      receiver.on('deliveryAck', (event) => acks.push(event));
+
+      const ciphertext = xor(alice.encodeReceiptPayload(['msg-1']));
+      await receiver.processPacket(alice.createPacket(MessageType.DELIVERY_ACK, ciphertext, bobID), 'link-1');
+
+      expect(acks).toHaveLength(1);
+      expect(acks[0].messageId).toBe('msg-1');
+    });
+
+    it('should emit deliveryStatusRequest for each requested message', async () => {
+      const receiver = createReceiver();
+      const requests: any[] = [];
+      receiver.on('deliveryStatusRequest', (event) => requests.push(event));
+
+      await receiver.processPacket(
+        alice.createPacket(MessageType.DELIVERY_STATUS_REQUEST, xor(alice.encodeReceiptPayload(['msg-1'])), bobID),
+        'link-1'
+      );
+
+      expect(requests).toEqual([{ messageId: 'msg-1', peerID: aliceID.toString('hex'), fromPeer: 'link-1' }]);
+    });
+
+    it('should ignore broadcast receipts', async () => {
+      const acks: any[] = [];
+      bob.on('deliveryAck', (event) => acks.push(event));
+
+      await bob.processPacket(alice.createPacket(MessageType.DELIVERY_ACK, alice.encodeReceiptPayload(['msg-1'])), 'link-1');
+
+      expect(acks).toHaveLength(0);
+    });
+
+    it('should drop private messages and receipts sent in the clear', async () => {
+      const messages: any[] = [];
+      const acks: any[] = [];
+      bob.on('message', (event) => messages.push(event));
+      bob.on('deliveryAck', (event) => acks.push(event));
+
+      const privateMessage = alice.encodeMessagePayload({ ...createMessage('Secret'), isPrivate: true });
+      await bob.processPacket(alice.createPacket(MessageType.MESSAGE, privateMessage, bobID), 'link-1');
+      await bob.processPacket(alice.createPacket(MessageType.MESSAGE, privateMessage), 'link-1');
+      await bob.processPacket(
+        alice.createPacket(MessageType.MESSAGE, alice.encodeMessagePayload(createMessage('Hi')), bobID),
+        'link-1'
+      );
+      await bob.processPacket(alice.createPacket(MessageType.DELIVERY_ACK, alice.encodeReceiptPayload(['msg-1']), bobID), 'link-1');
+
+      expect(messages).toEqual([]);
+      expect(acks).toEqual([]);
+    });
+
+    it('should drop fragmented private messages sent in the clear', async () => {
+      const messages: any[] = [];
+      bob.on('message', (event) => messages.push(event));
+
+      const packets = BinaryProtocol.fragmentMessage(
+        '0102030405060708',
+        alice.encodeMessagePayload(createMessage('x'.repeat(1500))),
+        (type, fragmentPayload) => alice.createPacket(type, fragmentPayload, bobID)
+      );
+      for (const packet of packets) {
+        await bob.processPacket(packet, 'link-1');
+      }
+
+      expect(packets.length).toBeGreaterThan(1);
+      expect(messages).toEqual([]);
+    });
+
+    it('should report malformed receipts', async () => {
+      const receiver = createReceiver();
+      const errors: any[] = [];
+      receiver.on('protocolError', (event) => errors.push(event));
+
+      await receiver.processPacket(alice.createPacket(MessageType.DELIVERY_ACK, Buffer.from('0102', 'hex'), bobID), 'link-1');
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0].error.code).toBe(ErrorCodes.MALFORMED_PACKET);
+    });
+
+    it('should emit relay with a decremented TTL for packets not addressed to us', async () => {
+      const carolID = Buffer.from('3333333333333333', 'hex');
+      const relays: any[] = [];
+      bob.on('relay', (event) => relays.push(event));
+
+      const packet = alice.createPacket(MessageType.MESSAGE, Buffer.alloc(32), carolID, 5);
+      await bob.processPacket(packet, 'link-1');
+
+      expect(relays).toHaveLength(1);
+      expect(relays[0].packet.ttl).toBe(4);
+      expect(relays[0].fromPeer).toBe('link-1');
+    });
+
+    it('should relay broadcasts after handling them', async () => {
+      const messages: any[] = [];
+      const relays: any[] = [];
+      bob.on('message', (event) => messages.push(event));
+      bob.on('relay', (event) => relays.push(event));
+
+      await bob.processPacket(alice.createMessagePacket(createMessage('Everyone')), 'link-1');
+
+      expect(messages).toHaveLength(1);
+      expect(relays).toHaveLength(1);
+      expect(relays[0].packet.ttl).toBe(MAX_TTL - 1);
+    });
+
+    it('should not relay packets with no TTL left or private packets for us', async () => {
+      const relays: any[] = [];
+      bob.on('relay', (event) => relays.push(event));
+
+      await bob.processPacket(alice.createPacket(MessageType.MESSAGE, Buffer.alloc(32), undefined, 0), 'link-1');
+      await bob.processPacket(alice.createPacket(MessageType.DELIVERY_ACK, alice.encodeReceiptPayload(['msg-1']), bobID), 'link-1');
+
+      expect(relays).toHaveLength(0);
+    });
+
+    it('should ignore our own packets echoed back by the mesh', async () => {
+      const messages: any[] = [];
+      const relays: any[] = [];
+      alice.on('message', (event) => messages.push(event));
+      alice.on('relay', (event) => relays.push(event));
+
+      await alice.processPacket(alice.createMessagePacket(createMessage('Echo')), 'link-1');
+
+      expect(messages).toHaveLength(0);
+      expect(relays).toHaveLength(0);
+    });
+
+    it('should reassemble fragmented messages and report progress', async () => {
+      const events: any[] = [];
+      const progress: any[] = [];
+      bob.on('message', (event) => events.push(event));
+      bob.on('fragmentProgress', (event) => progress.push(event));
+
+      const payload = alice.encodeMessagePayload(createMessage('x'.repeat(1500)));
+      const packets = BinaryProtocol.fragmentMessage(
+        '0102030405060708',
+        payload,
+        (type, fragmentPayload) => alice.createPacket(type, fragmentPayload)
+      );
+      expect(packets.length).toBeGreaterThan(1);
+
+      for (const packet of packets.reverse()) {
+        await bob.processPacket(packet, 'link-1');
+      }
+
+      expect(events).toHaveLength(1);
+      expect(events[0].message.content).toBe('x'.repeat(1500));
+      expect(progress).toHaveLength(packets.length);
+      expect(progress[progress.length - 1].receivedFragments).toBe(packets.length);
+    });
+
+    it('should report malformed payloads as protocol errors', async () => {
+      const errors: any[] = [];
+      bob.on('protocolError', (event) => errors.push(event));
+
+      await bob.processPacket(
+        alice.createPacket(MessageType.MESSAGE, Buffer.from([0x00])),
+        'link-1'
+      );
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0].error.code).toBe(ErrorCodes.MALFORMED_PACKET);
+    });
+  });
+
+  describe('Blocking', () => {
+    const carolID = Buffer.from('3333333333333333', 'hex');
+
+    const createBob = (options: { relayBlockedPeers?: boolean } = {}) => new BitchatProtocol(bobID, bobSigning, {
+      isBlocked: (senderID) => senderID === aliceID.toString('hex'),
+      ...options
+    });
+
+    it('should drop packets from blocked peers before handling them', async () => {
+      bob = createBob();
+      const messages: any[] = [];
+      const announcements: any[] = [];
+      bob.on('message', (event) => messages.push(event));
+      bob.on('peerAnnounced', (event) => announcements.push(event));
+
+      await bob.processPacket(alice.createMessagePacket(createMessage('Hello')), 'link-1');
+      await bob.processPacket(createAnnounce(alice, 'alice', KeyManager.generateCurve25519KeyPair().publicKey), 'link-1');
+
+      expect(messages).toHaveLength(0);
+      expect(announcements).toHaveLength(0);
+    });
+
+    it('should still relay blocked peers\' traffic by default', async () => {
+      bob = createBob();
+      const relays: any[] = [];
+      bob.on('relay', (event) => relays.push(event));
+
+      await bob.processPacket(alice.createPacket(MessageType.MESSAGE, Buffer.alloc(32), carolID, 5), 'link-1');
+
+      expect(relays).toHaveLength(1);
+    });
+
+    it('should refuse to relay blocked peers\' traffic when asked to', async () => {
+      bob = createBob({ relayBlockedPeers: false });
+      const relays: any[] = [];
+      bob.on('relay', (event) => relays.push(event));
+
+      await bob.processPacket(alice.createPacket(MessageType.MESSAGE, Buffer.alloc(32), carolID, 5), 'link-1');
+      await bob.processPacket(alice.createMessagePacket(createMessage('Everyone')), 'link-1');
+
+      expect(relays).toHaveLength(0);
+    });
+  });
+
+  describe('Identity Announce', () => {
+    let aliceNoiseKey: Buffer;
+
+    beforeEach(() => {
+      aliceNoiseKey = KeyManager.generateCurve25519KeyPair().publicKey;
+    });
+
+    const createReceiver = (sessionKey?: Buffer) => new BitchatProtocol(bobID, bobSigning, {
+      decryptPayload: (_senderID, payload) => xor(payload),
+      getPeerStaticKey: () => sessionKey
+    });
+
+    it('should round trip the nickname and keys', () => {
+      const timestamp = new Date(1700000000000);
+      const nostrKey = 'ab'.repeat(32);
+      const payload = alice.encodeIdentityAnnouncePayload('alice', aliceNoiseKey, nostrKey, timestamp);
+
+      expect(bob.decodeIdentityAnnouncePayload(payload)).toEqual({
+        nickname: 'alice',
+        noisePublicKey: aliceNoiseKey,
+        signingPublicKey: aliceSigning.publicKey,
+        nostrPublicKey: nostrKey,
+        timestamp
+      });
+    });
+
+    it('should reject a tampered announcement', () => {
+      const payload = alice.encodeIdentityAnnouncePayload('alice', aliceNoiseKey);
+      payload[3] ^= 0x01; // first nickname byte, after the padding length
+
+      expectInvalidSignature(() => bob.decodeIdentityAnnouncePayload(payload));
+    });
+
+    it('should emit identityAnnounced when it matches the Noise session', async () => {
+      const receiver = createReceiver(aliceNoiseKey);
+      const events: any[] = [];
+      receiver.on('identityAnnounced', (event) => events.push(event));
+
+      const payload = xor(alice.encodeIdentityAnnouncePayload('alice', aliceNoiseKey));
+      await receiver.processPacket(
+        alice.createPacket(MessageType.NOISE_IDENTITY_ANNOUNCE, payload, bobID),
+        'link-1'
+      );
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        peerID: aliceID.toString('hex'),
+        fromPeer: 'link-1',
+        nickname: 'alice',
+        noisePublicKey: aliceNoiseKey,
+        signingPublicKey: aliceSigning.publicKey
+      });
+      expect(receiver.getPeerSigningKey(aliceID.toString('hex'))).toEqual(aliceSigning.publicKey);
+    });
+
+    it('should reject announcements for a different static key', async () => {
+      const receiver = createReceiver(KeyManager.generateCurve25519KeyPair().publicKey);
+      const events: any[] = [];
+      const errors: any[] = [];
+      receiver.on('identityAnnounced', (event) => events.push(event));
+      receiver.on('protocolError', (event) => errors.push(event));
+
+      const payload = xor(alice.encodeIdentityAnnouncePayload('alice', aliceNoiseKey));
+      await receiver.processPacket(
+        alice.createPacket(MessageType.NOISE_IDENTITY_ANNOUNCE, payload, bobID),
+        'link-1'
+      );
+
+      expect(events).toHaveLength(0);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].error.code).toBe(ErrorCodes.INVALID_SIGNATURE);
+    });
+
+    it('should reject announcements sent without a Noise session', async () => {
+      const errors: any[] = [];
+      bob.on('protocolError', (event) => errors.push(event));
+
+      await bob.processPacket(
+        alice.createPacket(
+          MessageType.NOISE_IDENTITY_ANNOUNCE,
+          alice.encodeIdentityAnnouncePayload('alice', aliceNoiseKey),
+          bobID
+        ),
+        'link-1'
+      );
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0].error.code).toBe(ErrorCodes.INVALID_SIGNATURE);
+    });
+  });
+
+  describe('Peer ID Rotation', () => {
+    const bobNewID = Buffer.from('2222222222223333', 'hex');
+    const bobNextID = Buffer.from('2222222222224444', 'hex');
+
+    beforeEach(() => {
+      bob = createReceiver();
+    });
+
+    const sendPrivateMessage = async (recipientID: Buffer) => {
+      const events: any[] = [];
+      const listener = (event: any) => events.push(event);
+      bob.on('message', listener);
+      await bob.processPacket(
+        alice.createPacket(MessageType.MESSAGE, xor(alice.encodeMessagePayload(createMessage('Hi'))), recipientID),
+        'link-1'
+      );
+      bob.off('message', listener);
+      return events;
+    };
+
+    it('should send from the new ID', () => {
+      bob.setPeerID(bobNewID);
+
+      expect(bob.getPeerID()).toEqual(bobNewID);
+      expect(bob.createPacket(MessageType.MESSAGE, Buffer.from('hi')).senderID).toEqual(bobNewID);
+    });
+
+    it('should accept packets for the previous ID until the next change', async () => {
+      bob.setPeerID(bobNewID);
+
+      expect(await sendPrivateMessage(bobNewID)).toHaveLength(1);
+      expect(await sendPrivateMessage(bobID)).toHaveLength(1);
+
+      bob.setPeerID(bobNextID);
+
+      expect(await sendPrivateMessage(bobNewID)).toHaveLength(1);
+      expect(await sendPrivateMessage(bobID)).toHaveLength(0);
+    });
+
+    it('should recognise its own packets under the previous ID', () => {
+      bob.setPeerID(bobNewID);
+
+      expect(bob.isOwnPeerID(bobID)).toBe(true);
+      expect(bob.isOwnPeerID(bobNewID)).toBe(true);
+      expect(bob.isOwnPeerID(aliceID)).toBe(false);
+    });
+  });
+
+  describe('Favorites', () => {
+    const nostrKey = 'cd'.repeat(32);
+
+    it('should round trip the Nostr key and the timestamp', () => {
+      const timestamp = new Date(1700000000000);
+
+      expect(bob.decodeFavoritePayload(alice.encodeFavoritePayload(nostrKey, timestamp)))
+        .toEqual({ nostrPublicKey: nostrKey, timestamp });
+      expect(bob.decodeFavoritePayload(alice.encodeFavoritePayload(undefined, timestamp)))
+        .toEqual({ nostrPublicKey: undefined, timestamp });
+    });
+
+    it('should reject truncated notices', () => {
+      expect(() => bob.decodeFavoritePayload(Buffer.from([0x00, 0x03, 0x20, 0xcd, 0xcd]))).toThrow('truncated');
+    });
+
+    it('should reject bytes after the timestamp', () => {
+      const notice = Buffer.concat([Buffer.from([0x00]), Buffer.alloc(8), Buffer.from([0xff])]);
+
+      expect(() => bob.decodeFavoritePayload(Buffer.concat([Buffer.from([0x00, notice.length]), notice])))
+        .toThrow('trailing bytes');
+    });
+
+    it('should emit favoriteChanged for notices sent over a session', async () => {
+      const receiver = createReceiver();
+      const events: any[] = [];
+      receiver.on('favoriteChanged', (event) => events.push(event));
+
+      const timestamp = new Date(1700000000000);
+      await receiver.processPacket(
+        alice.createPacket(MessageType.FAVORITED, xor(alice.encodeFavoritePayload(nostrKey, timestamp)), bobID),
+        'link-1'
+      );
+      await receiver.processPacket(
+        alice.createPacket(MessageType.UNFAVORITED, xor(alice.encodeFavoritePayload(undefined, timestamp)), bobID),
+        'link-1'
+      );
+
+      expect(events).toEqual([
+        { nostrPublicKey: nostrKey, timestamp, peerID: aliceID.toString('hex'), isFavorite: true, fromPeer: 'link-1' },
+        { nostrPublicKey: undefined, timestamp, peerID: aliceID.toString('hex'), isFavorite: false, fromPeer: 'link-1' }
+      ]);
+    });
+
+    it('should ignore notices sent in the clear or to someone else', async () => {
+      const events: any[] = [];
+      bob.on('favoriteChanged', (event) => events.push(event));
+
+      await bob.processPacket(
+        alice.createPacket(MessageType.FAVORITED, alice.encodeFavoritePayload(nostrKey), bobID),
+        'link-1'
+      );
+      await bob.processPacket(
+        alice.createPacket(MessageType.FAVORITED, alice.encodeFavoritePayload(nostrKey)),
+        'link-1'
+      );
+
+      expect(events).toEqual([]);
+    });
+  });
+
+  describe('Compression', () => {
+    const longMessage = () => createMessage('All work and no play makes Jack a dull boy. '.repeat(40));
+
+    // The padded form of a payload, without random padding
+    const padded = (data: Buffer) => {
+      const length = Buffer.alloc(2);
+      length.writeUInt16BE(data.length);
+      return Buffer.concat([length, data]);
+    };
+
+    const compressed = (declaredLength: number, data: Buffer) => {
+      const length = Buffer.alloc(2);
+      length.writeUInt16BE(declaredLength);
+      return padded(Buffer.concat([length, deflateRawSync(data)]));
+    };
+
+    it('should compress long messages and decode them again', async () => {
+      const message = longMessage();
+      const { payload, isCompressed } = alice.encodeCompressedMessagePayload(message);
+      const events: any[] = [];
+      bob.on('message', (event) => events.push(event));
+
+      expect(isCompressed).toBe(true);
+      expect(payload.length).toBeLessThan(alice.encodeMessagePayload(message).length);
+
+      await bob.processPacket(alice.createPacket(MessageType.MESSAGE, payload, undefined, MAX_TTL, true), 'link-1');
+
+      expect(events).toHaveLength(1);
+      expect(events[0].message.content).toBe(message.content);
+      expect(events[0].packet.isCompressed).toBe(true);
+    });
+
+    it('should leave short messages alone', () => {
+      const message = createMessage('Hi');
+      const { payload, isCompressed } = alice.encodeCompressedMessagePayload(message);
+
+      expect(isCompressed).toBe(false);
+      expect(bob.decodeMessagePayload(payload).content).toBe('Hi');
+    });
+
+    it('should pad compressed payloads to a standard block size', () => {
+      const { payload } = alice.encodeCompressedMessagePayload(longMessage());
+
+      expect(STANDARD_BLOCK_SIZES).toContain(payload.length - 2);
+    });
+
+    it('should compress messages up to the longest length it can declare', () => {
+      // Bytes an encoded message takes besides its content
+      const overhead = alice.encodeMessagePayload(createMessage('')).readUInt16BE(0);
+      const longest = createMessage('a'.repeat(0xFFFF - overhead));
+      const { payload, isCompressed } = alice.encodeCompressedMessagePayload(longest);
+
+      expect(isCompressed).toBe(true);
+      expect(bob.decodeMessagePayload(payload, true).content).toBe(longest.content);
+    });
+
+    it('should not compress messages too long to declare their length', () => {
+      const overhead = alice.encodeMessagePayload(createMessage('')).readUInt16BE(0);
+      const tooLong = createMessage('a'.repeat(0x10000 - overhead));
+
+      try {
+        alice.encodeCompressedMessagePayload(tooLong);
+        fail('Expected ProtocolError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ProtocolError);
+        expect((error as ProtocolError).code).toBe(ErrorCodes.MESSAGE_TOO_LARGE);
+      }
+    });
+
+    it('should refuse payloads that claim to expand past the limit', () => {
+      const receiver = new BitchatProtocol(bobID, bobSigning, { maxDecompressedSize: 1024 });
+
+      try {
+        receiver.decodeMessagePayload(compressed(60000, Buffer.alloc(60000)), true);
+        fail('Expected ProtocolError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ProtocolError);
+        expect((error as ProtocolError).code).toBe(ErrorCodes.MESSAGE_TOO_LARGE);
+      }
+    });
+
+    it('should stop inflating at the declared length', () => {
+      const bomb = compressed(100, Buffer.alloc(1024 * 1024));
+
+      expect(bomb.length).toBeLessThan(2048);
+      expect(() => bob.decodeMessagePayload(bomb, true)).toThrow(ProtocolError);
+    });
+
+    it('should reject the compressed flag on anything but messages', async () => {
+      const errors: any[] = [];
+      const acks: any[] = [];
+      bob.on('protocolError', (event) => errors.push(event));
+      bob.on('deliveryAck', (event) => acks.push(event));
+
+      await bob.processPacket(
+        alice.createPacket(MessageType.DELIVERY_ACK, alice.encodeReceiptPayload(['msg-1']), bobID, MAX_TTL, true),
+        'link-1'
+      );
+
+      expect(acks).toEqual([]);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].error.code).toBe(ErrorCodes.MALFORMED_PACKET);
+    });
+  });
+
+  describe('Receipt Payloads', () => {
+    it('should round trip message IDs and the timestamp', () => {
+      const timestamp = new Date(1700000000000);
+      const payload = alice.encodeReceiptPayload(['msg-1', 'msg-2'], timestamp);
+
+      expect(bob.decodeReceiptPayload(payload)).toEqual({ messageIds: ['msg-1', 'msg-2'], timestamp });
+    });
+
+    it('should pad receipts to the same size as short messages', () => {
+      const receipt = alice.encodeReceiptPayload(['msg-1']);
+      const message = alice.encodeMessagePayload(createMessage('Hi'));
+
+      expect(receipt.length).toBe(message.length);
+    });
+
+    it('should reject empty and oversized receipts', () => {
+      expect(() => alice.encodeReceiptPayload([])).toThrow();
+      expect(() => alice.encodeReceiptPayload(Array.from({ length: MAX_RECEIPT_IDS + 1 }, (_, i) => `msg-${i}`)))
+        .toThrow();
+    });
+
+    it('should reject truncated receipts', () => {
+      const truncated = Buffer.from([0x00, 0x03, 0x01, 0x05, 0x61]);
+
+      expect(() => bob.decodeReceiptPayload(truncated)).toThrow('truncated');
+    });
+
+    it('should reject bytes after the timestamp', () => {
+      const receipt = Buffer.concat([Buffer.from([0x01, 0x05]), Buffer.from('msg-1'), Buffer.alloc(8), Buffer.from([0xff])]);
+
+      expect(() => bob.decodeReceiptPayload(Buffer.concat([Buffer.from([0x00, receipt.length]), receipt])))
+        .toThrow('trailing bytes');
+    });
+  });
+});
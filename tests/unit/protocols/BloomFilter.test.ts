@@ -0,0 +1,53 @@
+import { BloomFilter } from '../../../src/main/protocols/BloomFilter';
+
+describe('BloomFilter', () => {
+  it('should report added items', () => {
+    const filter = new BloomFilter(100);
+
+    for (let i = 0; i < 100; i++) {
+      filter.add(`item-${i}`);
+    }
+
+    for (let i = 0; i < 100; i++) {
+      expect(filter.has(`item-${i}`)).toBe(true);
+    }
+    expect(filter.size).toBe(100);
+  });
+
+  it('should accept buffers and strings', () => {
+    const filter = new BloomFilter(10);
+    filter.add(Buffer.from('0102', 'hex'));
+
+    expect(filter.has(Buffer.from('0102', 'hex'))).toBe(true);
+    expect(filter.has(Buffer.from('0103', 'hex'))).toBe(false);
+  });
+
+  it('should keep false positives near the configured rate', () => {
+    const filter = new BloomFilter(1000, 0.01);
+    for (let i = 0; i < 1000; i++) {
+      filter.add(`present-${i}`);
+    }
+
+    let falsePositives = 0;
+    for (let i = 0; i < 10000; i++) {
+      if (filter.has(`absent-${i}`)) {
+        falsePositives++;
+      }
+    }
+
+    expect(falsePositives / 10000).toBeLessThan(0.03);
+  });
+
+  it('should size the bit array from capacity and error rate', () => {
+    const small = new BloomFilter(1000, 0.01);
+    const large = new BloomFilter(1000, 1e-6);
+
+    expect(small.byteLength).toBeGreaterThan(1000);
+    expect(large.byteLength).toBeGreaterThan(small.byteLength);
+  });
+
+  it('should reject invalid parameters', () => {
+    expect(() => new BloomFilter(0)).toThrow();
+    expect(() => new BloomFilter(10, 1)).toThrow();
+  });
+});
@@ -0,0 +1,76 @@
+import { BufferReader } from '../../../src/main/protocols/BufferReader';
+import { ProtocolError } from '../../../src/main/protocols/ProtocolError';
+import { ErrorCodes } from '../../../src/shared/constants';
+
+describe('BufferReader', () => {
+  const expectMalformed = (fn: () => void, details: Record<string, unknown>) => {
+    try {
+      fn();
+      fail('Expected ProtocolError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ProtocolError);
+      expect((error as ProtocolError).code).toBe(ErrorCodes.MALFORMED_PACKET);
+      expect((error as ProtocolError).details).toMatchObject(details);
+    }
+  };
+
+  it('should read fields in order', () => {
+    const buffer = Buffer.concat([
+      Buffer.from([0x07, 0x01, 0x02]),
+      Buffer.from('80000001', 'hex'),
+      Buffer.from('0000000000000064', 'hex'),
+      Buffer.from([0x02]), Buffer.from('hi'),
+      Buffer.from([0x00, 0x03]), Buffer.from('hey'),
+      Buffer.from([0xaa, 0xbb])
+    ]);
+    const reader = new BufferReader(buffer, 'test');
+
+    expect(reader.readUInt8('a')).toBe(7);
+    expect(reader.readUInt16BE('b')).toBe(0x0102);
+    expect(reader.readUInt32BE('b2')).toBe(0x80000001);
+    expect(reader.readSafeUInt64BE('c')).toBe(100);
+    expect(reader.readString8('d')).toBe('hi');
+    expect(reader.readString16('e')).toBe('hey');
+    expect(reader.remaining).toBe(2);
+    expect(reader.readRest()).toEqual(Buffer.from([0xaa, 0xbb]));
+    expect(() => reader.expectEnd()).not.toThrow();
+  });
+
+  it('should report the field and offset of a truncated read', () => {
+    const reader = new BufferReader(Buffer.from([0x01, 0x05, 0x61]), 'test');
+    reader.readUInt8('first');
+
+    expectMalformed(() => reader.readString8('name'), { context: 'test', field: 'name', offset: 2, length: 3 });
+    expect(() => new BufferReader(Buffer.alloc(1), 'test').readUInt16BE('count')).toThrow(
+      'Invalid test: count truncated at offset 0 (needs 2 bytes, 1 left)'
+    );
+  });
+
+  it('should not move past a read that fails', () => {
+    const reader = new BufferReader(Buffer.from([0x01, 0x02]), 'test');
+
+    expect(() => reader.readBytes(3, 'data')).toThrow(ProtocolError);
+    expect(reader.position).toBe(0);
+    expect(reader.readBytes(2, 'data')).toEqual(Buffer.from([0x01, 0x02]));
+  });
+
+  it('should reject trailing bytes', () => {
+    const reader = new BufferReader(Buffer.from([0x01, 0x02, 0x03]), 'test');
+    reader.readUInt8('first');
+
+    expectMalformed(() => reader.expectEnd(), { field: 'end', offset: 1 });
+  });
+
+  it('should reject 64-bit values a number cannot hold exactly', () => {
+    const reader = new BufferReader(Buffer.from('0020000000000000', 'hex'), 'test');
+
+    expectMalformed(() => reader.readSafeUInt64BE('timestamp'), { field: 'timestamp', offset: 0 });
+  });
+
+  it('should fail with the given field and offset', () => {
+    const reader = new BufferReader(Buffer.from([0x01, 0x02]), 'test');
+    reader.readUInt16BE('pair');
+
+    expect(() => reader.fail('bad value', 'pair', 0)).toThrow('Invalid test: bad value at offset 0');
+  });
+});
@@ -0,0 +1,200 @@
+import { FragmentManager } from '../../../src/main/protocols/FragmentManager';
+import { ProtocolError } from '../../../src/main/protocols/ProtocolError';
+import { MessageFragment } from '../../../src/shared/types';
+import { ErrorCodes } from '../../../src/shared/constants';
+
+describe('FragmentManager', () => {
+  let manager: FragmentManager;
+
+  const split = (messageId: string, data: Buffer, size: number): MessageFragment[] => {
+    const totalFragments = Math.ceil(data.length / size);
+    const fragments: MessageFragment[] = [];
+    for (let i = 0; i < totalFragments; i++) {
+      fragments.push({
+        messageId,
+        fragmentIndex: i,
+        totalFragments,
+        data: data.slice(i * size, (i + 1) * size)
+      });
+    }
+    return fragments;
+  };
+
+  beforeEach(() => {
+    manager = new FragmentManager();
+  });
+
+  afterEach(() => {
+    manager.destroy();
+  });
+
+  describe('Reassembly', () => {
+    it('should reassemble fragments received in order', () => {
+      const data = Buffer.from('A'.repeat(100) + 'B'.repeat(100) + 'C'.repeat(50));
+      const fragments = split('0011223344556677', data, 100);
+
+      expect(manager.addFragment('peer-a', fragments[0])).toBeNull();
+      expect(manager.addFragment('peer-a', fragments[1])).toBeNull();
+      expect(manager.addFragment('peer-a', fragments[2])).toEqual(data);
+      expect(manager.getPendingCount()).toBe(0);
+      expect(manager.getBufferedBytes()).toBe(0);
+    });
+
+    it('should reassemble fragments received out of order', () => {
+      const data = Buffer.from('The quick brown fox jumps over the lazy dog');
+      const fragments = split('0011223344556677', data, 10);
+
+      const order = [3, 0, 4, 2, 1];
+      let result: Buffer | null = null;
+      for (const index of order) {
+        result = manager.addFragment('peer-a', fragments[index]);
+      }
+
+      expect(result).toEqual(data);
+    });
+
+    it('should ignore duplicate fragments', () => {
+      const data = Buffer.from('duplicate-tolerant payload');
+      const fragments = split('0011223344556677', data, 10);
+
+      manager.addFragment('peer-a', fragments[0]);
+      manager.addFragment('peer-a', fragments[0]);
+      manager.addFragment('peer-a', fragments[1]);
+
+      expect(manager.getProgress('peer-a', '0011223344556677')?.receivedFragments).toBe(2);
+      expect(manager.getBufferedBytes('peer-a')).toBe(20);
+      expect(manager.addFragment('peer-a', fragments[2])).toEqual(data);
+    });
+
+    it('should keep messages from different senders apart', () => {
+      const dataA = Buffer.from('message from alice');
+      const dataB = Buffer.from('message from bob!!');
+      const fragmentsA = split('0011223344556677', dataA, 9);
+      const fragmentsB = split('0011223344556677', dataB, 9);
+
+      manager.addFragment('alice', fragmentsA[0]);
+      manager.addFragment('bob', fragmentsB[0]);
+
+      expect(manager.addFragment('alice', fragmentsA[1])).toEqual(dataA);
+      expect(manager.addFragment('bob', fragmentsB[1])).toEqual(dataB);
+    });
+
+    it('should reject fragments with an invalid index', () => {
+      expect(() => manager.addFragment('peer-a', {
+        messageId: '0011223344556677',
+        fragmentIndex: 3,
+        totalFragments: 3,
+        data: Buffer.from('x')
+      })).toThrow(ProtocolError);
+    });
+
+    it('should reject fragments with a conflicting fragment count', () => {
+      manager.addFragment('peer-a', {
+        messageId: '0011223344556677',
+        fragmentIndex: 0,
+        totalFragments: 3,
+        data: Buffer.from('x')
+      });
+
+      try {
+        manager.addFragment('peer-a', {
+          messageId: '0011223344556677',
+          fragmentIndex: 1,
+          totalFragments: 4,
+          data: Buffer.from('y')
+        });
+        fail('Expected ProtocolError');
+      } catch (error) {
+        expect((error as ProtocolError).code).toBe(ErrorCodes.MALFORMED_PACKET);
+      }
+      expect(manager.getPendingCount()).toBe(0);
+    });
+  });
+
+  describe('Progress', () => {
+    it('should report progress for each new fragment', () => {
+      const progress: any[] = [];
+      manager.on('progress', (event) => progress.push(event));
+
+      const fragments = split('0011223344556677', Buffer.alloc(30), 10);
+      fragments.forEach((fragment) => manager.addFragment('peer-a', fragment));
+
+      expect(progress.map((p) => p.receivedFragments)).toEqual([1, 2, 3]);
+      expect(progress[2]).toEqual({
+        senderID: 'peer-a',
+        messageId: '0011223344556677',
+        receivedFragments: 3,
+        totalFragments: 3
+      });
+    });
+  });
+
+  describe('Expiry', () => {
+    it('should discard incomplete sets after the timeout', () => {
+      manager.destroy();
+      manager = new FragmentManager({ timeout: 1000 });
+      const dropped: any[] = [];
+      manager.on('dropped', (event) => dropped.push(event));
+
+      const fragments = split('0011223344556677', Buffer.alloc(30), 10);
+      manager.addFragment('peer-a', fragments[0]);
+
+      manager.cleanup(Date.now() + 500);
+      expect(manager.getPendingCount()).toBe(1);
+
+      manager.cleanup(Date.now() + 1500);
+      expect(manager.getPendingCount()).toBe(0);
+      expect(manager.getBufferedBytes()).toBe(0);
+      expect(dropped).toHaveLength(1);
+      expect(dropped[0].reason).toBe('timeout');
+    });
+
+    it('should discard incomplete sets when a peer is removed', () => {
+      manager.addFragment('peer-a', split('0011223344556677', Buffer.alloc(30), 10)[0]);
+      manager.addFragment('peer-b', split('0011223344556677', Buffer.alloc(30), 10)[0]);
+
+      manager.removePeer('peer-a');
+
+      expect(manager.getBufferedBytes('peer-a')).toBe(0);
+      expect(manager.getBufferedBytes('peer-b')).toBe(10);
+    });
+  });
+
+  describe('Memory Caps', () => {
+    it('should drop a message that exceeds the per-peer limit', () => {
+      manager.destroy();
+      manager = new FragmentManager({ maxBytesPerPeer: 25 });
+      const dropped: any[] = [];
+      manager.on('dropped', (event) => dropped.push(event));
+
+      const fragments = split('0011223344556677', Buffer.alloc(40), 10);
+      manager.addFragment('peer-a', fragments[0]);
+      manager.addFragment('peer-a', fragments[1]);
+      expect(manager.addFragment('peer-a', fragments[2])).toBeNull();
+
+      expect(dropped).toHaveLength(1);
+      expect(dropped[0].reason).toBe('peer-limit');
+      expect(manager.getBufferedBytes('peer-a')).toBe(0);
+
+      // Other peers are unaffected
+      manager.addFragment('peer-b', fragments[0]);
+      expect(manager.getBufferedBytes('peer-b')).toBe(10);
+    });
+
+    it('should evict the oldest sets when the global limit is reached', () => {
+      manager.destroy();
+      manager = new FragmentManager({ maxBytesPerPeer: 100, maxBytesTotal: 25 });
+      const dropped: any[] = [];
+      manager.on('dropped', (event) => dropped.push(event));
+
+      manager.addFragment('peer-a', split('aaaaaaaaaaaaaaaa', Buffer.alloc(40), 10)[0]);
+      manager.addFragment('peer-b', split('bbbbbbbbbbbbbbbb', Buffer.alloc(40), 10)[0]);
+      manager.addFragment('peer-c', split('cccccccccccccccc', Buffer.alloc(40), 10)[0]);
+
+      expect(dropped).toHaveLength(1);
+      expect(dropped[0].senderID).toBe('peer-a');
+      expect(dropped[0].reason).toBe('global-limit');
+      expect(manager.getBufferedBytes()).toBe(20);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { SeenPacketCache } from '../../../src/main/protocols/SeenPacketCache';
+import { BitchatProtocol } from '../../../src/main/protocols/BitchatProtocol';
+import { KeyManager } from '../../../src/main/crypto/KeyManager';
+import { BitchatMessage } from '../../../src/shared/types';
+import { MessageType } from '../../../src/shared/constants';
+
+describe('SeenPacketCache', () => {
+  const minute = 60 * 1000;
+  let cache: SeenPacketCache;
+  let alice: BitchatProtocol;
+
+  const createMessage = (content: string): BitchatMessage => ({
+    id: 'msg-1',
+    sender: 'alice',
+    content,
+    timestamp: new Date(),
+    isRelay: false,
+    isPrivate: false
+  });
+
+  beforeEach(() => {
+    cache = new SeenPacketCache({ maxAge: 10 * minute, rotationInterval: 5 * minute });
+    alice = new BitchatProtocol(
+      Buffer.from('1111111111111111', 'hex'),
+      KeyManager.generateEd25519KeyPair()
+    );
+  });
+
+  describe('Packet IDs', () => {
+    it('should ignore TTL so relayed copies share an ID', () => {
+      const packet = alice.createMessagePacket(createMessage('Hello'));
+
+      expect(SeenPacketCache.getPacketId({ ...packet, ttl: 2 }))
+        .toEqual(SeenPacketCache.getPacketId(packet));
+    });
+
+    it('should cover the whole payload', () => {
+      const payload = Buffer.alloc(256);
+      const packet = alice.createPacket(MessageType.MESSAGE, payload);
+      const tail = Buffer.from(payload);
+      tail[255] = 1;
+
+      expect(SeenPacketCache.getPacketId({ ...packet, payload: tail }))
+        .not.toEqual(SeenPacketCache.getPacketId(packet));
+    });
+
+    it('should distinguish packets that differ only in padding', () => {
+      const first = alice.createMessagePacket(createMessage('Same text'));
+      const second = { ...first, payload: Buffer.from(first.payload) };
+      second.payload[second.payload.length - 1] ^= 0xFF;
+
+      expect(SeenPacketCache.getPacketId(second))
+        .not.toEqual(SeenPacketCache.getPacketId(first));
+    });
+  });
+
+  describe('Expiry', () => {
+    it('should remember packets for at least maxAge', () => {
+      const packet = alice.createMessagePacket(createMessage('Hello'));
+      const start = Date.now();
+
+      cache.addPacket(packet, start);
+
+      expect(cache.hasPacket(packet, start + 9 * minute)).toBe(true);
+      expect(cache.hasPacket(packet, start + 14 * minute)).toBe(true);
+      expect(cache.hasPacket(packet, start + 15 * minute)).toBe(false);
+    });
+
+    it('should expire each generation on its own schedule', () => {
+      const start = Date.now();
+      const early = Buffer.from('early');
+      const late = Buffer.from('late');
+
+      cache.add(early, start);
+      cache.add(late, start + 6 * minute);
+
+      expect(cache.getGenerationCount()).toBe(2);
+      expect(cache.has(early, start + 15 * minute)).toBe(false);
+      expect(cache.has(late, start + 15 * minute)).toBe(true);
+      expect(cache.has(late, start + 20 * minute)).toBe(true);
+      expect(cache.has(late, start + 21 * minute)).toBe(false);
+      expect(cache.getGenerationCount()).toBe(0);
+    });
+
+    it('should start a new generation when the current one is full', () => {
+      cache = new SeenPacketCache({ capacity: 2 });
+      const now = Date.now();
+
+      cache.add(Buffer.from('a'), now);
+      cache.add(Buffer.from('b'), now);
+      cache.add(Buffer.from('c'), now);
+
+      expect(cache.getGenerationCount()).toBe(2);
+      expect(cache.has(Buffer.from('a'), now)).toBe(true);
+      expect(cache.has(Buffer.from('c'), now)).toBe(true);
+    });
+
+    it('should bound memory by dropping the oldest generations', () => {
+      cache = new SeenPacketCache({ capacity: 1, maxGenerations: 3 });
+      const now = Date.now();
+
+      for (const id of ['a', 'b', 'c', 'd']) {
+        cache.add(Buffer.from(id), now);
+      }
+
+      expect(cache.getGenerationCount()).toBe(3);
+      expect(cache.has(Buffer.from('a'), now)).toBe(false);
+      expect(cache.has(Buffer.from('d'), now)).toBe(true);
+    });
+  });
+
+  describe('BitchatProtocol integration', () => {
+    it('should drop duplicates that arrive with a different TTL', async () => {
+      const bob = new BitchatProtocol(Buffer.from('2222222222222222', 'hex'));
+      const messages: any[] = [];
+      bob.on('message', (event) => messages.push(event));
+
+      const packet = alice.createMessagePacket(createMessage('Once'));
+      await bob.processPacket(packet, 'link-1');
+      await bob.processPacket({ ...packet, ttl: packet.ttl - 1 }, 'link-2');
+
+      expect(messages).toHaveLength(1);
+      bob.destroy();
+    });
+
+    it('should not remember packets that fail verification', async () => {
+      const bob = new BitchatProtocol(Buffer.from('2222222222222222', 'hex'));
+      const messages: any[] = [];
+      bob.on('message', (event) => messages.push(event));
+      bob.on('protocolError', () => undefined);
+
+      const packet = alice.createMessagePacket(createMessage('Real'));
+      const signingKey = KeyManager.generateEd25519KeyPair();
+      bob.registerPeerSigningKey('1111111111111111', signingKey.publicKey);
+      await bob.processPacket(packet, 'link-1');
+
+      bob.removePeerSigningKey('1111111111111111');
+      await bob.processPacket(packet, 'link-1');
+
+      expect(messages).toHaveLength(1);
+      bob.destroy();
+    });
+  });
+});
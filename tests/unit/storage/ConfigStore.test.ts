@@ -0,0 +1,235 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ConfigStore,
+  CONFIG_VERSION,
+  DEFAULT_SETTINGS,
+  DEFAULT_TRANSPORT_PREFERENCES
+} from '../../../src/main/storage/ConfigStore';
+
+describe('ConfigStore', () => {
+  let directory: string;
+  let configFile: string;
+
+  const loadStore = async (options: Partial<ConstructorParameters<typeof ConfigStore>[0]> = {}): Promise<ConfigStore> => {
+    const store = new ConfigStore({ directory, ...options });
+    await store.load();
+    return store;
+  };
+
+  const readConfig = async (): Promise<any> => JSON.parse(await fs.readFile(configFile, 'utf8'));
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'bitchat-config-'));
+    configFile = path.join(directory, 'config.json');
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  describe('Defaults', () => {
+    it('should start from defaults without a config file', async () => {
+      const store = await loadStore();
+
+      expect(store.getSettings()).toEqual(DEFAULT_SETTINGS);
+      expect(store.getTransportPreferences()).toEqual(DEFAULT_TRANSPORT_PREFERENCES);
+    });
+
+    it('should hand out copies', async () => {
+      const store = await loadStore();
+
+      store.getSettings().blockedPeers.push('peer');
+      store.getTransportPreferences().bleSettings.deviceName = 'changed';
+
+      expect(store.getSettings().blockedPeers).toEqual([]);
+      expect(store.getTransportPreferences().bleSettings.deviceName).toBe('BitChat Device');
+      expect(DEFAULT_SETTINGS.blockedPeers).toEqual([]);
+    });
+  });
+
+  describe('Persistence', () => {
+    it('should save updates and load them again', async () => {
+      const store = await loadStore();
+      await store.updateSettings({ nickname: 'alice', theme: 'light' });
+      await store.updateTransportPreferences({ preferredTransport: 'nostr' });
+
+      const reloaded = await loadStore();
+
+      expect(reloaded.getSettings()).toEqual({ ...DEFAULT_SETTINGS, nickname: 'alice', theme: 'light' });
+      expect(reloaded.getTransportPreferences().preferredTransport).toBe('nostr');
+      expect((await readConfig()).version).toBe(CONFIG_VERSION);
+    });
+
+    it('should reset transport preferences to defaults', async () => {
+      const store = await loadStore();
+      await store.updateTransportPreferences({ autoConnect: false });
+
+      expect(await store.resetTransportPreferences()).toEqual(DEFAULT_TRANSPORT_PREFERENCES);
+      expect((await loadStore()).getTransportPreferences()).toEqual(DEFAULT_TRANSPORT_PREFERENCES);
+    });
+  });
+
+  describe('Deep merging', () => {
+    it('should merge nested objects key by key', async () => {
+      const store = await loadStore();
+
+      const preferences = await store.updateTransportPreferences({
+        bleSettings: { deviceName: 'My Laptop' },
+        hybridSettings: { priority: 'ble' }
+      });
+
+      expect(preferences.bleSettings).toEqual({
+        ...DEFAULT_TRANSPORT_PREFERENCES.bleSettings,
+        deviceName: 'My Laptop'
+      });
+      expect(preferences.hybridSettings).toEqual({
+        ...DEFAULT_TRANSPORT_PREFERENCES.hybridSettings,
+        priority: 'ble'
+      });
+      expect(preferences.nostrSettings).toEqual(DEFAULT_TRANSPORT_PREFERENCES.nostrSettings);
+    });
+
+    it('should replace arrays', async () => {
+      const store = await loadStore();
+
+      const preferences = await store.updateTransportPreferences({
+        nostrSettings: { defaultRelays: ['wss://relay.example.com'] }
+      });
+
+      expect(preferences.nostrSettings.defaultRelays).toEqual(['wss://relay.example.com']);
+    });
+  });
+
+  describe('Validation', () => {
+    it.each([
+      [{ theme: 'neon' }, 'settings.theme'],
+      [{ autoConnect: 'yes' }, 'settings.autoConnect'],
+      [{ blockedPeers: [42] }, 'settings.blockedPeers[0]'],
+      [{ nickname: 'x'.repeat(33) }, 'settings.nickname'],
+      [{ colour: 'red' }, 'Unknown setting settings.colour']
+    ])('should reject invalid settings %j', async (update, message) => {
+      const store = await loadStore();
+
+      await expect(store.updateSettings(update as any)).rejects.toThrow(message);
+    });
+
+    it.each([
+      [{ bleSettings: { discoverabilityTimeout: -1 } }, 'transportPreferences.bleSettings.discoverabilityTimeout'],
+      [{ nostrSettings: { maxRelayConnections: 2.5 } }, 'expected an integer'],
+      [{ nostrSettings: { defaultRelays: ['https://relay.example.com'] } }, 'defaultRelays[0]'],
+      [{ hybridSettings: 'balanced' }, 'expected an object'],
+      [{ bleSettings: { name: 'x' } }, 'Unknown setting transportPreferences.bleSettings.name']
+    ])('should reject invalid transport preferences %j', async (update, message) => {
+      const store = await loadStore();
+
+      await expect(store.updateTransportPreferences(update as any)).rejects.toThrow(message);
+    });
+
+    it('should leave the config untouched when an update is rejected', async () => {
+      const store = await loadStore();
+
+      await expect(store.updateTransportPreferences({
+        autoConnect: false,
+        bleSettings: { discoverabilityTimeout: 100000 }
+      })).rejects.toThrow();
+
+      expect(store.getTransportPreferences()).toEqual(DEFAULT_TRANSPORT_PREFERENCES);
+      await expect(fs.access(configFile)).rejects.toThrow();
+    });
+
+    it('should fall back to defaults for invalid stored fields', async () => {
+      await fs.writeFile(configFile, JSON.stringify({
+        version: CONFIG_VERSION,
+        settings: { nickname: 'alice', theme: 'neon' },
+        transportPreferences: { bleSettings: { deviceName: 'Laptop', discoverabilityTimeout: 'soon' } }
+      }));
+
+      const store = await loadStore();
+
+      expect(store.getSettings()).toEqual({ ...DEFAULT_SETTINGS, nickname: 'alice' });
+      expect(store.getTransportPreferences().bleSettings).toEqual({
+        ...DEFAULT_TRANSPORT_PREFERENCES.bleSettings,
+        deviceName: 'Laptop'
+      });
+    });
+
+    it('should use defaults when the file is corrupt', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      await fs.writeFile(configFile, '{ not json');
+
+      expect((await loadStore()).getSettings()).toEqual(DEFAULT_SETTINGS);
+    });
+  });
+
+  describe('Migrations', () => {
+    const migrations = [
+      {
+        version: 2,
+        migrate: (config: Record<string, any>) => ({
+          ...config,
+          settings: { ...config.settings, theme: config.settings.darkMode ? 'dark' : 'light' }
+        })
+      },
+      {
+        version: 3,
+        migrate: (config: Record<string, any>) => ({
+          ...config,
+          transportPreferences: { preferredTransport: config.transport }
+        })
+      }
+    ];
+
+    it('should run every migration newer than the file', async () => {
+      await fs.writeFile(configFile, JSON.stringify({
+        version: 1,
+        settings: { nickname: 'alice', darkMode: false },
+        transport: 'ble'
+      }));
+
+      const store = await loadStore({ version: 3, migrations });
+
+      expect(store.getSettings()).toEqual({ ...DEFAULT_SETTINGS, nickname: 'alice', theme: 'light' });
+      expect(store.getTransportPreferences().preferredTransport).toBe('ble');
+    });
+
+    it('should write the migrated config back', async () => {
+      await fs.writeFile(configFile, JSON.stringify({ version: 2, settings: {}, transport: 'nostr' }));
+
+      await loadStore({ version: 3, migrations });
+
+      const saved = await readConfig();
+      expect(saved.version).toBe(3);
+      expect(saved.transport).toBeUndefined();
+      expect(saved.transportPreferences.preferredTransport).toBe('nostr');
+    });
+
+    it('should treat an unversioned file as version 0', async () => {
+      const migrate = jest.fn((config) => config);
+      await fs.writeFile(configFile, JSON.stringify({ settings: { nickname: 'alice' } }));
+
+      const store = await loadStore({ version: 1, migrations: [{ version: 1, migrate }] });
+
+      expect(migrate).toHaveBeenCalledTimes(1);
+      expect(store.getSettings().nickname).toBe('alice');
+    });
+
+    it('should not overwrite a config from a newer version', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const newer = JSON.stringify({
+        version: CONFIG_VERSION + 1,
+        settings: { nickname: 'alice', newSetting: true },
+        transportPreferences: DEFAULT_TRANSPORT_PREFERENCES
+      });
+      await fs.writeFile(configFile, newer);
+
+      const store = await loadStore();
+      await store.updateSettings({ nickname: 'bob' });
+
+      expect(store.getSettings().nickname).toBe('bob');
+      expect(await fs.readFile(configFile, 'utf8')).toBe(newer);
+    });
+  });
+});
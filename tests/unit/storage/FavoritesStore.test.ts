@@ -0,0 +1,105 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FavoritesStore } from '../../../src/main/storage/FavoritesStore';
+import { SecretStore } from '../../../src/main/storage/SecretStore';
+import { FavoriteEntry } from '../../../src/shared/types';
+
+const mockKeychain: Map<string, string> = new Map();
+
+// Mock keytar with an in-memory keychain
+jest.mock('keytar', () => ({
+  getPassword: jest.fn(async (service: string, account: string) =>
+    mockKeychain.get(`${service}/${account}`) ?? null),
+  setPassword: jest.fn(async (service: string, account: string, password: string) => {
+    mockKeychain.set(`${service}/${account}`, password);
+  }),
+  deletePassword: jest.fn(async (service: string, account: string) =>
+    mockKeychain.delete(`${service}/${account}`)),
+  findCredentials: jest.fn(async () => [])
+}));
+
+describe('FavoritesStore', () => {
+  let directory: string;
+
+  const createStore = () => new FavoritesStore({ directory, secretStore: new SecretStore({ directory }) });
+
+  const alice: FavoriteEntry = {
+    peerID: '0102030405060708',
+    nickname: 'alice',
+    noisePublicKey: 'ab'.repeat(32),
+    nostrPublicKey: 'cd'.repeat(32),
+    addedAt: new Date(1700000000000)
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'bitchat-favorites-'));
+    mockKeychain.clear();
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should start with no favorites', async () => {
+    const store = createStore();
+    await store.load();
+
+    expect(store.list()).toEqual([]);
+    expect(store.isFavorite(alice.noisePublicKey)).toBe(false);
+  });
+
+  it('should persist favorites and who favorited us', async () => {
+    const first = createStore();
+    await first.add(alice);
+    await first.setFavoritedBy(alice.noisePublicKey, true);
+
+    const store = createStore();
+    await store.load();
+
+    expect(store.get(alice.noisePublicKey)).toEqual(alice);
+    expect(store.isFavoritedBy(alice.noisePublicKey)).toBe(true);
+  });
+
+  it('should only count peers that favorited each other as mutual', async () => {
+    const store = createStore();
+
+    await store.setFavoritedBy(alice.noisePublicKey, true);
+    expect(store.isMutual(alice.noisePublicKey)).toBe(false);
+
+    await store.add(alice);
+    expect(store.isMutual(alice.noisePublicKey)).toBe(true);
+
+    await store.setFavoritedBy(alice.noisePublicKey, false);
+    expect(store.isMutual(alice.noisePublicKey)).toBe(false);
+  });
+
+  it('should report whether favorited-by status changed', async () => {
+    const store = createStore();
+
+    expect(await store.setFavoritedBy(alice.noisePublicKey, true)).toBe(true);
+    expect(await store.setFavoritedBy(alice.noisePublicKey, true)).toBe(false);
+    expect(await store.setFavoritedBy(alice.noisePublicKey, false)).toBe(true);
+  });
+
+  it('should remove a favorite', async () => {
+    const store = createStore();
+    await store.add(alice);
+
+    expect(await store.remove(alice.noisePublicKey)).toBe(true);
+    expect(await store.remove(alice.noisePublicKey)).toBe(false);
+
+    const reloaded = createStore();
+    await reloaded.load();
+    expect(reloaded.list()).toEqual([]);
+  });
+
+  it('should not store favorites in the clear', async () => {
+    await createStore().add(alice);
+
+    const contents = await fs.readFile(path.join(directory, 'favorites.enc'));
+
+    expect(contents.includes(Buffer.from('alice'))).toBe(false);
+    expect(contents.includes(Buffer.from(alice.noisePublicKey))).toBe(false);
+  });
+});
@@ -0,0 +1,137 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IdentityStore } from '../../../src/main/storage/IdentityStore';
+import { KeyManager } from '../../../src/main/crypto/KeyManager';
+
+const mockKeychain: Map<string, string> = new Map();
+let mockKeychainAvailable = true;
+
+// Mock keytar with an in-memory keychain that can be switched off
+jest.mock('keytar', () => ({
+  getPassword: jest.fn(async (service: string, account: string) =>
+    mockKeychain.get(`${service}/${account}`) ?? null),
+  setPassword: jest.fn(async (service: string, account: string, password: string) => {
+    mockKeychain.set(`${service}/${account}`, password);
+  }),
+  deletePassword: jest.fn(async (service: string, account: string) =>
+    mockKeychain.delete(`${service}/${account}`)),
+  findCredentials: jest.fn(async () => {
+    if (!mockKeychainAvailable) {
+      throw new Error('Cannot autolaunch D-Bus without X11 $DISPLAY');
+    }
+    return [];
+  })
+}));
+
+describe('IdentityStore', () => {
+  let directory: string;
+  let store: IdentityStore;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'bitchat-identity-'));
+    mockKeychain.clear();
+    mockKeychainAvailable = true;
+    store = new IdentityStore({ directory });
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  describe('Persistence', () => {
+    it('should return null before an identity is created', async () => {
+      expect(await store.load()).toBeNull();
+    });
+
+    it('should create an identity once and reload it', async () => {
+      const created = await store.loadOrCreate('alice');
+      const loaded = await new IdentityStore({ directory }).loadOrCreate('someone else');
+
+      expect(loaded.nickname).toBe('alice');
+      expect(loaded.staticKeyPair).toEqual(created.staticKeyPair);
+      expect(loaded.signingKeyPair).toEqual(created.signingKeyPair);
+      expect(loaded.nostrKeyPair).toEqual(created.nostrKeyPair);
+      expect(loaded.createdAt).toEqual(created.createdAt);
+    });
+
+    it('should keep the fingerprint stable across restarts', async () => {
+      const created = await store.loadOrCreate('alice');
+      const loaded = await new IdentityStore({ directory }).loadOrCreate('alice');
+
+      expect(KeyManager.generateFingerprint(loaded.staticKeyPair.publicKey))
+        .toBe(KeyManager.generateFingerprint(created.staticKeyPair.publicKey));
+    });
+
+    it('should keep private keys out of the identity file', async () => {
+      const identity = await store.loadOrCreate('alice');
+      const raw = await fs.readFile(path.join(directory, 'identity.json'), 'utf8');
+
+      expect(raw).toContain(identity.staticKeyPair.publicKey.toString('hex'));
+      expect(raw).not.toContain(identity.staticKeyPair.privateKey.toString('hex'));
+      expect(raw).not.toContain(identity.signingKeyPair.privateKey.toString('hex'));
+      expect(raw).not.toContain(identity.nostrKeyPair!.privateKey);
+    });
+
+    it('should work without an OS keychain', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      mockKeychainAvailable = false;
+
+      const created = await store.loadOrCreate('alice');
+      const loaded = await new IdentityStore({ directory }).load();
+
+      expect(mockKeychain.size).toBe(0);
+      expect(loaded!.staticKeyPair).toEqual(created.staticKeyPair);
+      warn.mockRestore();
+    });
+  });
+
+  describe('Updates', () => {
+    it('should persist an imported Nostr key', async () => {
+      await store.loadOrCreate('alice');
+      const nostrKeyPair = KeyManager.importNsec('nsec1vl029mgpspedva04g90vltkh6fvh240zqtv9k0t9af8935ke9laqsnlfe5');
+
+      await store.setNostrKeyPair(nostrKeyPair);
+
+      expect((await new IdentityStore({ directory }).load())!.nostrKeyPair).toEqual(nostrKeyPair);
+    });
+
+    it('should delete the identity and its keys', async () => {
+      await store.loadOrCreate('alice');
+
+      await store.delete();
+
+      expect(await store.load()).toBeNull();
+      expect(mockKeychain.size).toBe(0);
+    });
+  });
+
+  describe('Corruption', () => {
+    it('should refuse to load when the private keys are missing', async () => {
+      await store.loadOrCreate('alice');
+      mockKeychain.clear();
+
+      await expect(store.load()).rejects.toThrow('missing');
+      await expect(store.loadOrCreate('alice')).rejects.toThrow('missing');
+    });
+
+    it('should refuse to load keys that do not match', async () => {
+      await store.loadOrCreate('alice');
+      const file = path.join(directory, 'identity.json');
+      const stored = JSON.parse(await fs.readFile(file, 'utf8'));
+      stored.staticPublicKey = KeyManager.generateCurve25519KeyPair().publicKey.toString('hex');
+      await fs.writeFile(file, JSON.stringify(stored));
+
+      await expect(store.load()).rejects.toThrow('do not match');
+    });
+
+    it('should reject unknown file versions', async () => {
+      await store.loadOrCreate('alice');
+      const file = path.join(directory, 'identity.json');
+      const stored = JSON.parse(await fs.readFile(file, 'utf8'));
+      await fs.writeFile(file, JSON.stringify({ ...stored, version: 99 }));
+
+      await expect(store.load()).rejects.toThrow('Unsupported identity file version');
+    });
+  });
+});
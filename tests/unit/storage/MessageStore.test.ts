@@ -0,0 +1,281 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MessageStore, PUBLIC_CONVERSATION } from '../../../src/main/storage/MessageStore';
+import { SecretStore } from '../../../src/main/storage/SecretStore';
+import { BitchatMessage, DeliveryStatus } from '../../../src/shared/types';
+
+const mockKeychain: Map<string, string> = new Map();
+
+// Mock keytar with an in-memory keychain
+jest.mock('keytar', () => ({
+  getPassword: jest.fn(async (service: string, account: string) =>
+    mockKeychain.get(`${service}/${account}`) ?? null),
+  setPassword: jest.fn(async (service: string, account: string, password: string) => {
+    mockKeychain.set(`${service}/${account}`, password);
+  }),
+  deletePassword: jest.fn(async (service: string, account: string) =>
+    mockKeychain.delete(`${service}/${account}`)),
+  findCredentials: jest.fn(async () => [])
+}));
+
+describe('MessageStore', () => {
+  const bob = '2222222222222222';
+  const carol = '3333333333333333';
+  let directory: string;
+  let store: MessageStore;
+
+  const createMessage = (id: string, content: string = `Message ${id}`): BitchatMessage => ({
+    id,
+    sender: 'bob',
+    content,
+    timestamp: new Date(1700000000000 + Number(id) * 1000),
+    isRelay: false,
+    isPrivate: true,
+    senderPeerID: bob
+  });
+
+  const openStore = async (): Promise<MessageStore> => {
+    const opened = new MessageStore({ directory, secretStore: new SecretStore({ directory }) });
+    await opened.open();
+    return opened;
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'bitchat-messages-'));
+    mockKeychain.clear();
+    store = await openStore();
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  describe('Persistence', () => {
+    it('should keep history across restarts', async () => {
+      await store.addMessage(bob, createMessage('1', 'Hello'));
+      await store.addMessage(PUBLIC_CONVERSATION, { ...createMessage('2', 'Hi all'), isPrivate: false });
+      await store.close();
+
+      store = await openStore();
+      const page = await store.getMessages(bob);
+
+      expect(page.messages).toEqual([createMessage('1', 'Hello')]);
+      expect(page.messages[0].timestamp).toBeInstanceOf(Date);
+      expect((await store.getMessages(PUBLIC_CONVERSATION)).messages[0].content).toBe('Hi all');
+      expect(store.getConversationIds().sort()).toEqual([PUBLIC_CONVERSATION, bob].sort());
+    });
+
+    it('should keep conversations apart', async () => {
+      await store.addMessage(bob, createMessage('1'));
+      await store.addMessage(carol, createMessage('2'));
+
+      expect((await store.getMessages(bob)).messages.map((m) => m.id)).toEqual(['1']);
+      expect((await store.getMessages(carol)).messages.map((m) => m.id)).toEqual(['2']);
+    });
+
+    it('should ignore duplicate message IDs', async () => {
+      expect(await store.addMessage(bob, createMessage('1'), true)).toBe(true);
+      expect(await store.addMessage(bob, createMessage('1'), true)).toBe(false);
+
+      expect((await store.getMessages(bob)).messages).toHaveLength(1);
+      expect(store.getUnreadCount(bob)).toBe(1);
+    });
+
+    it('should store the history key in the keychain', async () => {
+      expect(mockKeychain.get('BitChat/message-history-key')).toMatch(/^[0-9a-f]{64}$/);
+    });
+  });
+
+  describe('Encryption at rest', () => {
+    it('should not write content or peer IDs in the clear', async () => {
+      await store.addMessage(bob, createMessage('1', 'attack at dawn'));
+      await store.close();
+
+      const files = await fs.readdir(directory);
+      expect(files.some((file) => file.includes(bob))).toBe(false);
+
+      for (const file of files) {
+        const raw = await fs.readFile(path.join(directory, file));
+        expect(raw.includes('attack at dawn')).toBe(false);
+        expect(raw.includes(bob)).toBe(false);
+      }
+    });
+
+    it('should not open history without the key', async () => {
+      await store.addMessage(bob, createMessage('1'));
+      await store.close();
+      mockKeychain.clear();
+
+      await expect(openStore()).rejects.toThrow();
+    });
+
+    it('should skip records that fail authentication', async () => {
+      await store.addMessage(bob, createMessage('1'));
+      await store.addMessage(bob, createMessage('2'));
+      await store.close();
+
+      const log = (await fs.readdir(directory)).find((file) => file.endsWith('.log'))!;
+      const lines = (await fs.readFile(path.join(directory, log), 'utf8')).trim().split('\n');
+      const tampered = Buffer.from(lines[0], 'base64');
+      tampered[tampered.length - 1] ^= 0x01;
+      await fs.writeFile(path.join(directory, log), [tampered.toString('base64'), lines[1], 'torn'].join('\n'));
+
+      store = await openStore();
+      expect((await store.getMessages(bob)).messages.map((m) => m.id)).toEqual(['2']);
+    });
+  });
+
+  describe('Pagination', () => {
+    beforeEach(async () => {
+      for (let i = 1; i <= 5; i++) {
+        await store.addMessage(bob, createMessage(String(i)));
+      }
+    });
+
+    it('should return the newest page first', async () => {
+      const page = await store.getMessages(bob, { limit: 2 });
+
+      expect(page.messages.map((m) => m.id)).toEqual(['4', '5']);
+      expect(page.hasMore).toBe(true);
+    });
+
+    it('should page back from the oldest message shown', async () => {
+      const second = await store.getMessages(bob, { before: '4', limit: 2 });
+      const third = await store.getMessages(bob, { before: '2', limit: 2 });
+
+      expect(second.messages.map((m) => m.id)).toEqual(['2', '3']);
+      expect(second.hasMore).toBe(true);
+      expect(third.messages.map((m) => m.id)).toEqual(['1']);
+      expect(third.hasMore).toBe(false);
+    });
+
+    it('should return nothing for an unknown cursor', async () => {
+      expect(await store.getMessages(bob, { before: 'unknown' })).toEqual({ messages: [], hasMore: false });
+    });
+
+    it('should return an empty page for an unknown conversation', async () => {
+      expect(await store.getMessages(carol)).toEqual({ messages: [], hasMore: false });
+    });
+  });
+
+  describe('Unread counts', () => {
+    it('should count unread messages per conversation', async () => {
+      await store.addMessage(bob, createMessage('1'), true);
+      await store.addMessage(bob, createMessage('2'), true);
+      await store.addMessage(carol, createMessage('3'), true);
+      await store.addMessage(carol, createMessage('4'));
+
+      expect(store.getUnreadCounts()).toEqual({ [bob]: 2, [carol]: 1 });
+    });
+
+    it('should persist unread counts and reset them when read', async () => {
+      await store.addMessage(bob, createMessage('1'), true);
+      await store.close();
+
+      store = await openStore();
+      expect(store.getUnreadCount(bob)).toBe(1);
+
+      await store.markAsRead(bob);
+      await store.close();
+
+      store = await openStore();
+      expect(store.getUnreadCount(bob)).toBe(0);
+      expect(store.getUnreadCounts()).toEqual({});
+    });
+  });
+
+  describe('Delivery status', () => {
+    it('should persist status changes across restarts', async () => {
+      await store.addMessage(bob, { ...createMessage('1'), deliveryStatus: DeliveryStatus.SENT });
+
+      expect(await store.updateDeliveryStatus(bob, '1', DeliveryStatus.DELIVERED)).toBe(true);
+      expect(await store.updateDeliveryStatus(bob, '1', DeliveryStatus.READ)).toBe(true);
+      await store.close();
+
+      store = await openStore();
+      expect((await store.getMessage(bob, '1'))?.deliveryStatus).toBe(DeliveryStatus.READ);
+    });
+
+    it('should ignore unknown messages and unchanged statuses', async () => {
+      await store.addMessage(bob, { ...createMessage('1'), deliveryStatus: DeliveryStatus.SENT });
+
+      expect(await store.updateDeliveryStatus(bob, '1', DeliveryStatus.SENT)).toBe(false);
+      expect(await store.updateDeliveryStatus(bob, '2', DeliveryStatus.DELIVERED)).toBe(false);
+      expect(await store.updateDeliveryStatus(carol, '1', DeliveryStatus.DELIVERED)).toBe(false);
+      expect((await store.getMessages(bob)).messages).toHaveLength(1);
+    });
+  });
+
+  describe('Clearing', () => {
+    beforeEach(async () => {
+      await store.addMessage(bob, createMessage('1'), true);
+      await store.addMessage(carol, createMessage('2'), true);
+    });
+
+    it('should clear one conversation', async () => {
+      await store.clear(bob);
+
+      expect((await store.getMessages(bob)).messages).toHaveLength(0);
+      expect((await store.getMessages(carol)).messages).toHaveLength(1);
+      expect(store.getUnreadCounts()).toEqual({ [carol]: 1 });
+    });
+
+    it('should clear everything and delete the logs', async () => {
+      await store.clear();
+      await store.close();
+
+      expect((await fs.readdir(directory)).filter((file) => file.endsWith('.log'))).toHaveLength(0);
+      store = await openStore();
+      expect(store.getConversationIds()).toEqual([]);
+    });
+
+    it('should accept new messages after clearing', async () => {
+      await store.clear(bob);
+      await store.addMessage(bob, createMessage('3'));
+      await store.close();
+
+      store = await openStore();
+      expect((await store.getMessages(bob)).messages.map((m) => m.id)).toEqual(['3']);
+    });
+  });
+
+  describe('Merging', () => {
+    it('should merge in timestamp order and add up unread counts', async () => {
+      await store.addMessage(carol, createMessage('1'), true);
+      await store.addMessage(bob, createMessage('2'), true);
+      await store.addMessage(carol, createMessage('3'), true);
+      await store.updateDeliveryStatus(carol, '3', DeliveryStatus.READ);
+
+      await store.mergeConversation(carol, bob);
+
+      const { messages } = await store.getMessages(bob);
+      expect(messages.map((m) => m.id)).toEqual(['1', '2', '3']);
+      expect(messages[2].deliveryStatus).toBe(DeliveryStatus.READ);
+      expect(store.getUnreadCounts()).toEqual({ [bob]: 3 });
+      expect(store.getConversationIds()).toEqual([bob]);
+    });
+
+    it('should keep the merged history across restarts', async () => {
+      await store.addMessage(bob, createMessage('2'));
+      await store.addMessage(carol, createMessage('1'));
+      await store.mergeConversation(carol, bob);
+      await store.addMessage(bob, createMessage('3'));
+      await store.close();
+
+      store = await openStore();
+      expect((await store.getMessages(bob)).messages.map((m) => m.id)).toEqual(['1', '2', '3']);
+      expect((await store.getMessages(carol)).messages).toEqual([]);
+      expect((await fs.readdir(directory)).filter((file) => file.endsWith('.log'))).toHaveLength(1);
+    });
+
+    it('should do nothing for an unknown conversation', async () => {
+      await store.addMessage(bob, createMessage('1'));
+
+      await store.mergeConversation(carol, bob);
+
+      expect((await store.getMessages(bob)).messages.map((m) => m.id)).toEqual(['1']);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OutboxEntry, OutboxStore } from '../../../src/main/storage/OutboxStore';
+import { SecretStore } from '../../../src/main/storage/SecretStore';
+
+const mockKeychain: Map<string, string> = new Map();
+
+// Mock keytar with an in-memory keychain
+jest.mock('keytar', () => ({
+  getPassword: jest.fn(async (service: string, account: string) =>
+    mockKeychain.get(`${service}/${account}`) ?? null),
+  setPassword: jest.fn(async (service: string, account: string, password: string) => {
+    mockKeychain.set(`${service}/${account}`, password);
+  }),
+  deletePassword: jest.fn(async (service: string, account: string) =>
+    mockKeychain.delete(`${service}/${account}`)),
+  findCredentials: jest.fn(async () => [])
+}));
+
+describe('OutboxStore', () => {
+  const bob = '2222222222222222';
+  let directory: string;
+
+  const createStore = () => new OutboxStore({ directory, secretStore: new SecretStore({ directory }) });
+
+  const entry: OutboxEntry = {
+    message: {
+      id: 'msg-1',
+      sender: 'alice',
+      content: 'meet at noon',
+      timestamp: new Date(1700000000000),
+      isRelay: false,
+      isPrivate: true
+    },
+    recipientId: bob,
+    attempts: 2,
+    queuedAt: 1700000000000,
+    nextAttemptAt: 1700000004000,
+    expiresAt: 1700086400000
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'bitchat-outbox-'));
+    mockKeychain.clear();
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should start empty', async () => {
+    expect(await createStore().load()).toEqual([]);
+  });
+
+  it('should round trip queued entries', async () => {
+    await createStore().save([entry]);
+
+    const loaded = await createStore().load();
+
+    expect(loaded).toEqual([entry]);
+    expect(loaded[0].message.timestamp).toBeInstanceOf(Date);
+  });
+
+  it('should not write content or peer IDs in the clear', async () => {
+    await createStore().save([entry]);
+
+    const raw = await fs.readFile(path.join(directory, 'outbox.enc'));
+    expect(raw.includes('meet at noon')).toBe(false);
+    expect(raw.includes(bob)).toBe(false);
+  });
+
+  it('should not open the outbox without the key', async () => {
+    await createStore().save([entry]);
+    mockKeychain.clear();
+
+    await expect(createStore().load()).rejects.toThrow();
+  });
+});
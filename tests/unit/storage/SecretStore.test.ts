@@ -0,0 +1,138 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SecretStore } from '../../../src/main/storage/SecretStore';
+
+const mockKeychain: Map<string, string> = new Map();
+let mockKeychainAvailable = true;
+
+// Mock keytar with an in-memory keychain that can be switched off
+jest.mock('keytar', () => ({
+  getPassword: jest.fn(async (service: string, account: string) =>
+    mockKeychain.get(`${service}/${account}`) ?? null),
+  setPassword: jest.fn(async (service: string, account: string, password: string) => {
+    mockKeychain.set(`${service}/${account}`, password);
+  }),
+  deletePassword: jest.fn(async (service: string, account: string) =>
+    mockKeychain.delete(`${service}/${account}`)),
+  findCredentials: jest.fn(async () => {
+    if (!mockKeychainAvailable) {
+      throw new Error('Cannot autolaunch D-Bus without X11 $DISPLAY');
+    }
+    return [];
+  })
+}));
+
+describe('SecretStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'bitchat-secrets-'));
+    mockKeychain.clear();
+    mockKeychainAvailable = true;
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  describe('Keychain', () => {
+    it('should store secrets in the OS keychain', async () => {
+      const store = new SecretStore({ directory });
+
+      await store.set('identity', 'secret');
+
+      expect(await store.getBackend()).toBe('keychain');
+      expect(await store.get('identity')).toBe('secret');
+      expect(mockKeychain.get('BitChat/identity')).toBe('secret');
+      await expect(fs.access(path.join(directory, 'secrets.enc'))).rejects.toThrow();
+    });
+
+    it('should delete secrets', async () => {
+      const store = new SecretStore({ directory, service: 'BitChat Test' });
+
+      await store.set('identity', 'secret');
+      await store.delete('identity');
+
+      expect(await store.get('identity')).toBeNull();
+    });
+  });
+
+  describe('Encrypted file fallback', () => {
+    beforeEach(() => {
+      mockKeychainAvailable = false;
+    });
+
+    it('should fall back to an encrypted file', async () => {
+      const store = new SecretStore({ directory });
+
+      await store.set('identity', 'top secret');
+
+      expect(await store.getBackend()).toBe('file');
+      expect(await store.get('identity')).toBe('top secret');
+      expect(mockKeychain.size).toBe(0);
+
+      const raw = await fs.readFile(path.join(directory, 'secrets.enc'), 'utf8');
+      expect(raw).not.toContain('top secret');
+    });
+
+    it('should keep secrets across instances', async () => {
+      await new SecretStore({ directory }).set('a', '1');
+      await new SecretStore({ directory }).set('b', '2');
+
+      const store = new SecretStore({ directory });
+      expect(await store.get('a')).toBe('1');
+      expect(await store.get('b')).toBe('2');
+      expect(await store.get('c')).toBeNull();
+    });
+
+    it('should restrict the file to the current user', async () => {
+      await new SecretStore({ directory }).set('identity', 'secret');
+
+      const stat = await fs.stat(path.join(directory, 'secrets.enc'));
+      expect(stat.mode & 0o777).toBe(0o600);
+    });
+
+    it('should refuse to decrypt with the wrong passphrase', async () => {
+      await new SecretStore({ directory, passphrase: 'correct' }).set('identity', 'secret');
+
+      await expect(new SecretStore({ directory, passphrase: 'wrong' }).get('identity'))
+        .rejects.toThrow('could not be decrypted');
+    });
+
+    it('should detect tampering', async () => {
+      await new SecretStore({ directory }).set('identity', 'secret');
+      const file = path.join(directory, 'secrets.enc');
+      const sealed = JSON.parse(await fs.readFile(file, 'utf8'));
+      const data = Buffer.from(sealed.data, 'base64');
+      data[0] ^= 0x01;
+      await fs.writeFile(file, JSON.stringify({ ...sealed, data: data.toString('base64') }));
+
+      await expect(new SecretStore({ directory }).get('identity')).rejects.toThrow('could not be decrypted');
+    });
+
+    it('should delete secrets', async () => {
+      const store = new SecretStore({ directory });
+
+      await store.set('a', '1');
+      await store.set('b', '2');
+      await store.delete('a');
+
+      expect(await store.get('a')).toBeNull();
+      expect(await store.get('b')).toBe('2');
+    });
+
+    it('should not lose concurrent changes', async () => {
+      const store = new SecretStore({ directory });
+      await store.set('a', '1');
+
+      await Promise.all([store.set('b', '2'), store.set('c', '3'), store.delete('a')]);
+
+      expect(await store.get('a')).toBeNull();
+      expect(await store.get('b')).toBe('2');
+      expect(await store.get('c')).toBe('3');
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { VerificationStore, VerifiedPeer } from '../../../src/main/storage/VerificationStore';
+import { SecretStore } from '../../../src/main/storage/SecretStore';
+
+const mockKeychain: Map<string, string> = new Map();
+
+// Mock keytar with an in-memory keychain
+jest.mock('keytar', () => ({
+  getPassword: jest.fn(async (service: string, account: string) =>
+    mockKeychain.get(`${service}/${account}`) ?? null),
+  setPassword: jest.fn(async (service: string, account: string, password: string) => {
+    mockKeychain.set(`${service}/${account}`, password);
+  }),
+  deletePassword: jest.fn(async (service: string, account: string) =>
+    mockKeychain.delete(`${service}/${account}`)),
+  findCredentials: jest.fn(async () => [])
+}));
+
+describe('VerificationStore', () => {
+  let directory: string;
+
+  const createStore = () => new VerificationStore({ directory, secretStore: new SecretStore({ directory }) });
+
+  const alice: VerifiedPeer = {
+    fingerprint: 'a1'.repeat(32),
+    noisePublicKey: 'ab'.repeat(32),
+    nickname: 'alice',
+    verifiedAt: 1700000000000
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'bitchat-verification-'));
+    mockKeychain.clear();
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should start with no verified peers', async () => {
+    const store = createStore();
+    await store.load();
+
+    expect(store.list()).toEqual([]);
+    expect(store.isVerified(alice.fingerprint)).toBe(false);
+  });
+
+  it('should persist verified peers', async () => {
+    await createStore().add(alice);
+
+    const store = createStore();
+    await store.load();
+
+    expect(store.isVerified(alice.fingerprint)).toBe(true);
+    expect(store.get(alice.fingerprint)).toEqual(alice);
+  });
+
+  it('should forget a verification', async () => {
+    const store = createStore();
+    await store.add(alice);
+
+    expect(await store.remove(alice.fingerprint)).toBe(true);
+    expect(await store.remove(alice.fingerprint)).toBe(false);
+
+    const reloaded = createStore();
+    await reloaded.load();
+    expect(reloaded.list()).toEqual([]);
+  });
+
+  it('should not store the list in the clear', async () => {
+    await createStore().add(alice);
+
+    const contents = await fs.readFile(path.join(directory, 'verified-peers.enc'));
+
+    expect(contents.includes(Buffer.from('alice'))).toBe(false);
+    expect(contents.includes(Buffer.from(alice.noisePublicKey))).toBe(false);
+  });
+});
@@ -0,0 +1,216 @@
+import { LinkNegotiator, LinkNegotiatorOptions } from '../../../src/main/transport/LinkNegotiator';
+import { ProtocolError } from '../../../src/main/protocols/ProtocolError';
+import { ErrorCodes, MessageType, NackReason, ProtocolFeatures } from '../../../src/shared/constants';
+
+interface WirePacket {
+  from: 'alice' | 'bob';
+  type: number;
+  payload: Buffer;
+}
+
+describe('LinkNegotiator', () => {
+  let wire: WirePacket[];
+
+  const createNegotiator = (
+    name: 'alice' | 'bob',
+    options: Omit<LinkNegotiatorOptions, 'sendToLink'> = {}
+  ) => new LinkNegotiator({
+    ...options,
+    sendToLink: async (_linkId, type, payload) => {
+      wire.push({ from: name, type, payload });
+      return true;
+    }
+  });
+
+  // Delivers queued packets until both sides go quiet
+  const deliver = async (alice: LinkNegotiator, bob: LinkNegotiator) => {
+    while (wire.length > 0) {
+      const packet = wire.shift()!;
+      const receiver = packet.from === 'alice' ? bob : alice;
+      await receiver.handlePacket('link-1', packet.from, packet.type, packet.payload);
+    }
+  };
+
+  beforeEach(() => {
+    wire = [];
+  });
+
+  describe('Payloads', () => {
+    it('should round trip a hello', () => {
+      const hello = { versions: [1, 2, 5], features: 0x07, requiredFeatures: 0x02 };
+
+      expect(LinkNegotiator.decodeHello(LinkNegotiator.encodeHello(hello))).toEqual(hello);
+    });
+
+    it('should round trip an ack and a nack', () => {
+      expect(LinkNegotiator.decodeAck(LinkNegotiator.encodeAck({ version: 2, features: 0x05 })))
+        .toEqual({ version: 2, features: 0x05 });
+      expect(LinkNegotiator.decodeNack(LinkNegotiator.encodeNack({ reason: NackReason.UNSUPPORTED_VERSION, versions: [1] })))
+        .toEqual({ reason: NackReason.UNSUPPORTED_VERSION, versions: [1] });
+    });
+
+    it('should reject truncated payloads as malformed', () => {
+      const hello = LinkNegotiator.encodeHello({ versions: [1], features: 0, requiredFeatures: 0 });
+
+      for (const decode of [
+        () => LinkNegotiator.decodeHello(hello.slice(0, hello.length - 1)),
+        () => LinkNegotiator.decodeHello(Buffer.from([0x03, 0x01])),
+        () => LinkNegotiator.decodeAck(Buffer.from([0x01])),
+        () => LinkNegotiator.decodeNack(Buffer.alloc(0))
+      ]) {
+        try {
+          decode();
+          fail('Expected ProtocolError');
+        } catch (error) {
+          expect(error).toBeInstanceOf(ProtocolError);
+          expect((error as ProtocolError).code).toBe(ErrorCodes.MALFORMED_PACKET);
+        }
+      }
+    });
+
+    it('should reject payloads with trailing bytes as malformed', () => {
+      const junk = Buffer.from([0x00]);
+
+      for (const decode of [
+        () => LinkNegotiator.decodeHello(Buffer.concat([
+          LinkNegotiator.encodeHello({ versions: [1], features: 0, requiredFeatures: 0 }), junk
+        ])),
+        () => LinkNegotiator.decodeAck(Buffer.concat([LinkNegotiator.encodeAck({ version: 1, features: 0 }), junk])),
+        () => LinkNegotiator.decodeNack(Buffer.concat([
+          LinkNegotiator.encodeNack({ reason: NackReason.UNSUPPORTED_VERSION, versions: [1] }), junk
+        ]))
+      ]) {
+        expect(decode).toThrow(/unexpected trailing bytes/);
+      }
+    });
+  });
+
+  describe('Negotiation', () => {
+    it('should agree the highest common version and shared features', async () => {
+      const alice = createNegotiator('alice', { versions: [1, 2, 3], features: 0x07 });
+      const bob = createNegotiator('bob', { versions: [1, 2], features: 0x03 });
+      const negotiated: any[] = [];
+      alice.on('negotiated', (event) => negotiated.push(['alice', event]));
+      bob.on('negotiated', (event) => negotiated.push(['bob', event]));
+
+      await alice.start('link-1');
+      await deliver(alice, bob);
+
+      expect(wire).toEqual([]);
+      expect(alice.getProtocol('link-1')).toEqual({ version: 2, features: 0x03, peerID: 'bob' });
+      expect(bob.getProtocol('link-1')).toEqual({ version: 2, features: 0x03, peerID: 'alice' });
+      expect(negotiated).toEqual([
+        ['bob', { linkId: 'link-1', version: 2, features: 0x03, peerID: 'alice' }],
+        ['alice', { linkId: 'link-1', version: 2, features: 0x03, peerID: 'bob' }]
+      ]);
+    });
+
+    it('should settle on the same protocol when hellos cross', async () => {
+      const alice = createNegotiator('alice', { versions: [1, 2] });
+      const bob = createNegotiator('bob', { versions: [1, 2, 3] });
+
+      await alice.start('link-1');
+      await bob.start('link-1');
+      await deliver(alice, bob);
+
+      expect(alice.getProtocol('link-1')?.version).toBe(2);
+      expect(bob.getProtocol('link-1')?.version).toBe(2);
+    });
+
+    it('should only send one hello per link', async () => {
+      const alice = createNegotiator('alice');
+
+      expect(await alice.start('link-1')).toBe(true);
+      expect(await alice.start('link-1')).toBe(false);
+      expect(wire.map((packet) => packet.type)).toEqual([MessageType.VERSION_HELLO]);
+    });
+
+    it('should leave a link whose node never answers unnegotiated', async () => {
+      const alice = createNegotiator('alice');
+
+      await alice.start('link-1');
+
+      expect(alice.getProtocol('link-1')).toBeUndefined();
+      expect(alice.isIncompatible('link-1')).toBe(false);
+    });
+
+    it('should nack a hello with no common version', async () => {
+      const alice = createNegotiator('alice', { versions: [2, 3] });
+      const bob = createNegotiator('bob', { versions: [1] });
+      const incompatible: any[] = [];
+      alice.on('incompatible', (event) => incompatible.push(['alice', event]));
+      bob.on('incompatible', (event) => incompatible.push(['bob', event]));
+
+      await alice.start('link-1');
+      await deliver(alice, bob);
+
+      expect(alice.isIncompatible('link-1')).toBe(true);
+      expect(bob.isIncompatible('link-1')).toBe(true);
+      expect(incompatible).toEqual([
+        ['bob', { linkId: 'link-1', reason: NackReason.UNSUPPORTED_VERSION, peerVersions: [2, 3], refusedByPeer: false }],
+        ['alice', { linkId: 'link-1', reason: NackReason.UNSUPPORTED_VERSION, peerVersions: [1], refusedByPeer: true }]
+      ]);
+    });
+
+    it('should nack when either side lacks a required feature', async () => {
+      const alice = createNegotiator('alice', {
+        features: ProtocolFeatures.SIGNATURES | ProtocolFeatures.COMPRESSION,
+        requiredFeatures: ProtocolFeatures.COMPRESSION
+      });
+      const bob = createNegotiator('bob', { features: ProtocolFeatures.SIGNATURES });
+
+      await alice.start('link-1');
+      await deliver(alice, bob);
+
+      expect(alice.isIncompatible('link-1')).toBe(true);
+      expect(bob.isIncompatible('link-1')).toBe(true);
+    });
+
+    it('should refuse an ack for a version it did not offer', async () => {
+      const alice = createNegotiator('alice', { versions: [1] });
+      const incompatible: any[] = [];
+      alice.on('incompatible', (event) => incompatible.push(event));
+
+      await alice.handlePacket('link-1', 'bob', MessageType.VERSION_ACK, LinkNegotiator.encodeAck({ version: 4, features: 0 }));
+
+      expect(alice.isIncompatible('link-1')).toBe(true);
+      expect(incompatible[0].reason).toBe(NackReason.UNSUPPORTED_VERSION);
+      expect(wire.map((packet) => packet.type)).toEqual([MessageType.PROTOCOL_NACK]);
+    });
+
+    it('should nack a malformed hello', async () => {
+      const bob = createNegotiator('bob');
+
+      await expect(bob.handlePacket('link-1', 'alice', MessageType.VERSION_HELLO, Buffer.from([0x02, 0x01])))
+        .rejects.toThrow(ProtocolError);
+
+      expect(bob.isIncompatible('link-1')).toBe(true);
+      expect(LinkNegotiator.decodeNack(wire[0].payload).reason).toBe(NackReason.MALFORMED_NEGOTIATION);
+    });
+
+    it('should offer changed features again on each link', async () => {
+      const alice = createNegotiator('alice', { features: ProtocolFeatures.SIGNATURES });
+      const bob = createNegotiator('bob', { features: ProtocolFeatures.SIGNATURES | ProtocolFeatures.COMPRESSION });
+
+      await alice.start('link-1');
+      await deliver(alice, bob);
+      await alice.setFeatures(ProtocolFeatures.SIGNATURES | ProtocolFeatures.COMPRESSION);
+      await deliver(alice, bob);
+
+      expect(alice.getProtocol('link-1')?.features).toBe(ProtocolFeatures.SIGNATURES | ProtocolFeatures.COMPRESSION);
+      expect(bob.getProtocol('link-1')?.features).toBe(ProtocolFeatures.SIGNATURES | ProtocolFeatures.COMPRESSION);
+    });
+
+    it('should forget links that go away', async () => {
+      const alice = createNegotiator('alice');
+      const bob = createNegotiator('bob');
+
+      await alice.start('link-1');
+      await deliver(alice, bob);
+      alice.removeLink('link-1');
+
+      expect(alice.getProtocol('link-1')).toBeUndefined();
+      expect(await alice.start('link-1')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { MeshRelay } from '../../../src/main/transport/MeshRelay';
+import { BinaryProtocol } from '../../../src/main/protocols/BinaryProtocol';
+import { BitchatPacket } from '../../../src/shared/types';
+import { MessageType, PROTOCOL_VERSION } from '../../../src/shared/constants';
+
+describe('MeshRelay', () => {
+  let links: string[];
+  let sent: Array<{ linkId: string; data: Buffer }>;
+  let sendToLink: jest.Mock;
+  let relay: MeshRelay;
+
+  const createPacket = (senderHex: string = '1111111111111111', ttl: number = 5): BitchatPacket => ({
+    version: PROTOCOL_VERSION,
+    type: MessageType.MESSAGE,
+    ttl,
+    timestamp: Date.now(),
+    flags: 0,
+    senderID: Buffer.from(senderHex, 'hex'),
+    payload: Buffer.from('mesh payload')
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    links = ['link-a', 'link-b', 'link-c'];
+    sent = [];
+    sendToLink = jest.fn(async (linkId: string, data: Buffer) => {
+      sent.push({ linkId, data });
+      return true;
+    });
+    relay = new MeshRelay({
+      getLinks: () => links,
+      sendToLink,
+      minJitter: 10,
+      maxJitter: 50,
+      maxRelaysPerOrigin: 3,
+      rateLimitWindow: 1000
+    });
+  });
+
+  afterEach(() => {
+    relay.destroy();
+    jest.useRealTimers();
+  });
+
+  describe('Fan-out', () => {
+    it('should send to every link except the arrival link', async () => {
+      const packet = createPacket();
+
+      expect(relay.relay(packet, 'link-b')).toBe(true);
+      await jest.advanceTimersByTimeAsync(50);
+
+      expect(sent.map((s) => s.linkId)).toEqual(['link-a', 'link-c']);
+      expect(sent[0].data).toEqual(BinaryProtocol.encode(packet));
+    });
+
+    it('should wait for the jitter delay before sending', async () => {
+      relay.relay(createPacket(), 'link-a');
+
+      await jest.advanceTimersByTimeAsync(5);
+      expect(sent).toHaveLength(0);
+      expect(relay.getPendingCount()).toBe(1);
+
+      await jest.advanceTimersByTimeAsync(45);
+      expect(sent).toHaveLength(2);
+      expect(relay.getPendingCount()).toBe(0);
+    });
+
+    it('should use the links connected when the delay expires', async () => {
+      relay.relay(createPacket(), 'link-a');
+      links = ['link-a', 'link-d'];
+
+      await jest.advanceTimersByTimeAsync(50);
+
+      expect(sent.map((s) => s.linkId)).toEqual(['link-d']);
+    });
+
+    it('should drop packets with a negative TTL', () => {
+      expect(relay.relay(createPacket('1111111111111111', -1), 'link-a')).toBe(false);
+      expect(relay.getPendingCount()).toBe(0);
+    });
+
+    it('should cancel pending relays on destroy', async () => {
+      relay.relay(createPacket(), 'link-a');
+      relay.destroy();
+
+      await jest.advanceTimersByTimeAsync(100);
+
+      expect(sent).toHaveLength(0);
+    });
+  });
+
+  describe('Rate Limiting', () => {
+    it('should limit relays per origin within the window', async () => {
+      for (let i = 0; i < 5; i++) {
+        relay.relay(createPacket(), 'link-a');
+      }
+      expect(relay.relay(createPacket('2222222222222222'), 'link-a')).toBe(true);
+
+      await jest.advanceTimersByTimeAsync(50);
+
+      const stats = relay.getStats();
+      expect(stats.packetsRelayed).toBe(4);
+      expect(stats.relaysRateLimited).toBe(2);
+    });
+
+    it('should reset the budget when the window expires', async () => {
+      for (let i = 0; i < 3; i++) {
+        relay.relay(createPacket(), 'link-a');
+      }
+      expect(relay.relay(createPacket(), 'link-a')).toBe(false);
+
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(relay.relay(createPacket(), 'link-a')).toBe(true);
+    });
+  });
+
+  describe('Statistics', () => {
+    it('should count relayed bytes and failed sends', async () => {
+      sendToLink.mockImplementation(async (linkId: string) => linkId !== 'link-c');
+      const packet = createPacket();
+
+      relay.relay(packet, 'link-a');
+      await jest.advanceTimersByTimeAsync(50);
+
+      expect(relay.getStats()).toEqual({
+        packetsRelayed: 1,
+        relayBytes: BinaryProtocol.encode(packet).length,
+        relaysRateLimited: 0,
+        relaysFailed: 1
+      });
+    });
+
+    it('should not count packets that reached no link', async () => {
+      links = ['link-a'];
+
+      relay.relay(createPacket(), 'link-a');
+      await jest.advanceTimersByTimeAsync(50);
+
+      expect(relay.getStats().packetsRelayed).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { MAX_RETIRED_PEER_IDS, PeerKeyChangedEvent, PeerRegistry, PeerRoute } from '../../../src/main/transport/PeerRegistry';
+import { KeyManager } from '../../../src/main/crypto/KeyManager';
+
+describe('PeerRegistry', () => {
+  const aliceID = '1111111111111111';
+  const aliceNewID = '1111111111112222';
+  const bobID = '2222222222222222';
+  let registry: PeerRegistry;
+  let aliceKey: Buffer;
+
+  beforeEach(() => {
+    registry = new PeerRegistry();
+    aliceKey = KeyManager.generateCurve25519KeyPair().publicKey;
+  });
+
+  describe('Routes', () => {
+    it('should route to the link a peer was last heard on', () => {
+      const reachable: PeerRoute[] = [];
+      registry.on('peerReachable', (route) => reachable.push(route));
+
+      expect(registry.heard(aliceID, 'AA:BB')).toBe(true);
+      expect(registry.heard(aliceID, 'AA:BB')).toBe(false);
+      expect(registry.heard(aliceID, 'CC:DD')).toBe(true);
+
+      expect(registry.getRoute(aliceID)?.linkId).toBe('CC:DD');
+      expect(reachable.map((route) => route.linkId)).toEqual(['AA:BB', 'CC:DD']);
+    });
+
+    it('should drop the routes through a link that went away', () => {
+      const unreachable: string[] = [];
+      registry.on('peerUnreachable', (route) => unreachable.push(route.peerID));
+      registry.heard(aliceID, 'AA:BB');
+      registry.heard(bobID, 'AA:BB');
+      registry.heard('3333333333333333', 'CC:DD');
+
+      expect(registry.removeLink('AA:BB').map((route) => route.peerID)).toEqual([aliceID, bobID]);
+
+      expect(unreachable).toEqual([aliceID, bobID]);
+      expect(registry.getRoute(aliceID)).toBeUndefined();
+      expect(registry.getRoutes()).toHaveLength(1);
+    });
+  });
+
+  describe('Identities', () => {
+    it('should key peers by the fingerprint of their static key', () => {
+      const peer = registry.identify(aliceID, aliceKey, { nickname: 'alice' });
+
+      expect(peer.fingerprint).toBe(KeyManager.generateFingerprint(aliceKey));
+      expect(registry.get(peer.fingerprint)).toBe(peer);
+      expect(registry.get(aliceID)).toBe(peer);
+      expect(registry.resolvePeerID(peer.fingerprint)).toBe(aliceID);
+    });
+
+    it('should follow a peer to a new ID and keep its details', () => {
+      const changes: string[] = [];
+      registry.on('peerIDChanged', (event) => changes.push(event.previousPeerID));
+      const peer = registry.identify(aliceID, aliceKey, { nickname: 'alice', nostrPublicKey: 'ab'.repeat(32) });
+      registry.heard(aliceNewID, 'CC:DD');
+
+      registry.identify(aliceNewID, aliceKey);
+
+      expect(changes).toEqual([aliceID]);
+      expect(registry.get(aliceID)).toBe(peer);
+      expect(peer).toMatchObject({ peerID: aliceNewID, nickname: 'alice', nostrPublicKey: 'ab'.repeat(32) });
+      expect(registry.getRoute(aliceID)?.linkId).toBe('CC:DD');
+      expect(registry.list()).toHaveLength(1);
+    });
+
+    it('should stop routing to an ID the peer has left', () => {
+      const unreachable: string[] = [];
+      registry.on('peerUnreachable', (route) => unreachable.push(route.peerID));
+      registry.identify(aliceID, aliceKey);
+      registry.heard(aliceID, 'AA:BB');
+      registry.heard(aliceNewID, 'AA:BB');
+
+      registry.identify(aliceNewID, aliceKey);
+
+      expect(unreachable).toEqual([aliceID]);
+      expect(registry.getRoutes().map((route) => route.peerID)).toEqual([aliceNewID]);
+    });
+
+    it('should not route to an ID the peer has left when it is heard again', () => {
+      registry.identify(aliceID, aliceKey);
+      registry.identify(aliceNewID, aliceKey);
+
+      expect(registry.heard(aliceID, 'CC:DD')).toBe(false);
+
+      expect(registry.getRoutes()).toEqual([]);
+    });
+
+    it('should only remember the most recent IDs a peer has left', () => {
+      const ids = Array.from({ length: MAX_RETIRED_PEER_IDS + 3 }, (_, i) => i.toString(16).padStart(16, '0'));
+      for (const id of ids) {
+        registry.identify(id, aliceKey);
+      }
+
+      expect(registry.get(ids[0])).toBeUndefined();
+      expect(registry.get(ids[1])).toBeUndefined();
+      expect(ids.slice(2).every((id) => registry.get(id)?.peerID === ids[ids.length - 1])).toBe(true);
+    });
+
+    it('should give an ID to whichever key proved it last', () => {
+      registry.identify(aliceID, aliceKey);
+      const bobKey = KeyManager.generateCurve25519KeyPair().publicKey;
+
+      registry.identify(aliceID, bobKey);
+
+      expect(registry.get(aliceID)?.noisePublicKey).toEqual(bobKey);
+      expect(registry.get(KeyManager.generateFingerprint(aliceKey))).toBeUndefined();
+    });
+
+    it('should report a known ID turning up with another key', () => {
+      const changes: PeerKeyChangedEvent[] = [];
+      registry.on('peerKeyChanged', (event) => changes.push(event));
+      registry.identify(aliceID, aliceKey);
+      registry.identify(aliceID, aliceKey);
+      expect(changes).toHaveLength(0);
+
+      const bobKey = KeyManager.generateCurve25519KeyPair().publicKey;
+      const peer = registry.identify(aliceID, bobKey);
+
+      expect(changes).toEqual([{ peerID: aliceID, peer, previousFingerprint: KeyManager.generateFingerprint(aliceKey) }]);
+    });
+
+    it('should pass through IDs it cannot resolve', () => {
+      expect(registry.get(bobID)).toBeUndefined();
+      expect(registry.resolvePeerID(bobID)).toBe(bobID);
+    });
+  });
+
+  describe('Nostr Presence', () => {
+    it('should keep a Nostr key until the peer is identified', () => {
+      registry.setNostrPublicKey(aliceID, 'ab'.repeat(32));
+
+      expect(registry.getNostrPublicKey(aliceID)).toBe('ab'.repeat(32));
+      expect(registry.getNostrPeerIDs()).toEqual([aliceID]);
+
+      const peer = registry.identify(aliceID, aliceKey);
+
+      expect(peer.nostrPublicKey).toBe('ab'.repeat(32));
+      expect(registry.getNostrPeerIDs()).toEqual([aliceID]);
+    });
+
+    it('should forget a Nostr key', () => {
+      registry.identify(aliceID, aliceKey, { nostrPublicKey: 'ab'.repeat(32) });
+
+      registry.setNostrPublicKey(aliceID, undefined);
+
+      expect(registry.getNostrPublicKey(aliceID)).toBeUndefined();
+      expect(registry.getNostrPeerIDs()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,364 @@
+import { randomBytes } from 'crypto';
+import { TransportManager } from '../../../src/main/transport/TransportManager';
+import { NoiseSessionManager } from '../../../src/main/crypto/NoiseSessionManager';
+import { KeyManager } from '../../../src/main/crypto/KeyManager';
+import { BinaryProtocol } from '../../../src/main/protocols/BinaryProtocol';
+import { BitchatMessage, BitchatPacket } from '../../../src/shared/types';
+import { ErrorCodes, MessageType } from '../../../src/shared/constants';
+import { BLETransport as FakeBLETransport } from './FakeBLETransport';
+
+jest.mock('../../../src/main/transport/ble/BLETransport', () => require('./FakeBLETransport'));
+
+interface Node {
+  name: string;
+  manager: TransportManager;
+  sessionManager: NoiseSessionManager;
+  ble: FakeBLETransport;
+  messages: BitchatMessage[];
+}
+
+describe('TransportManager', () => {
+  let nodes: Node[];
+
+  const waitFor = async (condition: () => boolean, timeout: number = 3000): Promise<void> => {
+    const start = Date.now();
+    while (!condition()) {
+      if (Date.now() - start > timeout) {
+        throw new Error('Timed out waiting for condition');
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  };
+
+  const createNode = async (name: string): Promise<Node> => {
+    const sessionManager = new NoiseSessionManager(KeyManager.generateCurve25519KeyPair());
+    const manager = new TransportManager({
+      deviceName: name,
+      sessionManager,
+      signingKeyPair: KeyManager.generateEd25519KeyPair(),
+      peerIDRotationInterval: 0
+    });
+    const node: Node = { name, manager, sessionManager, ble: undefined!, messages: [] };
+    manager.on('message', (event) => node.messages.push(event.message));
+    manager.on('error', () => undefined);
+    await manager.initialize();
+    node.ble = FakeBLETransport.get(name);
+    nodes.push(node);
+    return node;
+  };
+
+  // Packets a node put on the wire, decoded, with the link they went out on
+  const sentPackets = (node: Node): Array<{ address: string; packet: BitchatPacket }> =>
+    node.ble.sent.map(({ address, data }) => ({ address, packet: BinaryProtocol.decode(data) }));
+
+  // Messages a node sent to one peer rather than to everyone
+  const sentPrivateMessages = (node: Node) =>
+    sentPackets(node).filter(({ packet }) => packet.type === MessageType.MESSAGE && packet.recipientID);
+
+  const createMessage = (content: string): BitchatMessage => ({
+    id: `msg-${content}`,
+    sender: 'sender',
+    content,
+    timestamp: new Date(),
+    isRelay: false,
+    isPrivate: false
+  });
+
+  // Each learns the way to the other from its first broadcast
+  const connectPair = async (): Promise<[Node, Node]> => {
+    const alice = await createNode('alice');
+    const bob = await createNode('bob');
+    FakeBLETransport.connect('alice', 'bob');
+    await bob.manager.sendMessage(createMessage('hello from bob'));
+    await alice.manager.sendMessage(createMessage('hello from alice'));
+    await waitFor(() => alice.messages.length > 0 && bob.messages.length > 0);
+    return [alice, bob];
+  };
+
+  const sendPrivate = (from: Node, to: Node | string, content: string): Promise<boolean> =>
+    from.manager.sendMessage(
+      { ...createMessage(content), isPrivate: true },
+      typeof to === 'string' ? to : to.manager.getPeerID()
+    );
+
+  beforeEach(() => {
+    nodes = [];
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    for (const node of nodes) {
+      node.manager.destroy();
+      node.sessionManager.destroy();
+    }
+    FakeBLETransport.reset();
+    jest.restoreAllMocks();
+  });
+
+  describe('Links', () => {
+    it('should broadcast once on each link', async () => {
+      const alice = await createNode('alice');
+      const bob = await createNode('bob');
+      const carol = await createNode('carol');
+      FakeBLETransport.connect('alice', 'bob');
+      FakeBLETransport.connect('alice', 'carol');
+
+      await alice.manager.sendMessage(createMessage('hello'));
+
+      const sent = sentPackets(alice).filter(({ packet }) => packet.type === MessageType.MESSAGE);
+      expect(sent.map(({ address }) => address).sort()).toEqual(['bob', 'carol']);
+      await waitFor(() => bob.messages.length > 0 && carol.messages.length > 0);
+    });
+
+    it('should relay once on every link but the one a packet arrived on', async () => {
+      const alice = await createNode('alice');
+      const bob = await createNode('bob');
+      const carol = await createNode('carol');
+      FakeBLETransport.connect('bob', 'alice');
+      FakeBLETransport.connect('alice', 'carol');
+
+      await bob.manager.sendMessage(createMessage('hello'));
+      await waitFor(() => carol.messages.length > 0);
+
+      const relayed = sentPackets(alice).filter(({ packet }) => packet.type === MessageType.MESSAGE);
+      expect(relayed.map(({ address }) => address)).toEqual(['carol']);
+      expect(carol.messages[0].content).toBe('hello');
+    });
+
+    it('should send nothing without links', async () => {
+      const alice = await createNode('alice');
+      await createNode('bob');
+
+      await alice.manager.broadcastPacket(MessageType.MESSAGE, Buffer.from('hello'));
+
+      expect(alice.ble.sent).toHaveLength(0);
+    });
+
+    it('should report the connection a packet last arrived on', async () => {
+      const alice = await createNode('alice');
+      const bob = await createNode('bob');
+      FakeBLETransport.connect('alice', 'bob');
+
+      await bob.manager.sendMessage(createMessage('hello'));
+      await waitFor(() => alice.messages.length > 0);
+
+      expect(alice.manager.getStatus().ble).toMatchObject({
+        isConnected: true,
+        connection: { address: 'bob' }
+      });
+    });
+  });
+
+  describe('Reply routes', () => {
+    // Alice knows Bob, and Mallory is on another of Alice's links
+    const connectMallory = async (): Promise<[Node, Node, Node]> => {
+      const [alice, bob] = await connectPair();
+      const mallory = await createNode('mallory');
+      FakeBLETransport.connect('alice', 'mallory');
+      await sendPrivate(bob, alice, 'hello');
+      await waitFor(() => alice.messages.some((message) => message.content === 'hello'));
+      return [alice, bob, mallory];
+    };
+
+    const replyLink = async (alice: Node, bob: Node): Promise<string> => {
+      await sendPrivate(alice, bob, 'reply');
+      const replies = sentPrivateMessages(alice);
+      return replies[replies.length - 1].address;
+    };
+
+    it('should not route to a link a forged packet arrived on', async () => {
+      const [alice, bob, mallory] = await connectMallory();
+
+      await mallory.ble.sendData(BinaryProtocol.encode({
+        version: 1,
+        type: MessageType.MESSAGE,
+        ttl: 7,
+        timestamp: Date.now(),
+        flags: 0,
+        senderID: Buffer.from(bob.manager.getPeerID(), 'hex'),
+        payload: Buffer.from('forged')
+      }), 'alice');
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(await replyLink(alice, bob)).toBe('bob');
+    });
+
+    it('should not route to a link a replayed packet arrived on', async () => {
+      const [alice, bob, mallory] = await connectMallory();
+      const { data } = bob.ble.sent[bob.ble.sent.length - 1];
+
+      await mallory.ble.sendData(data, 'alice');
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(await replyLink(alice, bob)).toBe('bob');
+    });
+  });
+
+  describe('Private messages', () => {
+    const secret = 'Meet at noon';
+
+    const sentInTheClear = (node: Node, content: string): boolean =>
+      node.ble.sent.some(({ data }) => data.includes(Buffer.from(content)));
+
+    it('should send nothing private before the handshake completes', async () => {
+      const [alice, bob] = await connectPair();
+      let typesBeforeSession: number[] = [];
+      let privateBeforeSession: unknown[] = [];
+      alice.sessionManager.once('sessionEstablished', () => {
+        typesBeforeSession = sentPackets(alice).map(({ packet }) => packet.type);
+        privateBeforeSession = sentPrivateMessages(alice);
+      });
+
+      expect(await sendPrivate(alice, bob, secret)).toBe(true);
+
+      expect(typesBeforeSession).toContain(MessageType.NOISE_HANDSHAKE_INIT);
+      expect(privateBeforeSession).toEqual([]);
+      expect(sentInTheClear(alice, secret)).toBe(false);
+    });
+
+    it('should send messages encrypted once the session is established', async () => {
+      const [alice, bob] = await connectPair();
+
+      await sendPrivate(alice, bob, secret);
+      await waitFor(() => bob.messages.some((message) => message.content === secret));
+
+      const messages = sentPrivateMessages(alice);
+      expect(messages).toHaveLength(1);
+      expect(messages[0].packet.recipientID!.toString('hex')).toBe(bob.manager.getPeerID());
+      expect(alice.sessionManager.hasSession(bob.manager.getPeerID())).toBe(true);
+      expect(sentInTheClear(alice, secret)).toBe(false);
+    });
+
+    it('should reject queued messages when the handshake fails', async () => {
+      const [alice, bob] = await connectPair();
+      jest.spyOn(bob.sessionManager, 'processHandshakeMessage').mockImplementation(async (peerID) => {
+        bob.sessionManager.emit('handshakeMessage', {
+          peerID,
+          type: MessageType.NOISE_HANDSHAKE_RESP,
+          message: randomBytes(96)
+        });
+      });
+
+      const sends = [sendPrivate(alice, bob, 'first'), sendPrivate(alice, bob, 'second')];
+
+      for (const send of sends) {
+        await expect(send).rejects.toMatchObject({ code: ErrorCodes.HANDSHAKE_FAILED });
+      }
+      expect(sentPrivateMessages(alice)).toEqual([]);
+    });
+
+    it('should reject queued messages when the handshake times out', async () => {
+      const [alice, bob] = await connectPair();
+      (alice.sessionManager as any).handshakeTimeout = 100;
+      bob.ble.dropping = true;
+
+      await expect(sendPrivate(alice, bob, secret)).rejects.toMatchObject({ code: ErrorCodes.HANDSHAKE_FAILED });
+      expect(sentPrivateMessages(alice)).toEqual([]);
+      expect(sentInTheClear(alice, secret)).toBe(false);
+    });
+  });
+
+  describe('Blocking', () => {
+    it('should refuse handshakes from a peer blocked by ID', async () => {
+      const [alice, bob] = await connectPair();
+      (bob.sessionManager as any).handshakeTimeout = 100;
+      alice.manager.blockPeer(bob.manager.getPeerID());
+
+      await expect(sendPrivate(bob, alice, 'hello')).rejects.toMatchObject({ code: ErrorCodes.HANDSHAKE_FAILED });
+      expect(sentPackets(alice).map(({ packet }) => packet.type)).not.toContain(MessageType.NOISE_HANDSHAKE_RESP);
+      expect(alice.messages.some((message) => message.content === 'hello')).toBe(false);
+    });
+
+    it('should reject sends to a blocked peer', async () => {
+      const [alice, bob] = await connectPair();
+      alice.manager.blockPeer(bob.manager.getPeerID());
+
+      await expect(sendPrivate(alice, bob, 'hello')).rejects.toMatchObject({ code: ErrorCodes.PEER_BLOCKED });
+      expect(sentPrivateMessages(alice)).toEqual([]);
+    });
+
+    it('should reject sends waiting for a session with the peer', async () => {
+      const [alice, bob] = await connectPair();
+      bob.ble.dropping = true;
+
+      const send = sendPrivate(alice, bob, 'hello');
+      await waitFor(() => sentPackets(alice).some(({ packet }) => packet.type === MessageType.NOISE_HANDSHAKE_INIT));
+      alice.manager.blockPeer(bob.manager.getPeerID());
+
+      await expect(send).rejects.toMatchObject({ code: ErrorCodes.PEER_BLOCKED });
+      expect(sentPrivateMessages(alice)).toEqual([]);
+    });
+
+    it('should block by fingerprint once a peer blocked by ID proves its key', async () => {
+      const [alice, bob] = await connectPair();
+      const bobID = bob.manager.getPeerID();
+      const blocked: any[] = [];
+      alice.manager.on('peer:blocked', (event) => blocked.push(event));
+      // The user blocks the peer while our handshake with it is under way
+      const processHandshakeMessage = alice.sessionManager.processHandshakeMessage.bind(alice.sessionManager);
+      jest.spyOn(alice.sessionManager, 'processHandshakeMessage').mockImplementation(async (peerID, type, message) => {
+        if (type === MessageType.NOISE_HANDSHAKE_RESP) {
+          alice.manager.blockPeer(peerID);
+        }
+        return processHandshakeMessage(peerID, type, message);
+      });
+
+      await expect(sendPrivate(alice, bob, 'hello')).rejects.toMatchObject({ code: ErrorCodes.PEER_BLOCKED });
+      await waitFor(() => blocked.length > 0);
+
+      const fingerprint = alice.manager.getPeer(bobID)!.fingerprint;
+      expect(blocked).toEqual([{ peerID: bobID, fingerprint }]);
+      expect(alice.manager.getBlockedPeers()).toEqual([fingerprint]);
+      expect(alice.manager.isBlocked(fingerprint)).toBe(true);
+      expect(alice.sessionManager.hasSession(bobID)).toBe(false);
+      expect(sentPrivateMessages(alice)).toEqual([]);
+    });
+
+    it('should keep a block by ID while the peer has not proved its key', async () => {
+      const [alice, bob] = await connectPair();
+      alice.manager.blockPeer(bob.manager.getPeerID());
+
+      expect(alice.manager.getBlockedPeers()).toEqual([bob.manager.getPeerID()]);
+      expect(alice.manager.isBlocked(bob.manager.getPeerID())).toBe(true);
+    });
+  });
+
+  describe('Peer ID rotation', () => {
+    it('should handshake again from the new ID and stay the same peer', async () => {
+      const [alice, bob] = await connectPair();
+      await sendPrivate(bob, alice, 'before');
+      await waitFor(() => alice.messages.some((message) => message.content === 'before'));
+      const oldID = bob.manager.getPeerID();
+      const fingerprint = alice.manager.getPeer(oldID)!.fingerprint;
+      const idChanges: any[] = [];
+      alice.manager.on('peer:idChanged', (event) => idChanges.push(event));
+
+      bob.manager.rotatePeerID();
+      const newID = bob.manager.getPeerID();
+      await waitFor(() => idChanges.length > 0);
+
+      expect(newID).not.toBe(oldID);
+      expect(idChanges).toEqual([{ peerID: newID, previousPeerID: oldID, fingerprint }]);
+      expect(alice.manager.getPeer(newID)).toBe(alice.manager.getPeer(oldID));
+      expect(alice.sessionManager.hasSession(oldID)).toBe(false);
+    });
+
+    it('should carry on private messages in both directions', async () => {
+      const [alice, bob] = await connectPair();
+      await sendPrivate(bob, alice, 'before');
+      await waitFor(() => alice.messages.some((message) => message.content === 'before'));
+      const oldID = bob.manager.getPeerID();
+
+      bob.manager.rotatePeerID();
+      await sendPrivate(bob, alice, 'after');
+      await waitFor(() => alice.messages.some((message) => message.content === 'after'));
+      // Replies to the old ID follow the peer to its new one
+      await sendPrivate(alice, oldID, 'reply');
+      await waitFor(() => bob.messages.some((message) => message.content === 'reply'));
+
+      const replies = sentPrivateMessages(alice);
+      expect(replies[replies.length - 1].packet.recipientID!.toString('hex')).toBe(bob.manager.getPeerID());
+    });
+  });
+});
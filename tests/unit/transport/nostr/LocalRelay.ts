@@ -0,0 +1,98 @@
+import { WebSocketServer, WebSocket } from 'ws';
+import { AddressInfo } from 'net';
+import { Event, Filter, matchFilters, verifyEvent } from 'nostr-tools';
+
+/**
+ * Minimal in-process NIP-01 relay for tests. Stores every valid event and
+ * delivers it to matching subscriptions, past and future.
+ */
+export class LocalRelay {
+  readonly events: Event[] = [];
+  private server: WebSocketServer;
+  private subscriptions: Map<WebSocket, Map<string, Filter[]>> = new Map();
+  rejectEvents: boolean = false;
+
+  private constructor(server: WebSocketServer) {
+    this.server = server;
+    this.server.on('connection', (socket) => this.handleConnection(socket));
+  }
+
+  static start(): Promise<LocalRelay> {
+    return new Promise((resolve) => {
+      const server = new WebSocketServer({ host: '127.0.0.1', port: 0 }, () => {
+        resolve(new LocalRelay(server));
+      });
+    });
+  }
+
+  get url(): string {
+    return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  get connectionCount(): number {
+    return this.subscriptions.size;
+  }
+
+  /**
+   * Drops every client connection, as a relay restart would
+   */
+  dropConnections(): void {
+    for (const socket of this.subscriptions.keys()) {
+      socket.terminate();
+    }
+  }
+
+  stop(): Promise<void> {
+    this.dropConnections();
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    this.subscriptions.set(socket, new Map());
+    socket.on('close', () => this.subscriptions.delete(socket));
+    socket.on('message', (data) => {
+      const message = JSON.parse(data.toString());
+
+      switch (message[0]) {
+        case 'EVENT':
+          this.handleEvent(socket, message[1]);
+          break;
+        case 'REQ':
+          this.handleReq(socket, message[1], message.slice(2));
+          break;
+        case 'CLOSE':
+          this.subscriptions.get(socket)?.delete(message[1]);
+          break;
+      }
+    });
+  }
+
+  private handleEvent(socket: WebSocket, event: Event): void {
+    if (this.rejectEvents || !verifyEvent(event)) {
+      socket.send(JSON.stringify(['OK', event.id, false, 'blocked: rejected']));
+      return;
+    }
+
+    this.events.push(event);
+    socket.send(JSON.stringify(['OK', event.id, true, '']));
+
+    for (const [subscriber, subscriptions] of this.subscriptions) {
+      for (const [id, filters] of subscriptions) {
+        if (matchFilters(filters, event)) {
+          subscriber.send(JSON.stringify(['EVENT', id, event]));
+        }
+      }
+    }
+  }
+
+  private handleReq(socket: WebSocket, id: string, filters: Filter[]): void {
+    this.subscriptions.get(socket)?.set(id, filters);
+
+    for (const event of this.events) {
+      if (matchFilters(filters, event)) {
+        socket.send(JSON.stringify(['EVENT', id, event]));
+      }
+    }
+    socket.send(JSON.stringify(['EOSE', id]));
+  }
+}
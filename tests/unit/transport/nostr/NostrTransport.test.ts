@@ -0,0 +1,174 @@
+import { generateSecretKey, getPublicKey, kinds } from 'nostr-tools';
+import { NostrTransport, NostrDataEvent } from '../../../../src/main/transport/nostr/NostrTransport';
+import { LocalRelay } from './LocalRelay';
+
+describe('NostrTransport', () => {
+  let relay: LocalRelay;
+  let alice: NostrTransport;
+  let bob: NostrTransport;
+  let bobKey: Uint8Array;
+
+  const waitFor = async (condition: () => boolean, timeout: number = 3000): Promise<void> => {
+    const start = Date.now();
+    while (!condition()) {
+      if (Date.now() - start > timeout) {
+        throw new Error('Timed out waiting for condition');
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  };
+
+  const nextData = (transport: NostrTransport): Promise<NostrDataEvent> =>
+    new Promise((resolve) => transport.once('data', resolve));
+
+  beforeEach(async () => {
+    relay = await LocalRelay.start();
+    bobKey = generateSecretKey();
+    alice = new NostrTransport({ privateKey: generateSecretKey(), relays: [relay.url] });
+    bob = new NostrTransport({ privateKey: bobKey, relays: [relay.url] });
+    await alice.start();
+    await bob.start();
+  });
+
+  afterEach(async () => {
+    alice.destroy();
+    bob.destroy();
+    await relay.stop();
+  });
+
+  describe('Connection', () => {
+    it('should connect to configured relays and subscribe to the inbox', () => {
+      const status = bob.getStatus();
+
+      expect(status.isEnabled).toBe(true);
+      expect(status.isConnected).toBe(true);
+      expect(status.publicKey).toBe(getPublicKey(bobKey));
+      expect(status.relays).toEqual([{
+        url: relay.url,
+        status: 'connected',
+        error: undefined,
+        activeSubscriptions: 1
+      }]);
+    });
+
+    it('should report relays that cannot be reached', async () => {
+      const errors: Error[] = [];
+      const transport = new NostrTransport({
+        privateKey: generateSecretKey(),
+        relays: ['ws://127.0.0.1:1'],
+        relayOptions: { reconnectAttempts: 0 }
+      });
+      transport.on('error', (error) => errors.push(error));
+
+      await transport.start();
+
+      expect(transport.getStatus().isConnected).toBe(false);
+      expect(transport.getStatus().relays[0].status).toBe('error');
+      expect(errors).toHaveLength(1);
+      transport.destroy();
+    });
+  });
+
+  describe('Messaging', () => {
+    it('should deliver data as a NIP-17 gift wrap', async () => {
+      const received = nextData(bob);
+      const data = Buffer.from('0102030405', 'hex');
+
+      expect(await alice.send(bob.getPublicKey(), data)).toBe(true);
+
+      const event = await received;
+      expect(event.data).toEqual(data);
+      expect(event.senderPublicKey).toBe(alice.getPublicKey());
+      expect(event.relayUrl).toBe(relay.url);
+    });
+
+    it('should hide the sender and content from the relay', async () => {
+      await alice.send(bob.getPublicKey(), Buffer.from('secret payload'));
+
+      expect(relay.events).toHaveLength(1);
+      const wrap = relay.events[0];
+      expect(wrap.kind).toBe(kinds.GiftWrap);
+      expect(wrap.pubkey).not.toBe(alice.getPublicKey());
+      expect(wrap.tags).toEqual([['p', bob.getPublicKey()]]);
+      expect(wrap.content).not.toContain(Buffer.from('secret payload').toString('base64url'));
+    });
+
+    it('should only deliver wraps to their recipient', async () => {
+      const carol = new NostrTransport({ privateKey: generateSecretKey(), relays: [relay.url] });
+      await carol.start();
+      const carolData: NostrDataEvent[] = [];
+      carol.on('data', (event) => carolData.push(event));
+
+      const received = nextData(bob);
+      await alice.send(bob.getPublicKey(), Buffer.from('for bob'));
+      await received;
+
+      expect(carolData).toHaveLength(0);
+      carol.destroy();
+    });
+
+    it('should deliver wraps published while we were offline', async () => {
+      bob.destroy();
+      await alice.send(getPublicKey(bobKey), Buffer.from('stored'));
+
+      bob = new NostrTransport({ privateKey: bobKey, relays: [relay.url] });
+      const received = nextData(bob);
+      await bob.start();
+
+      expect((await received).data.toString()).toBe('stored');
+    });
+
+    it('should deliver a wrap seen on several relays once', async () => {
+      const second = await LocalRelay.start();
+      await alice.addRelay(second.url);
+      await bob.addRelay(second.url);
+      const received: NostrDataEvent[] = [];
+      bob.on('data', (event) => received.push(event));
+
+      await alice.send(bob.getPublicKey(), Buffer.from('once'));
+      await waitFor(() => received.length > 0);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(second.events).toHaveLength(1);
+      expect(received).toHaveLength(1);
+      alice.removeRelay(second.url);
+      bob.removeRelay(second.url);
+      await second.stop();
+    });
+
+    it('should report failure when no relay accepts the event', async () => {
+      relay.rejectEvents = true;
+
+      expect(await alice.send(bob.getPublicKey(), Buffer.from('dropped'))).toBe(false);
+    });
+
+    it('should report failure when no relay is connected', async () => {
+      alice.disconnectRelay(relay.url);
+
+      expect(await alice.send(bob.getPublicKey(), Buffer.from('offline'))).toBe(false);
+      expect(alice.getStatus().relays[0].status).toBe('disconnected');
+    });
+  });
+
+  describe('Reconnection', () => {
+    it('should reconnect and resubscribe after the relay drops', async () => {
+      bob.destroy();
+      bob = new NostrTransport({
+        privateKey: bobKey,
+        relays: [relay.url],
+        relayOptions: { reconnectDelay: 10 }
+      });
+      await bob.start();
+
+      relay.dropConnections();
+      await waitFor(() => bob.getStatus().relays[0].status === 'disconnected');
+      await waitFor(() => bob.getStatus().isConnected);
+
+      const received = nextData(bob);
+      await alice.connectRelay(relay.url);
+      await alice.send(bob.getPublicKey(), Buffer.from('after reconnect'));
+
+      expect((await received).data.toString()).toBe('after reconnect');
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import {
+  createVerificationCode,
+  generateSafetyNumber,
+  parseVerificationCode
+} from '../../../src/main/verification/PeerVerification';
+import { KeyManager } from '../../../src/main/crypto/KeyManager';
+
+describe('PeerVerification', () => {
+  const aliceKey = KeyManager.generateCurve25519KeyPair().publicKey;
+  const bobKey = KeyManager.generateCurve25519KeyPair().publicKey;
+
+  describe('Verification Codes', () => {
+    it('should round trip our keys', () => {
+      const signingKey = KeyManager.generateEd25519KeyPair().publicKey;
+
+      const code = parseVerificationCode(createVerificationCode(aliceKey, signingKey));
+
+      expect(code.noisePublicKey).toEqual(aliceKey);
+      expect(code.signingPublicKey).toEqual(signingKey);
+    });
+
+    it('should accept a pasted code with surrounding whitespace', () => {
+      const code = createVerificationCode(aliceKey, bobKey);
+
+      expect(parseVerificationCode(`  ${code}\n`).noisePublicKey).toEqual(aliceKey);
+    });
+
+    it('should reject text that is not a verification code', () => {
+      expect(() => parseVerificationCode('https://example.com')).toThrow('Not a BitChat verification code');
+    });
+
+    it('should reject malformed keys', () => {
+      const code = createVerificationCode(aliceKey, bobKey);
+
+      expect(() => parseVerificationCode(code.slice(0, -2))).toThrow('malformed keys');
+      expect(() => parseVerificationCode(`${code}:00`)).toThrow('malformed keys');
+    });
+  });
+
+  describe('Safety Numbers', () => {
+    it('should give both sides the same number', () => {
+      expect(generateSafetyNumber(aliceKey, bobKey)).toBe(generateSafetyNumber(bobKey, aliceKey));
+    });
+
+    it('should be sixty digits in groups of five', () => {
+      expect(generateSafetyNumber(aliceKey, bobKey)).toMatch(/^\d{5}( \d{5}){11}$/);
+    });
+
+    it('should change when either key does', () => {
+      const malloryKey = KeyManager.generateCurve25519KeyPair().publicKey;
+
+      expect(generateSafetyNumber(aliceKey, malloryKey)).not.toBe(generateSafetyNumber(aliceKey, bobKey));
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { encodeQRCode, QRMatrix, reedSolomonRemainder } from '../../../src/main/verification/QRCode';
+
+const render = (matrix: QRMatrix) => matrix.map((row) => row.map((isDark) => (isDark ? '#' : '.')).join(''));
+
+describe('QRCode', () => {
+  describe('Error Correction', () => {
+    it('should compute Reed-Solomon error correction codewords', () => {
+      // Version 1-M "01234567" example from the QR code specification
+      const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+
+      expect(reedSolomonRemainder(data, 10)).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+    });
+  });
+
+  describe('Encoding', () => {
+    it('should encode short text as a version 1 symbol', () => {
+      expect(render(encodeQRCode('bitchat', 2))).toEqual([
+      '#######..###..#######',
+      '#.....#..####.#.....#',
+      '#.###.#.##.#..#.###.#',
+      '#.###.#.##.#..#.###.#',
+      '#.###.#.#...#.#.###.#',
+      '#.....#.##.#..#.....#',
+      '#######.#.#.#.#######',
+      '........#............',
+      '#.#####..###..#####..',
+      '.#.#...##..#####....#',
+      '###..##..##.#.##.###.',
+      '###.....########.##.#',
+      '...#..#.###.#....#...',
+      '........#...#...###.#',
+      '#######..###.#....##.',
+      '#.....#.#........####',
+      '#.###.#.#..#.#.#...#.',
+      '#.###.#.#..######.#..',
+      '#.###.#.#.#.#.#..#...',
+      '#.....#...######.##..',
+      '#######.#.#.#..##..#.'
+      ]);
+    });
+
+    it('should grow the symbol to fit the text', () => {
+      const code = `bitchat-verify:1:${'ab'.repeat(32)}:${'cd'.repeat(32)}`;
+
+      const matrix = encodeQRCode(code);
+
+      expect(matrix).toHaveLength(49); // version 8
+      expect(matrix.every((row) => row.length === 49)).toBe(true);
+    });
+
+    it('should place finder patterns in three corners', () => {
+      const matrix = encodeQRCode('bitchat');
+      const size = matrix.length;
+      const finder = render(encodeQRCode('bitchat', 0)).slice(0, 7).map((row) => row.slice(0, 7));
+
+      expect(finder).toEqual(['#######', '#.....#', '#.###.#', '#.###.#', '#.###.#', '#.....#', '#######']);
+      expect(render(matrix).slice(0, 7).map((row) => row.slice(size - 7))).toEqual(finder);
+      expect(render(matrix).slice(size - 7).map((row) => row.slice(0, 7))).toEqual(finder);
+    });
+
+    it('should pick the same mask every time', () => {
+      expect(encodeQRCode('bitchat')).toEqual(encodeQRCode('bitchat'));
+    });
+
+    it('should reject text that does not fit', () => {
+      expect(() => encodeQRCode('x'.repeat(300))).toThrow('Too much data for a QR code: 300 bytes');
+    });
+
+    it('should reject an invalid mask', () => {
+      expect(() => encodeQRCode('bitchat', 8)).toThrow('Invalid QR mask: 8');
+    });
+  });
+});